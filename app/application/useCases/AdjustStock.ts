@@ -0,0 +1,7 @@
+import type { Product } from '../../domain/entities/Product';
+import type { StockAdjustmentRequest } from '../../domain/entities/StockMovement';
+import type { StockMovementService } from '../../domain/services/StockMovementService';
+
+export const AdjustStock = (stockMovementService: StockMovementService) => async (productId: string, request: StockAdjustmentRequest): Promise<Product> => {
+  return await stockMovementService.adjustStock(productId, request);
+};
@@ -0,0 +1,6 @@
+import type { CashSession } from '../../domain/entities/CashSession';
+import type { CashSessionService } from '../../domain/services/CashSessionService';
+
+export const CloseCashSession = (cashSessionService: CashSessionService) => async (session: CashSession, countedCash: number, notes: string): Promise<CashSession> => {
+  return await cashSessionService.closeSession(session, countedCash, notes);
+};
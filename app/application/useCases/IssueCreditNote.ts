@@ -0,0 +1,7 @@
+import type { Sale } from '../../domain/entities/Sale';
+import type { CreditNote } from '../../domain/entities/CreditNote';
+import type { CreditNoteService, NewCreditNote } from '../../domain/services/CreditNoteService';
+
+export const IssueCreditNote = (creditNoteService: CreditNoteService) => async (sale: Sale, creditNote: NewCreditNote): Promise<CreditNote> => {
+  return await creditNoteService.issueCreditNote(sale, creditNote);
+};
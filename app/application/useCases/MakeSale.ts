@@ -1,7 +1,8 @@
 import type { Sale } from '../../domain/entities/Sale';
+import type { ElectronicDocumentType } from '../../domain/entities/ElectronicDocument';
 import type { CreateSaleRequest } from '../../domain/repositories/SaleRepository';
 import type { SaleService } from '../../domain/services/SaleService';
 
-export const MakeSale = (saleService: SaleService) => async (saleData: CreateSaleRequest): Promise<Sale> => {
-  return await saleService.makeSale(saleData);
+export const MakeSale = (saleService: SaleService) => async (saleData: CreateSaleRequest, documentType?: ElectronicDocumentType): Promise<Sale> => {
+  return await saleService.makeSale(saleData, documentType);
 }; 
\ No newline at end of file
@@ -1,5 +1,7 @@
-import type { SaleService } from '../../domain/services/SaleService';
+import type { Sale } from '../../domain/entities/Sale';
+import type { ElectronicDocument, ElectronicDocumentType } from '../../domain/entities/ElectronicDocument';
+import type { ElectronicReceiptService } from '../../domain/services/ElectronicReceiptService';
 
-export const MarkSaleAsInvoiced = (saleService: SaleService) => async (saleId: string): Promise<void> => {
-  return await saleService.markAsInvoiced(saleId);
-}; 
\ No newline at end of file
+export const MarkSaleAsInvoiced = (electronicReceiptService: ElectronicReceiptService) => async (sale: Sale, documentType?: ElectronicDocumentType): Promise<ElectronicDocument> => {
+  return await electronicReceiptService.issueForSale(sale, documentType);
+};
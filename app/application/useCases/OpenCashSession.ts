@@ -0,0 +1,6 @@
+import type { CashSession } from '../../domain/entities/CashSession';
+import type { CashSessionService } from '../../domain/services/CashSessionService';
+
+export const OpenCashSession = (cashSessionService: CashSessionService) => async (openingFloat: number): Promise<CashSession> => {
+  return await cashSessionService.openSession(openingFloat);
+};
@@ -0,0 +1,6 @@
+import type { PurchaseOrder, GoodsReceiptItem } from '../../domain/entities/PurchaseOrder';
+import type { PurchaseOrderService } from '../../domain/services/PurchaseOrderService';
+
+export const ReceivePurchaseOrder = (purchaseOrderService: PurchaseOrderService) => async (order: PurchaseOrder, items: GoodsReceiptItem[], notes: string | null): Promise<PurchaseOrder> => {
+  return await purchaseOrderService.receive(order, items, notes);
+};
@@ -0,0 +1,6 @@
+import type { CashSession, CashMovement, CreateCashMovementRequest } from '../../domain/entities/CashSession';
+import type { CashSessionService } from '../../domain/services/CashSessionService';
+
+export const RegisterCashMovement = (cashSessionService: CashSessionService) => async (session: CashSession, request: CreateCashMovementRequest): Promise<CashMovement> => {
+  return await cashSessionService.registerMovement(session, request);
+};
@@ -0,0 +1,7 @@
+import type { Sale } from '../../domain/entities/Sale';
+import type { SaleReturn, CreateSaleReturnRequest } from '../../domain/entities/SaleReturn';
+import type { SaleReturnService } from '../../domain/services/SaleReturnService';
+
+export const RegisterSaleReturn = (saleReturnService: SaleReturnService) => async (sale: Sale, request: CreateSaleReturnRequest): Promise<SaleReturn> => {
+  return await saleReturnService.registerReturn(sale, request);
+};
@@ -0,0 +1,7 @@
+import type { Sale } from '../../domain/entities/Sale';
+import type { AuthUser } from '../../domain/entities/User';
+import type { SaleVoidService, SaleVoidResult } from '../../domain/services/SaleVoidService';
+
+export const VoidSale = (saleVoidService: SaleVoidService) => async (sale: Sale, reason: string, authorizedBy: AuthUser): Promise<SaleVoidResult> => {
+  return await saleVoidService.voidSale(sale, reason, authorizedBy);
+};
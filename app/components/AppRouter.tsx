@@ -5,6 +5,13 @@ import { HomePage } from '../pages/HomePage';
 import { InventoryPage } from '../pages/InventoryPage';
 import { SalesPage } from '../pages/SalesPage';
 import { HistoryPage } from '../pages/HistoryPage';
+import { LayawaysPage } from '../pages/LayawaysPage';
+import { CustomersPage } from '../pages/CustomersPage';
+import { ReceivablesPage } from '../pages/ReceivablesPage';
+import { PurchasesPage } from '../pages/PurchasesPage';
+import { PromotionsPage } from '../pages/PromotionsPage';
+import { GiftCardsPage } from '../pages/GiftCardsPage';
+import { ReportsPage } from '../pages/ReportsPage';
 import { ConfigPage } from '../pages/ConfigPage';
 import { LoginPage } from '../pages/LoginPage';
 import { RegisterPage } from '../pages/RegisterPage';
@@ -150,6 +157,13 @@ export function AppRouter() {
       {currentPage === 'inventario' && <InventoryPage />}
       {currentPage === 'ventas' && <SalesPage />}
       {currentPage === 'historial' && <HistoryPage />}
+      {currentPage === 'apartados' && <LayawaysPage />}
+      {currentPage === 'clientes' && <CustomersPage />}
+      {currentPage === 'cobranzas' && <ReceivablesPage />}
+      {currentPage === 'compras' && <PurchasesPage />}
+      {currentPage === 'promociones' && <PromotionsPage />}
+      {currentPage === 'tarjetas' && <GiftCardsPage />}
+      {currentPage === 'reportes' && <ReportsPage />}
       {currentPage === 'config' && <ConfigPage onConfigured={() => handlePageChange('home')} />}
     </MainLayout>
   );
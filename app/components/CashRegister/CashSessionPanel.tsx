@@ -0,0 +1,317 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import { generateCashSessionReportPDF } from '../../infrastructure/printing/PrintAdapter';
+import { getPaymentMethodLabel } from '../../domain/constants/PaymentMethods';
+import { formatUTCDateToLocal } from '../../utils/dateUtils';
+import type { CashSession, CashSessionSummary, CashMovementType } from '../../domain/entities/CashSession';
+import type { PaymentMethod } from '../../domain/entities/Sale';
+
+type PanelModal = 'open' | 'movement' | 'close' | 'closed' | null;
+
+export function CashSessionPanel() {
+  const {
+    cashSessionService,
+    configRepo,
+    openCashSession,
+    registerCashMovement,
+    closeCashSession
+  } = useAppContext();
+  const [session, setSession] = useState<CashSession | null>(null);
+  const [summary, setSummary] = useState<CashSessionSummary | null>(null);
+  const [closedSession, setClosedSession] = useState<CashSession | null>(null);
+  const [activeModal, setActiveModal] = useState<PanelModal>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Form fields
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementType, setMovementType] = useState<CashMovementType>('out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [closeNotes, setCloseNotes] = useState('');
+
+  const loadSession = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const current = await cashSessionService.getCurrentSession();
+      setSession(current);
+    } catch (error) {
+      console.error('Error loading cash session:', error);
+      setSession(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cashSessionService]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const openModal = async (modal: PanelModal) => {
+    setError('');
+    setActiveModal(modal);
+
+    if (modal === 'close' && session) {
+      try {
+        setSummary(await cashSessionService.getSummary(session));
+      } catch (error) {
+        console.error('Error loading cash summary:', error);
+        setError('Error al calcular el resumen de caja');
+      }
+    }
+  };
+
+  const closeModal = () => {
+    setActiveModal(null);
+    setError('');
+    setOpeningFloat('');
+    setMovementAmount('');
+    setMovementReason('');
+    setCountedCash('');
+    setCloseNotes('');
+  };
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      const opened = await openCashSession(parseFloat(openingFloat) || 0);
+      setSession(opened);
+      closeModal();
+    } catch (err: any) {
+      setError(err.message || 'Error al abrir la caja');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    try {
+      setIsSaving(true);
+      await registerCashMovement(session, {
+        type: movementType,
+        amount: parseFloat(movementAmount) || 0,
+        reason: movementReason
+      });
+      await loadSession();
+      closeModal();
+    } catch (err: any) {
+      setError(err.message || 'Error al registrar el movimiento');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    try {
+      setIsSaving(true);
+      const closed = await closeCashSession(session, countedCash === '' ? NaN : parseFloat(countedCash), closeNotes);
+      setClosedSession(closed);
+      setSession(null);
+      setActiveModal('closed');
+    } catch (err: any) {
+      setError(err.message || 'Error al cerrar la caja');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePrintReport = async () => {
+    if (!closedSession || !summary) return;
+    const config = await configRepo.get();
+    generateCashSessionReportPDF(closedSession, summary, config);
+  };
+
+  const difference = summary && countedCash !== '' ? (parseFloat(countedCash) || 0) - summary.expectedCash : null;
+
+  if (isLoading) {
+    return (
+      <div className="mb-4 flex items-center rounded-lg bg-gray-800 px-4 py-2">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className={`mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg px-4 py-2 ${
+        session ? 'bg-green-900/30 border border-green-800' : 'bg-yellow-900/30 border border-yellow-800'
+      }`}>
+        <div className="text-sm">
+          {session ? (
+            <span className="text-green-300">
+              🟢 Caja abierta desde {formatUTCDateToLocal(session.openedAt)} · Fondo S/ {session.openingFloat.toFixed(2)}
+            </span>
+          ) : (
+            <span className="text-yellow-300">🟡 Caja cerrada. Abre un turno para registrar ventas.</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {session ? (
+            <>
+              <Button size="sm" variant="secondary" onClick={() => openModal('movement')}>
+                Ingreso/Egreso
+              </Button>
+              <Button size="sm" variant="danger" onClick={() => openModal('close')}>
+                Cerrar caja
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" variant="success" onClick={() => openModal('open')}>
+              Abrir caja
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Open shift */}
+      <Modal isOpen={activeModal === 'open'} onClose={closeModal} title="Abrir Caja" size="sm">
+        <form onSubmit={handleOpen} className="space-y-4">
+          <Input
+            label="Fondo inicial (S/)"
+            type="number"
+            min="0"
+            step="0.01"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            placeholder="0.00"
+            helperText="Efectivo con el que inicia el turno"
+            autoFocus
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={closeModal}>Cancelar</Button>
+            <Button type="submit" loading={isSaving} disabled={isSaving}>Abrir caja</Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Cash in / cash out */}
+      <Modal isOpen={activeModal === 'movement'} onClose={closeModal} title="Movimiento de Caja" size="sm">
+        <form onSubmit={handleMovement} className="space-y-4">
+          <Select
+            label="Tipo"
+            value={movementType}
+            onChange={(value) => setMovementType(value as CashMovementType)}
+            options={[
+              { value: 'out', label: 'Egreso (salida de efectivo)' },
+              { value: 'in', label: 'Ingreso (entrada de efectivo)' }
+            ]}
+          />
+          <Input
+            label="Monto (S/)"
+            type="number"
+            min="0"
+            step="0.01"
+            value={movementAmount}
+            onChange={(e) => setMovementAmount(e.target.value)}
+            required
+          />
+          <Input
+            label="Motivo"
+            value={movementReason}
+            onChange={(e) => setMovementReason(e.target.value)}
+            placeholder="Ej: Pago a courier, sencillo del banco"
+            required
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={closeModal}>Cancelar</Button>
+            <Button type="submit" loading={isSaving} disabled={isSaving}>Registrar</Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Close shift */}
+      <Modal isOpen={activeModal === 'close'} onClose={closeModal} title="Cerrar Caja" size="md">
+        {!summary ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner text="Calculando resumen..." />
+          </div>
+        ) : (
+          <form onSubmit={handleClose} className="space-y-4">
+            <div className="rounded-lg bg-gray-700 p-4 text-sm text-gray-200 space-y-1">
+              <div className="flex justify-between"><span>Ventas del turno</span><span>{summary.salesCount}</span></div>
+              {Object.entries(summary.totalsByMethod).map(([method, amount]) => (
+                <div key={method} className="flex justify-between text-gray-400">
+                  <span>{getPaymentMethodLabel(method as PaymentMethod)}</span>
+                  <span>S/ {(amount || 0).toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="border-t border-gray-600 my-2" />
+              <div className="flex justify-between"><span>Fondo inicial</span><span>S/ {summary.openingFloat.toFixed(2)}</span></div>
+              <div className="flex justify-between"><span>(+) Ventas en efectivo</span><span>S/ {summary.cashSales.toFixed(2)}</span></div>
+              <div className="flex justify-between"><span>(+) Ingresos</span><span>S/ {summary.cashIn.toFixed(2)}</span></div>
+              <div className="flex justify-between"><span>(-) Egresos</span><span>S/ {summary.cashOut.toFixed(2)}</span></div>
+              <div className="flex justify-between font-semibold text-white"><span>Efectivo esperado</span><span>S/ {summary.expectedCash.toFixed(2)}</span></div>
+            </div>
+
+            <Input
+              label="Efectivo contado (S/)"
+              type="number"
+              min="0"
+              step="0.01"
+              value={countedCash}
+              onChange={(e) => setCountedCash(e.target.value)}
+              required
+            />
+
+            {difference !== null && (
+              <div className={`text-sm font-semibold ${
+                Math.abs(difference) < 0.005 ? 'text-green-400' : difference > 0 ? 'text-blue-400' : 'text-red-400'
+              }`}>
+                {Math.abs(difference) < 0.005
+                  ? 'Caja cuadrada'
+                  : difference > 0
+                  ? `Sobrante: S/ ${difference.toFixed(2)}`
+                  : `Faltante: S/ ${Math.abs(difference).toFixed(2)}`}
+              </div>
+            )}
+
+            <Input
+              label="Observaciones"
+              value={closeNotes}
+              onChange={(e) => setCloseNotes(e.target.value)}
+              placeholder="Opcional"
+            />
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="secondary" onClick={closeModal}>Cancelar</Button>
+              <Button type="submit" variant="danger" loading={isSaving} disabled={isSaving}>Cerrar caja</Button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      {/* Shift closed */}
+      <Modal isOpen={activeModal === 'closed'} onClose={closeModal} title="Caja Cerrada" size="sm">
+        <div className="space-y-4 text-sm text-gray-200">
+          {closedSession && (
+            <>
+              <p>El turno se cerró correctamente.</p>
+              <div className="flex justify-between"><span>Esperado</span><span>S/ {(closedSession.expectedCash ?? 0).toFixed(2)}</span></div>
+              <div className="flex justify-between"><span>Contado</span><span>S/ {(closedSession.countedCash ?? 0).toFixed(2)}</span></div>
+              <div className="flex justify-between font-semibold"><span>Diferencia</span><span>S/ {(closedSession.difference ?? 0).toFixed(2)}</span></div>
+            </>
+          )}
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" onClick={closeModal}>Cerrar</Button>
+            <Button onClick={handlePrintReport}>Imprimir reporte</Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
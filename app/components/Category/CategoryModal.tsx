@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Modal } from '../UI/Modal';
 import { Button } from '../UI/Button';
 import { Input } from '../UI/Input';
+import { DEFAULT_MIN_STOCK, validateStockLimits } from '../../domain/services/ReorderService';
 import type { Category, CreateCategoryRequest, UpdateCategoryRequest } from '../../domain/entities/Category';
 
 interface CategoryModalProps {
@@ -25,6 +26,8 @@ export function CategoryModal({
 }: CategoryModalProps) {
   const [name, setName] = useState('');
   const [categoryNumber, setCategoryNumber] = useState<number | ''>('');
+  const [minStock, setMinStock] = useState('');
+  const [maxStock, setMaxStock] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -33,9 +36,13 @@ export function CategoryModal({
       if (mode === 'edit' && category) {
         setName(category.name);
         setCategoryNumber(category.categoryNumber);
+        setMinStock(category.minStock != null ? category.minStock.toString() : '');
+        setMaxStock(category.maxStock != null ? category.maxStock.toString() : '');
       } else {
         setName('');
         setCategoryNumber('');
+        setMinStock('');
+        setMaxStock('');
         // Auto-fill next category number for create mode
         if (mode === 'create') {
           onGetNextNumber().then(nextNumber => {
@@ -76,6 +83,14 @@ export function CategoryModal({
       return { isValid: false, error: `Ya existe una categoría con el nombre "${name}"` };
     }
 
+    const stockLimitsError = validateStockLimits(
+      minStock ? Number(minStock) : null,
+      maxStock ? Number(maxStock) : null
+    );
+    if (stockLimitsError) {
+      return { isValid: false, error: stockLimitsError };
+    }
+
     return { isValid: true };
   };
 
@@ -92,7 +107,9 @@ export function CategoryModal({
     try {
       const request = {
         name: name.trim(),
-        categoryNumber: categoryNumber as number
+        categoryNumber: categoryNumber as number,
+        minStock: minStock ? Number(minStock) : null,
+        maxStock: maxStock ? Number(maxStock) : null
       };
 
       await onSave(request);
@@ -148,6 +165,30 @@ export function CategoryModal({
           </p>
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Stock mínimo"
+            type="number"
+            min={0}
+            value={minStock}
+            onChange={(e) => setMinStock(e.target.value)}
+            placeholder={DEFAULT_MIN_STOCK.toString()}
+            disabled={isLoading}
+          />
+          <Input
+            label="Stock máximo"
+            type="number"
+            min={0}
+            value={maxStock}
+            onChange={(e) => setMaxStock(e.target.value)}
+            placeholder="Ej: 60"
+            disabled={isLoading}
+          />
+        </div>
+        <p className="text-xs text-gray-500 -mt-2">
+          Valores por defecto para los productos de la categoría; cada producto puede definir los suyos.
+        </p>
+
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
             {error}
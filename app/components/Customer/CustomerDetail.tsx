@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../UI/Button';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import { summarizePurchases } from '../../domain/services/CustomerService';
+import { LOYALTY_MOVEMENT_LABELS } from '../../domain/services/LoyaltyService';
+import { getSaleDocumentNumber } from '../../domain/services/DocumentSeriesService';
+import { formatUTCDateToLocal } from '../../utils/dateUtils';
+import type { Customer } from '../../domain/entities/Customer';
+import type { LoyaltyMovement } from '../../domain/entities/Loyalty';
+import type { Sale } from '../../domain/entities/Sale';
+
+interface CustomerDetailProps {
+  customer: Customer;
+  onBack: () => void;
+  onEdit: (customer: Customer) => void;
+}
+
+export function CustomerDetail({ customer, onBack, onEdit }: CustomerDetailProps) {
+  const { customerService, loyaltyService } = useAppContext();
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [points, setPoints] = useState<number | null>(null);
+  const [pointMovements, setPointMovements] = useState<LoyaltyMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError('');
+        setSales(await customerService.getPurchaseHistory(customer));
+      } catch (err) {
+        console.error('Error loading customer sales:', err);
+        setError('Error al cargar las compras del cliente');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    // Points are shown apart, so a ledger error does not hide the purchase history
+    const loadPoints = async () => {
+      try {
+        setPoints(await loyaltyService.getBalance(customer));
+        setPointMovements(await loyaltyService.getMovements(customer));
+      } catch (err) {
+        console.error('Error loading customer points:', err);
+        setPoints(null);
+        setPointMovements([]);
+      }
+    };
+    load();
+    loadPoints();
+  }, [customerService, loyaltyService, customer]);
+
+  const summary = summarizePurchases(sales);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <button onClick={onBack} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            ← Volver a clientes
+          </button>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">{customer.name}</h1>
+          <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+            {customer.documentNumber}
+            {customer.phone && ` · Tel. ${customer.phone}`}
+            {customer.email && ` · ${customer.email}`}
+          </p>
+          {customer.address && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{customer.address}</p>
+          )}
+        </div>
+        <Button variant="outline" onClick={() => onEdit(customer)}>
+          Editar
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Compras</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{summary.visits}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Total comprado</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">S/ {summary.totalSpent.toFixed(2)}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Última compra</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {summary.lastPurchase ? formatUTCDateToLocal(summary.lastPurchase).split(' ')[0] : '-'}
+          </p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Puntos</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{points ?? customer.loyaltyPoints ?? 0}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="p-6 flex justify-center">
+            <LoadingSpinner text="Cargando compras..." />
+          </div>
+        ) : sales.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            Este cliente aún no tiene compras registradas.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="px-4 py-2">Fecha</th>
+                  <th className="px-4 py-2">Comprobante</th>
+                  <th className="px-4 py-2">Productos</th>
+                  <th className="px-4 py-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                {sales.map(sale => (
+                  <tr key={sale.id}>
+                    <td className="px-4 py-2 whitespace-nowrap">{formatUTCDateToLocal(sale.date)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {getSaleDocumentNumber(sale) || 'Sin número'}
+                      {sale.voided && <span className="ml-2 text-xs text-red-500">Anulada</span>}
+                    </td>
+                    <td className="px-4 py-2">
+                      {sale.items.map(item => `${item.quantity} x ${item.name}`).join(', ')}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">S/ {sale.total.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {pointMovements.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+          <h3 className="px-4 pt-4 text-base font-semibold text-gray-900 dark:text-white">Movimientos de puntos</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="px-4 py-2">Fecha</th>
+                  <th className="px-4 py-2">Operación</th>
+                  <th className="px-4 py-2 text-right">Puntos</th>
+                  <th className="px-4 py-2 text-right">Saldo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                {pointMovements.map(movement => (
+                  <tr key={movement.id}>
+                    <td className="px-4 py-2 whitespace-nowrap">{formatUTCDateToLocal(movement.date)}</td>
+                    <td className="px-4 py-2">
+                      {LOYALTY_MOVEMENT_LABELS[movement.type]}
+                      {movement.reference && <span className="text-xs text-gray-500"> · {movement.reference}</span>}
+                      {movement.expiresAt && <span className="text-xs text-gray-500"> · vence {movement.expiresAt}</span>}
+                    </td>
+                    <td className={`px-4 py-2 text-right ${movement.points < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                      {movement.points > 0 ? '+' : ''}{movement.points}
+                    </td>
+                    <td className="px-4 py-2 text-right">{movement.balanceAfter}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import type { Customer, CreateCustomerRequest } from '../../domain/entities/Customer';
+
+interface CustomerFormProps {
+  isOpen: boolean;
+  customer: Customer | null;
+  onClose: () => void;
+  onSave: (request: CreateCustomerRequest) => Promise<void>;
+}
+
+const EMPTY_FORM = {
+  documentNumber: '',
+  name: '',
+  phone: '',
+  email: '',
+  address: ''
+};
+
+export function CustomerForm({ isOpen, customer, onClose, onSave }: CustomerFormProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(customer
+      ? {
+          documentNumber: customer.documentNumber,
+          name: customer.name,
+          phone: customer.phone || '',
+          email: customer.email || '',
+          address: customer.address || ''
+        }
+      : EMPTY_FORM);
+    setError('');
+  }, [isOpen, customer]);
+
+  const handleChange = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await onSave({
+        documentNumber: form.documentNumber,
+        name: form.name,
+        phone: form.phone || null,
+        email: form.email || null,
+        address: form.address || null
+      });
+    } catch (err: any) {
+      setError(err.message || 'Error al guardar el cliente');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={customer ? 'Editar Cliente' : 'Nuevo Cliente'} size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="DNI/RUC *"
+            value={form.documentNumber}
+            onChange={(e) => handleChange('documentNumber', e.target.value)}
+            placeholder="8 u 11 dígitos"
+            required
+          />
+          <Input
+            label="Nombre o razón social *"
+            value={form.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+            required
+          />
+          <Input
+            label="Teléfono"
+            value={form.phone}
+            onChange={(e) => handleChange('phone', e.target.value)}
+            placeholder="987654321"
+            helperText="Se usa para contactar por WhatsApp"
+          />
+          <Input
+            label="Correo electrónico"
+            type="email"
+            value={form.email}
+            onChange={(e) => handleChange('email', e.target.value)}
+          />
+        </div>
+        <Input
+          label="Dirección"
+          value={form.address}
+          onChange={(e) => handleChange('address', e.target.value)}
+        />
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isSaving}>
+            Guardar
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import { DOCUMENT_TYPE_LABELS, formatDocumentId } from '../../domain/services/DocumentSeriesService';
+import type { DocumentSeries, DocumentSeriesType } from '../../domain/entities/DocumentSeries';
+
+const SERIES_PLACEHOLDERS: Record<DocumentSeriesType, string> = {
+  '01': 'F001',
+  '03': 'B001',
+  '07': 'BC01'
+};
+
+export function DocumentSeriesManagement() {
+  const { documentSeriesService } = useAppContext();
+  const [seriesList, setSeriesList] = useState<DocumentSeries[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [documentType, setDocumentType] = useState<DocumentSeriesType>('03');
+  const [seriesCode, setSeriesCode] = useState('');
+
+  const loadSeries = async () => {
+    try {
+      setIsLoading(true);
+      setSeriesList(await documentSeriesService.getAllSeries());
+    } catch (err) {
+      console.error('Error loading document series:', err);
+      setError('Error al cargar las series');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSeries();
+  }, [documentSeriesService]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      setIsSaving(true);
+      await action();
+      await loadSeries();
+    } catch (err: any) {
+      setError(err.message || 'Error al guardar la serie');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await documentSeriesService.createSeries({ documentType, series: seriesCode, isDefault: false });
+      setSeriesCode('');
+    });
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-sm p-4 md:p-8">
+      <h3 className="text-base md:text-lg font-semibold text-white mb-1">
+        Series de comprobantes
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Cada venta recibe el siguiente número correlativo de la serie por defecto (ej. B001-00000001).
+        Las notas de crédito usan una serie propia que empieza con la letra del comprobante que corrigen (ej. BC01, FC01).
+      </p>
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end mb-4">
+        <Select
+          label="Tipo"
+          value={documentType}
+          onChange={(value) => setDocumentType(value as DocumentSeriesType)}
+          options={[
+            { value: '03', label: DOCUMENT_TYPE_LABELS['03'] },
+            { value: '01', label: DOCUMENT_TYPE_LABELS['01'] },
+            { value: '07', label: DOCUMENT_TYPE_LABELS['07'] }
+          ]}
+        />
+        <Input
+          label="Serie"
+          value={seriesCode}
+          onChange={(e) => setSeriesCode(e.target.value.toUpperCase())}
+          placeholder={SERIES_PLACEHOLDERS[documentType]}
+          maxLength={4}
+          required
+        />
+        <Button type="submit" loading={isSaving} disabled={isSaving}>
+          Agregar serie
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : seriesList.length === 0 ? (
+        <p className="text-sm text-yellow-400">
+          No hay series configuradas. Agregue al menos una serie de boletas para poder registrar ventas.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-700">
+          {seriesList.map(series => (
+            <div key={series.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+              <div className="text-sm">
+                <span className={`font-mono font-semibold ${series.active ? 'text-white' : 'text-gray-500 line-through'}`}>
+                  {series.series}
+                </span>
+                <span className="ml-2 text-gray-400">{DOCUMENT_TYPE_LABELS[series.documentType]}</span>
+                {series.isDefault && (
+                  <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                    Por defecto
+                  </span>
+                )}
+                <div className="text-xs text-gray-500">
+                  Último emitido: {series.lastCorrelative > 0 ? formatDocumentId(series.series, series.lastCorrelative) : 'ninguno'}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {!series.isDefault && series.active && (
+                  <Button size="sm" variant="outline" disabled={isSaving} onClick={() => runAction(() => documentSeriesService.setDefault(series))}>
+                    Usar por defecto
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={isSaving}
+                  onClick={() => runAction(() => documentSeriesService.setActive(series, !series.active))}
+                >
+                  {series.active ? 'Desactivar' : 'Activar'}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -169,6 +169,11 @@ export function ExcelImportModal({ isOpen, onClose, onImport, onRefreshProducts
               <p className="text-lg text-green-700 dark:text-green-300 mb-2">
                 Se importaron productos correctamente.
               </p>
+              {!!importResult?.stylesCreated && (
+                <p className="text-sm text-green-700 dark:text-green-300 mb-2">
+                  {importResult.stylesCreated} estilos con {importResult.variantsCreated || 0} variantes (talla/color)
+                </p>
+              )}
               <div className="bg-green-100 dark:bg-green-800 p-3 rounded-lg">
                 <p className="text-sm text-green-700 dark:text-green-300 font-medium">
                   🔄 La tabla de inventario se ha actualizado
@@ -246,6 +251,7 @@ export function ExcelImportModal({ isOpen, onClose, onImport, onRefreshProducts
                 <li>• <strong>Categorías automáticas:</strong> Si el número de categoría no existe y proporcionas un nombre, se creará automáticamente</li>
                 <li>• Si la categoría existe, se usará la existente (se ignora el nombre proporcionado)</li>
                 <li>• Los campos obligatorios son: Nombre, Precio, Categoria_Numero, Stock</li>
+                <li>• <strong>Variantes:</strong> Las filas con el mismo Estilo se agrupan como un solo producto con una variante por Talla y Color (cada una con su propio SKU y stock)</li>
               </ul>
             </div>
 
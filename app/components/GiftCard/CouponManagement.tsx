@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { useAppContext } from '../../context/AppContext';
+import { describeCoupon, getCouponProblem } from '../../domain/services/CouponService';
+import type { Coupon, CouponDiscountType, CreateCouponRequest } from '../../domain/entities/Coupon';
+
+interface CouponManagementProps {
+  coupons: Coupon[];
+  onChange: () => Promise<void>;
+}
+
+interface CouponFormState {
+  code: string;
+  discountType: CouponDiscountType;
+  value: string;
+  singleUse: boolean;
+  maxUses: string;
+  expiresAt: string;
+}
+
+const EMPTY_COUPON: CouponFormState = {
+  code: '',
+  discountType: 'percent',
+  value: '',
+  singleUse: true,
+  maxUses: '',
+  expiresAt: ''
+};
+
+export function CouponManagement({ coupons, onChange }: CouponManagementProps) {
+  const { couponService } = useAppContext();
+  const [formData, setFormData] = useState<CouponFormState>(EMPTY_COUPON);
+  const [editing, setEditing] = useState<Coupon | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleChange = (field: keyof CouponFormState, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_COUPON);
+    setEditing(null);
+    setError('');
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditing(coupon);
+    setFormData({
+      code: coupon.code,
+      discountType: coupon.discountType,
+      value: String(coupon.value),
+      singleUse: coupon.maxUses === 1,
+      maxUses: coupon.maxUses != null && coupon.maxUses !== 1 ? String(coupon.maxUses) : '',
+      expiresAt: coupon.expiresAt || ''
+    });
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const request: CreateCouponRequest = {
+      code: formData.code,
+      discountType: formData.discountType,
+      value: parseFloat(formData.value) || 0,
+      // Multi-use coupons without a limit can be used any number of times
+      maxUses: formData.singleUse ? 1 : (formData.maxUses.trim() ? parseInt(formData.maxUses) : null),
+      expiresAt: formData.expiresAt || null,
+      active: editing ? editing.active : true
+    };
+    try {
+      setIsSaving(true);
+      await couponService.saveCoupon(request, editing?.id);
+      resetForm();
+      await onChange();
+    } catch (err: any) {
+      setError(err.message || 'Error al guardar el cupón');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await onChange();
+    } catch (err: any) {
+      alert(err.message || 'Error al actualizar el cupón');
+    }
+  };
+
+  const handleDelete = (coupon: Coupon) => {
+    if (window.confirm(`¿Eliminar el cupón ${coupon.code}?`)) {
+      runAction(() => couponService.deleteCoupon(coupon.id));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-sm space-y-4">
+        <h3 className="text-base md:text-lg font-semibold text-gray-900 dark:text-white">
+          {editing ? 'Editar Cupón' : 'Nuevo Cupón'}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Input
+            label="Código *"
+            value={formData.code}
+            onChange={(e) => handleChange('code', e.target.value.toUpperCase())}
+            placeholder="Ej: NAVIDAD10"
+            required
+          />
+          <Select
+            label="Tipo"
+            value={formData.discountType}
+            onChange={(value) => handleChange('discountType', value)}
+            options={[
+              { value: 'percent', label: 'Porcentaje (%)' },
+              { value: 'amount', label: 'Monto fijo (S/)' }
+            ]}
+          />
+          <Input
+            label={formData.discountType === 'percent' ? 'Descuento (%) *' : 'Descuento (S/) *'}
+            type="number"
+            min="0"
+            step="0.01"
+            value={formData.value}
+            onChange={(e) => handleChange('value', e.target.value)}
+            required
+          />
+          <Input
+            label="Vence el"
+            type="date"
+            value={formData.expiresAt}
+            onChange={(e) => handleChange('expiresAt', e.target.value)}
+            helperText="Vacío: no vence"
+          />
+          <div className="flex items-center gap-2 pt-6 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              id="coupon-single-use"
+              type="checkbox"
+              checked={formData.singleUse}
+              onChange={(e) => handleChange('singleUse', e.target.checked)}
+            />
+            <label htmlFor="coupon-single-use">Un solo uso</label>
+          </div>
+          {!formData.singleUse && (
+            <Input
+              label="Máximo de usos"
+              type="number"
+              min="1"
+              value={formData.maxUses}
+              onChange={(e) => handleChange('maxUses', e.target.value)}
+              helperText="Vacío: ilimitado"
+            />
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          {editing && (
+            <Button type="button" variant="secondary" onClick={resetForm}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" loading={isSaving} disabled={isSaving}>
+            {editing ? 'Guardar Cambios' : 'Crear Cupón'}
+          </Button>
+        </div>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        {coupons.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            Aún no hay cupones registrados.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {coupons.map(coupon => {
+              const problem = getCouponProblem(coupon);
+              return (
+                <div key={coupon.id} className="flex flex-wrap items-center justify-between gap-2 p-4">
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold text-gray-900 dark:text-white">{coupon.code}</span>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                        problem
+                          ? 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                          : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                      }`}>
+                        {problem ? 'No disponible' : 'Vigente'}
+                      </span>
+                    </div>
+                    <div className="text-gray-500 dark:text-gray-400">
+                      {describeCoupon(coupon)}
+                      {` · Usado ${coupon.timesUsed}${coupon.maxUses != null ? ` de ${coupon.maxUses}` : ''} ${coupon.timesUsed === 1 ? 'vez' : 'veces'}`}
+                      {coupon.expiresAt ? ` · Vence ${coupon.expiresAt}` : ''}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => handleEdit(coupon)}>
+                      Editar
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => runAction(() => couponService.setActive(coupon, !coupon.active))}
+                    >
+                      {coupon.active ? 'Desactivar' : 'Activar'}
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(coupon)}>
+                      Eliminar
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { useAppContext } from '../../context/AppContext';
+import { PAYMENT_METHODS } from '../../domain/constants/PaymentMethods';
+import {
+  GIFT_CARD_MOVEMENT_LABELS,
+  generateGiftCardCode,
+  isGiftCardExpired
+} from '../../domain/services/GiftCardService';
+import { formatUTCDateToLocal } from '../../utils/dateUtils';
+import type { GiftCard, GiftCardMovement } from '../../domain/entities/GiftCard';
+import type { PaymentMethod } from '../../domain/entities/Sale';
+
+interface GiftCardManagementProps {
+  cards: GiftCard[];
+  onChange: () => Promise<void>;
+}
+
+const EMPTY_CARD = {
+  code: '',
+  amount: '',
+  buyerName: '',
+  expiresAt: '',
+  paymentMethod: 'cash' as PaymentMethod
+};
+
+export function GiftCardManagement({ cards, onChange }: GiftCardManagementProps) {
+  const { giftCardService } = useAppContext();
+  const [formData, setFormData] = useState(EMPTY_CARD);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [issuedCard, setIssuedCard] = useState<GiftCard | null>(null);
+  const [lookupCode, setLookupCode] = useState('');
+  const [lookupError, setLookupError] = useState('');
+  const [selectedCard, setSelectedCard] = useState<GiftCard | null>(null);
+  const [movements, setMovements] = useState<GiftCardMovement[]>([]);
+
+  const handleChange = (field: keyof typeof EMPTY_CARD, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const showCard = async (card: GiftCard) => {
+    try {
+      setSelectedCard(card);
+      setMovements(await giftCardService.getMovements(card));
+    } catch (err) {
+      console.error('Error loading gift card movements:', err);
+      setMovements([]);
+    }
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      const card = await giftCardService.issueCard({
+        code: formData.code,
+        amount: parseFloat(formData.amount) || 0,
+        buyerName: formData.buyerName,
+        expiresAt: formData.expiresAt || null,
+        paymentMethod: formData.paymentMethod
+      });
+      setIssuedCard(card);
+      setFormData(EMPTY_CARD);
+      await onChange();
+    } catch (err: any) {
+      setError(err.message || 'Error al emitir la tarjeta');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLookupError('');
+    if (!lookupCode.trim()) return;
+    try {
+      const card = await giftCardService.findByCode(lookupCode);
+      if (!card) {
+        setSelectedCard(null);
+        setLookupError(`Tarjeta no encontrada: ${lookupCode}`);
+        return;
+      }
+      await showCard(card);
+    } catch (err: any) {
+      setLookupError(err.message || 'Error al consultar la tarjeta');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Issue */}
+        <form onSubmit={handleIssue} className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-sm space-y-4">
+          <h3 className="text-base md:text-lg font-semibold text-gray-900 dark:text-white">Emitir Tarjeta de Regalo</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Monto (S/) *"
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.amount}
+              onChange={(e) => handleChange('amount', e.target.value)}
+              required
+            />
+            <Select
+              label="Pagado con"
+              value={formData.paymentMethod}
+              onChange={(value) => handleChange('paymentMethod', value)}
+              options={PAYMENT_METHODS
+                .filter(method => !['gift_card', 'points', 'credit'].includes(method.value))
+                .map(method => ({ value: method.value, label: method.label }))}
+            />
+            <Input
+              label="Comprador"
+              value={formData.buyerName}
+              onChange={(e) => handleChange('buyerName', e.target.value)}
+              placeholder="Nombre (opcional)"
+            />
+            <Input
+              label="Vence el"
+              type="date"
+              value={formData.expiresAt}
+              onChange={(e) => handleChange('expiresAt', e.target.value)}
+              helperText="Vacío: no vence"
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <Input
+              label="Código"
+              value={formData.code}
+              onChange={(e) => handleChange('code', e.target.value.toUpperCase())}
+              placeholder="Se genera automáticamente"
+            />
+            <Button type="button" variant="secondary" onClick={() => handleChange('code', generateGiftCardCode())}>
+              Generar
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {issuedCard && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md text-sm">
+              Tarjeta <span className="font-mono font-semibold">{issuedCard.code}</span> emitida por S/ {issuedCard.initialAmount.toFixed(2)}.
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={isSaving} disabled={isSaving}>
+              Emitir Tarjeta
+            </Button>
+          </div>
+        </form>
+
+        {/* Balance lookup */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-sm space-y-4">
+          <h3 className="text-base md:text-lg font-semibold text-gray-900 dark:text-white">Consultar Saldo</h3>
+          <form onSubmit={handleLookup} className="flex items-end gap-2">
+            <Input
+              label="Código de tarjeta"
+              value={lookupCode}
+              onChange={(e) => setLookupCode(e.target.value.toUpperCase())}
+              placeholder="GC-XXXX-XXXX"
+            />
+            <Button type="submit" variant="secondary">
+              Consultar
+            </Button>
+          </form>
+          {lookupError && <p className="text-sm text-red-500">{lookupError}</p>}
+
+          {selectedCard && (
+            <div className="space-y-3 text-sm">
+              <div className="flex justify-between items-baseline">
+                <span className="font-mono font-semibold text-gray-900 dark:text-white">{selectedCard.code}</span>
+                <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                  S/ {selectedCard.balance.toFixed(2)}
+                </span>
+              </div>
+              <div className="text-gray-500 dark:text-gray-400">
+                {selectedCard.buyerName || 'Sin comprador'} · Emitida por S/ {selectedCard.initialAmount.toFixed(2)}
+                {selectedCard.expiresAt && ` · ${isGiftCardExpired(selectedCard) ? 'Venció' : 'Vence'} ${selectedCard.expiresAt}`}
+              </div>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                    <th className="py-1 pr-2">Fecha</th>
+                    <th className="py-1 px-2">Operación</th>
+                    <th className="py-1 px-2 text-right">Monto</th>
+                    <th className="py-1 pl-2 text-right">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900 dark:text-white">
+                  {movements.map(movement => (
+                    <tr key={movement.id}>
+                      <td className="py-1 pr-2">{formatUTCDateToLocal(movement.date)}</td>
+                      <td className="py-1 px-2">
+                        {GIFT_CARD_MOVEMENT_LABELS[movement.type]}
+                        {movement.reference && <span className="text-xs text-gray-500"> · {movement.reference}</span>}
+                      </td>
+                      <td className={`py-1 px-2 text-right ${movement.type === 'redeem' ? 'text-red-500' : 'text-green-500'}`}>
+                        {movement.type === 'redeem' ? '-' : '+'}S/ {movement.amount.toFixed(2)}
+                      </td>
+                      <td className="py-1 pl-2 text-right">S/ {movement.balanceAfter.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Issued cards */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        {cards.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            Aún no se han emitido tarjetas de regalo.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="px-4 py-2">Código</th>
+                  <th className="px-4 py-2">Comprador</th>
+                  <th className="px-4 py-2">Emitida</th>
+                  <th className="px-4 py-2 text-right">Monto</th>
+                  <th className="px-4 py-2 text-right">Saldo</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                {cards.map(card => (
+                  <tr key={card.id}>
+                    <td className="px-4 py-2 font-mono">{card.code}</td>
+                    <td className="px-4 py-2">{card.buyerName || '-'}</td>
+                    <td className="px-4 py-2">{formatUTCDateToLocal(card.issuedAt).split(' ')[0]}</td>
+                    <td className="px-4 py-2 text-right">S/ {card.initialAmount.toFixed(2)}</td>
+                    <td className={`px-4 py-2 text-right ${isGiftCardExpired(card) ? 'text-gray-400 line-through' : ''}`}>
+                      S/ {card.balance.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Button size="sm" variant="outline" onClick={() => showCard(card)}>
+                        Movimientos
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
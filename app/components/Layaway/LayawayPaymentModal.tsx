@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { COUNTER_PAYMENT_METHODS, PAYMENT_METHODS } from '../../domain/constants/PaymentMethods';
+import { formatLayawayNumber, getLayawayBalance } from '../../domain/services/LayawayService';
+import type { LayawayPaymentInput } from '../../domain/services/LayawayService';
+import type { Layaway } from '../../domain/entities/Layaway';
+import type { PaymentMethod } from '../../domain/entities/Sale';
+
+interface LayawayPaymentModalProps {
+  layaway: Layaway | null;
+  onClose: () => void;
+  onSave: (layaway: Layaway, payment: LayawayPaymentInput) => Promise<void>;
+}
+
+export function LayawayPaymentModal({ layaway, onClose, onSave }: LayawayPaymentModalProps) {
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!layaway) return;
+    setAmount('');
+    setMethod('cash');
+    setReference('');
+    setError('');
+  }, [layaway]);
+
+  if (!layaway) return null;
+  const balance = getLayawayBalance(layaway);
+  const referenceLabel = PAYMENT_METHODS.find(m => m.value === method)?.referenceLabel;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await onSave(layaway, { method, amount: parseFloat(amount) || 0, reference: reference.trim() || null });
+    } catch (err: any) {
+      setError(err.message || 'Error al registrar el abono');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!layaway} onClose={onClose} title={`Abono a ${formatLayawayNumber(layaway.number)}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {layaway.clientName} · Saldo pendiente: <span className="font-semibold">S/ {balance.toFixed(2)}</span>
+        </p>
+        <div className="flex items-end gap-2">
+          <Input
+            label="Monto (S/) *"
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            required
+          />
+          <Button type="button" variant="secondary" onClick={() => setAmount(balance.toFixed(2))}>
+            Saldo total
+          </Button>
+        </div>
+        <Select
+          label="Medio de pago"
+          value={method}
+          onChange={(value) => setMethod(value as PaymentMethod)}
+          options={PAYMENT_METHODS
+            .filter(m => COUNTER_PAYMENT_METHODS.includes(m.value))
+            .map(m => ({ value: m.value, label: m.label }))}
+        />
+        {referenceLabel && (
+          <Input
+            label={referenceLabel}
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        )}
+        {(parseFloat(amount) || 0) >= balance - 0.005 && (
+          <p className="text-sm text-green-700 dark:text-green-400">
+            Este abono completa el pago: se emitirá la venta y se entregará la mercadería.
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isSaving} disabled={isSaving}>
+            Registrar Abono
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { StockAlertCenter } from '../Product/StockAlertCenter';
 
 interface HeaderProps {
   onToggleSidebar: () => void;
@@ -6,47 +8,98 @@ interface HeaderProps {
 }
 
 export function Header({ onToggleSidebar, currentPage }: HeaderProps) {
+  const { reorderService } = useAppContext();
+  const [lowStockCount, setLowStockCount] = useState(0);
+  const [showAlerts, setShowAlerts] = useState(false);
+
+  // Refreshed on navigation so sales, adjustments and receipts are reflected
+  const loadLowStockCount = async () => {
+    try {
+      const suggestions = await reorderService.getReorderSuggestions();
+      setLowStockCount(suggestions.length);
+    } catch (error) {
+      console.error('Error loading stock alerts:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadLowStockCount();
+  }, [reorderService, currentPage]);
+
+  const handleCloseAlerts = () => {
+    setShowAlerts(false);
+    loadLowStockCount();
+  };
+
   const getPageTitle = () => {
     const titles: Record<string, string> = {
       home: 'Inicio',
       inventario: 'Gestión de Inventario',
       ventas: 'Nueva Venta',
       historial: 'Historial de Ventas',
+      apartados: 'Apartados',
+      clientes: 'Directorio de Clientes',
+      cobranzas: 'Cuentas por Cobrar',
+      compras: 'Compras a Proveedores',
+      promociones: 'Promociones',
+      tarjetas: 'Cupones y Tarjetas de Regalo',
+      reportes: 'Reportes de Ganancia',
       config: 'Configuración'
     };
     return titles[currentPage] || 'SICUA';
   };
 
   return (
-    <header className="fixed top-0 left-0 right-0 z-30 bg-gray-800 shadow-sm lg:left-64">
-      <div className="flex h-16 items-center justify-between px-4 lg:px-6">
-        {/* Mobile menu button */}
-        <button
-          onClick={onToggleSidebar}
-          className="inline-flex items-center justify-center rounded-lg p-2 text-sm text-gray-400 hover:bg-gray-700 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-300 lg:hidden"
-        >
-          <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-          </svg>
-        </button>
-
-        {/* Page title */}
-        <div className="flex items-center">
-          <h1 className="text-xl font-semibold text-white">
-            {getPageTitle()}
-          </h1>
-        </div>
-
-        {/* Right side actions */}
-        <div className="flex items-center gap-2">
-          {/* Dark mode toggle placeholder */}
-          <button className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-white">
-            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+    <>
+      <header className="fixed top-0 left-0 right-0 z-30 bg-gray-800 shadow-sm lg:left-64">
+        <div className="flex h-16 items-center justify-between px-4 lg:px-6">
+          {/* Mobile menu button */}
+          <button
+            onClick={onToggleSidebar}
+            className="inline-flex items-center justify-center rounded-lg p-2 text-sm text-gray-400 hover:bg-gray-700 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-300 lg:hidden"
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
             </svg>
           </button>
+
+          {/* Page title */}
+          <div className="flex items-center">
+            <h1 className="text-xl font-semibold text-white">
+              {getPageTitle()}
+            </h1>
+          </div>
+
+          {/* Right side actions */}
+          <div className="flex items-center gap-2">
+            {/* Low-stock alerts */}
+            <button
+              onClick={() => setShowAlerts(true)}
+              className="relative rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-white"
+              title="Alertas de stock"
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+              </svg>
+              {lowStockCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-600 px-1 text-xs font-semibold text-white">
+                  {lowStockCount > 99 ? '99+' : lowStockCount}
+                </span>
+              )}
+            </button>
+
+            {/* Dark mode toggle placeholder */}
+            <button className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-white">
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+              </svg>
+            </button>
+          </div>
         </div>
-      </div>
-    </header>
+      </header>
+
+      {/* Rendered outside the header so the modal is not trapped under the sidebar */}
+      <StockAlertCenter isOpen={showAlerts} onClose={handleCloseAlerts} />
+    </>
   );
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { CashSessionPanel } from '../CashRegister/CashSessionPanel';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -46,6 +47,7 @@ export function MainLayout({ children, currentPage, onPageChange, onLogout }: Ma
         {/* Main content area */}
         <main className="flex-1 overflow-auto pt-16 lg:ml-64">
           <div className="container mx-auto p-4 lg:p-6">
+            <CashSessionPanel />
             {children}
           </div>
         </main>
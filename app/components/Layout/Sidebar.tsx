@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { getCartUnits } from '../../domain/services/ParkedCartService';
 
 interface SidebarProps {
   currentPage: string;
@@ -11,10 +13,40 @@ const NAVIGATION_ITEMS = [
   { key: 'inventario', label: 'Inventario', icon: '📦' },
   { key: 'ventas', label: 'Nueva Venta', icon: '🧾' },
   { key: 'historial', label: 'Historial', icon: '📜' },
+  { key: 'apartados', label: 'Apartados', icon: '🧺' },
+  { key: 'clientes', label: 'Clientes', icon: '👥' },
+  { key: 'cobranzas', label: 'Cuentas por Cobrar', icon: '📒' },
+  { key: 'compras', label: 'Compras', icon: '🚚' },
+  { key: 'promociones', label: 'Promociones', icon: '🏷️' },
+  { key: 'tarjetas', label: 'Cupones y Tarjetas', icon: '🎁' },
+  { key: 'reportes', label: 'Reportes', icon: '📊' },
   { key: 'config', label: 'Configuración', icon: '⚙️' },
 ];
 
 export function Sidebar({ currentPage, onPageChange, onLogout }: SidebarProps) {
+  const { parkedCartService } = useAppContext();
+  const [draftUnits, setDraftUnits] = useState(0);
+  const [parkedCount, setParkedCount] = useState(0);
+
+  // Carts live in this browser: re-read them on every navigation and when another tab changes them
+  useEffect(() => {
+    const loadCarts = async () => {
+      try {
+        const [draft, parked] = await Promise.all([parkedCartService.getDraft(), parkedCartService.getParkedCarts()]);
+        setDraftUnits(draft ? getCartUnits(draft) : 0);
+        setParkedCount(parked.length);
+      } catch (error) {
+        console.error('Error loading carts for the sidebar:', error);
+      }
+    };
+
+    loadCarts();
+    window.addEventListener('storage', loadCarts);
+    return () => window.removeEventListener('storage', loadCarts);
+  }, [currentPage, parkedCartService]);
+
+  const pendingCarts = (draftUnits ? 1 : 0) + parkedCount;
+
   return (
     <aside className="h-full w-64 bg-gray-800 shadow-lg">
       <div className="flex h-full flex-col">
@@ -38,8 +70,28 @@ export function Sidebar({ currentPage, onPageChange, onLogout }: SidebarProps) {
             >
               <span className="text-lg">{navItem.icon}</span>
               <span className="truncate">{navItem.label}</span>
+              {navItem.key === 'ventas' && pendingCarts > 0 && (
+                <span
+                  className="ml-auto rounded-full bg-yellow-500 px-2 py-0.5 text-xs font-semibold text-gray-900"
+                  title={pendingCarts === 1 ? '1 carrito pendiente' : `${pendingCarts} carritos pendientes`}
+                >
+                  {pendingCarts}
+                </span>
+              )}
             </button>
           ))}
+
+          {/* A sale left half-way on another screen: one click takes the cashier back to it */}
+          {draftUnits > 0 && currentPage !== 'ventas' && (
+            <button
+              className="flex w-full items-center gap-3 rounded-lg border border-yellow-600 bg-yellow-900/30 px-3 py-2.5 text-sm font-medium text-yellow-300 transition-all duration-200 hover:bg-yellow-900/50"
+              onClick={() => onPageChange('ventas')}
+              title="Retomar la venta en curso"
+            >
+              <span className="text-lg">🛒</span>
+              <span className="truncate">Venta en curso ({draftUnits} und.)</span>
+            </button>
+          )}
         </nav>
         
         {/* Footer */}
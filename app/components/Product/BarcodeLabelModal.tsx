@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { getVariantLabel } from '../../domain/services/ProductStyleService';
+import { canEncodeCode128 } from '../../infrastructure/barcode/BarcodeEncoder';
+import { LABEL_PRESETS, generateBarcodeLabelsPDF } from '../../infrastructure/printing/LabelPrintAdapter';
+import type { BarcodeSymbology } from '../../infrastructure/barcode/BarcodeEncoder';
+import type { LabelPreset } from '../../infrastructure/printing/LabelPrintAdapter';
+import { isValidEan13 } from '../../utils/ean13';
+import type { Product } from '../../domain/entities/Product';
+
+interface BarcodeLabelModalProps {
+  isOpen: boolean;
+  products: Product[];
+  onClose: () => void;
+}
+
+const SYMBOLOGY_OPTIONS: Array<{ value: BarcodeSymbology; label: string }> = [
+  { value: 'code128', label: 'Code 128 (cualquier código)' },
+  { value: 'ean13', label: 'EAN-13 (códigos de 12 o 13 dígitos)' }
+];
+
+/**
+ * Barcode labels for the selected products; copies default to the units in stock
+ */
+export function BarcodeLabelModal({ isOpen, products, onClose }: BarcodeLabelModalProps) {
+  const [copies, setCopies] = useState<Record<string, string>>({});
+  const [preset, setPreset] = useState<LabelPreset>('a4');
+  const [symbology, setSymbology] = useState<BarcodeSymbology>('code128');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const initial: Record<string, string> = {};
+    products.forEach(p => { initial[p.productId] = Math.max(p.quantity, 0).toString(); });
+    setCopies(initial);
+    setError('');
+  }, [isOpen]);
+
+  const totalLabels = products.reduce((sum, p) => sum + (parseInt(copies[p.productId]) || 0), 0);
+
+  const handleGenerate = () => {
+    setError('');
+    const labels = products
+      .map(product => ({ product, copies: parseInt(copies[product.productId]) || 0 }))
+      .filter(label => label.copies > 0);
+    if (!labels.length) {
+      setError('Indique al menos una copia');
+      return;
+    }
+
+    const canEncode = symbology === 'ean13' ? isValidEan13 : canEncodeCode128;
+    const invalid = labels.filter(label => !canEncode(label.product.productId)).map(label => label.product.productId);
+    if (invalid.length) {
+      setError(symbology === 'ean13'
+        ? `Estos códigos no son EAN-13 válidos: ${invalid.join(', ')}. Use Code 128.`
+        : `Estos códigos tienen caracteres no imprimibles en Code 128 (tildes o ñ): ${invalid.join(', ')}`);
+      return;
+    }
+
+    if (generateBarcodeLabelsPDF(labels, preset, symbology)) onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Imprimir Etiquetas" size="lg">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Select
+            label="Formato"
+            value={preset}
+            onChange={(value) => setPreset(value as LabelPreset)}
+            options={(Object.keys(LABEL_PRESETS) as LabelPreset[]).map(key => ({ value: key, label: LABEL_PRESETS[key].label }))}
+          />
+          <Select
+            label="Código de barras"
+            value={symbology}
+            onChange={(value) => setSymbology(value as BarcodeSymbology)}
+            options={SYMBOLOGY_OPTIONS}
+          />
+        </div>
+
+        <div className="overflow-x-auto max-h-80">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-2 pr-2">Producto</th>
+                <th className="py-2 px-2 text-right">Precio</th>
+                <th className="py-2 px-2 text-right">Stock</th>
+                <th className="py-2 pl-2 w-24">Copias</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {products.map(product => (
+                <tr key={product.productId}>
+                  <td className="py-2 pr-2 text-gray-900 dark:text-white">
+                    {product.name}
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {product.productId}{getVariantLabel(product) && ` · ${getVariantLabel(product)}`}
+                    </div>
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-900 dark:text-white">S/ {product.price.toFixed(2)}</td>
+                  <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{product.quantity}</td>
+                  <td className="py-2 pl-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={copies[product.productId] || ''}
+                      onChange={(e) => setCopies(prev => ({ ...prev, [product.productId]: e.target.value }))}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-400">{totalLabels} etiqueta(s)</span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handleGenerate} disabled={totalLabels === 0}>
+              Generar PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
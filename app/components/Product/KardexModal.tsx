@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import { getProductDisplayName } from '../../domain/services/ProductStyleService';
+import { getAdjustmentReasonLabel, getStockMovementTypeLabel } from '../../domain/constants/StockMovementTypes';
+import { formatUTCDateToLocal } from '../../utils/dateUtils';
+import type { Product } from '../../domain/entities/Product';
+import type { Kardex } from '../../domain/entities/StockMovement';
+
+interface KardexModalProps {
+  product: Product | null;
+  onClose: () => void;
+}
+
+/**
+ * Physical kardex of a product: every stock movement with its running balance
+ */
+export function KardexModal({ product, onClose }: KardexModalProps) {
+  const { stockMovementService } = useAppContext();
+  const [kardex, setKardex] = useState<Kardex | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!product) return;
+
+    const loadKardex = async () => {
+      try {
+        setIsLoading(true);
+        setError('');
+        setKardex(await stockMovementService.getKardex(product));
+      } catch (err) {
+        console.error('Error loading kardex:', err);
+        setError('Error al cargar los movimientos de stock');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadKardex();
+  }, [product, stockMovementService]);
+
+  const handleClose = () => {
+    setKardex(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={!!product}
+      onClose={handleClose}
+      title={product ? `Kardex: ${getProductDisplayName(product)}` : 'Kardex'}
+      size="xl"
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner text="Cargando movimientos..." />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      ) : kardex && (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            SKU: <span className="font-mono">{product?.productId}</span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Fecha</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Motivo</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Referencia</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Usuario</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Entrada</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Salida</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Saldo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                <tr className="text-gray-500 dark:text-gray-400">
+                  <td className="px-3 py-2" colSpan={6}>Saldo inicial</td>
+                  <td className="px-3 py-2 text-right font-semibold">{kardex.openingBalance}</td>
+                </tr>
+                {kardex.entries.map(entry => (
+                  <tr key={entry.id} className="text-gray-900 dark:text-white">
+                    <td className="px-3 py-2 whitespace-nowrap">{formatUTCDateToLocal(entry.date)}</td>
+                    <td className="px-3 py-2">
+                      {getStockMovementTypeLabel(entry.type)}
+                      {entry.reason && ` · ${getAdjustmentReasonLabel(entry.reason)}`}
+                    </td>
+                    <td className="px-3 py-2">{entry.reference || '-'}</td>
+                    <td className="px-3 py-2">{entry.user || '-'}</td>
+                    <td className="px-3 py-2 text-right text-green-600 dark:text-green-400">
+                      {entry.quantity > 0 ? entry.quantity : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right text-red-600 dark:text-red-400">
+                      {entry.quantity < 0 ? -entry.quantity : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right font-semibold">{entry.balance}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {kardex.entries.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+              Este producto aún no tiene movimientos registrados.
+            </p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { CategorySelectWithCreate } from '../Category/CategorySelectWithCreate';
+import { VariantMatrixEditor } from './VariantMatrixEditor';
+import { useAppContext } from '../../context/AppContext';
+import { DEFAULT_SIZES } from '../../domain/services/ProductStyleService';
+import { TAX_AFFECTATIONS } from '../../domain/constants/TaxAffectations';
+import type { CategoryOption } from '../../domain/entities/Category';
+import type { TaxAffectation } from '../../domain/entities/Product';
+import type { VariantMatrixCell } from '../../domain/entities/ProductStyle';
+
+interface ProductStyleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+  categories: CategoryOption[];
+  onCategoryCreated: () => void;
+}
+
+export function ProductStyleModal({ isOpen, onClose, onCreated, categories, onCategoryCreated }: ProductStyleModalProps) {
+  const { productStyleService } = useAppContext();
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [categoryNumber, setCategoryNumber] = useState<number | null>(null);
+  const [basePrice, setBasePrice] = useState('');
+  const [taxAffectation, setTaxAffectation] = useState<TaxAffectation>('taxed');
+  const [skuPrefix, setSkuPrefix] = useState('');
+  const [sizes, setSizes] = useState<string[]>(['S', 'M', 'L', 'XL']);
+  const [customSize, setCustomSize] = useState('');
+  const [colors, setColors] = useState<string[]>([]);
+  const [colorInput, setColorInput] = useState('');
+  const [cells, setCells] = useState<VariantMatrixCell[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Rebuild the grid when its axes change, keeping edited cells
+  useEffect(() => {
+    setCells(prev => productStyleService.buildMatrix(skuPrefix, sizes, colors, prev));
+  }, [sizes, colors, productStyleService]);
+
+  // A new prefix regenerates the suggested SKUs
+  useEffect(() => {
+    setCells(prev => prev.map(cell => ({
+      ...cell,
+      productId: productStyleService.generateSku(skuPrefix, cell.size, cell.color)
+    })));
+  }, [skuPrefix, productStyleService]);
+
+  const reset = () => {
+    setName('');
+    setBrand('');
+    setCategoryNumber(null);
+    setBasePrice('');
+    setTaxAffectation('taxed');
+    setSkuPrefix('');
+    setSizes(['S', 'M', 'L', 'XL']);
+    setCustomSize('');
+    setColors([]);
+    setColorInput('');
+    setError('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const toggleSize = (size: string) => {
+    setSizes(prev => prev.includes(size) ? prev.filter(s => s !== size) : [...prev, size]);
+  };
+
+  const addCustomSize = () => {
+    const size = customSize.trim().toUpperCase();
+    if (size && !sizes.includes(size)) setSizes(prev => [...prev, size]);
+    setCustomSize('');
+  };
+
+  const addColors = () => {
+    // Accepts several colors separated by commas
+    const newColors = colorInput
+      .split(',')
+      .map(c => c.trim())
+      .filter(c => c && !colors.some(existing => existing.toLowerCase() === c.toLowerCase()));
+    if (newColors.length) setColors(prev => [...prev, ...newColors]);
+    setColorInput('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await productStyleService.createStyleWithVariants({
+        name,
+        brand,
+        categoryNumber,
+        basePrice: parseFloat(basePrice) || 0,
+        taxAffectation
+      }, cells);
+      reset();
+      onCreated();
+    } catch (err: any) {
+      console.error('Error creating product style:', err);
+      setError(err.message || 'Error al crear el estilo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Nuevo Estilo con Variantes" size="xl">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Nombre del Estilo *"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Ej: Polo Básico Cuello Redondo"
+            required
+          />
+          <Input
+            label="Marca"
+            value={brand}
+            onChange={(e) => setBrand(e.target.value)}
+            placeholder="Ej: Nike"
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Categoría
+            </label>
+            <CategorySelectWithCreate
+              value={categoryNumber}
+              onChange={setCategoryNumber}
+              categories={categories}
+              onCategoryCreated={onCategoryCreated}
+              placeholder="Seleccionar categoría"
+              className="w-full"
+            />
+          </div>
+          <Input
+            label="Precio Base *"
+            type="number"
+            step="0.01"
+            min="0"
+            value={basePrice}
+            onChange={(e) => setBasePrice(e.target.value)}
+            placeholder="0.00"
+            required
+          />
+          <Input
+            label="Prefijo de SKU"
+            value={skuPrefix}
+            onChange={(e) => setSkuPrefix(e.target.value)}
+            placeholder="Ej: POLO01"
+            helperText="Se usa para sugerir el SKU de cada variante (POLO01-M-AZU)"
+          />
+          <Select
+            label="Afectación IGV"
+            value={taxAffectation}
+            onChange={(value) => setTaxAffectation(value as TaxAffectation)}
+            options={TAX_AFFECTATIONS.map(a => ({ value: a.value, label: a.label }))}
+          />
+        </div>
+
+        {/* Sizes */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Tallas</h4>
+          <div className="flex flex-wrap items-center gap-2">
+            {Array.from(new Set([...DEFAULT_SIZES, ...sizes])).map(size => (
+              <button
+                key={size}
+                type="button"
+                onClick={() => toggleSize(size)}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  sizes.includes(size)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-500 text-gray-400 hover:border-gray-300'
+                }`}
+              >
+                {size}
+              </button>
+            ))}
+            <input
+              type="text"
+              value={customSize}
+              onChange={(e) => setCustomSize(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addCustomSize(); } }}
+              placeholder="Otra (ej. 28, 30)"
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white w-32"
+            />
+            <Button type="button" size="sm" variant="secondary" onClick={addCustomSize}>Agregar</Button>
+          </div>
+        </div>
+
+        {/* Colors */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Colores</h4>
+          <div className="flex flex-wrap items-center gap-2">
+            {colors.map(color => (
+              <span key={color} className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-gray-700 text-white">
+                {color}
+                <button
+                  type="button"
+                  onClick={() => setColors(prev => prev.filter(c => c !== color))}
+                  className="text-gray-300 hover:text-red-400"
+                  title="Quitar color"
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+            <input
+              type="text"
+              value={colorInput}
+              onChange={(e) => setColorInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addColors(); } }}
+              placeholder="Azul, Negro, Blanco"
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white w-48"
+            />
+            <Button type="button" size="sm" variant="secondary" onClick={addColors}>Agregar</Button>
+          </div>
+        </div>
+
+        <VariantMatrixEditor
+          sizes={sizes}
+          colors={colors}
+          cells={cells}
+          basePrice={basePrice}
+          onChange={setCells}
+        />
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="secondary" onClick={handleClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isSaving} disabled={isSaving}>
+            Crear {cells.filter(c => c.enabled).length} variantes
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import { ADJUSTMENT_REASONS } from '../../domain/constants/StockMovementTypes';
+import type { ShrinkageReport } from '../../domain/entities/StockMovement';
+
+interface ShrinkageReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('es-PE', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * Units written off per adjustment reason and month
+ */
+export function ShrinkageReportModal({ isOpen, onClose }: ShrinkageReportModalProps) {
+  const { stockMovementService } = useAppContext();
+  const today = new Date();
+  const [startDate, setStartDate] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth() - 5, 1)));
+  const [endDate, setEndDate] = useState(toDateInput(today));
+  const [report, setReport] = useState<ShrinkageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadReport = async () => {
+    if (startDate > endDate) {
+      setError('La fecha inicial debe ser anterior a la final');
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setError('');
+      setReport(await stockMovementService.getShrinkageReport(startDate, endDate));
+    } catch (err) {
+      console.error('Error loading shrinkage report:', err);
+      setError('Error al cargar el reporte de mermas');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadReport();
+  }, [isOpen]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Reporte de Mermas" size="xl">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <Input
+            label="Desde"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+          <Input
+            label="Hasta"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+          <Button onClick={loadReport} loading={isLoading} disabled={isLoading}>
+            Generar
+          </Button>
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Unidades dadas de baja por motivo. Los valores negativos son prendas encontradas o conteos que sumaron stock.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Cargando reporte..." />
+          </div>
+        ) : report && (
+          report.months.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+              No hay ajustes de stock en el periodo seleccionado.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Mes</th>
+                    {ADJUSTMENT_REASONS.map(reason => (
+                      <th key={reason.value} className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                        {reason.label}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                  {report.months.map(month => (
+                    <tr key={month.month}>
+                      <td className="px-3 py-2 capitalize">{formatMonth(month.month)}</td>
+                      {ADJUSTMENT_REASONS.map(reason => (
+                        <td key={reason.value} className="px-3 py-2 text-right">
+                          {month.units[reason.value] || '-'}
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right font-semibold">{month.total}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 dark:bg-gray-700 font-semibold">
+                    <td className="px-3 py-2">Total</td>
+                    {ADJUSTMENT_REASONS.map(reason => (
+                      <td key={reason.value} className="px-3 py-2 text-right">
+                        {report.totals[reason.value] || '-'}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right">{report.total}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+      </div>
+    </Modal>
+  );
+}
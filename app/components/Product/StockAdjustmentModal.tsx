@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { ADJUSTMENT_REASONS } from '../../domain/constants/StockMovementTypes';
+import { getProductDisplayName } from '../../domain/services/ProductStyleService';
+import type { Product } from '../../domain/entities/Product';
+import type { AdjustmentReason, StockAdjustmentRequest } from '../../domain/entities/StockMovement';
+
+interface StockAdjustmentModalProps {
+  product: Product | null;
+  onClose: () => void;
+  onAdjust: (request: StockAdjustmentRequest) => Promise<void>;
+}
+
+export function StockAdjustmentModal({ product, onClose, onAdjust }: StockAdjustmentModalProps) {
+  const [reason, setReason] = useState<AdjustmentReason>('damaged');
+  const [units, setUnits] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setReason('damaged');
+    setUnits('');
+    setNotes('');
+    setError('');
+  }, [product]);
+
+  if (!product) return null;
+
+  const direction = ADJUSTMENT_REASONS.find(r => r.value === reason)?.direction || 'out';
+  const value = parseInt(units);
+
+  // A count correction takes the counted stock; the other reasons take the units moved
+  const delta = isNaN(value)
+    ? 0
+    : direction === 'both'
+    ? value - product.quantity
+    : direction === 'out' ? -value : value;
+
+  const unitsLabel = direction === 'both'
+    ? 'Stock contado *'
+    : direction === 'out' ? 'Unidades a dar de baja *' : 'Unidades encontradas *';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await onAdjust({ reason, quantity: delta, notes });
+    } catch (err: any) {
+      console.error('Error adjusting stock:', err);
+      setError(err.message || 'Error al ajustar el stock');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!product} onClose={onClose} title="Ajustar Stock" size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="text-sm text-gray-600 dark:text-gray-300">
+          <div className="font-medium text-gray-900 dark:text-white">{getProductDisplayName(product)}</div>
+          <div>SKU: {product.productId} | Stock actual: {product.quantity}</div>
+        </div>
+
+        <Select
+          label="Motivo *"
+          value={reason}
+          onChange={(value) => setReason(value as AdjustmentReason)}
+          options={ADJUSTMENT_REASONS.map(r => ({ value: r.value, label: r.label }))}
+        />
+
+        <Input
+          label={unitsLabel}
+          type="number"
+          min="0"
+          step="1"
+          value={units}
+          onChange={(e) => setUnits(e.target.value)}
+          placeholder="0"
+          required
+        />
+
+        <Input
+          label="Observaciones"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Ej: Costura rota, inventario de fin de mes"
+        />
+
+        {!isNaN(value) && (
+          <div className="rounded-md bg-gray-100 dark:bg-gray-700 px-3 py-2 text-sm text-gray-700 dark:text-gray-200">
+            Stock: {product.quantity} → <span className="font-semibold">{product.quantity + delta}</span>
+            <span className={`ml-2 ${delta < 0 ? 'text-red-500' : 'text-green-500'}`}>
+              ({delta > 0 ? '+' : ''}{delta})
+            </span>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isSaving} disabled={isSaving || delta === 0}>
+            Registrar ajuste
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
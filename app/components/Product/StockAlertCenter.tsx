@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import { buildReorderCsv } from '../../domain/services/ReorderService';
+import { formatPurchaseOrderNumber } from '../../domain/services/PurchaseOrderService';
+import { getProductDisplayName } from '../../domain/services/ProductStyleService';
+import { downloadCsv } from '../../infrastructure/export/CsvDownloadAdapter';
+import type { ReorderSuggestion } from '../../domain/services/ReorderService';
+import type { Supplier } from '../../domain/entities/Supplier';
+
+interface StockAlertCenterProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const LIMIT_SOURCE_LABELS: Record<ReorderSuggestion['limits']['source'], string> = {
+  product: 'del producto',
+  category: 'de la categoría',
+  default: 'por defecto'
+};
+
+/**
+ * Low-stock products with the quantity needed to reach their maximum. The list can be
+ * exported or turned into a draft purchase order for one supplier.
+ */
+export function StockAlertCenter({ isOpen, onClose }: StockAlertCenterProps) {
+  const { reorderService, purchaseOrderService } = useAppContext();
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [supplierId, setSupplierId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadAlerts = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setSuccess('');
+      const [allSuggestions, allSuppliers] = await Promise.all([
+        reorderService.getReorderSuggestions(),
+        purchaseOrderService.getAllSuppliers()
+      ]);
+      setSuggestions(allSuggestions);
+      setSuppliers(allSuppliers);
+      const initial: Record<string, string> = {};
+      allSuggestions.forEach((s: ReorderSuggestion) => { initial[s.product.productId] = s.suggestedQuantity.toString(); });
+      setQuantities(initial);
+    } catch (err) {
+      console.error('Error loading stock alerts:', err);
+      setError('Error al cargar las alertas de stock');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadAlerts();
+  }, [isOpen]);
+
+  // Suggestions with the quantities as edited by the user, skipping the ones set to zero
+  const getOrderLines = (): ReorderSuggestion[] =>
+    suggestions
+      .map(s => ({ ...s, suggestedQuantity: parseInt(quantities[s.product.productId]) || 0 }))
+      .filter(s => s.suggestedQuantity > 0);
+
+  const handleExport = () => {
+    const lines = getOrderLines();
+    if (!lines.length) {
+      setError('No hay cantidades a reponer para exportar');
+      return;
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    downloadCsv(buildReorderCsv(lines), `reposicion-${today}.csv`);
+  };
+
+  const handleCreateDraft = async () => {
+    setError('');
+    setSuccess('');
+    try {
+      setIsSaving(true);
+      const order = await purchaseOrderService.createOrder({
+        supplierId,
+        expectedDate: null,
+        notes: 'Generada desde las alertas de stock bajo',
+        items: getOrderLines().map(({ product, suggestedQuantity }) => ({
+          productId: product.productId,
+          name: getProductDisplayName(product),
+          orderedQuantity: suggestedQuantity,
+          unitCost: product.cost ?? 0
+        }))
+      });
+      setSuccess(`Se creó la orden ${formatPurchaseOrderNumber(order)} en borrador. Revísela en Compras antes de enviarla.`);
+    } catch (err: any) {
+      console.error('Error creating purchase draft:', err);
+      setError(err.message || 'Error al crear la orden de compra');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Alertas de Stock" size="xl">
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" text="Revisando stock..." />
+          </div>
+        ) : suggestions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            Todos los productos están por encima de su stock mínimo.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {suggestions.length} producto(s) en o por debajo de su stock mínimo. La cantidad sugerida completa el stock máximo; puede ajustarla antes de exportar o pedir.
+            </p>
+
+            <div className="overflow-x-auto max-h-96">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                    <th className="py-2 pr-2">Producto</th>
+                    <th className="py-2 px-2 text-right">Stock</th>
+                    <th className="py-2 px-2 text-right">Mín / Máx</th>
+                    <th className="py-2 pl-2 w-24">Pedir</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {suggestions.map(({ product, limits }) => (
+                    <tr key={product.productId}>
+                      <td className="py-2 pr-2 text-gray-900 dark:text-white">
+                        {getProductDisplayName(product)}
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{product.productId}</div>
+                      </td>
+                      <td className={`py-2 px-2 text-right font-semibold ${product.quantity === 0 ? 'text-red-500' : 'text-yellow-500'}`}>
+                        {product.quantity}
+                      </td>
+                      <td className="py-2 px-2 text-right text-gray-900 dark:text-white">
+                        {limits.min} / {limits.max}
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{LIMIT_SOURCE_LABELS[limits.source]}</div>
+                      </td>
+                      <td className="py-2 pl-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          value={quantities[product.productId] || ''}
+                          onChange={(e) => setQuantities(prev => ({ ...prev, [product.productId]: e.target.value }))}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-end border-t border-gray-200 dark:border-gray-700 pt-4">
+              <Select
+                label="Proveedor"
+                value={supplierId}
+                onChange={setSupplierId}
+                options={[
+                  { value: '', label: suppliers.length ? 'Seleccionar proveedor' : 'No hay proveedores registrados' },
+                  ...suppliers.map(s => ({ value: s.id, label: s.name }))
+                ]}
+              />
+              <div className="flex flex-wrap gap-2 sm:justify-end">
+                <Button variant="outline" onClick={handleExport}>
+                  Exportar CSV
+                </Button>
+                <Button onClick={handleCreateDraft} loading={isSaving} disabled={isSaving || !supplierId}>
+                  Crear Orden (borrador)
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
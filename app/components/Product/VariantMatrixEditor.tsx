@@ -0,0 +1,125 @@
+import React from 'react';
+import type { VariantMatrixCell } from '../../domain/entities/ProductStyle';
+
+interface VariantMatrixEditorProps {
+  sizes: string[];
+  colors: string[];
+  cells: VariantMatrixCell[];
+  basePrice: string;
+  onChange: (cells: VariantMatrixCell[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+/**
+ * Size × color grid: one cell per variant with its SKU, stock and optional price override
+ */
+export function VariantMatrixEditor({ sizes, colors, cells, basePrice, onChange }: VariantMatrixEditorProps) {
+  const colorList = colors.length ? colors : [''];
+
+  const updateCell = (size: string, color: string, field: keyof VariantMatrixCell, value: string | boolean) => {
+    onChange(cells.map(cell => cell.size === size && cell.color === color ? { ...cell, [field]: value } : cell));
+  };
+
+  const fillStock = (quantity: string) => {
+    onChange(cells.map(cell => cell.enabled ? { ...cell, quantity } : cell));
+  };
+
+  if (!sizes.length) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Seleccione al menos una talla para generar las variantes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Deje el precio vacío para usar el precio base (S/ {(parseFloat(basePrice) || 0).toFixed(2)})
+        </p>
+        <button
+          type="button"
+          onClick={() => {
+            const value = window.prompt('Stock inicial para todas las variantes', '0');
+            if (value !== null) fillStock(value);
+          }}
+          className="text-xs text-blue-500 hover:text-blue-400"
+        >
+          Mismo stock para todas
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr>
+              <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-400">Talla</th>
+              {colorList.map(color => (
+                <th key={color || 'none'} className="px-2 py-1 text-left text-gray-500 dark:text-gray-400">
+                  {color || 'Sin color'}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sizes.map(size => (
+              <tr key={size} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="px-2 py-2 font-semibold text-gray-900 dark:text-white align-top">{size}</td>
+                {colorList.map(color => {
+                  const cell = cells.find(c => c.size === size && c.color === color);
+                  if (!cell) return <td key={color || 'none'} />;
+                  return (
+                    <td key={color || 'none'} className={`px-2 py-2 align-top min-w-[130px] ${cell.enabled ? '' : 'opacity-40'}`}>
+                      <label className="flex items-center gap-1 mb-1 text-gray-600 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={cell.enabled}
+                          onChange={(e) => updateCell(size, color, 'enabled', e.target.checked)}
+                        />
+                        Crear
+                      </label>
+                      <div className="space-y-1">
+                        <input
+                          type="text"
+                          value={cell.productId}
+                          disabled={!cell.enabled}
+                          onChange={(e) => updateCell(size, color, 'productId', e.target.value)}
+                          placeholder="SKU"
+                          title="SKU"
+                          className={inputClass}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          value={cell.quantity}
+                          disabled={!cell.enabled}
+                          onChange={(e) => updateCell(size, color, 'quantity', e.target.value)}
+                          placeholder="Stock"
+                          title="Stock"
+                          className={inputClass}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={cell.price}
+                          disabled={!cell.enabled}
+                          onChange={(e) => updateCell(size, color, 'price', e.target.value)}
+                          placeholder="Precio"
+                          title="Precio (opcional)"
+                          className={inputClass}
+                        />
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
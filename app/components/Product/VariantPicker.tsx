@@ -0,0 +1,74 @@
+import React from 'react';
+import { getVariantAttributes } from '../../domain/services/ProductStyleService';
+import { getAvailableQuantity } from '../../domain/services/InventoryService';
+import type { Product } from '../../domain/entities/Product';
+
+interface VariantPickerProps {
+  styleName: string;
+  variants: Product[];
+  onSelect: (variant: Product) => void;
+  onClose: () => void;
+}
+
+/**
+ * Size × color grid used at checkout to pick the exact variant of a style
+ */
+export function VariantPicker({ styleName, variants, onSelect, onClose }: VariantPickerProps) {
+  const attributes = variants.map(variant => ({ variant, ...getVariantAttributes(variant) }));
+  const sizes = Array.from(new Set(attributes.map(a => a.size)));
+  const colors = Array.from(new Set(attributes.map(a => a.color)));
+
+  return (
+    <div className="mt-3 rounded-lg border border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-gray-700 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-semibold text-gray-900 dark:text-white">
+          {styleName}: elige talla y color
+        </span>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-300 text-sm" title="Cerrar">
+          ✕
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th className="px-2 py-1" />
+              {colors.map(color => (
+                <th key={color || 'none'} className="px-2 py-1 text-left text-gray-600 dark:text-gray-300">
+                  {color || '—'}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sizes.map(size => (
+              <tr key={size || 'none'}>
+                <td className="px-2 py-1 font-semibold text-gray-900 dark:text-white">{size || '—'}</td>
+                {colors.map(color => {
+                  const match = attributes.find(a => a.size === size && a.color === color);
+                  return (
+                    <td key={color || 'none'} className="px-1 py-1">
+                      {match ? (
+                        <button
+                          type="button"
+                          disabled={getAvailableQuantity(match.variant) <= 0}
+                          onClick={() => onSelect(match.variant)}
+                          className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white hover:border-blue-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title={`${match.variant.productId} · S/ ${match.variant.price.toFixed(2)}`}
+                        >
+                          {getAvailableQuantity(match.variant)} und.
+                        </button>
+                      ) : (
+                        <span className="block text-center text-gray-400">-</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { PROMOTION_TYPE_LABELS, validatePromotion } from '../../domain/services/PromotionService';
+import type { Category } from '../../domain/entities/Category';
+import type { Promotion, PromotionType, CreatePromotionRequest } from '../../domain/entities/Promotion';
+
+interface PromotionFormProps {
+  isOpen: boolean;
+  promotion: Promotion | null;
+  categories: Category[];
+  onClose: () => void;
+  onSave: (request: CreatePromotionRequest) => Promise<void>;
+}
+
+interface FormState {
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  startDate: string;
+  endDate: string;
+  minTicket: string;
+  categoryNumbers: number[];
+  productIds: string;
+  buyQuantity: string;
+  freeQuantity: string;
+  percentOff: string;
+  bundleQuantity: string;
+  bundlePrice: string;
+}
+
+const EMPTY_FORM: FormState = {
+  name: '',
+  type: 'buy_x_get_y',
+  active: true,
+  startDate: '',
+  endDate: '',
+  minTicket: '',
+  categoryNumbers: [],
+  productIds: '',
+  buyQuantity: '1',
+  freeQuantity: '1',
+  percentOff: '',
+  bundleQuantity: '3',
+  bundlePrice: ''
+};
+
+const toFormState = (promotion: Promotion): FormState => ({
+  name: promotion.name,
+  type: promotion.type,
+  active: promotion.active,
+  startDate: promotion.startDate || '',
+  endDate: promotion.endDate || '',
+  minTicket: promotion.minTicket != null ? String(promotion.minTicket) : '',
+  categoryNumbers: promotion.categoryNumbers,
+  productIds: promotion.productIds.join(', '),
+  buyQuantity: promotion.buyQuantity != null ? String(promotion.buyQuantity) : '',
+  freeQuantity: promotion.freeQuantity != null ? String(promotion.freeQuantity) : '',
+  percentOff: promotion.percentOff != null ? String(promotion.percentOff) : '',
+  bundleQuantity: promotion.bundleQuantity != null ? String(promotion.bundleQuantity) : '',
+  bundlePrice: promotion.bundlePrice != null ? String(promotion.bundlePrice) : ''
+});
+
+const toNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+export function PromotionForm({ isOpen, promotion, categories, onClose, onSave }: PromotionFormProps) {
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(promotion ? toFormState(promotion) : EMPTY_FORM);
+    setError('');
+  }, [isOpen, promotion]);
+
+  const handleChange = (field: keyof FormState, value: string | boolean) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleCategory = (categoryNumber: number) => {
+    setForm(prev => ({
+      ...prev,
+      categoryNumbers: prev.categoryNumbers.includes(categoryNumber)
+        ? prev.categoryNumbers.filter(n => n !== categoryNumber)
+        : [...prev.categoryNumbers, categoryNumber]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Only the fields of the chosen rule are stored
+    const request: CreatePromotionRequest = {
+      name: form.name.trim(),
+      type: form.type,
+      active: form.active,
+      startDate: form.startDate || null,
+      endDate: form.endDate || null,
+      minTicket: toNumber(form.minTicket),
+      categoryNumbers: form.categoryNumbers,
+      productIds: form.productIds.split(',').map(id => id.trim()).filter(Boolean),
+      buyQuantity: form.type === 'buy_x_get_y' ? toNumber(form.buyQuantity) : null,
+      freeQuantity: form.type === 'buy_x_get_y' ? toNumber(form.freeQuantity) : null,
+      percentOff: form.type === 'category_percent' ? toNumber(form.percentOff) : null,
+      bundleQuantity: form.type === 'bundle_price' ? toNumber(form.bundleQuantity) : null,
+      bundlePrice: form.type === 'bundle_price' ? toNumber(form.bundlePrice) : null
+    };
+
+    const validationError = validatePromotion(request);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSave(request);
+    } catch (err: any) {
+      setError(err.message || 'Error al guardar la promoción');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={promotion ? 'Editar Promoción' : 'Nueva Promoción'} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Nombre"
+            value={form.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+            placeholder="Ej: 2x1 en polos"
+            required
+          />
+          <Select
+            label="Tipo de promoción"
+            value={form.type}
+            onChange={(value) => handleChange('type', value)}
+            options={Object.entries(PROMOTION_TYPE_LABELS).map(([value, label]) => ({ value, label }))}
+          />
+        </div>
+
+        {form.type === 'buy_x_get_y' && (
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Prendas que paga"
+              type="number"
+              min="1"
+              value={form.buyQuantity}
+              onChange={(e) => handleChange('buyQuantity', e.target.value)}
+            />
+            <Input
+              label="Prendas gratis"
+              type="number"
+              min="1"
+              value={form.freeQuantity}
+              onChange={(e) => handleChange('freeQuantity', e.target.value)}
+              helperText="2x1: paga 1, gratis 1. Siempre se regala la más barata."
+            />
+          </div>
+        )}
+
+        {form.type === 'category_percent' && (
+          <Input
+            label="Descuento (%)"
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={form.percentOff}
+            onChange={(e) => handleChange('percentOff', e.target.value)}
+          />
+        )}
+
+        {form.type === 'bundle_price' && (
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Prendas por pack"
+              type="number"
+              min="2"
+              value={form.bundleQuantity}
+              onChange={(e) => handleChange('bundleQuantity', e.target.value)}
+            />
+            <Input
+              label="Precio del pack (S/)"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.bundlePrice}
+              onChange={(e) => handleChange('bundlePrice', e.target.value)}
+            />
+          </div>
+        )}
+
+        <div>
+          <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Categorías
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {categories.map(category => (
+              <label
+                key={category.categoryId}
+                className="flex items-center gap-2 rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-sm text-gray-700 dark:text-gray-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={form.categoryNumbers.includes(category.categoryNumber)}
+                  onChange={() => toggleCategory(category.categoryNumber)}
+                />
+                {category.categoryNumber} - {category.name}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Input
+          label="Productos o estilos (IDs separados por coma)"
+          value={form.productIds}
+          onChange={(e) => handleChange('productIds', e.target.value)}
+          placeholder="Ej: POL-001, CAS-010"
+          helperText="Sin categorías ni productos, la promoción aplica a toda la tienda"
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Input
+            label="Desde"
+            type="date"
+            value={form.startDate}
+            onChange={(e) => handleChange('startDate', e.target.value)}
+          />
+          <Input
+            label="Hasta"
+            type="date"
+            value={form.endDate}
+            min={form.startDate}
+            onChange={(e) => handleChange('endDate', e.target.value)}
+          />
+          <Input
+            label="Ticket mínimo (S/)"
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.minTicket}
+            onChange={(e) => handleChange('minTicket', e.target.value)}
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={form.active}
+            onChange={(e) => handleChange('active', e.target.checked)}
+          />
+          Promoción activa
+        </label>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isSaving}>
+            Guardar
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
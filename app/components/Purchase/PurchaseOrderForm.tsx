@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { getOrderTotal } from '../../domain/services/PurchaseOrderService';
+import { getProductDisplayName } from '../../domain/services/ProductStyleService';
+import type { Product } from '../../domain/entities/Product';
+import type { Supplier } from '../../domain/entities/Supplier';
+import type { CreatePurchaseOrderRequest } from '../../domain/entities/PurchaseOrder';
+
+interface PurchaseOrderFormProps {
+  suppliers: Supplier[];
+  products: Product[];
+  onSave: (request: CreatePurchaseOrderRequest) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface OrderLine {
+  productId: string;
+  name: string;
+  quantity: string;
+  unitCost: string;
+}
+
+export function PurchaseOrderForm({ suppliers, products, onSave, onCancel }: PurchaseOrderFormProps) {
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [search, setSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const term = search.toLowerCase().trim();
+  const results = term
+    ? products
+        .filter(p => !lines.some(l => l.productId === p.productId))
+        .filter(p => p.productId.toLowerCase().includes(term) || p.name.toLowerCase().includes(term))
+        .slice(0, 6)
+    : [];
+
+  const addLine = (product: Product) => {
+    setLines(prev => [...prev, {
+      productId: product.productId,
+      name: getProductDisplayName(product),
+      quantity: '1',
+      unitCost: product.cost != null ? product.cost.toString() : ''
+    }]);
+    setSearch('');
+  };
+
+  const updateLine = (productId: string, field: 'quantity' | 'unitCost', value: string) => {
+    setLines(prev => prev.map(l => l.productId === productId ? { ...l, [field]: value } : l));
+  };
+
+  const items = lines.map(line => ({
+    productId: line.productId,
+    name: line.name,
+    orderedQuantity: parseInt(line.quantity),
+    unitCost: parseFloat(line.unitCost)
+  }));
+  const total = getOrderTotal(items.map(i => ({
+    orderedQuantity: i.orderedQuantity || 0,
+    unitCost: i.unitCost || 0
+  })));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await onSave({
+        supplierId,
+        expectedDate: expectedDate || null,
+        notes: notes || null,
+        items
+      });
+    } catch (err: any) {
+      console.error('Error creating purchase order:', err);
+      setError(err.message || 'Error al crear la orden de compra');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          label="Proveedor *"
+          value={supplierId}
+          onChange={setSupplierId}
+          options={[
+            { value: '', label: 'Seleccionar proveedor' },
+            ...suppliers.map(s => ({ value: s.id, label: s.name }))
+          ]}
+        />
+        <Input
+          label="Fecha de entrega esperada"
+          type="date"
+          value={expectedDate}
+          onChange={(e) => setExpectedDate(e.target.value)}
+        />
+      </div>
+
+      <div className="relative">
+        <Input
+          label="Agregar producto"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Buscar por SKU o nombre..."
+        />
+        {results.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-48 overflow-y-auto">
+            {results.map(product => (
+              <div
+                key={product.productId}
+                onClick={() => addLine(product)}
+                className="p-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-600 cursor-pointer text-gray-900 dark:text-white"
+              >
+                {getProductDisplayName(product)}
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  {product.productId} | Stock: {product.quantity}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {lines.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-2 pr-2">Producto</th>
+                <th className="py-2 px-2 w-24">Cantidad</th>
+                <th className="py-2 px-2 w-28">Costo unit.</th>
+                <th className="py-2 px-2 text-right">Subtotal</th>
+                <th className="py-2 pl-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {lines.map(line => (
+                <tr key={line.productId}>
+                  <td className="py-2 pr-2 text-gray-900 dark:text-white">
+                    {line.name}
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{line.productId}</div>
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(line.productId, 'quantity', e.target.value)}
+                      required
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(line.productId, 'unitCost', e.target.value)}
+                      placeholder="0.00"
+                      required
+                    />
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-900 dark:text-white">
+                    S/ {((parseInt(line.quantity) || 0) * (parseFloat(line.unitCost) || 0)).toFixed(2)}
+                  </td>
+                  <td className="py-2 pl-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setLines(prev => prev.filter(l => l.productId !== line.productId))}
+                      className="text-red-500 hover:text-red-400"
+                      title="Quitar"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 text-right font-semibold text-gray-900 dark:text-white">
+            Total: S/ {total.toFixed(2)}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Busque y agregue los productos que va a pedir.
+        </p>
+      )}
+
+      <Input
+        label="Notas"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Ej: Pago contra entrega"
+      />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button type="submit" loading={isSaving} disabled={isSaving}>
+          Guardar Borrador
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { formatPurchaseOrderNumber, getPendingQuantity } from '../../domain/services/PurchaseOrderService';
+import type { PurchaseOrder, GoodsReceiptItem } from '../../domain/entities/PurchaseOrder';
+
+interface ReceiveOrderModalProps {
+  order: PurchaseOrder | null;
+  onClose: () => void;
+  onReceive: (items: GoodsReceiptItem[], notes: string | null) => Promise<void>;
+}
+
+interface ReceiveLine {
+  quantity: string;
+  unitCost: string;
+}
+
+/**
+ * Goods receiving: pre-filled with the pending quantities so a complete delivery is one click
+ */
+export function ReceiveOrderModal({ order, onClose, onReceive }: ReceiveOrderModalProps) {
+  const [lines, setLines] = useState<Record<string, ReceiveLine>>({});
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!order) return;
+    const initial: Record<string, ReceiveLine> = {};
+    order.items.forEach(item => {
+      initial[item.productId] = {
+        quantity: getPendingQuantity(item).toString(),
+        unitCost: item.unitCost.toString()
+      };
+    });
+    setLines(initial);
+    setNotes('');
+    setError('');
+  }, [order]);
+
+  if (!order) return null;
+
+  const updateLine = (productId: string, field: keyof ReceiveLine, value: string) => {
+    setLines(prev => ({ ...prev, [productId]: { ...prev[productId], [field]: value } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await onReceive(
+        order.items.map(item => ({
+          productId: item.productId,
+          quantity: parseInt(lines[item.productId]?.quantity) || 0,
+          unitCost: parseFloat(lines[item.productId]?.unitCost)
+        })),
+        notes || null
+      );
+    } catch (err: any) {
+      console.error('Error receiving purchase order:', err);
+      setError(err.message || 'Error al registrar la recepción');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!order} onClose={onClose} title={`Recibir ${formatPurchaseOrderNumber(order)}`} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {order.supplierName}. Indique lo que llegó en esta entrega; lo pendiente puede recibirse después.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-2 pr-2">Producto</th>
+                <th className="py-2 px-2 text-right">Pedido</th>
+                <th className="py-2 px-2 text-right">Recibido</th>
+                <th className="py-2 px-2 w-24">Llegó</th>
+                <th className="py-2 pl-2 w-28">Costo unit.</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {order.items.map(item => {
+                const pending = getPendingQuantity(item);
+                return (
+                  <tr key={item.productId} className={pending === 0 ? 'opacity-50' : ''}>
+                    <td className="py-2 pr-2 text-gray-900 dark:text-white">
+                      {item.name}
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{item.productId}</div>
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{item.orderedQuantity}</td>
+                    <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{item.receivedQuantity}</td>
+                    <td className="py-2 px-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        max={pending}
+                        value={lines[item.productId]?.quantity || ''}
+                        onChange={(e) => updateLine(item.productId, 'quantity', e.target.value)}
+                        disabled={pending === 0}
+                      />
+                    </td>
+                    <td className="py-2 pl-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={lines[item.productId]?.unitCost || ''}
+                        onChange={(e) => updateLine(item.productId, 'unitCost', e.target.value)}
+                        disabled={pending === 0}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <Input
+          label="Observaciones"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Ej: Guía de remisión 001-2345, faltaron 3 polos talla L"
+        />
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isSaving} disabled={isSaving}>
+            Registrar Recepción
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { useAppContext } from '../../context/AppContext';
+import type { Supplier, CreateSupplierRequest } from '../../domain/entities/Supplier';
+
+interface SupplierManagementProps {
+  suppliers: Supplier[];
+  onChange: () => Promise<void>;
+}
+
+const EMPTY_SUPPLIER: CreateSupplierRequest = {
+  name: '',
+  ruc: '',
+  contactName: '',
+  phone: '',
+  address: '',
+  notes: ''
+};
+
+export function SupplierManagement({ suppliers, onChange }: SupplierManagementProps) {
+  const { purchaseOrderService } = useAppContext();
+  const [formData, setFormData] = useState<CreateSupplierRequest>(EMPTY_SUPPLIER);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleChange = (field: keyof CreateSupplierRequest, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_SUPPLIER);
+    setEditingId(null);
+    setError('');
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setFormData({
+      name: supplier.name,
+      ruc: supplier.ruc || '',
+      contactName: supplier.contactName || '',
+      phone: supplier.phone || '',
+      address: supplier.address || '',
+      notes: supplier.notes || ''
+    });
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await purchaseOrderService.saveSupplier(formData, editingId || undefined);
+      resetForm();
+      await onChange();
+    } catch (err: any) {
+      setError(err.message || 'Error al guardar el proveedor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`¿Eliminar al proveedor "${supplier.name}"?`)) return;
+    try {
+      await purchaseOrderService.deleteSupplier(supplier);
+      await onChange();
+    } catch (err: any) {
+      alert(err.message || 'Error al eliminar el proveedor');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-sm space-y-4">
+        <h3 className="text-base md:text-lg font-semibold text-gray-900 dark:text-white">
+          {editingId ? 'Editar Proveedor' : 'Nuevo Proveedor'}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Nombre *"
+            value={formData.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+            placeholder="Ej: Confecciones Gamarra S.A.C."
+            required
+          />
+          <Input
+            label="RUC"
+            value={formData.ruc || ''}
+            onChange={(e) => handleChange('ruc', e.target.value.replace(/\D/g, ''))}
+            placeholder="Ej: 20123456789"
+            maxLength={11}
+          />
+          <Input
+            label="Contacto"
+            value={formData.contactName || ''}
+            onChange={(e) => handleChange('contactName', e.target.value)}
+            placeholder="Nombre de la persona de contacto"
+          />
+          <Input
+            label="Teléfono"
+            type="tel"
+            value={formData.phone || ''}
+            onChange={(e) => handleChange('phone', e.target.value)}
+            placeholder="Ej: 999 123 456"
+          />
+          <Input
+            label="Dirección"
+            value={formData.address || ''}
+            onChange={(e) => handleChange('address', e.target.value)}
+            placeholder="Ej: Gamarra, Galería El Rey, stand 204"
+          />
+          <Input
+            label="Notas"
+            value={formData.notes || ''}
+            onChange={(e) => handleChange('notes', e.target.value)}
+            placeholder="Ej: Entrega los lunes"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button type="button" variant="secondary" onClick={resetForm}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" loading={isSaving} disabled={isSaving}>
+            {editingId ? 'Guardar Cambios' : 'Agregar Proveedor'}
+          </Button>
+        </div>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        {suppliers.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            Aún no hay proveedores registrados.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {suppliers.map(supplier => (
+              <div key={supplier.id} className="flex flex-wrap items-center justify-between gap-2 p-4">
+                <div className="text-sm">
+                  <div className="font-medium text-gray-900 dark:text-white">{supplier.name}</div>
+                  <div className="text-gray-500 dark:text-gray-400">
+                    {[supplier.ruc && `RUC ${supplier.ruc}`, supplier.contactName, supplier.phone, supplier.address]
+                      .filter(Boolean)
+                      .join(' · ') || 'Sin datos de contacto'}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="secondary" onClick={() => handleEdit(supplier)}>
+                    Editar
+                  </Button>
+                  <Button size="sm" variant="danger" onClick={() => handleDelete(supplier)}>
+                    Eliminar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
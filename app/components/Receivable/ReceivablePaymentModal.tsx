@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { COUNTER_PAYMENT_METHODS, PAYMENT_METHODS } from '../../domain/constants/PaymentMethods';
+import type { ReceivablePaymentInput } from '../../domain/services/ReceivableService';
+import type { CustomerReceivable } from '../../domain/entities/Receivable';
+import type { PaymentMethod } from '../../domain/entities/Sale';
+
+interface ReceivablePaymentModalProps {
+  receivable: CustomerReceivable | null;
+  onClose: () => void;
+  onSave: (receivable: CustomerReceivable, payment: ReceivablePaymentInput) => Promise<void>;
+}
+
+export function ReceivablePaymentModal({ receivable, onClose, onSave }: ReceivablePaymentModalProps) {
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!receivable) return;
+    setAmount('');
+    setMethod('cash');
+    setReference('');
+    setError('');
+  }, [receivable]);
+
+  if (!receivable) return null;
+  const referenceLabel = PAYMENT_METHODS.find(m => m.value === method)?.referenceLabel;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setIsSaving(true);
+      await onSave(receivable, { method, amount: parseFloat(amount) || 0, reference: reference.trim() || null });
+    } catch (err: any) {
+      setError(err.message || 'Error al registrar el pago');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!receivable} onClose={onClose} title={`Pago de ${receivable.clientName}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Deuda total: <span className="font-semibold">S/ {receivable.balance.toFixed(2)}</span> en {receivable.sales.length} venta{receivable.sales.length !== 1 ? 's' : ''}.
+          El pago se aplica primero a las ventas más antiguas.
+        </p>
+        <div className="flex items-end gap-2">
+          <Input
+            label="Monto (S/) *"
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            required
+          />
+          <Button type="button" variant="secondary" onClick={() => setAmount(receivable.balance.toFixed(2))}>
+            Deuda total
+          </Button>
+        </div>
+        <Select
+          label="Medio de pago"
+          value={method}
+          onChange={(value) => setMethod(value as PaymentMethod)}
+          options={PAYMENT_METHODS
+            .filter(m => COUNTER_PAYMENT_METHODS.includes(m.value))
+            .map(m => ({ value: m.value, label: m.label }))}
+        />
+        {referenceLabel && (
+          <Input
+            label={referenceLabel}
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isSaving} disabled={isSaving}>
+            Registrar Pago
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { Select } from '../UI/Select';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import { CREDIT_NOTE_REASONS } from '../../domain/constants/CreditNoteReasons';
+import { getCreditableLines, getCreditNoteScope } from '../../domain/services/CreditNoteService';
+import { getSaleDocumentNumber } from '../../domain/services/DocumentSeriesService';
+import type { Sale, SaleItem } from '../../domain/entities/Sale';
+import type { SaleReturn } from '../../domain/entities/SaleReturn';
+import type { CreditNote, CreditNoteReason } from '../../domain/entities/CreditNote';
+
+interface CreditNoteModalProps {
+  sale: Sale | null;
+  // A return just registered on the sale: the note is prefilled with its units
+  saleReturn?: SaleReturn | null;
+  onClose: () => void;
+  onIssued: (creditNote: CreditNote) => void;
+}
+
+export function CreditNoteModal({ sale, saleReturn = null, onClose, onIssued }: CreditNoteModalProps) {
+  const { creditNoteService, issueCreditNote } = useAppContext();
+  const [previousNotes, setPreviousNotes] = useState<CreditNote[]>([]);
+  const [reason, setReason] = useState<CreditNoteReason>('07');
+  const [description, setDescription] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!sale) return;
+
+    const loadNotes = async () => {
+      try {
+        setIsLoading(true);
+        setError('');
+        setPreviousNotes(await creditNoteService.getCreditNotesForSale(sale.id));
+      } catch (err) {
+        console.error('Error loading credit notes:', err);
+        setError('Error al cargar las notas de crédito anteriores');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    setReason('07');
+    setDescription(saleReturn?.reason || '');
+    setQuantities(saleReturn
+      ? saleReturn.items.reduce<Record<string, number>>((acc, item) => ({ ...acc, [item.productId]: item.quantity }), {})
+      : {});
+    setAmounts({});
+    loadNotes();
+  }, [sale, saleReturn, creditNoteService]);
+
+  if (!sale) return null;
+
+  const scope = getCreditNoteScope(reason);
+  const creditable = getCreditableLines(sale, previousNotes);
+  const paidUnitPrice = (item: SaleItem): number => item.quantity ? item.subtotal / item.quantity : item.price;
+
+  const getLineAmount = (productId: string): number => {
+    const line = creditable.find(l => l.item.productId === productId);
+    if (!line) return 0;
+    if (scope === 'full') return line.amount;
+    if (scope === 'items') return Math.min(paidUnitPrice(line.item) * (quantities[productId] || 0), line.amount);
+    return Math.min(parseFloat(amounts[productId]) || 0, line.amount);
+  };
+  const total = creditable.reduce((sum, line) => sum + getLineAmount(line.item.productId), 0);
+
+  const handleQuantityChange = (productId: string, value: string, max: number) => {
+    const parsed = Math.min(Math.max(parseInt(value) || 0, 0), max);
+    setQuantities(prev => ({ ...prev, [productId]: parsed }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setIsSaving(true);
+      const creditNote = await issueCreditNote(sale, {
+        reason,
+        description,
+        lines: creditable.map(line => ({
+          productId: line.item.productId,
+          quantity: quantities[line.item.productId] || 0,
+          amount: parseFloat(amounts[line.item.productId]) || 0
+        })),
+        saleReturnId: saleReturn?.id ?? null
+      });
+      onIssued(creditNote);
+    } catch (err: any) {
+      console.error('Error issuing credit note:', err);
+      setError(err.message || 'Error al emitir la nota de crédito');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!sale} onClose={onClose} title="Emitir Nota de Crédito" size="lg">
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner text="Cargando venta..." />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="text-sm text-gray-400">
+            Comprobante: <span className="text-gray-200 font-mono">{getSaleDocumentNumber(sale) || 'Sin número'}</span> | Cliente: <span className="text-gray-200">{sale.clientName || 'Anónimo'}</span> | Total: <span className="text-gray-200">S/ {sale.total.toFixed(2)}</span>
+          </div>
+
+          {saleReturn && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-md text-sm">
+              La venta está facturada: la devolución registrada necesita una nota de crédito que la respalde.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Motivo (SUNAT catálogo 09)"
+              value={reason}
+              onChange={(value) => setReason(value as CreditNoteReason)}
+              options={CREDIT_NOTE_REASONS.map(r => ({ value: r.value, label: `${r.value} - ${r.label}` }))}
+            />
+            <Input
+              label="Descripción *"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Ej: Devolución por talla incorrecta"
+              required
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="bg-gray-700">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Producto</th>
+                  <th className="px-3 py-2 text-center text-xs font-medium text-gray-300 uppercase">Vendido</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-300 uppercase">Por acreditar</th>
+                  <th className="px-3 py-2 text-center text-xs font-medium text-gray-300 uppercase">
+                    {scope === 'items' ? 'Unidades' : 'Monto (S/)'}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {creditable.map(({ item, quantity, amount }) => (
+                  <tr key={item.productId}>
+                    <td className="px-3 py-2 text-gray-100">
+                      <div>{item.name}</div>
+                      <div className="text-xs text-gray-400">S/ {paidUnitPrice(item).toFixed(2)} c/u</div>
+                    </td>
+                    <td className="px-3 py-2 text-center text-gray-100">{item.quantity}</td>
+                    <td className="px-3 py-2 text-right text-gray-100">
+                      S/ {amount.toFixed(2)}
+                      {scope === 'items' && <div className="text-xs text-gray-400">{quantity} und.</div>}
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      {scope === 'full' && (
+                        <span className="text-gray-100">S/ {amount.toFixed(2)}</span>
+                      )}
+                      {scope === 'items' && (
+                        <input
+                          type="number"
+                          min="0"
+                          max={quantity}
+                          value={quantities[item.productId] || 0}
+                          onChange={(e) => handleQuantityChange(item.productId, e.target.value, quantity)}
+                          disabled={!quantity}
+                          className="w-20 px-2 py-1 text-sm border border-gray-600 rounded-md bg-gray-800 text-white text-center disabled:opacity-50"
+                        />
+                      )}
+                      {scope === 'amount' && (
+                        <input
+                          type="number"
+                          min="0"
+                          max={amount}
+                          step="0.01"
+                          value={amounts[item.productId] || ''}
+                          onChange={(e) => setAmounts(prev => ({ ...prev, [item.productId]: e.target.value }))}
+                          disabled={!amount}
+                          placeholder="0.00"
+                          className="w-24 px-2 py-1 text-sm border border-gray-600 rounded-md bg-gray-800 text-white text-right disabled:opacity-50"
+                        />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-gray-400">
+              {previousNotes.length > 0 && `Esta venta tiene ${previousNotes.length === 1 ? '1 nota de crédito anterior' : `${previousNotes.length} notas de crédito anteriores`}.`}
+            </span>
+            <span className="text-gray-100 font-semibold">Total nota de crédito: S/ {total.toFixed(2)}</span>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              {saleReturn ? 'Emitir después' : 'Cancelar'}
+            </Button>
+            <Button type="submit" variant="danger" loading={isSaving} disabled={isSaving || total <= 0}>
+              Emitir Nota de Crédito
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { useAppContext } from '../../context/AppContext';
+import { getMaxDiscountPercent } from '../../domain/services/DiscountCalculator';
+import { getUserRoleLabel } from '../../domain/constants/UserRoles';
+import type { AuthUser } from '../../domain/entities/User';
+import type { StoreConfig } from '../../domain/entities/StoreConfig';
+
+interface DiscountApprovalModalProps {
+  isOpen: boolean;
+  discountPercent: number;
+  allowedPercent: number;
+  config: StoreConfig | null;
+  onClose: () => void;
+  onApproved: (approver: AuthUser) => void;
+}
+
+/**
+ * Asks someone with a higher discount limit (usually the owner) to authorize the sale
+ * with their own credentials, without logging the cashier out
+ */
+export function DiscountApprovalModal({
+  isOpen,
+  discountPercent,
+  allowedPercent,
+  config,
+  onClose,
+  onApproved
+}: DiscountApprovalModalProps) {
+  const { authRepo } = useAppContext();
+  const [credentials, setCredentials] = useState({ username: '', password: '' });
+  const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCredentials({ username: '', password: '' });
+    setError('');
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    let approver: AuthUser;
+    try {
+      setIsVerifying(true);
+      approver = await authRepo.verifyCredentials(credentials.username.trim(), credentials.password);
+    } catch (err) {
+      console.error('Error verifying approver:', err);
+      setError('Usuario o contraseña incorrectos');
+      return;
+    } finally {
+      setIsVerifying(false);
+    }
+
+    const approverLimit = getMaxDiscountPercent(config, approver.role);
+    if (discountPercent > approverLimit) {
+      setError(`${getUserRoleLabel(approver.role)} ${approver.username} solo puede autorizar hasta ${approverLimit}% de descuento`);
+      return;
+    }
+    onApproved(approver);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Autorizar Descuento" size="sm">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          El descuento de esta venta ({discountPercent.toFixed(2)}%) supera su límite de {allowedPercent}%.
+          Un usuario autorizado debe ingresar sus credenciales.
+        </p>
+
+        <Input
+          label="Usuario"
+          value={credentials.username}
+          onChange={(e) => setCredentials({ ...credentials, username: e.target.value })}
+          autoComplete="off"
+          required
+        />
+        <Input
+          label="Contraseña"
+          type="password"
+          value={credentials.password}
+          onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
+          autoComplete="off"
+          required
+        />
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={isVerifying}>
+            Autorizar
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { Sale } from '../../domain/entities/Sale';
+
+interface LoyaltySummaryProps {
+  sale: Sale;
+}
+
+/**
+ * Points earned and redeemed in the sale and the balance left, for receipts of registered customers
+ */
+export function LoyaltySummary({ sale }: LoyaltySummaryProps) {
+  if (sale.loyaltyPointsBalance == null) return null;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-dashed space-y-1 text-xs text-gray-600">
+      {!!sale.loyaltyPointsRedeemed && (
+        <div className="flex justify-between">
+          <span>Puntos canjeados</span>
+          <span>-{sale.loyaltyPointsRedeemed}</span>
+        </div>
+      )}
+      {!!sale.loyaltyPointsEarned && (
+        <div className="flex justify-between">
+          <span>Puntos ganados</span>
+          <span>+{sale.loyaltyPointsEarned}</span>
+        </div>
+      )}
+      <div className="flex justify-between font-semibold">
+        <span>Saldo de puntos</span>
+        <span>{sale.loyaltyPointsBalance}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Button } from '../UI/Button';
+import { getCartUnits } from '../../domain/services/ParkedCartService';
+import { formatUTCDateToLocal } from '../../utils/dateUtils';
+import type { ParkedCart } from '../../domain/entities/ParkedCart';
+
+interface ParkedCartsPanelProps {
+  carts: ParkedCart[];
+  canPark: boolean;
+  onPark: (label: string) => Promise<void>;
+  onResume: (cart: ParkedCart) => void;
+  onDiscard: (cart: ParkedCart) => void;
+}
+
+export function ParkedCartsPanel({ carts, canPark, onPark, onResume, onDiscard }: ParkedCartsPanelProps) {
+  const [label, setLabel] = useState('');
+  const [error, setError] = useState('');
+
+  const handlePark = async () => {
+    setError('');
+    try {
+      await onPark(label);
+      setLabel('');
+    } catch (err: any) {
+      setError(err.message || 'Error al poner el carrito en espera');
+    }
+  };
+
+  if (!canPark && !carts.length) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-md space-y-3">
+      <h3 className="text-base md:text-lg font-semibold">Carritos en Espera</h3>
+
+      {canPark && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter parks the cart instead of submitting the sale
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handlePark();
+              }
+            }}
+            placeholder="Etiqueta (ej. señora de la blusa roja)"
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          <Button type="button" size="sm" variant="secondary" onClick={handlePark}>
+            Poner en espera
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {carts.length > 0 && (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {carts.map(cart => (
+            <div key={cart.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 dark:text-white truncate">{cart.label}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {getCartUnits(cart.cart)} unidades · {formatUTCDateToLocal(cart.parkedAt).split(' ')[1]?.substring(0, 5)}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button type="button" size="sm" onClick={() => onResume(cart)}>
+                  Retomar
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => onDiscard(cart)}>
+                  Descartar
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { getPaymentMethodLabel } from '../../domain/constants/PaymentMethods';
+import { maskGiftCardCode } from '../../domain/services/GiftCardService';
+import type { SalePayment } from '../../domain/entities/Sale';
+
+interface PaymentBreakdownProps {
+  payments?: SalePayment[];
+  cashReceived?: number | null;
+  change?: number;
+}
+
+export function PaymentBreakdown({ payments, cashReceived, change }: PaymentBreakdownProps) {
+  if (!payments || payments.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1 text-sm">
+      {payments.map((payment, idx) => (
+        <React.Fragment key={idx}>
+          <div className="flex justify-between">
+            <span>
+              {getPaymentMethodLabel(payment.method)}
+              {payment.reference && (
+                <span className="text-xs text-gray-500">
+                  {' '}({payment.method === 'gift_card' ? maskGiftCardCode(payment.reference) : payment.reference})
+                </span>
+              )}
+            </span>
+            <span>S/ {payment.amount.toFixed(2)}</span>
+          </div>
+          {payment.balanceAfter != null && (
+            <div className="flex justify-between text-xs text-gray-500">
+              <span className="pl-2">Saldo restante de la tarjeta</span>
+              <span>S/ {payment.balanceAfter.toFixed(2)}</span>
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+      {cashReceived != null && cashReceived > 0 && (
+        <div className="flex justify-between text-gray-600">
+          <span>Efectivo recibido</span>
+          <span>S/ {cashReceived.toFixed(2)}</span>
+        </div>
+      )}
+      {!!change && change > 0 && (
+        <div className="flex justify-between text-gray-600">
+          <span>Vuelto</span>
+          <span>S/ {change.toFixed(2)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
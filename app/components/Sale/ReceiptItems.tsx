@@ -0,0 +1,62 @@
+import React from 'react';
+import type { SaleItem } from '../../domain/entities/Sale';
+
+interface ReceiptItemsProps {
+  items: SaleItem[];
+}
+
+/**
+ * Item table of a receipt: list price per unit, with the promotion and the discount under the line
+ */
+export function ReceiptItems({ items }: ReceiptItemsProps) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b">
+          <th className="text-left">Producto</th>
+          <th className="text-right">Cant.</th>
+          <th className="text-right">Precio</th>
+          <th className="text-right">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {items.map((item, idx) => (
+          <React.Fragment key={idx}>
+            <tr>
+              <td className="text-left py-1">{item.name}</td>
+              <td className="text-right">{item.quantity}</td>
+              <td className="text-right">S/ {(item.listPrice ?? item.price).toFixed(2)}</td>
+              <td className="text-right">S/ {item.subtotal.toFixed(2)}</td>
+            </tr>
+            {!!item.promotionDiscount && (
+              <tr className="text-xs text-gray-500">
+                <td colSpan={3} className="text-left pl-2">Promo: {item.promotionName}</td>
+                <td className="text-right">-S/ {item.promotionDiscount.toFixed(2)}</td>
+              </tr>
+            )}
+            {!!item.couponDiscount && (
+              <tr className="text-xs text-gray-500">
+                <td colSpan={3} className="text-left pl-2">Cupón</td>
+                <td className="text-right">-S/ {item.couponDiscount.toFixed(2)}</td>
+              </tr>
+            )}
+            {!!item.pointsDiscount && (
+              <tr className="text-xs text-gray-500">
+                <td colSpan={3} className="text-left pl-2">Canje de puntos</td>
+                <td className="text-right">-S/ {item.pointsDiscount.toFixed(2)}</td>
+              </tr>
+            )}
+            {!!item.discount && (
+              <tr className="text-xs text-gray-500">
+                <td colSpan={3} className="text-left pl-2">
+                  Desc.{item.discountReason ? ` (${item.discountReason})` : ''}
+                </td>
+                <td className="text-right">-S/ {item.discount.toFixed(2)}</td>
+              </tr>
+            )}
+          </React.Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
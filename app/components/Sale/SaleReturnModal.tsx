@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { useAppContext } from '../../context/AppContext';
+import type { Sale, SaleItem } from '../../domain/entities/Sale';
+import type { SaleReturn } from '../../domain/entities/SaleReturn';
+
+interface SaleReturnModalProps {
+  sale: Sale | null;
+  onClose: () => void;
+  onReturned: (saleReturn: SaleReturn) => void;
+}
+
+export function SaleReturnModal({ sale, onClose, onReturned }: SaleReturnModalProps) {
+  const { saleReturnService, registerSaleReturn } = useAppContext();
+  const [previousReturns, setPreviousReturns] = useState<SaleReturn[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundEdited, setRefundEdited] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!sale) return;
+
+    const loadReturns = async () => {
+      try {
+        setIsLoading(true);
+        setError('');
+        const returns = await saleReturnService.getReturnsForSale(sale.id);
+        setPreviousReturns(returns);
+      } catch (error) {
+        console.error('Error loading sale returns:', error);
+        setError('Error al cargar devoluciones anteriores');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    setQuantities({});
+    setReason('');
+    setRefundAmount('');
+    setRefundEdited(false);
+    loadReturns();
+  }, [sale, saleReturnService]);
+
+  if (!sale) return null;
+
+  const returnable: Record<string, number> = saleReturnService.getReturnableQuantities(sale, previousReturns);
+  // Refunds use what was actually charged per unit, IGV included
+  const paidUnitPrice = (item: SaleItem): number => item.quantity ? item.subtotal / item.quantity : item.price;
+  const computedRefund = sale.items.reduce((sum, item) => sum + paidUnitPrice(item) * (quantities[item.productId] || 0), 0);
+  const displayedRefund = refundEdited ? refundAmount : computedRefund.toFixed(2);
+
+  const handleQuantityChange = (productId: string, value: string) => {
+    const max = returnable[productId] || 0;
+    const parsed = Math.min(Math.max(parseInt(value) || 0, 0), max);
+    setQuantities(prev => ({ ...prev, [productId]: parsed }));
+  };
+
+  const handleReturnAll = () => {
+    setQuantities({ ...returnable });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setIsSaving(true);
+      const saleReturn = await registerSaleReturn(sale, {
+        items: sale.items
+          .filter(item => (quantities[item.productId] || 0) > 0)
+          .map(item => ({
+            productId: item.productId,
+            name: item.name,
+            price: paidUnitPrice(item),
+            quantity: quantities[item.productId],
+            subtotal: paidUnitPrice(item) * quantities[item.productId]
+          })),
+        reason,
+        refundAmount: parseFloat(displayedRefund) || 0
+      });
+      onReturned(saleReturn);
+    } catch (err: any) {
+      console.error('Error registering return:', err);
+      setError(err.message || 'Error al registrar la devolución');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!sale} onClose={onClose} title="Registrar Devolución" size="lg">
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner text="Cargando venta..." />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="text-sm text-gray-400">
+            Cliente: <span className="text-gray-200">{sale.clientName || 'Anónimo'}</span> | Total: <span className="text-gray-200">S/ {sale.total.toFixed(2)}</span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="bg-gray-700">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Producto</th>
+                  <th className="px-3 py-2 text-center text-xs font-medium text-gray-300 uppercase">Vendido</th>
+                  <th className="px-3 py-2 text-center text-xs font-medium text-gray-300 uppercase">Disponible</th>
+                  <th className="px-3 py-2 text-center text-xs font-medium text-gray-300 uppercase">A devolver</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {sale.items.map(item => (
+                  <tr key={item.productId}>
+                    <td className="px-3 py-2 text-gray-100">
+                      <div>{item.name}</div>
+                      <div className="text-xs text-gray-400">S/ {item.price.toFixed(2)} c/u</div>
+                    </td>
+                    <td className="px-3 py-2 text-center text-gray-100">{item.quantity}</td>
+                    <td className="px-3 py-2 text-center text-gray-100">{returnable[item.productId] || 0}</td>
+                    <td className="px-3 py-2 text-center">
+                      <input
+                        type="number"
+                        min="0"
+                        max={returnable[item.productId] || 0}
+                        value={quantities[item.productId] || 0}
+                        onChange={(e) => handleQuantityChange(item.productId, e.target.value)}
+                        disabled={!returnable[item.productId]}
+                        className="w-20 px-2 py-1 text-sm border border-gray-600 rounded-md bg-gray-800 text-white text-center disabled:opacity-50"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" size="sm" variant="secondary" onClick={handleReturnAll}>
+              Devolver todo
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Motivo *"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ej: Talla incorrecta, cambio, falla de fábrica"
+              required
+            />
+            <Input
+              label="Monto a reembolsar (S/)"
+              type="number"
+              min="0"
+              step="0.01"
+              value={displayedRefund}
+              onChange={(e) => {
+                setRefundEdited(true);
+                setRefundAmount(e.target.value);
+              }}
+              helperText="Para cambios puede registrar S/ 0.00"
+            />
+          </div>
+
+          {previousReturns.length > 0 && (
+            <div className="text-xs text-gray-400">
+              Esta venta tiene {previousReturns.length === 1 ? '1 devolución anterior' : `${previousReturns.length} devoluciones anteriores`}.
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" variant="danger" loading={isSaving} disabled={isSaving || !Object.values(quantities).some(q => q > 0)}>
+              Registrar Devolución
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
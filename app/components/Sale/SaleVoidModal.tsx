@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../UI/Modal';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { useAppContext } from '../../context/AppContext';
+import { getUserRoleLabel } from '../../domain/constants/UserRoles';
+import { formatDocumentId, getSaleDocumentNumber } from '../../domain/services/DocumentSeriesService';
+import type { Sale } from '../../domain/entities/Sale';
+import type { AuthUser } from '../../domain/entities/User';
+import type { ElectronicDocument } from '../../domain/entities/ElectronicDocument';
+import type { SaleVoidResult } from '../../domain/services/SaleVoidService';
+
+interface SaleVoidModalProps {
+  sale: Sale | null;
+  // The sale's electronic receipt, if one was issued
+  document: ElectronicDocument | null;
+  onClose: () => void;
+  onVoided: (result: SaleVoidResult) => void;
+}
+
+/**
+ * Voids a sale with a reason. The owner authorizes it with their own credentials,
+ * without logging the cashier out.
+ */
+export function SaleVoidModal({ sale, document, onClose, onVoided }: SaleVoidModalProps) {
+  const { authRepo, voidSale } = useAppContext();
+  const [reason, setReason] = useState('');
+  const [credentials, setCredentials] = useState({ username: '', password: '' });
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!sale) return;
+    setReason('');
+    setCredentials({ username: '', password: '' });
+    setError('');
+  }, [sale]);
+
+  if (!sale) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!reason.trim()) {
+      setError('Indique el motivo de la anulación');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      let owner: AuthUser;
+      try {
+        owner = await authRepo.verifyCredentials(credentials.username.trim(), credentials.password);
+      } catch (err) {
+        console.error('Error verifying owner:', err);
+        setError('Usuario o contraseña incorrectos');
+        return;
+      }
+      if (owner.role !== 'owner') {
+        setError(`${getUserRoleLabel(owner.role)} ${owner.username} no puede autorizar anulaciones`);
+        return;
+      }
+
+      onVoided(await voidSale(sale, reason, owner));
+    } catch (err: any) {
+      console.error('Error voiding sale:', err);
+      setError(err.message || 'Error al anular la venta');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!sale} onClose={onClose} title="Anular Venta">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="text-sm text-gray-400">
+          {getSaleDocumentNumber(sale) || 'Venta sin número'} | Cliente: <span className="text-gray-200">{sale.clientName || 'Anónimo'}</span> | Total: <span className="text-gray-200">S/ {sale.total.toFixed(2)}</span>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          La venta quedará registrada como anulada y sus productos volverán al stock.
+          Se devuelven los puntos canjeados, el saldo usado de tarjetas de regalo y el uso del cupón.
+          El efectivo que falte devolver sale de la caja abierta, descontando lo ya reembolsado en devoluciones.
+        </p>
+
+        {document && document.status !== 'rejected' && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+            Esta venta tiene el comprobante electrónico {formatDocumentId(document.series, document.correlative)}.
+            Se preparará su comunicación de baja, o la nota de crédito si ya pasó el plazo.
+          </div>
+        )}
+
+        <Input
+          label="Motivo *"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Ej: Venta registrada por error, producto equivocado"
+          required
+        />
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-300 mb-2">Autorización del dueño</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Usuario"
+              value={credentials.username}
+              onChange={(e) => setCredentials({ ...credentials, username: e.target.value })}
+              autoComplete="off"
+              required
+            />
+            <Input
+              label="Contraseña"
+              type="password"
+              value={credentials.password}
+              onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
+              autoComplete="off"
+              required
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button type="submit" variant="danger" loading={isSaving} disabled={isSaving}>
+            Anular Venta
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
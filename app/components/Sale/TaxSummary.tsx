@@ -0,0 +1,33 @@
+import React from 'react';
+import type { TaxBreakdown } from '../../domain/services/TaxCalculator';
+
+interface TaxSummaryProps {
+  breakdown: TaxBreakdown;
+}
+
+export function TaxSummary({ breakdown }: TaxSummaryProps) {
+  return (
+    <div className="mb-2 space-y-1 text-sm text-gray-600">
+      <div className="flex justify-between">
+        <span>Op. Gravada</span>
+        <span>S/ {breakdown.taxed.toFixed(2)}</span>
+      </div>
+      {breakdown.exonerated > 0 && (
+        <div className="flex justify-between">
+          <span>Op. Exonerada</span>
+          <span>S/ {breakdown.exonerated.toFixed(2)}</span>
+        </div>
+      )}
+      {breakdown.unaffected > 0 && (
+        <div className="flex justify-between">
+          <span>Op. Inafecta</span>
+          <span>S/ {breakdown.unaffected.toFixed(2)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span>IGV ({Math.round(breakdown.igvRate * 100)}%)</span>
+        <span>S/ {breakdown.igv.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
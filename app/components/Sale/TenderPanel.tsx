@@ -0,0 +1,135 @@
+import React from 'react';
+import { Button } from '../UI/Button';
+import { PAYMENT_METHODS } from '../../domain/constants/PaymentMethods';
+import { summarizeTender } from '../../domain/services/PaymentCalculator';
+import type { TenderLine } from '../../domain/services/PaymentCalculator';
+import type { PaymentMethod } from '../../domain/entities/Sale';
+
+interface TenderPanelProps {
+  total: number;
+  lines: TenderLine[];
+  onChange: (lines: TenderLine[]) => void;
+}
+
+// Points are redeemed from the customer's loyalty block, not typed in as a payment line
+const TENDER_METHODS = PAYMENT_METHODS.filter(method => method.value !== 'points');
+
+export const createTenderLine = (method: PaymentMethod = 'cash'): TenderLine => ({
+  method,
+  amount: '',
+  reference: ''
+});
+
+export function TenderPanel({ total, lines, onChange }: TenderPanelProps) {
+  const summary = summarizeTender(lines, total);
+
+  const updateLine = (idx: number, field: keyof TenderLine, value: string) => {
+    onChange(lines.map((line, i) => i === idx ? { ...line, [field]: value } : line));
+  };
+
+  const addLine = () => {
+    const usedMethods = lines.map(line => line.method);
+    const nextMethod = TENDER_METHODS.find(m => !usedMethods.includes(m.value))?.value || 'cash';
+    onChange([...lines, createTenderLine(nextMethod)]);
+  };
+
+  const removeLine = (idx: number) => {
+    const remaining = lines.filter((_, i) => i !== idx);
+    onChange(remaining.length ? remaining : [createTenderLine()]);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-md">
+      <div className="flex justify-between items-center mb-3 md:mb-4">
+        <h3 className="text-base md:text-lg font-semibold">Forma de Pago</h3>
+        <Button type="button" size="sm" variant="secondary" onClick={addLine}>
+          + Dividir pago
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {lines.map((line, idx) => {
+          const methodInfo = PAYMENT_METHODS.find(m => m.value === line.method);
+          return (
+            <div key={idx} className="grid grid-cols-12 gap-2 items-end bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+              <div className="col-span-12 sm:col-span-4">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Medio</label>
+                <select
+                  value={line.method}
+                  onChange={(e) => updateLine(idx, 'method', e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  {TENDER_METHODS.map(method => (
+                    <option key={method.value} value={method.value}>{method.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-5 sm:col-span-3">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {line.method === 'cash' ? 'Recibido (S/)' : 'Monto (S/)'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.amount}
+                  placeholder={line.method === 'cash' ? 'Exacto' : '0.00'}
+                  onChange={(e) => updateLine(idx, 'amount', e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div className="col-span-6 sm:col-span-4">
+                {methodInfo?.referenceLabel && (
+                  <>
+                    <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{methodInfo.referenceLabel}</label>
+                    <input
+                      type="text"
+                      value={line.reference}
+                      onChange={(e) => updateLine(idx, 'reference', e.target.value)}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    />
+                  </>
+                )}
+              </div>
+              <div className="col-span-1 text-right">
+                {lines.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => removeLine(idx)}
+                    className="text-red-600 hover:text-red-800 text-sm"
+                    title="Quitar pago"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 space-y-1 text-sm">
+        <div className="flex justify-between text-gray-600 dark:text-gray-400">
+          <span>Total a cobrar</span>
+          <span>S/ {summary.total.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between text-gray-600 dark:text-gray-400">
+          <span>Recibido</span>
+          <span>S/ {summary.tendered.toFixed(2)}</span>
+        </div>
+        {summary.pending > 0 && (
+          <div className="flex justify-between font-semibold text-red-600">
+            <span>Pendiente</span>
+            <span>S/ {summary.pending.toFixed(2)}</span>
+          </div>
+        )}
+        {summary.change > 0 && (
+          <div className="flex justify-between font-semibold text-green-600">
+            <span>Vuelto</span>
+            <span>S/ {summary.change.toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
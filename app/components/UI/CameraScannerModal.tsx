@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { CameraBarcodeReader } from '../../infrastructure/barcode/CameraBarcodeReader';
+
+interface CameraScannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDetected: (code: string) => void;
+}
+
+const SCAN_INTERVAL_MS = 200;
+
+/**
+ * Barcode scanning with the device camera (rear camera on phones and tablets)
+ */
+export function CameraScannerModal({ isOpen, onClose, onDetected }: CameraScannerModalProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    setError('');
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Este navegador no permite usar la cámara. Abra el sistema con HTTPS o desde Chrome/Safari.');
+        return;
+      }
+      let media: MediaStream;
+      try {
+        media = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+      } catch (err) {
+        console.error('Error opening camera:', err);
+        setError('No se pudo acceder a la cámara. Revise los permisos del navegador.');
+        return;
+      }
+      // Closed while the camera was opening: cleanup already ran, so release it here
+      if (stopped) {
+        media.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = media;
+
+      const video = videoRef.current;
+      if (!video) return;
+      video.srcObject = media;
+      await video.play().catch(() => undefined);
+
+      const reader = new CameraBarcodeReader();
+      const scan = async () => {
+        if (stopped) return;
+        let code: string | null = null;
+        try {
+          code = await reader.read(video);
+        } catch (err) {
+          // A failed frame must not stop the loop; the next one is read as usual
+          console.error('Error reading barcode from camera:', err);
+        }
+        if (code && !stopped) {
+          stopped = true;
+          onDetectedRef.current(code);
+          return;
+        }
+        timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+      };
+      scan();
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Escanear con Cámara">
+      <div className="space-y-4">
+        {error ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        ) : (
+          <>
+            <div className="relative overflow-hidden rounded-lg bg-black">
+              <video ref={videoRef} className="w-full" muted playsInline />
+              {/* Aiming line: the decoder reads horizontal lines across the middle */}
+              <div className="pointer-events-none absolute inset-x-6 top-1/2 h-0.5 bg-red-500/80" />
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Apunte al código de barras en horizontal; se detecta solo.
+            </p>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
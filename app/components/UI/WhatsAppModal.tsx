@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Modal } from './Modal';
 import { Button } from './Button';
 import { Input } from './Input';
@@ -23,6 +23,11 @@ export function WhatsAppModal({
   const [message, setMessage] = useState(() => generateDefaultMessage(storeName));
   const [error, setError] = useState('');
 
+  // The modal stays mounted, so pick up the phone of whichever customer it is opened for
+  useEffect(() => {
+    if (isOpen) setPhoneNumber(defaultPhone);
+  }, [isOpen, defaultPhone]);
+
   const handleSend = () => {
     setError('');
     
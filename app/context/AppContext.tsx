@@ -32,6 +32,25 @@ import { SaleApiAdapter } from '../infrastructure/api/SaleApiAdapter';
 import { StoreConfigApiAdapter } from '../infrastructure/api/StoreConfigApiAdapter';
 import { CategoryApiAdapter } from '../infrastructure/api/CategoryApiAdapter';
 import { ExcelApiAdapter } from '../infrastructure/api/ExcelApiAdapter';
+import { SaleReturnApiAdapter } from '../infrastructure/api/SaleReturnApiAdapter';
+import { CashSessionApiAdapter } from '../infrastructure/api/CashSessionApiAdapter';
+import { ElectronicDocumentApiAdapter } from '../infrastructure/api/ElectronicDocumentApiAdapter';
+import { UblDocumentBuilder } from '../infrastructure/sunat/UblDocumentBuilder';
+import { DocumentSeriesApiAdapter } from '../infrastructure/api/DocumentSeriesApiAdapter';
+import { ProductStyleApiAdapter } from '../infrastructure/api/ProductStyleApiAdapter';
+import { AuthApiAdapter } from '../infrastructure/api/AuthApiAdapter';
+import { PromotionApiAdapter } from '../infrastructure/api/PromotionApiAdapter';
+import { CouponApiAdapter } from '../infrastructure/api/CouponApiAdapter';
+import { GiftCardApiAdapter } from '../infrastructure/api/GiftCardApiAdapter';
+import { CustomerApiAdapter } from '../infrastructure/api/CustomerApiAdapter';
+import { LoyaltyApiAdapter } from '../infrastructure/api/LoyaltyApiAdapter';
+import { LayawayApiAdapter } from '../infrastructure/api/LayawayApiAdapter';
+import { ReceivableApiAdapter } from '../infrastructure/api/ReceivableApiAdapter';
+import { CreditNoteApiAdapter } from '../infrastructure/api/CreditNoteApiAdapter';
+import { ParkedCartStorageAdapter } from '../infrastructure/storage/ParkedCartStorageAdapter';
+import { StockMovementApiAdapter } from '../infrastructure/api/StockMovementApiAdapter';
+import { SupplierApiAdapter } from '../infrastructure/api/SupplierApiAdapter';
+import { PurchaseOrderApiAdapter } from '../infrastructure/api/PurchaseOrderApiAdapter';
 
 // ===== HTTP CLIENT IMPORT =====
 // Core HTTP communication layer
@@ -42,14 +61,41 @@ import { HttpClient } from '../infrastructure/http/HttpClient';
 import { InventoryService } from '../domain/services/InventoryService';
 import { SaleService } from '../domain/services/SaleService';
 import { CategoryService } from '../domain/services/CategoryService';
+import { SaleReturnService } from '../domain/services/SaleReturnService';
+import { CashSessionService } from '../domain/services/CashSessionService';
+import { ElectronicReceiptService } from '../domain/services/ElectronicReceiptService';
+import { DocumentSeriesService } from '../domain/services/DocumentSeriesService';
+import { ProductStyleService } from '../domain/services/ProductStyleService';
+import { StockMovementService } from '../domain/services/StockMovementService';
+import { PurchaseOrderService } from '../domain/services/PurchaseOrderService';
+import { ProfitReportService } from '../domain/services/ProfitReportService';
+import { ReorderService } from '../domain/services/ReorderService';
+import { PromotionService } from '../domain/services/PromotionService';
+import { CouponService } from '../domain/services/CouponService';
+import { GiftCardService } from '../domain/services/GiftCardService';
+import { CustomerService } from '../domain/services/CustomerService';
+import { LoyaltyService } from '../domain/services/LoyaltyService';
+import { LayawayService } from '../domain/services/LayawayService';
+import { ReceivableService } from '../domain/services/ReceivableService';
+import { ParkedCartService } from '../domain/services/ParkedCartService';
+import { SaleVoidService } from '../domain/services/SaleVoidService';
+import { CreditNoteService } from '../domain/services/CreditNoteService';
 
 // ===== USE CASE IMPORTS =====
 // Application use cases that coordinate business operations
 import { AddProduct } from '../application/useCases/AddProduct';
 import { EditProduct } from '../application/useCases/EditProduct';
 import { DeleteProduct } from '../application/useCases/DeleteProduct';
+import { AdjustStock } from '../application/useCases/AdjustStock';
 import { MakeSale } from '../application/useCases/MakeSale';
 import { MarkSaleAsInvoiced } from '../application/useCases/MarkSaleAsInvoiced';
+import { RegisterSaleReturn } from '../application/useCases/RegisterSaleReturn';
+import { VoidSale } from '../application/useCases/VoidSale';
+import { IssueCreditNote } from '../application/useCases/IssueCreditNote';
+import { OpenCashSession } from '../application/useCases/OpenCashSession';
+import { RegisterCashMovement } from '../application/useCases/RegisterCashMovement';
+import { CloseCashSession } from '../application/useCases/CloseCashSession';
+import { ReceivePurchaseOrder } from '../application/useCases/ReceivePurchaseOrder';
 
 /**
  * Application Context
@@ -103,6 +149,25 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const productRepo = useMemo(() => new ProductApiAdapter(), []);
   const saleRepo = useMemo(() => new SaleApiAdapter(), []);
   const configRepo = useMemo(() => new StoreConfigApiAdapter(), []);
+  const saleReturnRepo = useMemo(() => new SaleReturnApiAdapter(), []);
+  const cashSessionRepo = useMemo(() => new CashSessionApiAdapter(), []);
+  const electronicDocumentRepo = useMemo(() => new ElectronicDocumentApiAdapter(), []);
+  const documentBuilder = useMemo(() => new UblDocumentBuilder(), []);
+  const documentSeriesRepo = useMemo(() => new DocumentSeriesApiAdapter(), []);
+  const productStyleRepo = useMemo(() => new ProductStyleApiAdapter(), []);
+  const stockMovementRepo = useMemo(() => new StockMovementApiAdapter(), []);
+  const supplierRepo = useMemo(() => new SupplierApiAdapter(), []);
+  const purchaseOrderRepo = useMemo(() => new PurchaseOrderApiAdapter(), []);
+  const authRepo = useMemo(() => new AuthApiAdapter(), []);
+  const promotionRepo = useMemo(() => new PromotionApiAdapter(), []);
+  const couponRepo = useMemo(() => new CouponApiAdapter(), []);
+  const giftCardRepo = useMemo(() => new GiftCardApiAdapter(), []);
+  const customerRepo = useMemo(() => new CustomerApiAdapter(), []);
+  const loyaltyRepo = useMemo(() => new LoyaltyApiAdapter(), []);
+  const layawayRepo = useMemo(() => new LayawayApiAdapter(), []);
+  const receivableRepo = useMemo(() => new ReceivableApiAdapter(), []);
+  const creditNoteRepo = useMemo(() => new CreditNoteApiAdapter(), []);
+  const parkedCartRepo = useMemo(() => new ParkedCartStorageAdapter(), []);
   
   /**
    * HTTP Client Dependent Repositories
@@ -123,9 +188,61 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
    * Dependencies: Services depend on repositories for data access
    * Memoized: Prevents re-creation when dependencies haven't changed
    */
-  const inventoryService = useMemo(() => new InventoryService(productRepo), [productRepo]);
-  const saleService = useMemo(() => new SaleService(saleRepo, productRepo), [saleRepo, productRepo]);
+  const stockMovementService = useMemo(() => new StockMovementService(stockMovementRepo, productRepo), [stockMovementRepo, productRepo]);
+  const inventoryService = useMemo(() => new InventoryService(productRepo, stockMovementService), [productRepo, stockMovementService]);
+  const couponService = useMemo(() => new CouponService(couponRepo), [couponRepo]);
+  const cashSessionService = useMemo(() => new CashSessionService(cashSessionRepo, saleRepo), [cashSessionRepo, saleRepo]);
+  const giftCardService = useMemo(
+    () => new GiftCardService(giftCardRepo, cashSessionService),
+    [giftCardRepo, cashSessionService]
+  );
+  const customerService = useMemo(() => new CustomerService(customerRepo, saleRepo), [customerRepo, saleRepo]);
+  const loyaltyService = useMemo(
+    () => new LoyaltyService(loyaltyRepo, customerRepo, configRepo),
+    [loyaltyRepo, customerRepo, configRepo]
+  );
+  const saleService = useMemo(
+    () => new SaleService(saleRepo, productRepo, documentSeriesRepo, stockMovementService, couponService, giftCardService, customerService, loyaltyService),
+    [saleRepo, productRepo, documentSeriesRepo, stockMovementService, couponService, giftCardService, customerService, loyaltyService]
+  );
   const categoryService = useMemo(() => new CategoryService(categoryRepo), [categoryRepo]);
+  const saleReturnService = useMemo(
+    () => new SaleReturnService(saleReturnRepo, productRepo, stockMovementService, loyaltyService, cashSessionService, giftCardService),
+    [saleReturnRepo, productRepo, stockMovementService, loyaltyService, cashSessionService, giftCardService]
+  );
+  const layawayService = useMemo(
+    () => new LayawayService(layawayRepo, productRepo, cashSessionService, saleService),
+    [layawayRepo, productRepo, cashSessionService, saleService]
+  );
+  const parkedCartService = useMemo(() => new ParkedCartService(parkedCartRepo), [parkedCartRepo]);
+  const receivableService = useMemo(
+    () => new ReceivableService(receivableRepo, cashSessionService),
+    [receivableRepo, cashSessionService]
+  );
+  const documentSeriesService = useMemo(() => new DocumentSeriesService(documentSeriesRepo), [documentSeriesRepo]);
+  const productStyleService = useMemo(() => new ProductStyleService(productStyleRepo, productRepo), [productStyleRepo, productRepo]);
+  const profitReportService = useMemo(
+    () => new ProfitReportService(saleRepo, productRepo, categoryRepo, saleReturnRepo),
+    [saleRepo, productRepo, categoryRepo, saleReturnRepo]
+  );
+  const reorderService = useMemo(() => new ReorderService(productRepo, categoryRepo), [productRepo, categoryRepo]);
+  const promotionService = useMemo(() => new PromotionService(promotionRepo), [promotionRepo]);
+  const purchaseOrderService = useMemo(
+    () => new PurchaseOrderService(purchaseOrderRepo, supplierRepo, productRepo, stockMovementService),
+    [purchaseOrderRepo, supplierRepo, productRepo, stockMovementService]
+  );
+  const electronicReceiptService = useMemo(
+    () => new ElectronicReceiptService(electronicDocumentRepo, saleRepo, configRepo, documentBuilder, saleService),
+    [electronicDocumentRepo, saleRepo, configRepo, documentBuilder, saleService]
+  );
+  const creditNoteService = useMemo(
+    () => new CreditNoteService(creditNoteRepo, electronicDocumentRepo, configRepo, documentSeriesRepo),
+    [creditNoteRepo, electronicDocumentRepo, configRepo, documentSeriesRepo]
+  );
+  const saleVoidService = useMemo(
+    () => new SaleVoidService(saleRepo, saleReturnRepo, productRepo, stockMovementService, loyaltyService, couponService, giftCardService, cashSessionService, electronicReceiptService, creditNoteService),
+    [saleRepo, saleReturnRepo, productRepo, stockMovementService, loyaltyService, couponService, giftCardService, cashSessionService, electronicReceiptService, creditNoteService]
+  );
 
   // ===== USE CASE LAYER SETUP =====
   /**
@@ -150,14 +267,34 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     addProduct: AddProduct(inventoryService),         // Create new products
     editProduct: EditProduct(inventoryService),       // Update existing products
     deleteProduct: DeleteProduct(inventoryService),   // Remove products from inventory
+    adjustStock: AdjustStock(stockMovementService),   // Stock corrections with a reason code
     
     // ===== SALES MANAGEMENT USE CASES =====
     /**
      * Sales Management Operations
      * Core business operations for sales process management
      */
-    makeSale: MakeSale(saleService),                          // Process new sales
-    markSaleAsInvoiced: MarkSaleAsInvoiced(saleService),     // Update sale invoice status
+    makeSale: MakeSale(saleService),                          // Process new sales and number their receipts
+    markSaleAsInvoiced: MarkSaleAsInvoiced(electronicReceiptService), // Issue the electronic boleta/factura
+    registerSaleReturn: RegisterSaleReturn(saleReturnService), // Process returns and restock items
+    voidSale: VoidSale(saleVoidService),                       // Void a sale with owner authorization
+    issueCreditNote: IssueCreditNote(creditNoteService),       // Nota de crédito on an invoiced sale
+
+    // ===== CASH REGISTER USE CASES =====
+    /**
+     * Cash Register Operations
+     * Shift lifecycle: opening float, cash movements and end-of-day count
+     */
+    openCashSession: OpenCashSession(cashSessionService),             // Open a shift with its float
+    registerCashMovement: RegisterCashMovement(cashSessionService),   // Cash-in / cash-out during the shift
+    closeCashSession: CloseCashSession(cashSessionService),           // Close the shift with counted cash
+
+    // ===== PURCHASING USE CASES =====
+    /**
+     * Purchasing Operations
+     * Goods received from suppliers against purchase orders
+     */
+    receivePurchaseOrder: ReceivePurchaseOrder(purchaseOrderService), // Full or partial delivery into stock
     
     // ===== DIRECT SERVICE ACCESS =====
     /**
@@ -166,6 +303,25 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
      */
     categoryService,    // Category management business logic
     excelService,       // Excel import/export operations
+    saleReturnService,  // Sale returns and refund rules
+    cashSessionService, // Cash register shift summaries
+    electronicReceiptService, // SUNAT electronic receipts (UBL 2.1)
+    creditNoteService,  // Credit notes against issued receipts
+    documentSeriesService, // Receipt series (B001, F001...)
+    saleService,        // Sale numbering
+    productStyleService, // Styles with size/color variants
+    stockMovementService, // Stock ledger (kardex)
+    purchaseOrderService, // Suppliers and purchase orders
+    profitReportService, // Gross profit by day, category and product
+    reorderService,     // Low-stock alerts and reorder suggestions
+    promotionService,   // Automatic promotions (2x1, packs, % off)
+    couponService,      // Coupon codes
+    giftCardService,    // Gift cards and their balance ledger
+    customerService,    // Customer directory and purchase history
+    loyaltyService,     // Loyalty points ledger
+    layawayService,     // Layaways: reserved stock paid in installments
+    receivableService,  // Credit sales (fiado), collections and aging
+    parkedCartService,  // Carts on hold at the till, kept in the browser
     
     // ===== DIRECT REPOSITORY ACCESS =====
     /**
@@ -181,8 +337,13 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     productRepo,    // Product data access
     saleRepo,       // Sales data access
     configRepo,     // Store configuration data access
-    categoryRepo    // Category data access
-  }), [inventoryService, saleService, categoryService, excelService, productRepo, saleRepo, configRepo, categoryRepo]);
+    categoryRepo,   // Category data access
+    saleReturnRepo, // Sale returns data access
+    cashSessionRepo, // Cash register shifts data access
+    electronicDocumentRepo, // Electronic receipts data access
+    productStyleRepo, // Product styles data access
+    authRepo        // Session user and supervisor approvals
+  }), [inventoryService, saleService, categoryService, excelService, saleReturnService, saleVoidService, cashSessionService, electronicReceiptService, creditNoteService, documentSeriesService, productStyleService, stockMovementService, purchaseOrderService, profitReportService, reorderService, promotionService, couponService, giftCardService, customerService, loyaltyService, layawayService, receivableService, parkedCartService, productRepo, saleRepo, configRepo, categoryRepo, saleReturnRepo, cashSessionRepo, electronicDocumentRepo, productStyleRepo, authRepo]);
 
   return (
     <AppContext.Provider value={useCases}>
@@ -0,0 +1,18 @@
+import type { CreditNoteReason, CreditNoteScope } from '../entities/CreditNote';
+
+// Tipos de nota de crédito (SUNAT catálogo 09) que se emiten en tienda.
+// 03, 08 and 11-13 need data this app does not keep (descriptions, bonuses, exports, IVAP, installments).
+export const CREDIT_NOTE_REASONS: Array<{ value: CreditNoteReason; label: string; scope: CreditNoteScope }> = [
+  { value: '01', label: 'Anulación de la operación', scope: 'full' },
+  { value: '02', label: 'Anulación por error en el RUC', scope: 'full' },
+  { value: '04', label: 'Descuento global', scope: 'amount' },
+  { value: '05', label: 'Descuento por ítem', scope: 'amount' },
+  { value: '06', label: 'Devolución total', scope: 'full' },
+  { value: '07', label: 'Devolución por ítem', scope: 'items' },
+  { value: '09', label: 'Disminución en el valor', scope: 'amount' },
+  { value: '10', label: 'Otros conceptos', scope: 'amount' },
+];
+
+export const getCreditNoteReasonLabel = (reason: CreditNoteReason): string => {
+  return CREDIT_NOTE_REASONS.find(r => r.value === reason)?.label || reason;
+};
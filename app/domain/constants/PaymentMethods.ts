@@ -0,0 +1,20 @@
+import type { PaymentMethod } from '../entities/Sale';
+
+// Medios de pago aceptados en caja
+export const PAYMENT_METHODS: Array<{ value: PaymentMethod; label: string; referenceLabel: string | null }> = [
+  { value: 'cash', label: 'Efectivo', referenceLabel: null },
+  { value: 'yape', label: 'Yape', referenceLabel: 'N° de operación' },
+  { value: 'plin', label: 'Plin', referenceLabel: 'N° de operación' },
+  { value: 'card', label: 'Tarjeta', referenceLabel: 'N° de voucher' },
+  { value: 'transfer', label: 'Transferencia', referenceLabel: 'N° de operación' },
+  { value: 'gift_card', label: 'Tarjeta de regalo', referenceLabel: 'Código de tarjeta' },
+  { value: 'points', label: 'Puntos', referenceLabel: null },
+  { value: 'credit', label: 'Crédito (fiado)', referenceLabel: null },
+];
+
+// Money taken at the counter: what layaway deposits and receivable collections can be paid with
+export const COUNTER_PAYMENT_METHODS: PaymentMethod[] = ['cash', 'yape', 'plin', 'card', 'transfer'];
+
+export const getPaymentMethodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHODS.find(m => m.value === method)?.label || method;
+};
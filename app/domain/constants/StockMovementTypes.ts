@@ -0,0 +1,28 @@
+import type { AdjustmentReason, StockMovementType } from '../entities/StockMovement';
+
+// Motivos de movimiento de stock (kardex)
+export const STOCK_MOVEMENT_TYPES: Array<{ value: StockMovementType; label: string }> = [
+  { value: 'sale', label: 'Venta' },
+  { value: 'return', label: 'Devolución' },
+  { value: 'void', label: 'Anulación' },
+  { value: 'adjustment', label: 'Ajuste' },
+  { value: 'import', label: 'Importación' },
+  { value: 'purchase', label: 'Compra' },
+];
+
+export const getStockMovementTypeLabel = (type: StockMovementType): string => {
+  return STOCK_MOVEMENT_TYPES.find(t => t.value === type)?.label || type;
+};
+
+// Motivos de ajuste manual de stock; direction indica si el motivo resta, suma o ambos
+export const ADJUSTMENT_REASONS: Array<{ value: AdjustmentReason; label: string; direction: 'out' | 'in' | 'both' }> = [
+  { value: 'damaged', label: 'Dañado', direction: 'out' },
+  { value: 'lost', label: 'Extraviado', direction: 'out' },
+  { value: 'theft', label: 'Robo', direction: 'out' },
+  { value: 'found', label: 'Encontrado', direction: 'in' },
+  { value: 'count_correction', label: 'Corrección de conteo', direction: 'both' },
+];
+
+export const getAdjustmentReasonLabel = (reason: AdjustmentReason): string => {
+  return ADJUSTMENT_REASONS.find(r => r.value === reason)?.label || reason;
+};
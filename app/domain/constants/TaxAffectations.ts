@@ -0,0 +1,17 @@
+import type { TaxAffectation } from '../entities/Product';
+import type { TaxAffectationCode } from '../entities/ElectronicDocument';
+
+// Tipos de afectación al IGV (SUNAT catálogo 07)
+export const TAX_AFFECTATIONS: Array<{ value: TaxAffectation; label: string; code: TaxAffectationCode }> = [
+  { value: 'taxed', label: 'Gravado (IGV)', code: '10' },
+  { value: 'exonerated', label: 'Exonerado', code: '20' },
+  { value: 'unaffected', label: 'Inafecto', code: '30' },
+];
+
+export const getTaxAffectationLabel = (affectation: TaxAffectation): string => {
+  return TAX_AFFECTATIONS.find(a => a.value === affectation)?.label || affectation;
+};
+
+export const getTaxAffectationCode = (affectation: TaxAffectation): TaxAffectationCode => {
+  return TAX_AFFECTATIONS.find(a => a.value === affectation)?.code || '10';
+};
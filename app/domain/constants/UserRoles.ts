@@ -0,0 +1,10 @@
+import type { UserRole } from '../entities/User';
+
+export const USER_ROLES: Array<{ value: UserRole; label: string }> = [
+  { value: 'owner', label: 'Dueño' },
+  { value: 'cashier', label: 'Cajero' }
+];
+
+export const getUserRoleLabel = (role: UserRole): string => {
+  return USER_ROLES.find(r => r.value === role)?.label || role;
+};
@@ -0,0 +1,52 @@
+import type { PaymentMethod } from './Sale';
+
+export type CashMovementType = 'in' | 'out';
+
+export interface CashMovement {
+  id: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  date: string;
+}
+
+export interface CashSession {
+  id: string;
+  status: 'open' | 'closed';
+  openedAt: string;
+  closedAt: string | null;
+  openingFloat: number;
+  movements: CashMovement[];
+  expectedCash: number | null;
+  countedCash: number | null;
+  difference: number | null;
+  notes: string | null;
+}
+
+export interface OpenCashSessionRequest {
+  openingFloat: number;
+}
+
+export interface CreateCashMovementRequest {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+}
+
+export interface CloseCashSessionRequest {
+  countedCash: number;
+  expectedCash: number;
+  difference: number;
+  notes: string | null;
+}
+
+export interface CashSessionSummary {
+  openingFloat: number;
+  salesCount: number;
+  totalSales: number;
+  totalsByMethod: Partial<Record<PaymentMethod, number>>;
+  cashSales: number;
+  cashIn: number;
+  cashOut: number;
+  expectedCash: number;
+}
@@ -2,6 +2,9 @@ export interface Category {
   categoryId: string;
   name: string;
   categoryNumber: number;
+  // Default reorder point and target stock for the category's products
+  minStock?: number | null;
+  maxStock?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -9,11 +12,15 @@ export interface Category {
 export interface CreateCategoryRequest {
   name: string;
   categoryNumber: number;
+  minStock?: number | null;
+  maxStock?: number | null;
 }
 
 export interface UpdateCategoryRequest {
   name: string;
   categoryNumber: number;
+  minStock?: number | null;
+  maxStock?: number | null;
 }
 
 export interface CategoryOption {
@@ -0,0 +1,26 @@
+export type CouponDiscountType = 'percent' | 'amount';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  discountType: CouponDiscountType;
+  value: number;
+  // 1 for single-use coupons, null for unlimited
+  maxUses: number | null;
+  timesUsed: number;
+  // Last valid day as YYYY-MM-DD; null never expires
+  expiresAt: string | null;
+  active: boolean;
+  createdAt?: string;
+}
+
+export interface CreateCouponRequest {
+  code: string;
+  discountType: CouponDiscountType;
+  value: number;
+  maxUses: number | null;
+  expiresAt: string | null;
+  active: boolean;
+}
+
+export type UpdateCouponRequest = CreateCouponRequest;
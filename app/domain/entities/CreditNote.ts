@@ -0,0 +1,62 @@
+import type { TaxAffectation } from './Product';
+import type { ElectronicDocumentType } from './ElectronicDocument';
+
+// SUNAT catálogo 09: tipo de nota de crédito
+export type CreditNoteReason = '01' | '02' | '03' | '04' | '05' | '06' | '07' | '08' | '09' | '10' | '11' | '12' | '13';
+
+// What a reason credits: the whole receipt, returned units, or part of the price of each line
+export type CreditNoteScope = 'full' | 'items' | 'amount';
+
+export interface CreditNoteLine {
+  productId: string;
+  description: string;
+  quantity: number;
+  // Amount credited on the line, IGV included
+  amount: number;
+  taxAffectation: TaxAffectation;
+  taxBase: number;
+  igv: number;
+}
+
+/**
+ * Nota de crédito on an invoiced sale. It is numbered from a document series of type 07
+ * (BC01 for boletas, FC01 for facturas) and always points back to the receipt it corrects.
+ */
+export interface CreditNote {
+  id: string;
+  saleId: string;
+  series: string;
+  correlative: number;
+  date: string;
+  referenceDocumentType: ElectronicDocumentType;
+  referenceSeries: string;
+  referenceCorrelative: number;
+  reason: CreditNoteReason;
+  description: string;
+  clientDni: string | null;
+  clientName: string | null;
+  lines: CreditNoteLine[];
+  taxBase: number;
+  igv: number;
+  total: number;
+  // Set when the note backs a return registered on the sale
+  saleReturnId?: string | null;
+  createdBy?: string | null;
+}
+
+// The backend assigns the next correlative of the document series, like it does for receipts
+export interface CreateCreditNoteRequest {
+  seriesId: string;
+  referenceDocumentType: ElectronicDocumentType;
+  referenceSeries: string;
+  referenceCorrelative: number;
+  reason: CreditNoteReason;
+  description: string;
+  clientDni: string | null;
+  clientName: string | null;
+  lines: CreditNoteLine[];
+  taxBase: number;
+  igv: number;
+  total: number;
+  saleReturnId: string | null;
+}
@@ -0,0 +1,20 @@
+export interface Customer {
+  id: string;
+  documentNumber: string; // DNI (8 digits) or RUC (11 digits), the key sales are matched by
+  name: string;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  loyaltyPoints?: number; // Points balance, kept by the backend from the points ledger
+  createdAt?: string;
+}
+
+export interface CreateCustomerRequest {
+  documentNumber: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+}
+
+export type UpdateCustomerRequest = CreateCustomerRequest;
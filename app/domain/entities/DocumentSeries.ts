@@ -0,0 +1,28 @@
+import type { ElectronicDocumentType } from './ElectronicDocument';
+
+// Receipts (01 factura, 03 boleta) plus 07, the credit notes issued against them
+export type DocumentSeriesType = ElectronicDocumentType | '07';
+
+/**
+ * A receipt series (e.g. B001 for boletas, F001 for facturas, BC01 for credit notes on boletas).
+ * Correlatives are assigned by the backend so concurrent cashiers never share a number.
+ */
+export interface DocumentSeries {
+  id: string;
+  documentType: DocumentSeriesType;
+  series: string;
+  lastCorrelative: number;
+  isDefault: boolean;
+  active: boolean;
+}
+
+export interface CreateDocumentSeriesRequest {
+  documentType: DocumentSeriesType;
+  series: string;
+  isDefault: boolean;
+}
+
+export interface UpdateDocumentSeriesRequest {
+  isDefault: boolean;
+  active: boolean;
+}
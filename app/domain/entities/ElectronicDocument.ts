@@ -0,0 +1,111 @@
+// SUNAT catálogo 01: 01 = Factura, 03 = Boleta de venta
+export type ElectronicDocumentType = '01' | '03';
+
+// SUNAT catálogo 06: 0 = sin documento, 1 = DNI, 6 = RUC
+export type IdentityDocumentType = '0' | '1' | '6';
+
+// SUNAT catálogo 07: 10 = gravado, 20 = exonerado, 30 = inafecto
+export type TaxAffectationCode = '10' | '20' | '30';
+
+export type ElectronicDocumentStatus = 'generated' | 'sent' | 'accepted' | 'rejected';
+
+export interface ElectronicDocument {
+  id: string;
+  saleId: string;
+  documentType: ElectronicDocumentType;
+  series: string;
+  correlative: number;
+  issueDate: string;
+  customerDocumentType: IdentityDocumentType;
+  customerDocumentNumber: string;
+  total: number;
+  xml: string;
+  status: ElectronicDocumentStatus;
+  // Filled in when the sale is voided, for the baja or credit note still to be sent
+  voidData?: ElectronicVoidData | null;
+}
+
+export interface CreateElectronicDocumentRequest {
+  documentType: ElectronicDocumentType;
+  series: string;
+  correlative: number;
+  issueDate: string;
+  customerDocumentType: IdentityDocumentType;
+  customerDocumentNumber: string;
+  total: number;
+  xml: string;
+}
+
+export interface DocumentNumber {
+  series: string;
+  correlative: number;
+}
+
+export interface ElectronicDocumentLine {
+  code: string;
+  description: string;
+  quantity: number;
+  unitValue: number;
+  unitPrice: number;
+  taxableAmount: number;
+  igv: number;
+  total: number;
+  taxAffectation: TaxAffectationCode;
+}
+
+/**
+ * Everything needed to render a UBL 2.1 invoice (boleta or factura)
+ */
+export interface ElectronicInvoiceData {
+  documentType: ElectronicDocumentType;
+  series: string;
+  correlative: number;
+  issueDate: string;
+  issueTime: string;
+  currency: 'PEN';
+  issuer: {
+    ruc: string;
+    legalName: string;
+    tradeName: string;
+    address: string;
+    ubigeo: string;
+  };
+  customer: {
+    documentType: IdentityDocumentType;
+    documentNumber: string;
+    name: string;
+  };
+  lines: ElectronicDocumentLine[];
+  igvRate: number;
+  totals: {
+    taxed: number;
+    exonerated: number;
+    unaffected: number;
+    igv: number;
+    total: number;
+  };
+  amountInWords: string;
+}
+
+/**
+ * How SUNAT is told an issued receipt no longer applies: facturas go in a comunicación de baja (RA),
+ * boletas in the resumen diario (RC). Past the deadline only a nota de crédito can cancel them.
+ */
+export type VoidProcedure = 'voided_documents' | 'daily_summary' | 'credit_note';
+
+export interface ElectronicVoidData {
+  procedure: VoidProcedure;
+  documentType: ElectronicDocumentType;
+  series: string;
+  correlative: number;
+  issueDate: string;
+  voidDate: string;
+  reason: string;
+  customer: {
+    documentType: IdentityDocumentType;
+    documentNumber: string;
+  };
+  total: number;
+  // SUNAT catálogo 09 reason for the credit note (01 = anulación de la operación); null for a baja
+  creditNoteReasonCode: '01' | null;
+}
@@ -0,0 +1,35 @@
+import type { PaymentMethod } from './Sale';
+
+export type GiftCardMovementType = 'issue' | 'redeem' | 'refund';
+
+export interface GiftCard {
+  id: string;
+  code: string;
+  initialAmount: number;
+  balance: number;
+  buyerName: string | null;
+  expiresAt: string | null;
+  issuedAt: string;
+}
+
+/**
+ * Ledger entry of a gift card; the balance is always the result of its movements
+ */
+export interface GiftCardMovement {
+  id: string;
+  giftCardId: string;
+  type: GiftCardMovementType;
+  amount: number;
+  balanceAfter: number;
+  reference: string | null; // Receipt number of the sale where it was redeemed or refunded
+  date: string;
+}
+
+export interface IssueGiftCardRequest {
+  code: string;
+  amount: number;
+  buyerName: string | null;
+  expiresAt: string | null;
+  // How the buyer paid for the card
+  paymentMethod: PaymentMethod;
+}
@@ -0,0 +1,52 @@
+import type { PaymentMethod, SaleItem } from './Sale';
+
+export type LayawayStatus = 'open' | 'completed' | 'expired' | 'cancelled';
+
+export interface LayawayPayment {
+  id: string;
+  method: PaymentMethod;
+  amount: number;
+  reference: string | null;
+  cashSessionId: string | null;
+  date: string;
+}
+
+export interface Layaway {
+  id: string;
+  // Correlative assigned by the backend, shown as AP-000012
+  number: number;
+  clientDni: string;
+  clientName: string;
+  // Priced like a sale line; they become the sale's items once fully paid
+  items: SaleItem[];
+  total: number;
+  discount?: number;
+  discountReason?: string | null;
+  discountApprovedBy?: string | null;
+  payments: LayawayPayment[];
+  paid: number;
+  status: LayawayStatus;
+  createdAt: string;
+  // Last day to finish paying (YYYY-MM-DD); afterwards the reserved units go back to stock
+  expiresAt: string;
+  saleId: string | null;
+}
+
+export interface CreateLayawayPaymentRequest {
+  method: PaymentMethod;
+  amount: number;
+  reference: string | null;
+  cashSessionId: string | null;
+}
+
+export interface CreateLayawayRequest {
+  clientDni: string;
+  clientName: string;
+  items: SaleItem[];
+  total: number;
+  discount?: number;
+  discountReason?: string | null;
+  discountApprovedBy?: string | null;
+  expiresAt: string;
+  deposit: CreateLayawayPaymentRequest;
+}
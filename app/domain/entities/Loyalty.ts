@@ -0,0 +1,28 @@
+export type LoyaltyMovementType = 'earn' | 'redeem' | 'reverse' | 'restore' | 'expire';
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  pointsPerSol: number; // Points earned for each S/ 1 paid
+  pointValue: number; // Soles each point is worth when redeemed
+  expiryMonths: number | null; // Months earned points last; null: they never expire
+}
+
+export interface LoyaltyMovement {
+  id: string;
+  customerId: string;
+  type: LoyaltyMovementType;
+  points: number; // Positive when earned or restored, negative when redeemed, reversed or expired
+  balanceAfter: number;
+  reference: string | null;
+  saleId: string | null;
+  expiresAt: string | null; // Earned points only (YYYY-MM-DD)
+  date: string;
+}
+
+export interface CreateLoyaltyMovementRequest {
+  type: LoyaltyMovementType;
+  points: number;
+  reference: string | null;
+  saleId: string | null;
+  expiresAt: string | null;
+}
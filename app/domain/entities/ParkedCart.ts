@@ -0,0 +1,27 @@
+interface CartDiscount {
+  type: 'percent' | 'amount';
+  value: number;
+  reason: string;
+}
+
+// Only what the cashier chose; prices and stock are read again from the catalog on resume
+export interface CartLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  discount: CartDiscount;
+}
+
+export interface CartSnapshot {
+  items: CartLine[];
+  client: { dni: string; name: string };
+  ticketDiscount: CartDiscount;
+  couponCode: string | null;
+}
+
+export interface ParkedCart {
+  id: string;
+  label: string;
+  parkedAt: string;
+  cart: CartSnapshot;
+}
@@ -1,11 +1,25 @@
+// IGV treatment: gravado (taxed), exonerado (exonerated) or inafecto (unaffected)
+export type TaxAffectation = 'taxed' | 'exonerated' | 'unaffected';
+
 export interface Product {
   productId: string;
   name: string;
   brand: string;
   categoryNumber: number | null;
   size: string | null;
+  color?: string | null;
+  // Parent style when the product is a size/color variant
+  styleId?: string | null;
   price: number;
   quantity: number;
+  // Units held for layaways: still in the store, but not for sale
+  reservedQuantity?: number;
+  taxAffectation?: TaxAffectation;
+  // Weighted-average unit cost, updated when goods are received
+  cost?: number | null;
+  // Reorder point and target stock; null falls back to the category's
+  minStock?: number | null;
+  maxStock?: number | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -16,8 +30,14 @@ export interface CreateProductRequest {
   brand: string;
   categoryNumber: number | null;
   size: string | null;
+  color?: string | null;
+  styleId?: string | null;
   price: number;
   quantity: number;
+  taxAffectation?: TaxAffectation;
+  cost?: number | null;
+  minStock?: number | null;
+  maxStock?: number | null;
 }
 
 export interface UpdateProductRequest {
@@ -25,6 +45,13 @@ export interface UpdateProductRequest {
   brand: string;
   categoryNumber: number | null;
   size: string | null;
+  color?: string | null;
+  styleId?: string | null;
   price: number;
   quantity: number;
-} 
\ No newline at end of file
+  reservedQuantity?: number;
+  taxAffectation?: TaxAffectation;
+  cost?: number | null;
+  minStock?: number | null;
+  maxStock?: number | null;
+}
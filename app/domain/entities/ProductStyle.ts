@@ -0,0 +1,53 @@
+import type { TaxAffectation } from './Product';
+
+/**
+ * Parent product of a clothing line (e.g. "Polo Básico").
+ * Each size/color combination is a Product with its own SKU and stock that points back here via styleId.
+ */
+export interface ProductStyle {
+  styleId: string;
+  name: string;
+  brand: string;
+  categoryNumber: number | null;
+  basePrice: number;
+  taxAffectation?: TaxAffectation;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CreateProductStyleRequest {
+  name: string;
+  brand: string;
+  categoryNumber: number | null;
+  basePrice: number;
+  taxAffectation?: TaxAffectation;
+}
+
+export interface UpdateProductStyleRequest {
+  name: string;
+  brand: string;
+  categoryNumber: number | null;
+  basePrice: number;
+  taxAffectation?: TaxAffectation;
+}
+
+export interface CreateVariantRequest {
+  productId: string;
+  size: string | null;
+  color: string | null;
+  quantity: number;
+  // null uses the style base price
+  price: number | null;
+}
+
+/**
+ * One cell of the size × color grid editor, as typed by the user
+ */
+export interface VariantMatrixCell {
+  size: string;
+  color: string;
+  productId: string;
+  quantity: string;
+  price: string;
+  enabled: boolean;
+}
@@ -0,0 +1,28 @@
+// buy_x_get_y: 2x1, 3x2...; category_percent: % off every item of some categories;
+// bundle_price: a fixed price for N items (e.g. 3 polos por S/ 50)
+export type PromotionType = 'buy_x_get_y' | 'category_percent' | 'bundle_price';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  // Validity window as YYYY-MM-DD, both days included; null means open-ended
+  startDate: string | null;
+  endDate: string | null;
+  // Minimum cart amount at list prices for the promotion to apply
+  minTicket: number | null;
+  // Items the rule applies to; with both lists empty it applies to the whole store
+  categoryNumbers: number[];
+  productIds: string[];
+  buyQuantity: number | null;
+  freeQuantity: number | null;
+  percentOff: number | null;
+  bundleQuantity: number | null;
+  bundlePrice: number | null;
+  createdAt?: string;
+}
+
+export type CreatePromotionRequest = Omit<Promotion, 'id' | 'createdAt'>;
+
+export type UpdatePromotionRequest = CreatePromotionRequest;
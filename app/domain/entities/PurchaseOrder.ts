@@ -0,0 +1,51 @@
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partial' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  productId: string;
+  name: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  unitCost: number; // Agreed cost per unit
+}
+
+export interface PurchaseOrder {
+  id: string;
+  number: number; // Sequential, assigned by the backend
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  createdAt: string;
+  expectedDate: string | null;
+  notes: string | null;
+  items: PurchaseOrderItem[];
+  receipts: GoodsReceipt[];
+}
+
+export interface CreatePurchaseOrderRequest {
+  supplierId: string;
+  expectedDate: string | null;
+  notes: string | null;
+  items: Array<Omit<PurchaseOrderItem, 'receivedQuantity'>>;
+}
+
+export interface GoodsReceiptItem {
+  productId: string;
+  quantity: number;
+  unitCost: number; // Cost actually paid, may differ from the ordered one
+}
+
+/**
+ * One delivery against a purchase order. An order can be received in several deliveries.
+ */
+export interface GoodsReceipt {
+  id: string;
+  date: string;
+  items: GoodsReceiptItem[];
+  notes: string | null;
+}
+
+export interface ReceivePurchaseOrderRequest {
+  items: GoodsReceiptItem[];
+  notes: string | null;
+  status: PurchaseOrderStatus; // Status of the order once this delivery is applied
+}
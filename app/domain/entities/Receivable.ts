@@ -0,0 +1,35 @@
+import type { PaymentMethod, Sale } from './Sale';
+
+// How a sale stands against what the customer owes on it
+export type SalePaymentStatus = 'paid' | 'partial' | 'credit';
+
+// Age of the debt by sale date: 0-30, 31-60 and over 60 days
+export type AgingBucket = 'current' | 'days31to60' | 'over60';
+
+export interface ReceivablePayment {
+  id: string;
+  saleId: string;
+  method: PaymentMethod;
+  amount: number;
+  reference: string | null;
+  cashSessionId: string | null;
+  // Balance left on the sale after this payment
+  balanceAfter: number;
+  date: string;
+}
+
+export interface CreateReceivablePaymentRequest {
+  method: PaymentMethod;
+  amount: number;
+  reference: string | null;
+  cashSessionId: string | null;
+}
+
+export interface CustomerReceivable {
+  clientDni: string;
+  clientName: string;
+  sales: Sale[];
+  balance: number;
+  buckets: Record<AgingBucket, number>;
+  oldestDate: string;
+}
@@ -1,9 +1,39 @@
+import type { TaxAffectation } from './Product';
+import type { ElectronicDocumentType } from './ElectronicDocument';
+
+export type PaymentMethod = 'cash' | 'yape' | 'plin' | 'card' | 'transfer' | 'gift_card' | 'points' | 'credit';
+
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: number;
+  reference: string | null;
+  // Gift card payments: what is left on the card after this sale
+  balanceAfter?: number | null;
+}
+
 export interface SaleItem {
   productId: string;
   name: string;
-  price: number;
+  price: number; // Unit price actually charged, after discounts
   quantity: number;
   subtotal: number;
+  taxAffectation?: TaxAffectation;
+  taxBase?: number;
+  igv?: number;
+  // Product cost when the sale was made, for profit reports
+  unitCost?: number | null;
+  // Catalog price and the amount taken off the line (its own discount plus its share of the ticket discount)
+  listPrice?: number;
+  discount?: number;
+  discountReason?: string | null;
+  // Automatic promotion applied to the line (2x1, packs...), kept apart from manual discounts
+  promotionId?: string | null;
+  promotionName?: string | null;
+  promotionDiscount?: number;
+  // Share of the ticket's coupon
+  couponDiscount?: number;
+  // Share of the loyalty points redeemed as a discount
+  pointsDiscount?: number;
 }
 
 export interface Sale {
@@ -14,4 +44,34 @@ export interface Sale {
   items: SaleItem[];
   total: number;
   invoiced: boolean;
-} 
\ No newline at end of file
+  payments?: SalePayment[];
+  cashReceived?: number | null;
+  change?: number;
+  cashSessionId?: string | null;
+  // Receipt number, assigned once the sale is stored (e.g. B001-00000023)
+  documentType?: ElectronicDocumentType | null;
+  series?: string | null;
+  correlative?: number | null;
+  // Whole-ticket discount, already spread over the items
+  discount?: number;
+  discountReason?: string | null;
+  // Set when a discount above the cashier's limit was authorized by someone else
+  discountApprovedBy?: string | null;
+  couponCode?: string | null;
+  couponDiscount?: number;
+  // Loyalty points of a registered customer: redeemed as a discount, earned, and the balance after the sale
+  pointsDiscount?: number;
+  loyaltyPointsRedeemed?: number;
+  loyaltyPointsEarned?: number;
+  loyaltyPointsBalance?: number | null;
+  // Part of the total left on the customer's account (fiado), and what is still owed on it
+  creditAmount?: number;
+  balanceDue?: number;
+  // Set when the sale closes a layaway; its payments were taken as layaway deposits
+  layawayId?: string | null;
+  // Set when the sale was voided: it stays in the history but no longer counts as revenue
+  voided?: boolean;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  voidedBy?: string | null;
+}
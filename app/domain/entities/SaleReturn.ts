@@ -0,0 +1,24 @@
+export interface SaleReturnItem {
+  productId: string;
+  name: string;
+  price: number;
+  quantity: number;
+  subtotal: number;
+}
+
+export interface SaleReturn {
+  id: string;
+  saleId: string;
+  date: string;
+  items: SaleReturnItem[];
+  reason: string;
+  refundAmount: number;
+}
+
+export interface CreateSaleReturnRequest {
+  items: SaleReturnItem[];
+  reason: string;
+  refundAmount: number;
+}
+
+export type SaleReturnStatus = 'none' | 'partial' | 'returned';
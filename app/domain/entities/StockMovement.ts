@@ -0,0 +1,64 @@
+export type StockMovementType = 'sale' | 'return' | 'void' | 'adjustment' | 'import' | 'purchase';
+
+export type AdjustmentReason = 'damaged' | 'lost' | 'theft' | 'found' | 'count_correction';
+
+/**
+ * One line of a product's kardex.
+ * The backend fills in the user and date from the current session.
+ */
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  quantity: number; // Signed delta: positive for entries, negative for exits
+  reason?: AdjustmentReason | null; // Only for adjustments
+  reference: string | null;
+  user: string | null;
+  date: string;
+}
+
+export interface CreateStockMovementRequest {
+  productId: string;
+  type: StockMovementType;
+  quantity: number;
+  reason?: AdjustmentReason | null;
+  reference: string | null;
+}
+
+export interface StockAdjustmentRequest {
+  reason: AdjustmentReason;
+  quantity: number; // Signed delta
+  notes: string;
+}
+
+export interface StockMovementFilters {
+  type?: StockMovementType;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface KardexEntry extends StockMovement {
+  balance: number;
+}
+
+export interface Kardex {
+  openingBalance: number;
+  entries: KardexEntry[];
+  closingBalance: number;
+}
+
+export interface ShrinkageMonth {
+  month: string; // YYYY-MM
+  units: Partial<Record<AdjustmentReason, number>>;
+  total: number;
+}
+
+/**
+ * Units written off (or found) per adjustment reason over a period.
+ * Write-offs are positive numbers; 'found' and upward count corrections are negative.
+ */
+export interface ShrinkageReport {
+  months: ShrinkageMonth[];
+  totals: Partial<Record<AdjustmentReason, number>>;
+  total: number;
+}
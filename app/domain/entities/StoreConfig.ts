@@ -1,6 +1,20 @@
+import type { UserRole } from './User';
+import type { LoyaltySettings } from './Loyalty';
+
 export interface StoreConfig {
   name: string;
   address: string;
   email: string;
   phone: string;
+  // Tax identity used on electronic receipts (SUNAT)
+  ruc?: string;
+  legalName?: string;
+  ubigeo?: string;
+  // Tax settings: whether catalog prices already include IGV, and its rate (0.18)
+  pricesIncludeTax?: boolean;
+  igvRate?: number;
+  // Largest discount (% of the list price) each role may give without approval
+  maxDiscountPercent?: Partial<Record<UserRole, number>>;
+  // Loyalty points program; off until configured
+  loyalty?: LoyaltySettings;
 } 
\ No newline at end of file
@@ -0,0 +1,20 @@
+export interface Supplier {
+  id: string;
+  name: string;
+  ruc: string | null;
+  contactName: string | null;
+  phone: string | null;
+  address: string | null; // e.g. Gamarra gallery and stand
+  notes: string | null;
+}
+
+export interface CreateSupplierRequest {
+  name: string;
+  ruc: string | null;
+  contactName: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+}
+
+export type UpdateSupplierRequest = CreateSupplierRequest;
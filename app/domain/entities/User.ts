@@ -0,0 +1,7 @@
+export type UserRole = 'owner' | 'cashier';
+
+// The user behind the current session; the backend stamps it on the records it stores
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+}
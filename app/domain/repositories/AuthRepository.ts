@@ -0,0 +1,7 @@
+import type { AuthUser } from '../entities/User';
+
+export interface AuthRepository {
+  getCurrentUser(): Promise<AuthUser | null>;
+  // Checks another user's credentials without replacing the current session (supervisor approvals)
+  verifyCredentials(username: string, password: string): Promise<AuthUser>;
+}
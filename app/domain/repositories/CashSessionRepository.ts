@@ -0,0 +1,16 @@
+import type {
+  CashSession,
+  CashMovement,
+  OpenCashSessionRequest,
+  CreateCashMovementRequest,
+  CloseCashSessionRequest
+} from '../entities/CashSession';
+
+export interface CashSessionRepository {
+  getCurrent(): Promise<CashSession | null>;
+  getAll(): Promise<CashSession[]>;
+  getById(sessionId: string): Promise<CashSession | undefined>;
+  open(request: OpenCashSessionRequest): Promise<CashSession>;
+  addMovement(sessionId: string, request: CreateCashMovementRequest): Promise<CashMovement>;
+  close(sessionId: string, request: CloseCashSessionRequest): Promise<CashSession>;
+}
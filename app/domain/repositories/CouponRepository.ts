@@ -0,0 +1,13 @@
+import type { Coupon, CreateCouponRequest, UpdateCouponRequest } from '../entities/Coupon';
+
+export interface CouponRepository {
+  getAll(): Promise<Coupon[]>;
+  getByCode(code: string): Promise<Coupon | undefined>;
+  create(request: CreateCouponRequest): Promise<Coupon>;
+  update(couponId: string, request: UpdateCouponRequest): Promise<Coupon>;
+  delete(couponId: string): Promise<void>;
+  // Counts one use; the backend rejects it once the coupon is used up
+  redeem(couponId: string, reference: string): Promise<Coupon>;
+  // Gives back the use counted by a sale that was voided
+  release(couponId: string, reference: string): Promise<Coupon>;
+}
@@ -0,0 +1,7 @@
+import type { CreditNote, CreateCreditNoteRequest } from '../entities/CreditNote';
+
+export interface CreditNoteRepository {
+  getAll(): Promise<CreditNote[]>;
+  getBySaleId(saleId: string): Promise<CreditNote[]>;
+  create(saleId: string, request: CreateCreditNoteRequest): Promise<CreditNote>;
+}
@@ -0,0 +1,10 @@
+import type { Customer, CreateCustomerRequest, UpdateCustomerRequest } from '../entities/Customer';
+
+export interface CustomerRepository {
+  getAll(): Promise<Customer[]>;
+  getById(customerId: string): Promise<Customer | undefined>;
+  getByDocument(documentNumber: string): Promise<Customer | undefined>;
+  create(request: CreateCustomerRequest): Promise<Customer>;
+  update(customerId: string, request: UpdateCustomerRequest): Promise<Customer>;
+  delete(customerId: string): Promise<void>;
+}
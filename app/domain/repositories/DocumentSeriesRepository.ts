@@ -0,0 +1,11 @@
+import type {
+  DocumentSeries,
+  CreateDocumentSeriesRequest,
+  UpdateDocumentSeriesRequest
+} from '../entities/DocumentSeries';
+
+export interface DocumentSeriesRepository {
+  getAll(): Promise<DocumentSeries[]>;
+  create(request: CreateDocumentSeriesRequest): Promise<DocumentSeries>;
+  update(seriesId: string, request: UpdateDocumentSeriesRequest): Promise<DocumentSeries>;
+}
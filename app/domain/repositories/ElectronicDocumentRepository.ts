@@ -0,0 +1,12 @@
+import type {
+  ElectronicDocument,
+  CreateElectronicDocumentRequest,
+  ElectronicVoidData
+} from '../entities/ElectronicDocument';
+
+export interface ElectronicDocumentRepository {
+  getAll(): Promise<ElectronicDocument[]>;
+  getBySaleId(saleId: string): Promise<ElectronicDocument | null>;
+  create(saleId: string, request: CreateElectronicDocumentRequest): Promise<ElectronicDocument>;
+  registerVoid(documentId: string, data: ElectronicVoidData): Promise<ElectronicDocument>;
+}
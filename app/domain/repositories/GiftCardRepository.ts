@@ -0,0 +1,12 @@
+import type { GiftCard, GiftCardMovement, IssueGiftCardRequest } from '../entities/GiftCard';
+
+export interface GiftCardRepository {
+  getAll(): Promise<GiftCard[]>;
+  getByCode(code: string): Promise<GiftCard | undefined>;
+  getMovements(giftCardId: string): Promise<GiftCardMovement[]>;
+  issue(request: IssueGiftCardRequest): Promise<GiftCard>;
+  // Debits the card and appends the movement; the backend rejects it if the balance is not enough
+  redeem(giftCardId: string, amount: number, reference: string): Promise<GiftCard>;
+  // Credits back an amount debited by a sale that was voided
+  refund(giftCardId: string, amount: number, reference: string): Promise<GiftCard>;
+}
@@ -0,0 +1,10 @@
+import type { Layaway, LayawayStatus, CreateLayawayRequest, CreateLayawayPaymentRequest } from '../entities/Layaway';
+
+export interface LayawayRepository {
+  getAll(): Promise<Layaway[]>;
+  getById(layawayId: string): Promise<Layaway | undefined>;
+  // Stores the layaway together with its deposit as the first payment
+  create(request: CreateLayawayRequest): Promise<Layaway>;
+  addPayment(layawayId: string, payment: CreateLayawayPaymentRequest): Promise<Layaway>;
+  updateStatus(layawayId: string, status: LayawayStatus, saleId?: string | null): Promise<Layaway>;
+}
@@ -0,0 +1,7 @@
+import type { LoyaltyMovement, CreateLoyaltyMovementRequest } from '../entities/Loyalty';
+
+export interface LoyaltyRepository {
+  getMovements(customerId: string): Promise<LoyaltyMovement[]>;
+  // The backend updates the customer's points balance with each movement
+  addMovement(customerId: string, request: CreateLoyaltyMovementRequest): Promise<LoyaltyMovement>;
+}
@@ -0,0 +1,10 @@
+import type { ParkedCart, CartSnapshot } from '../entities/ParkedCart';
+
+export interface ParkedCartRepository {
+  getAll(): Promise<ParkedCart[]>;
+  save(cart: ParkedCart): Promise<void>;
+  delete(cartId: string): Promise<void>;
+  // The cart being rung up, kept so it survives a reload or leaving the sales screen
+  getDraft(): Promise<CartSnapshot | null>;
+  saveDraft(cart: CartSnapshot | null): Promise<void>;
+}
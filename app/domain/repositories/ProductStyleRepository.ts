@@ -0,0 +1,16 @@
+import type { Product } from '../entities/Product';
+import type {
+  ProductStyle,
+  CreateProductStyleRequest,
+  UpdateProductStyleRequest,
+  CreateVariantRequest
+} from '../entities/ProductStyle';
+
+export interface ProductStyleRepository {
+  getAll(): Promise<ProductStyle[]>;
+  getById(styleId: string): Promise<ProductStyle | undefined>;
+  create(request: CreateProductStyleRequest): Promise<ProductStyle>;
+  update(styleId: string, request: UpdateProductStyleRequest): Promise<ProductStyle>;
+  delete(styleId: string): Promise<void>;
+  createVariants(styleId: string, variants: CreateVariantRequest[]): Promise<Product[]>;
+}
@@ -0,0 +1,9 @@
+import type { Promotion, CreatePromotionRequest, UpdatePromotionRequest } from '../entities/Promotion';
+
+export interface PromotionRepository {
+  getAll(): Promise<Promotion[]>;
+  getById(promotionId: string): Promise<Promotion | undefined>;
+  create(request: CreatePromotionRequest): Promise<Promotion>;
+  update(promotionId: string, request: UpdatePromotionRequest): Promise<Promotion>;
+  delete(promotionId: string): Promise<void>;
+}
@@ -0,0 +1,14 @@
+import type {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  CreatePurchaseOrderRequest,
+  ReceivePurchaseOrderRequest
+} from '../entities/PurchaseOrder';
+
+export interface PurchaseOrderRepository {
+  getAll(): Promise<PurchaseOrder[]>;
+  getById(orderId: string): Promise<PurchaseOrder | undefined>;
+  create(request: CreatePurchaseOrderRequest): Promise<PurchaseOrder>;
+  updateStatus(orderId: string, status: PurchaseOrderStatus): Promise<PurchaseOrder>;
+  receive(orderId: string, request: ReceivePurchaseOrderRequest): Promise<PurchaseOrder>;
+}
@@ -0,0 +1,10 @@
+import type { Sale } from '../entities/Sale';
+import type { ReceivablePayment, CreateReceivablePaymentRequest } from '../entities/Receivable';
+
+export interface ReceivableRepository {
+  // Sales with a balance still due
+  getOpenSales(): Promise<Sale[]>;
+  getPayments(saleId: string): Promise<ReceivablePayment[]>;
+  // Stores the payment and lowers the sale's balance due; returns the updated sale
+  addPayment(saleId: string, payment: CreateReceivablePaymentRequest): Promise<Sale>;
+}
@@ -1,4 +1,5 @@
-import type { Sale } from '../entities/Sale';
+import type { Sale, SalePayment } from '../entities/Sale';
+import type { TaxAffectation } from '../entities/Product';
 
 export interface CreateSaleRequest {
   clientDni: string | null;
@@ -9,12 +10,51 @@ export interface CreateSaleRequest {
     price: number;
     quantity: number;
     subtotal: number;
+    taxAffectation: TaxAffectation;
+    taxBase: number;
+    igv: number;
+    unitCost?: number | null;
+    listPrice?: number;
+    discount?: number;
+    discountReason?: string | null;
+    promotionId?: string | null;
+    promotionName?: string | null;
+    promotionDiscount?: number;
+    couponDiscount?: number;
+    pointsDiscount?: number;
   }>;
+  payments: SalePayment[];
+  cashReceived: number | null;
+  change: number;
+  cashSessionId: string | null;
+  discount?: number;
+  discountReason?: string | null;
+  discountApprovedBy?: string | null;
+  couponCode?: string | null;
+  couponDiscount?: number;
+  pointsDiscount?: number;
+  loyaltyPointsRedeemed?: number;
+  loyaltyPointsEarned?: number;
+  loyaltyPointsBalance?: number | null;
+  creditAmount?: number;
+  balanceDue?: number;
+  layawayId?: string | null;
+}
+
+export interface VoidSaleRequest {
+  reason: string;
+  // Owner who authorized the void
+  authorizedBy: string;
 }
 
 export interface SaleRepository {
   getAll(): Promise<Sale[]>;
   getById(saleId: string): Promise<Sale | undefined>;
+  getByCashSession(sessionId: string): Promise<Sale[]>;
+  getByClientDocument(documentNumber: string): Promise<Sale[]>;
   create(saleData: CreateSaleRequest): Promise<Sale>;
   markAsInvoiced(saleId: string): Promise<void>;
+  assignDocumentNumber(saleId: string, seriesId: string): Promise<Sale>;
+  // The backend stamps the void date; stock and side effects are handled by SaleVoidService
+  voidSale(saleId: string, request: VoidSaleRequest): Promise<Sale>;
 } 
\ No newline at end of file
@@ -0,0 +1,7 @@
+import type { SaleReturn, CreateSaleReturnRequest } from '../entities/SaleReturn';
+
+export interface SaleReturnRepository {
+  getAll(): Promise<SaleReturn[]>;
+  getBySaleId(saleId: string): Promise<SaleReturn[]>;
+  create(saleId: string, request: CreateSaleReturnRequest): Promise<SaleReturn>;
+}
@@ -0,0 +1,7 @@
+import type { StockMovement, CreateStockMovementRequest, StockMovementFilters } from '../entities/StockMovement';
+
+export interface StockMovementRepository {
+  getAll(filters?: StockMovementFilters): Promise<StockMovement[]>;
+  getByProduct(productId: string): Promise<StockMovement[]>;
+  create(request: CreateStockMovementRequest): Promise<StockMovement>;
+}
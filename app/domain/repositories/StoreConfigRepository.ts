@@ -5,6 +5,11 @@ export interface UpdateStoreConfigRequest {
   address: string;
   email: string;
   phone: string;
+  ruc?: string;
+  legalName?: string;
+  ubigeo?: string;
+  pricesIncludeTax?: boolean;
+  igvRate?: number;
 }
 
 export interface StoreConfigRepository {
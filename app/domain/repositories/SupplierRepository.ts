@@ -0,0 +1,9 @@
+import type { Supplier, CreateSupplierRequest, UpdateSupplierRequest } from '../entities/Supplier';
+
+export interface SupplierRepository {
+  getAll(): Promise<Supplier[]>;
+  getById(supplierId: string): Promise<Supplier | undefined>;
+  create(request: CreateSupplierRequest): Promise<Supplier>;
+  update(supplierId: string, request: UpdateSupplierRequest): Promise<Supplier>;
+  delete(supplierId: string): Promise<void>;
+}
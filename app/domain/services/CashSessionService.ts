@@ -0,0 +1,95 @@
+import type { Sale } from '../entities/Sale';
+import type {
+  CashSession,
+  CashMovement,
+  CashSessionSummary,
+  CreateCashMovementRequest
+} from '../entities/CashSession';
+import type { CashSessionRepository } from '../repositories/CashSessionRepository';
+import type { SaleRepository } from '../repositories/SaleRepository';
+import { getPaymentsTotalByMethod } from './PaymentCalculator';
+import { round2 } from '../../utils/money';
+
+export class CashSessionService {
+  constructor(
+    private cashSessionRepository: CashSessionRepository,
+    private saleRepository: SaleRepository
+  ) {}
+
+  async getCurrentSession(): Promise<CashSession | null> {
+    return await this.cashSessionRepository.getCurrent();
+  }
+
+  async openSession(openingFloat: number): Promise<CashSession> {
+    if (isNaN(openingFloat) || openingFloat < 0) {
+      throw new Error('El fondo inicial debe ser un monto mayor o igual a 0');
+    }
+
+    const current = await this.cashSessionRepository.getCurrent();
+    if (current) throw new Error('Ya existe un turno de caja abierto');
+
+    return await this.cashSessionRepository.open({ openingFloat: round2(openingFloat) });
+  }
+
+  async registerMovement(session: CashSession, request: CreateCashMovementRequest): Promise<CashMovement> {
+    if (session.status !== 'open') throw new Error('El turno de caja está cerrado');
+    if (!request.amount || request.amount <= 0) throw new Error('El monto debe ser mayor a 0');
+    if (!request.reason.trim()) throw new Error('Indique el motivo del movimiento');
+
+    if (request.type === 'out') {
+      const summary = await this.getSummary(session);
+      if (request.amount > summary.expectedCash + 0.005) {
+        throw new Error(`No hay suficiente efectivo en caja. Disponible: S/ ${summary.expectedCash.toFixed(2)}`);
+      }
+    }
+
+    return await this.cashSessionRepository.addMovement(session.id, {
+      ...request,
+      amount: round2(request.amount),
+      reason: request.reason.trim()
+    });
+  }
+
+  async getSummary(session: CashSession): Promise<CashSessionSummary> {
+    const sales = await this.saleRepository.getByCashSession(session.id);
+    return this.buildSummary(session, sales);
+  }
+
+  buildSummary(session: CashSession, sales: Sale[]): CashSessionSummary {
+    const totalsByMethod = getPaymentsTotalByMethod(sales.flatMap(sale => sale.payments || []));
+    // Sales registered before payment methods existed were always paid in cash
+    const legacyCash = sales
+      .filter(sale => !sale.payments || sale.payments.length === 0)
+      .reduce((sum, sale) => sum + sale.total, 0);
+
+    const cashSales = round2((totalsByMethod.cash || 0) + legacyCash);
+    const cashIn = round2(session.movements.filter(m => m.type === 'in').reduce((sum, m) => sum + m.amount, 0));
+    const cashOut = round2(session.movements.filter(m => m.type === 'out').reduce((sum, m) => sum + m.amount, 0));
+
+    return {
+      openingFloat: session.openingFloat,
+      salesCount: sales.length,
+      totalSales: round2(sales.reduce((sum, sale) => sum + sale.total, 0)),
+      totalsByMethod: { ...totalsByMethod, cash: cashSales },
+      cashSales,
+      cashIn,
+      cashOut,
+      expectedCash: round2(session.openingFloat + cashSales + cashIn - cashOut)
+    };
+  }
+
+  async closeSession(session: CashSession, countedCash: number, notes: string): Promise<CashSession> {
+    if (session.status !== 'open') throw new Error('El turno de caja ya fue cerrado');
+    if (isNaN(countedCash) || countedCash < 0) {
+      throw new Error('Ingrese el efectivo contado en caja');
+    }
+
+    const summary = await this.getSummary(session);
+    return await this.cashSessionRepository.close(session.id, {
+      countedCash: round2(countedCash),
+      expectedCash: summary.expectedCash,
+      difference: round2(countedCash - summary.expectedCash),
+      notes: notes.trim() || null
+    });
+  }
+}
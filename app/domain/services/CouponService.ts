@@ -0,0 +1,89 @@
+import type { Coupon, CreateCouponRequest } from '../entities/Coupon';
+import type { CouponRepository } from '../repositories/CouponRepository';
+import { toLocalDateKey } from '../../utils/dateUtils';
+
+// Codes are typed by the cashier, so they are compared without spaces and in uppercase
+export const normalizeCouponCode = (code: string): string => code.replace(/\s+/g, '').toUpperCase();
+
+export const describeCoupon = (coupon: Coupon): string =>
+  coupon.discountType === 'percent' ? `${coupon.value}% dscto.` : `S/ ${coupon.value.toFixed(2)} dscto.`;
+
+/**
+ * Reason the coupon cannot be used today, or null if it can
+ */
+export const getCouponProblem = (coupon: Coupon, date: Date = new Date()): string | null => {
+  if (!coupon.active) return `El cupón ${coupon.code} está desactivado`;
+  if (coupon.expiresAt && toLocalDateKey(date) > coupon.expiresAt) return `El cupón ${coupon.code} venció el ${coupon.expiresAt}`;
+  if (coupon.maxUses != null && coupon.timesUsed >= coupon.maxUses) return `El cupón ${coupon.code} ya fue utilizado`;
+  return null;
+};
+
+export const validateCoupon = (request: CreateCouponRequest): string | null => {
+  if (!request.code) return 'El código del cupón es obligatorio';
+  if (!/^[A-Z0-9-]+$/.test(request.code)) return 'El código solo puede tener letras, números y guiones';
+  if (!(request.value > 0)) return 'El valor del cupón debe ser mayor a 0';
+  if (request.discountType === 'percent' && request.value > 100) return 'El porcentaje no puede superar 100';
+  if (request.maxUses != null && request.maxUses < 1) return 'El número de usos debe ser al menos 1';
+  return null;
+};
+
+export class CouponService {
+  constructor(private couponRepository: CouponRepository) {}
+
+  async getAllCoupons(): Promise<Coupon[]> {
+    const coupons = await this.couponRepository.getAll();
+    return coupons.sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  /**
+   * Looks up a coupon typed at the till and checks it can still be used
+   */
+  async getValidCoupon(code: string): Promise<Coupon> {
+    const coupon = await this.couponRepository.getByCode(normalizeCouponCode(code));
+    if (!coupon) throw new Error(`Cupón no encontrado: ${code}`);
+    const problem = getCouponProblem(coupon);
+    if (problem) throw new Error(problem);
+    return coupon;
+  }
+
+  async saveCoupon(request: CreateCouponRequest, couponId?: string): Promise<Coupon> {
+    const data: CreateCouponRequest = { ...request, code: normalizeCouponCode(request.code) };
+    const error = validateCoupon(data);
+    if (error) throw new Error(error);
+
+    const existing = await this.couponRepository.getByCode(data.code);
+    if (existing && existing.id !== couponId) throw new Error(`Ya existe un cupón con el código ${data.code}`);
+
+    return couponId
+      ? this.couponRepository.update(couponId, data)
+      : this.couponRepository.create(data);
+  }
+
+  async setActive(coupon: Coupon, active: boolean): Promise<Coupon> {
+    const { code, discountType, value, maxUses, expiresAt } = coupon;
+    return this.couponRepository.update(coupon.id, { code, discountType, value, maxUses, expiresAt, active });
+  }
+
+  async deleteCoupon(couponId: string): Promise<void> {
+    return this.couponRepository.delete(couponId);
+  }
+
+  async redeem(coupon: Coupon, reference: string): Promise<void> {
+    try {
+      await this.couponRepository.redeem(coupon.id, reference);
+    } catch (error) {
+      console.error(`CouponService: could not record use of coupon ${coupon.code} for ${reference}:`, error);
+    }
+  }
+
+  // The coupon can be used again even if it has expired or been deactivated since
+  async release(code: string, reference: string): Promise<void> {
+    try {
+      const coupon = await this.couponRepository.getByCode(normalizeCouponCode(code));
+      if (!coupon) throw new Error('coupon not found');
+      await this.couponRepository.release(coupon.id, reference);
+    } catch (error) {
+      console.error(`CouponService: could not release coupon ${code} for ${reference}:`, error);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import type { Sale, SaleItem } from '../entities/Sale';
+import type { CreditNote, CreditNoteLine, CreditNoteReason, CreditNoteScope } from '../entities/CreditNote';
+import type { DocumentNumber, ElectronicDocumentType } from '../entities/ElectronicDocument';
+import type { CreditNoteRepository } from '../repositories/CreditNoteRepository';
+import type { DocumentSeriesRepository } from '../repositories/DocumentSeriesRepository';
+import type { ElectronicDocumentRepository } from '../repositories/ElectronicDocumentRepository';
+import type { StoreConfigRepository } from '../repositories/StoreConfigRepository';
+import { CREDIT_NOTE_REASONS } from '../constants/CreditNoteReasons';
+import { calculateLineTax, getTaxSettings, summarizeTax } from './TaxCalculator';
+import { findDefaultSeries } from './DocumentSeriesService';
+import { round2 } from '../../utils/money';
+
+export interface CreditNoteLineInput {
+  productId: string;
+  // Units credited; only read for item returns
+  quantity: number;
+  // Amount credited, IGV included; only read for price corrections
+  amount: number;
+}
+
+export interface NewCreditNote {
+  reason: CreditNoteReason;
+  description: string;
+  // Ignored for reasons that credit the whole receipt
+  lines: CreditNoteLineInput[];
+  saleReturnId?: string | null;
+}
+
+// What earlier notes left to credit on a sale line
+export interface CreditableLine {
+  item: SaleItem;
+  quantity: number;
+  amount: number;
+}
+
+export const getCreditNoteScope = (reason: CreditNoteReason): CreditNoteScope =>
+  CREDIT_NOTE_REASONS.find(r => r.value === reason)?.scope ?? 'amount';
+
+export const getCreditNotesTotal = (notes: CreditNote[]): number =>
+  round2(notes.reduce((sum, note) => sum + note.total, 0));
+
+// Price actually charged per unit, IGV included
+const getPaidUnitPrice = (item: SaleItem): number => item.quantity ? item.subtotal / item.quantity : item.price;
+
+/**
+ * Units and amount still open on each line of the sale. Units only go down with notes
+ * that take goods back; price corrections only lower the amount.
+ */
+export const getCreditableLines = (sale: Sale, notes: CreditNote[]): CreditableLine[] => {
+  const credited = new Map<string, { quantity: number; amount: number }>();
+  notes
+    .filter(note => note.saleId === sale.id)
+    .forEach(note => {
+      const takesUnits = getCreditNoteScope(note.reason) !== 'amount';
+      note.lines.forEach(line => {
+        const entry = credited.get(line.productId) || { quantity: 0, amount: 0 };
+        credited.set(line.productId, {
+          quantity: entry.quantity + (takesUnits ? line.quantity : 0),
+          amount: entry.amount + line.amount
+        });
+      });
+    });
+
+  return sale.items.map(item => {
+    const entry = credited.get(item.productId) || { quantity: 0, amount: 0 };
+    return {
+      item,
+      quantity: Math.max(0, item.quantity - entry.quantity),
+      amount: Math.max(0, round2(item.subtotal - entry.amount))
+    };
+  });
+};
+
+export class CreditNoteService {
+  constructor(
+    private creditNoteRepository: CreditNoteRepository,
+    private electronicDocumentRepository: ElectronicDocumentRepository,
+    private storeConfigRepository: StoreConfigRepository,
+    private documentSeriesRepository: DocumentSeriesRepository
+  ) {}
+
+  async getAllCreditNotes(): Promise<CreditNote[]> {
+    const notes = await this.creditNoteRepository.getAll();
+    return notes.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async getCreditNotesForSale(saleId: string): Promise<CreditNote[]> {
+    return await this.creditNoteRepository.getBySaleId(saleId);
+  }
+
+  /**
+   * Issues a nota de crédito against the receipt of an invoiced sale. Reasons that cancel the
+   * whole receipt credit whatever earlier notes left open on every line.
+   */
+  async issueCreditNote(sale: Sale, input: NewCreditNote): Promise<CreditNote> {
+    if (!sale.invoiced) throw new Error('Solo las ventas facturadas necesitan nota de crédito');
+    const reason = CREDIT_NOTE_REASONS.find(r => r.value === input.reason);
+    if (!reason) throw new Error('Seleccione el motivo de la nota de crédito');
+    if (!input.description.trim()) throw new Error('Describa el motivo de la nota de crédito');
+
+    const reference = await this.getReferenceDocument(sale);
+    if (input.reason === '02' && reference.documentType !== '01') {
+      throw new Error('La anulación por error en el RUC solo aplica a facturas');
+    }
+
+    // Notes on facturas need an F series and notes on boletas a B one
+    const series = findDefaultSeries(await this.documentSeriesRepository.getAll(), '07', reference.series.charAt(0));
+    if (!series) {
+      throw new Error(reference.documentType === '01'
+        ? 'No hay una serie de notas de crédito para facturas (ej. FC01). Agréguela en Configuración.'
+        : 'No hay una serie de notas de crédito para boletas (ej. BC01). Agréguela en Configuración.');
+    }
+
+    const previous = await this.creditNoteRepository.getBySaleId(sale.id);
+    const creditable = getCreditableLines(sale, previous);
+    const { igvRate } = getTaxSettings(await this.storeConfigRepository.get());
+
+    const lines: CreditNoteLine[] = [];
+    for (const line of creditable) {
+      const { item } = line;
+      const request = input.lines.find(l => l.productId === item.productId);
+      let quantity = item.quantity;
+      let amount = 0;
+
+      if (reason.scope === 'full') {
+        quantity = line.quantity;
+        amount = line.amount;
+      } else if (reason.scope === 'items') {
+        quantity = request?.quantity || 0;
+        if (!quantity) continue;
+        if (!Number.isInteger(quantity) || quantity < 0 || quantity > line.quantity) {
+          throw new Error(`No se pueden acreditar ${quantity} unidades de ${item.name}. Máximo: ${line.quantity}`);
+        }
+        amount = Math.min(round2(getPaidUnitPrice(item) * quantity), line.amount);
+      } else {
+        amount = round2(request?.amount || 0);
+        if (!amount) continue;
+        if (amount < 0 || amount > line.amount + 0.005) {
+          throw new Error(`El monto de ${item.name} debe estar entre S/ 0.00 y S/ ${line.amount.toFixed(2)}`);
+        }
+      }
+      if (amount <= 0) continue;
+
+      // Line subtotals are what the customer paid, so they always include IGV
+      const tax = calculateLineTax(amount, 1, item.taxAffectation, { pricesIncludeTax: true, igvRate });
+      lines.push({
+        productId: item.productId,
+        description: item.name,
+        quantity,
+        amount: tax.total,
+        taxAffectation: tax.taxAffectation,
+        taxBase: tax.base,
+        igv: tax.igv
+      });
+    }
+    if (!lines.length) {
+      throw new Error(reason.scope === 'full'
+        ? 'La venta ya no tiene montos por acreditar'
+        : 'Indique al menos una línea a acreditar');
+    }
+
+    const totals = summarizeTax(lines.map(line => ({
+      taxAffectation: line.taxAffectation,
+      base: line.taxBase,
+      igv: line.igv,
+      total: line.amount
+    })), igvRate);
+
+    return await this.creditNoteRepository.create(sale.id, {
+      seriesId: series.id,
+      referenceDocumentType: reference.documentType,
+      referenceSeries: reference.series,
+      referenceCorrelative: reference.correlative,
+      reason: input.reason,
+      description: input.description.trim(),
+      clientDni: sale.clientDni,
+      clientName: sale.clientName,
+      lines,
+      taxBase: round2(totals.taxed + totals.exonerated + totals.unaffected),
+      igv: totals.igv,
+      total: totals.total,
+      saleReturnId: input.saleReturnId ?? null
+    });
+  }
+
+  // The receipt being corrected: the electronic document, or the number printed at checkout
+  private async getReferenceDocument(sale: Sale): Promise<DocumentNumber & { documentType: ElectronicDocumentType }> {
+    const document = await this.electronicDocumentRepository.getBySaleId(sale.id);
+    if (document) {
+      return { documentType: document.documentType, series: document.series, correlative: document.correlative };
+    }
+    if (sale.documentType && sale.series && sale.correlative) {
+      return { documentType: sale.documentType, series: sale.series, correlative: sale.correlative };
+    }
+    throw new Error('La venta no tiene un comprobante al cual referir la nota de crédito');
+  }
+}
@@ -0,0 +1,108 @@
+import type { Customer, CreateCustomerRequest } from '../entities/Customer';
+import type { Sale } from '../entities/Sale';
+import type { CustomerRepository } from '../repositories/CustomerRepository';
+import type { SaleRepository } from '../repositories/SaleRepository';
+
+export interface CustomerPurchaseSummary {
+  visits: number;
+  totalSpent: number;
+  lastPurchase: string | null;
+}
+
+export const normalizeDocumentNumber = (documentNumber: string | null): string =>
+  (documentNumber || '').replace(/\s+/g, '');
+
+export const isValidDocumentNumber = (documentNumber: string): boolean => /^(\d{8}|\d{11})$/.test(documentNumber);
+
+/**
+ * Customers whose DNI/RUC starts with the typed digits or whose name contains the text
+ */
+export const searchCustomers = (customers: Customer[], query: string, limit = 8): Customer[] => {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+  return customers
+    .filter(c => c.documentNumber.startsWith(text) || c.name.toLowerCase().includes(text))
+    .slice(0, limit);
+};
+
+export const summarizePurchases = (allSales: Sale[]): CustomerPurchaseSummary => {
+  const sales = allSales.filter(sale => !sale.voided);
+  return {
+    visits: sales.length,
+    totalSpent: sales.reduce((sum, sale) => sum + sale.total, 0),
+    lastPurchase: sales.reduce<string | null>((last, sale) => (!last || sale.date > last ? sale.date : last), null)
+  };
+};
+
+const cleanCustomer = (request: CreateCustomerRequest): CreateCustomerRequest => ({
+  documentNumber: normalizeDocumentNumber(request.documentNumber),
+  name: request.name.trim(),
+  phone: request.phone?.replace(/[^\d+]/g, '') || null,
+  email: request.email?.trim() || null,
+  address: request.address?.trim() || null
+});
+
+export class CustomerService {
+  constructor(
+    private customerRepository: CustomerRepository,
+    private saleRepository: SaleRepository
+  ) {}
+
+  async getAllCustomers(): Promise<Customer[]> {
+    const customers = await this.customerRepository.getAll();
+    return customers.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findByDocument(documentNumber: string | null): Promise<Customer | undefined> {
+    const document = normalizeDocumentNumber(documentNumber);
+    if (!isValidDocumentNumber(document)) return undefined;
+    return this.customerRepository.getByDocument(document);
+  }
+
+  async saveCustomer(request: CreateCustomerRequest, customerId?: string): Promise<Customer> {
+    const data = cleanCustomer(request);
+    if (!isValidDocumentNumber(data.documentNumber)) throw new Error('El DNI debe tener 8 dígitos o el RUC 11 dígitos');
+    if (!data.name) throw new Error('El nombre del cliente es obligatorio');
+    if (data.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) throw new Error('El correo electrónico no es válido');
+
+    const existing = await this.customerRepository.getByDocument(data.documentNumber);
+    if (existing && existing.id !== customerId) {
+      throw new Error(`El documento ${data.documentNumber} ya está registrado a nombre de ${existing.name}`);
+    }
+
+    return customerId
+      ? await this.customerRepository.update(customerId, data)
+      : await this.customerRepository.create(data);
+  }
+
+  async deleteCustomer(customerId: string): Promise<void> {
+    return await this.customerRepository.delete(customerId);
+  }
+
+  /**
+   * Sales made to the customer, newest first. Matched by DNI/RUC, so sales typed in before
+   * the customer was saved are included too.
+   */
+  async getPurchaseHistory(customer: Customer): Promise<Sale[]> {
+    const sales = await this.saleRepository.getByClientDocument(customer.documentNumber);
+    return sales.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Adds the buyer of a sale to the directory the first time they show up.
+   * The sale is already stored, so a failure is logged instead of thrown.
+   */
+  async registerFromSale(sale: Sale): Promise<void> {
+    const document = normalizeDocumentNumber(sale.clientDni);
+    const name = sale.clientName?.trim();
+    if (!isValidDocumentNumber(document) || !name) return;
+    try {
+      const existing = await this.customerRepository.getByDocument(document);
+      if (!existing) {
+        await this.customerRepository.create({ documentNumber: document, name, phone: null, email: null, address: null });
+      }
+    } catch (error) {
+      console.error(`CustomerService: could not register customer ${document}:`, error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { Sale } from '../entities/Sale';
+import type { StoreConfig } from '../entities/StoreConfig';
+import type { UserRole } from '../entities/User';
+import { round2 } from '../../utils/money';
+
+export type DiscountType = 'percent' | 'amount';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+  reason: string;
+}
+
+/**
+ * A sale line once its own discount and its share of the ticket discount are applied
+ */
+export interface DiscountedLine {
+  gross: number;
+  lineDiscount: number;
+  ticketDiscount: number;
+  net: number;
+}
+
+// Stores that never configured limits: the owner can give anything, cashiers up to 10%
+export const DEFAULT_MAX_DISCOUNT_PERCENT: Record<UserRole, number> = {
+  owner: 100,
+  cashier: 10
+};
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percent: '%',
+  amount: 'S/'
+};
+
+export const NO_DISCOUNT: Discount = { type: 'percent', value: 0, reason: '' };
+
+export const getMaxDiscountPercent = (config: StoreConfig | null, role: UserRole): number =>
+  config?.maxDiscountPercent?.[role] ?? DEFAULT_MAX_DISCOUNT_PERCENT[role];
+
+/**
+ * Amount taken off `gross`, never more than the amount itself
+ */
+export const getDiscountAmount = (gross: number, discount: Discount): number => {
+  if (!(discount.value > 0) || gross <= 0) return 0;
+  const amount = discount.type === 'percent' ? (gross * discount.value) / 100 : discount.value;
+  return round2(Math.min(amount, gross));
+};
+
+export const validateDiscount = (discount: Discount): string | null => {
+  if (!Number.isFinite(discount.value) || discount.value < 0) return 'El descuento debe ser un número positivo';
+  if (discount.type === 'percent' && discount.value > 100) return 'El descuento no puede superar el 100%';
+  if (discount.value > 0 && !discount.reason.trim()) return 'Indique el motivo del descuento';
+  return null;
+};
+
+/**
+ * Applies each line's discount and then spreads the ticket discount over the lines in
+ * proportion to what is left of them. The last line takes the rounding remainder so the
+ * line totals always add up to the ticket total.
+ */
+export const applyDiscounts = (
+  grossAmounts: number[],
+  lineDiscounts: Discount[],
+  ticketDiscount: Discount
+): DiscountedLine[] => {
+  const lines = grossAmounts.map((gross, i) => {
+    const lineDiscount = getDiscountAmount(gross, lineDiscounts[i] || NO_DISCOUNT);
+    return { gross, lineDiscount, ticketDiscount: 0, net: round2(gross - lineDiscount) };
+  });
+
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.net, 0));
+  const ticketAmount = getDiscountAmount(subtotal, ticketDiscount);
+  if (ticketAmount === 0) return lines;
+
+  let remaining = ticketAmount;
+  const lastIndex = lines.reduce((last, line, i) => (line.net > 0 ? i : last), -1);
+  return lines.map((line, i) => {
+    const share = i === lastIndex ? remaining : round2((ticketAmount * line.net) / subtotal);
+    remaining = round2(remaining - share);
+    return { ...line, ticketDiscount: share, net: round2(line.net - share) };
+  });
+};
+
+/**
+ * Largest discount on any line, as a percentage of its list amount. Role limits are
+ * checked against it, so one heavily discounted item cannot hide inside a big ticket.
+ */
+export const getLargestDiscountPercent = (lines: DiscountedLine[]): number =>
+  lines.reduce((max, line) => {
+    if (line.gross <= 0) return max;
+    return Math.max(max, round2(((line.lineDiscount + line.ticketDiscount) / line.gross) * 100));
+  }, 0);
+
+// Manual discounts, promotions, coupon and redeemed points together, for the receipt's "Descuentos" line
+export const getSaleDiscountTotal = (sale: Sale): number =>
+  round2(sale.items.reduce((sum, item) =>
+    sum + (item.discount || 0) + (item.promotionDiscount || 0) + (item.couponDiscount || 0) + (item.pointsDiscount || 0), 0));
@@ -0,0 +1,77 @@
+import type { DocumentSeries, DocumentSeriesType, CreateDocumentSeriesRequest } from '../entities/DocumentSeries';
+import type { Sale } from '../entities/Sale';
+import type { DocumentSeriesRepository } from '../repositories/DocumentSeriesRepository';
+
+// SUNAT series: 4 characters, starting with B for boletas and F for facturas.
+// Credit notes take the letter of the receipts they correct.
+const SERIES_PATTERNS: Record<DocumentSeriesType, RegExp> = {
+  '01': /^F[A-Z0-9]{3}$/,
+  '03': /^B[A-Z0-9]{3}$/,
+  '07': /^[BF][A-Z0-9]{3}$/
+};
+
+const SERIES_PATTERN_ERRORS: Record<DocumentSeriesType, string> = {
+  '01': 'La serie de facturas debe tener 4 caracteres y empezar con F (ej. F001)',
+  '03': 'La serie de boletas debe tener 4 caracteres y empezar con B (ej. B001)',
+  '07': 'La serie de notas de crédito debe tener 4 caracteres y empezar con F para facturas o B para boletas (ej. FC01, BC01)'
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentSeriesType, string> = {
+  '01': 'Factura',
+  '03': 'Boleta de venta',
+  '07': 'Nota de crédito'
+};
+
+// Printed form of a receipt number, e.g. B001-00000023
+export const formatDocumentId = (series: string, correlative: number): string =>
+  `${series}-${String(correlative).padStart(8, '0')}`;
+
+export const getSaleDocumentNumber = (sale: Sale): string | null =>
+  sale.series && sale.correlative ? formatDocumentId(sale.series, sale.correlative) : null;
+
+/**
+ * Active series a document of the type is numbered with: the default one, else the first.
+ * A prefix narrows it down, e.g. 'B' for the credit notes of boletas.
+ */
+export const findDefaultSeries = (
+  allSeries: DocumentSeries[],
+  documentType: DocumentSeriesType,
+  prefix = ''
+): DocumentSeries | undefined => {
+  const active = allSeries.filter(s => s.documentType === documentType && s.active && s.series.startsWith(prefix));
+  return active.find(s => s.isDefault) || active[0];
+};
+
+export class DocumentSeriesService {
+  constructor(private documentSeriesRepository: DocumentSeriesRepository) {}
+
+  async getAllSeries(): Promise<DocumentSeries[]> {
+    const series = await this.documentSeriesRepository.getAll();
+    return series.sort((a, b) => a.documentType.localeCompare(b.documentType) || a.series.localeCompare(b.series));
+  }
+
+  async createSeries(request: CreateDocumentSeriesRequest): Promise<DocumentSeries> {
+    const code = request.series.trim().toUpperCase();
+    if (!SERIES_PATTERNS[request.documentType].test(code)) {
+      throw new Error(SERIES_PATTERN_ERRORS[request.documentType]);
+    }
+
+    const existing = await this.documentSeriesRepository.getAll();
+    if (existing.some(s => s.series === code)) throw new Error(`La serie ${code} ya existe`);
+
+    // The first series of a type becomes the default one; credit notes have one for boletas and one for facturas
+    const prefix = request.documentType === '07' ? code.charAt(0) : '';
+    const isDefault = request.isDefault || !findDefaultSeries(existing, request.documentType, prefix);
+    return await this.documentSeriesRepository.create({ ...request, series: code, isDefault });
+  }
+
+  async setDefault(series: DocumentSeries): Promise<DocumentSeries> {
+    if (!series.active) throw new Error('No se puede usar una serie inactiva por defecto');
+    return await this.documentSeriesRepository.update(series.id, { isDefault: true, active: true });
+  }
+
+  async setActive(series: DocumentSeries, active: boolean): Promise<DocumentSeries> {
+    if (!active && series.isDefault) throw new Error('Elija otra serie por defecto antes de desactivar esta');
+    return await this.documentSeriesRepository.update(series.id, { isDefault: series.isDefault, active });
+  }
+}
@@ -0,0 +1,9 @@
+import type { ElectronicInvoiceData } from '../entities/ElectronicDocument';
+
+/**
+ * Renders electronic receipts into the XML format expected by SUNAT.
+ * The output is unsigned: the OSE/PSE adds the signature in ext:UBLExtensions.
+ */
+export interface ElectronicDocumentBuilder {
+  buildInvoice(data: ElectronicInvoiceData): string;
+}
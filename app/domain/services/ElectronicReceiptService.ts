@@ -0,0 +1,228 @@
+import type { Sale } from '../entities/Sale';
+import type { StoreConfig } from '../entities/StoreConfig';
+import type {
+  ElectronicDocument,
+  ElectronicDocumentType,
+  ElectronicDocumentLine,
+  ElectronicInvoiceData,
+  ElectronicVoidData,
+  IdentityDocumentType,
+  VoidProcedure
+} from '../entities/ElectronicDocument';
+import type { ElectronicDocumentRepository } from '../repositories/ElectronicDocumentRepository';
+import type { SaleRepository } from '../repositories/SaleRepository';
+import type { StoreConfigRepository } from '../repositories/StoreConfigRepository';
+import type { ElectronicDocumentBuilder } from './ElectronicDocumentBuilder';
+import type { SaleService } from './SaleService';
+import { DOCUMENT_TYPE_LABELS, getSaleDocumentNumber } from './DocumentSeriesService';
+import { amountToWords } from '../../utils/numberToWords';
+import { getTaxAffectationCode } from '../constants/TaxAffectations';
+import { getItemTax, getTaxSettings, summarizeTax } from './TaxCalculator';
+import { toLocalDateKey } from '../../utils/dateUtils';
+
+// SUNAT requires the buyer's identity document on boletas above this amount
+const BOLETA_IDENTIFICATION_THRESHOLD = 700;
+
+// Calendar days after the issue date in which SUNAT still accepts a baja or resumen diario
+const VOID_NOTICE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const VOID_PROCEDURE_LABELS: Record<VoidProcedure, string> = {
+  voided_documents: 'Comunicación de baja',
+  daily_summary: 'Resumen diario (anulación)',
+  credit_note: 'Nota de crédito por anulación'
+};
+
+export class ElectronicReceiptService {
+  constructor(
+    private electronicDocumentRepository: ElectronicDocumentRepository,
+    private saleRepository: SaleRepository,
+    private storeConfigRepository: StoreConfigRepository,
+    private documentBuilder: ElectronicDocumentBuilder,
+    private saleService: SaleService
+  ) {}
+
+  /**
+   * Keeps the type the sale was numbered with; otherwise RUC buyers get a factura and anyone else a boleta
+   */
+  suggestDocumentType(sale: Sale): ElectronicDocumentType {
+    if (sale.documentType) return sale.documentType;
+    return this.getCustomerDocumentType(sale.clientDni) === '6' ? '01' : '03';
+  }
+
+  getCustomerDocumentType(documentNumber: string | null): IdentityDocumentType {
+    const value = (documentNumber || '').trim();
+    if (/^(10|15|17|20)\d{9}$/.test(value)) return '6';
+    if (/^\d{8}$/.test(value)) return '1';
+    return '0';
+  }
+
+  validate(sale: Sale, config: StoreConfig | null, documentType: ElectronicDocumentType): void {
+    if (!config) throw new Error('Configure los datos de la tienda antes de emitir comprobantes');
+    if (!config.ruc || !/^\d{11}$/.test(config.ruc)) {
+      throw new Error('Configure el RUC de la tienda en Configuración para emitir comprobantes');
+    }
+    if (!config.legalName?.trim()) {
+      throw new Error('Configure la razón social de la tienda en Configuración');
+    }
+
+    const customerDocumentType = this.getCustomerDocumentType(sale.clientDni);
+    if (documentType === '01') {
+      if (customerDocumentType !== '6') throw new Error('La factura requiere el RUC del cliente');
+      if (!sale.clientName?.trim()) throw new Error('La factura requiere la razón social del cliente');
+    }
+    if (documentType === '03' && sale.total > BOLETA_IDENTIFICATION_THRESHOLD && customerDocumentType === '0') {
+      throw new Error(`Las boletas mayores a S/ ${BOLETA_IDENTIFICATION_THRESHOLD} requieren DNI del cliente`);
+    }
+  }
+
+  buildLines(sale: Sale, igvRate: number): ElectronicDocumentLine[] {
+    return sale.items.map(item => {
+      const tax = getItemTax(item, igvRate);
+      return {
+        code: item.productId,
+        description: item.name,
+        quantity: item.quantity,
+        unitValue: tax.base / item.quantity,
+        unitPrice: tax.total / item.quantity,
+        taxableAmount: tax.base,
+        igv: tax.igv,
+        total: tax.total,
+        taxAffectation: getTaxAffectationCode(tax.taxAffectation)
+      };
+    });
+  }
+
+  buildInvoiceData(
+    sale: Sale,
+    config: StoreConfig,
+    documentType: ElectronicDocumentType,
+    series: string,
+    correlative: number
+  ): ElectronicInvoiceData {
+    const { igvRate } = getTaxSettings(config);
+    const lines = this.buildLines(sale, igvRate);
+    const totals = summarizeTax(sale.items.map(item => getItemTax(item, igvRate)), igvRate);
+    const customerDocumentType = this.getCustomerDocumentType(sale.clientDni);
+
+    const saleDate = new Date(sale.date);
+    const issueDate = `${saleDate.getFullYear()}-${String(saleDate.getMonth() + 1).padStart(2, '0')}-${String(saleDate.getDate()).padStart(2, '0')}`;
+    const issueTime = `${String(saleDate.getHours()).padStart(2, '0')}:${String(saleDate.getMinutes()).padStart(2, '0')}:${String(saleDate.getSeconds()).padStart(2, '0')}`;
+
+    return {
+      documentType,
+      series,
+      correlative,
+      issueDate,
+      issueTime,
+      currency: 'PEN',
+      issuer: {
+        ruc: config.ruc!,
+        legalName: config.legalName!,
+        tradeName: config.name,
+        address: config.address,
+        ubigeo: config.ubigeo || '150101'
+      },
+      customer: {
+        documentType: customerDocumentType,
+        documentNumber: customerDocumentType === '0' ? '-' : sale.clientDni!.trim(),
+        name: sale.clientName?.trim() || 'CLIENTES VARIOS'
+      },
+      lines,
+      igvRate,
+      totals: {
+        taxed: totals.taxed,
+        exonerated: totals.exonerated,
+        unaffected: totals.unaffected,
+        igv: totals.igv,
+        total: totals.total
+      },
+      amountInWords: amountToWords(totals.total)
+    };
+  }
+
+  /**
+   * What has to be sent to SUNAT to cancel an issued receipt: a baja within the deadline,
+   * a credit note for the full amount after it
+   */
+  buildVoidData(document: ElectronicDocument, reason: string, date: Date = new Date()): ElectronicVoidData {
+    const voidDate = toLocalDateKey(date);
+    const issued = new Date(`${document.issueDate}T00:00:00`);
+    const daysSinceIssue = Math.round((new Date(`${voidDate}T00:00:00`).getTime() - issued.getTime()) / DAY_MS);
+    const procedure = daysSinceIssue > VOID_NOTICE_DAYS
+      ? 'credit_note'
+      : document.documentType === '01' ? 'voided_documents' : 'daily_summary';
+
+    return {
+      procedure,
+      documentType: document.documentType,
+      series: document.series,
+      correlative: document.correlative,
+      issueDate: document.issueDate,
+      voidDate,
+      reason: reason.trim(),
+      customer: {
+        documentType: document.customerDocumentType,
+        documentNumber: document.customerDocumentNumber
+      },
+      total: document.total,
+      creditNoteReasonCode: procedure === 'credit_note' ? '01' : null
+    };
+  }
+
+  /**
+   * Stores the void data on the sale's electronic document. Returns null when the sale has none,
+   * or when SUNAT rejected it and there is nothing to cancel.
+   */
+  async registerVoid(sale: Sale, reason: string): Promise<ElectronicVoidData | null> {
+    const document = await this.electronicDocumentRepository.getBySaleId(sale.id);
+    if (!document || document.status === 'rejected') return null;
+
+    const data = this.buildVoidData(document, reason);
+    await this.electronicDocumentRepository.registerVoid(document.id, data);
+    return data;
+  }
+
+  async getDocumentForSale(saleId: string): Promise<ElectronicDocument | null> {
+    return await this.electronicDocumentRepository.getBySaleId(saleId);
+  }
+
+  /**
+   * Generates the UBL document for a sale, stores it and marks the sale as invoiced
+   */
+  async issueForSale(sale: Sale, documentType: ElectronicDocumentType = this.suggestDocumentType(sale)): Promise<ElectronicDocument> {
+    if (sale.voided) throw new Error('La venta está anulada');
+    const existing = await this.electronicDocumentRepository.getBySaleId(sale.id);
+    if (existing) throw new Error('Esta venta ya tiene un comprobante electrónico emitido');
+
+    const config = await this.storeConfigRepository.get();
+    this.validate(sale, config, documentType);
+
+    // Numbers only come from the document series, so they stay gap-free and never repeat.
+    // Reuse the number printed at checkout; unnumbered sales take the next one of the series.
+    const numbered = await this.saleService.numberPendingSale(sale, documentType);
+    const numberedType = numbered.documentType ?? (numbered.series?.startsWith('F') ? '01' : '03');
+    if (numberedType !== documentType) {
+      throw new Error(`La venta ya tiene el número ${getSaleDocumentNumber(numbered)} de ${DOCUMENT_TYPE_LABELS[numberedType].toLowerCase()}`);
+    }
+    const series = numbered.series!;
+    const correlative = numbered.correlative!;
+    const data = this.buildInvoiceData(sale, config!, documentType, series, correlative);
+    const xml = this.documentBuilder.buildInvoice(data);
+
+    const document = await this.electronicDocumentRepository.create(sale.id, {
+      documentType,
+      series,
+      correlative,
+      issueDate: data.issueDate,
+      customerDocumentType: data.customer.documentType,
+      customerDocumentNumber: data.customer.documentNumber,
+      total: data.totals.total,
+      xml
+    });
+
+    await this.saleRepository.markAsInvoiced(sale.id);
+    return document;
+  }
+}
@@ -2,6 +2,9 @@ export interface ExcelImportResponse {
   totalProcessed: number;
   successfulImports: number;
   categoriesCreated: number;
+  // Rows sharing an Estilo are grouped into one style with a variant per Talla/Color
+  stylesCreated?: number;
+  variantsCreated?: number;
   errors: string[];
   warnings: string[];
   summary: string;
@@ -13,9 +16,18 @@ export interface SalesExportRequest {
   endDate?: string;
   selectedMonth?: string;
   statusFilter: 'todas' | 'porFacturar' | 'facturadas';
+  // Adds valor venta, IGV and exempt columns to the export
+  includeTaxBreakdown?: boolean;
+  pricesIncludeTax?: boolean;
+  igvRate?: number;
+  // Voided sales stay in the history but are left out of the exported revenue
+  excludeVoided?: boolean;
+  // Subtracts the credit notes issued on the exported sales from their revenue
+  netCreditNotes?: boolean;
 }
 
 export interface ExcelService {
+  // The backend records an 'import' stock movement for every row it creates or restocks
   importProducts(file: File): Promise<ExcelImportResponse>;
   downloadTemplate(): Promise<void>;
   exportInventory(): Promise<void>;
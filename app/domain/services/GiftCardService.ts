@@ -0,0 +1,146 @@
+import type { GiftCard, GiftCardMovement, GiftCardMovementType, IssueGiftCardRequest } from '../entities/GiftCard';
+import type { SalePayment } from '../entities/Sale';
+import type { GiftCardRepository } from '../repositories/GiftCardRepository';
+import type { CashSessionService } from './CashSessionService';
+import { toLocalDateKey } from '../../utils/dateUtils';
+import { round2 } from '../../utils/money';
+
+export const GIFT_CARD_MOVEMENT_LABELS: Record<GiftCardMovementType, string> = {
+  issue: 'Emisión',
+  redeem: 'Consumo',
+  refund: 'Reintegro'
+};
+
+// No 0/O or 1/I, so codes read out loud or copied by hand are not mistaken
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const normalizeGiftCardCode = (code: string): string => code.replace(/\s+/g, '').toUpperCase();
+
+export const generateGiftCardCode = (): string => {
+  const random = Array.from({ length: 8 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  return `GC-${random.slice(0, 4)}-${random.slice(4)}`;
+};
+
+// Receipts only show the end of the code, since the code alone is enough to spend the card
+export const maskGiftCardCode = (code: string): string => `****${code.slice(-4)}`;
+
+export const isGiftCardExpired = (card: GiftCard, date: Date = new Date()): boolean =>
+  !!card.expiresAt && toLocalDateKey(date) > card.expiresAt;
+
+export class GiftCardService {
+  constructor(
+    private giftCardRepository: GiftCardRepository,
+    private cashSessionService: CashSessionService
+  ) {}
+
+  async getAllCards(): Promise<GiftCard[]> {
+    const cards = await this.giftCardRepository.getAll();
+    return cards.sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  }
+
+  async findByCode(code: string): Promise<GiftCard | undefined> {
+    return this.giftCardRepository.getByCode(normalizeGiftCardCode(code));
+  }
+
+  async getMovements(card: GiftCard): Promise<GiftCardMovement[]> {
+    const movements = await this.giftCardRepository.getMovements(card.id);
+    return movements.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async issueCard(request: IssueGiftCardRequest): Promise<GiftCard> {
+    const data: IssueGiftCardRequest = {
+      ...request,
+      code: normalizeGiftCardCode(request.code) || generateGiftCardCode(),
+      buyerName: request.buyerName?.trim() || null
+    };
+    if (!(data.amount > 0)) throw new Error('El monto de la tarjeta debe ser mayor a 0');
+    if (data.expiresAt && data.expiresAt < toLocalDateKey()) throw new Error('La fecha de vencimiento ya pasó');
+    if (await this.giftCardRepository.getByCode(data.code)) {
+      throw new Error(`Ya existe una tarjeta con el código ${data.code}`);
+    }
+
+    // Selling a card is money taken at the till, like any other payment
+    const session = await this.cashSessionService.getCurrentSession();
+    if (!session) throw new Error('No hay un turno de caja abierto. Abra la caja antes de vender tarjetas de regalo.');
+
+    const card = await this.giftCardRepository.issue(data);
+    if (data.paymentMethod === 'cash') {
+      try {
+        await this.cashSessionService.registerMovement(session, {
+          type: 'in',
+          amount: data.amount,
+          reason: `Venta de tarjeta de regalo ${maskGiftCardCode(card.code)}`
+        });
+      } catch (error) {
+        console.error(`GiftCardService: could not record cash-in of S/ ${data.amount} for card ${card.code}:`, error);
+      }
+    }
+    return card;
+  }
+
+  /**
+   * Checks the gift card payments of a sale against the cards' balances and returns the
+   * payments with the normalized code and the balance each card will have left.
+   * Several lines with the same card are added up.
+   */
+  async checkPayments(payments: SalePayment[]): Promise<SalePayment[]> {
+    const balances = new Map<string, number>();
+    const checked: SalePayment[] = [];
+
+    for (const payment of payments) {
+      if (payment.method !== 'gift_card') {
+        checked.push(payment);
+        continue;
+      }
+      const code = normalizeGiftCardCode(payment.reference || '');
+      if (!code) throw new Error('Ingrese el código de la tarjeta de regalo');
+
+      if (!balances.has(code)) {
+        const card = await this.giftCardRepository.getByCode(code);
+        if (!card) throw new Error(`Tarjeta de regalo no encontrada: ${code}`);
+        if (isGiftCardExpired(card)) throw new Error(`La tarjeta ${code} venció el ${card.expiresAt}`);
+        balances.set(code, card.balance);
+      }
+      const balanceAfter = round2(balances.get(code)! - payment.amount);
+      if (balanceAfter < 0) {
+        throw new Error(`Saldo insuficiente en la tarjeta ${code}. Disponible: S/ ${balances.get(code)!.toFixed(2)}`);
+      }
+      balances.set(code, balanceAfter);
+      checked.push({ ...payment, reference: code, balanceAfter });
+    }
+    return checked;
+  }
+
+  /**
+   * Debits the cards used in a stored sale. Failures are logged so they can be
+   * fixed by hand; the sale itself is already recorded at this point.
+   */
+  async redeemPayments(payments: SalePayment[], reference: string): Promise<void> {
+    for (const payment of payments) {
+      if (payment.method !== 'gift_card' || !payment.reference) continue;
+      try {
+        const card = await this.giftCardRepository.getByCode(payment.reference);
+        if (!card) throw new Error('card not found');
+        await this.giftCardRepository.redeem(card.id, payment.amount, reference);
+      } catch (error) {
+        console.error(`GiftCardService: could not debit S/ ${payment.amount} from ${payment.reference} for ${reference}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Credits back the amounts a return or void gives back to the cards. Failures are logged like debits.
+   */
+  async refundPayments(payments: SalePayment[], reference: string): Promise<void> {
+    for (const payment of payments) {
+      if (payment.method !== 'gift_card' || !payment.reference || !(payment.amount > 0)) continue;
+      try {
+        const card = await this.giftCardRepository.getByCode(payment.reference);
+        if (!card) throw new Error('card not found');
+        await this.giftCardRepository.refund(card.id, payment.amount, reference);
+      } catch (error) {
+        console.error(`GiftCardService: could not credit S/ ${payment.amount} back to ${payment.reference} for ${reference}:`, error);
+      }
+    }
+  }
+}
@@ -1,8 +1,37 @@
 import type { Product, CreateProductRequest, UpdateProductRequest } from '../entities/Product';
 import type { ProductRepository } from '../repositories/ProductRepository';
+import type { StockMovementType } from '../entities/StockMovement';
+import type { StockMovementService } from './StockMovementService';
+
+/**
+ * The backend replaces the whole product on update, so stock changes must resend every field
+ */
+export const toUpdateProductRequest = (product: Product, changes: Partial<UpdateProductRequest> = {}): UpdateProductRequest => ({
+  name: product.name,
+  brand: product.brand,
+  categoryNumber: product.categoryNumber,
+  size: product.size,
+  color: product.color ?? null,
+  styleId: product.styleId ?? null,
+  price: product.price,
+  quantity: product.quantity,
+  reservedQuantity: product.reservedQuantity ?? 0,
+  taxAffectation: product.taxAffectation,
+  cost: product.cost ?? null,
+  minStock: product.minStock ?? null,
+  maxStock: product.maxStock ?? null,
+  ...changes
+});
+
+// Units that can still be sold or reserved
+export const getAvailableQuantity = (product: Product): number =>
+  Math.max(0, product.quantity - (product.reservedQuantity ?? 0));
 
 export class InventoryService {
-  constructor(private productRepository: ProductRepository) {}
+  constructor(
+    private productRepository: ProductRepository,
+    private stockMovementService: StockMovementService
+  ) {}
 
   async addProduct(productData: CreateProductRequest): Promise<Product> {
     // Validate fields, avoid duplicates by name (since we don't have productId yet)
@@ -12,26 +41,25 @@ export class InventoryService {
   }
 
   async updateProduct(productId: string, productData: UpdateProductRequest): Promise<Product> {
-    return await this.productRepository.update(productId, productData);
+    // Stock only changes through adjustments with a reason: the edit keeps the live quantity and reservations
+    const current = await this.productRepository.getById(productId);
+    if (!current) throw new Error('Producto no encontrado');
+    return await this.productRepository.update(productId, {
+      ...productData,
+      quantity: current.quantity,
+      reservedQuantity: current.reservedQuantity ?? 0
+    });
   }
 
   async deleteProduct(productId: string): Promise<void> {
     return await this.productRepository.delete(productId);
   }
 
-  async decrementStock(productId: string, quantity: number): Promise<void> {
+  async decrementStock(productId: string, quantity: number, type: StockMovementType = 'sale', reference: string | null = null): Promise<void> {
     const product = await this.productRepository.getById(productId);
     if (!product) throw new Error('Producto no encontrado');
-    if (product.quantity < quantity) throw new Error('Stock insuficiente');
-    
-    const updatedData: UpdateProductRequest = {
-      name: product.name,
-      category: product.category,
-      price: product.price,
-      quantity: product.quantity - quantity,
-      brand: product.brand
-    };
-    
-    await this.productRepository.update(productId, updatedData);
+    if (getAvailableQuantity(product) < quantity) throw new Error('Stock insuficiente');
+
+    await this.stockMovementService.applyStockChange(product, -quantity, type, reference);
   }
 } 
\ No newline at end of file
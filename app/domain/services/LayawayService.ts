@@ -0,0 +1,215 @@
+import type { Layaway, LayawayStatus, CreateLayawayRequest, CreateLayawayPaymentRequest } from '../entities/Layaway';
+import type { Sale, SaleItem, SalePayment, PaymentMethod } from '../entities/Sale';
+import type { ElectronicDocumentType } from '../entities/ElectronicDocument';
+import type { LayawayRepository } from '../repositories/LayawayRepository';
+import type { ProductRepository } from '../repositories/ProductRepository';
+import type { CashSessionService } from './CashSessionService';
+import type { SaleService } from './SaleService';
+import { getAvailableQuantity, toUpdateProductRequest } from './InventoryService';
+import { COUNTER_PAYMENT_METHODS } from '../constants/PaymentMethods';
+import { toLocalDateKey } from '../../utils/dateUtils';
+import { round2 } from '../../utils/money';
+
+export const LAYAWAY_STATUS_LABELS: Record<LayawayStatus, string> = {
+  open: 'Vigente',
+  completed: 'Completado',
+  expired: 'Vencido',
+  cancelled: 'Anulado'
+};
+
+// The cash session is filled in by the service
+export type LayawayPaymentInput = Omit<CreateLayawayPaymentRequest, 'cashSessionId'>;
+export type NewLayaway = Omit<CreateLayawayRequest, 'deposit'> & { deposit: LayawayPaymentInput };
+
+export const formatLayawayNumber = (number: number): string => `AP-${String(number).padStart(6, '0')}`;
+
+export const getLayawayBalance = (layaway: Layaway): number => Math.max(0, round2(layaway.total - layaway.paid));
+
+export const isLayawayOverdue = (layaway: Layaway, date: Date = new Date()): boolean =>
+  layaway.status === 'open' && toLocalDateKey(date) > layaway.expiresAt;
+
+const sumByProduct = (items: SaleItem[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  items.forEach(item => totals.set(item.productId, (totals.get(item.productId) || 0) + item.quantity));
+  return totals;
+};
+
+export class LayawayService {
+  constructor(
+    private layawayRepository: LayawayRepository,
+    private productRepository: ProductRepository,
+    private cashSessionService: CashSessionService,
+    private saleService: SaleService
+  ) {}
+
+  async getAllLayaways(): Promise<Layaway[]> {
+    const layaways = await this.layawayRepository.getAll();
+    return layaways.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async createLayaway(request: NewLayaway): Promise<Layaway> {
+    const { deposit } = request;
+    if (!request.items.length) throw new Error('Agregue al menos un producto');
+    if (!request.clientDni.trim() || !request.clientName.trim()) {
+      throw new Error('Un apartado necesita el DNI y el nombre del cliente');
+    }
+    if (!request.expiresAt || request.expiresAt < toLocalDateKey()) {
+      throw new Error('Indique una fecha de vencimiento a partir de hoy');
+    }
+    this.checkPayment(deposit.method, deposit.amount);
+    if (deposit.amount >= request.total - 0.005) {
+      throw new Error('El adelanto cubre el total: registre una venta normal');
+    }
+
+    for (const [productId, quantity] of sumByProduct(request.items)) {
+      const product = await this.productRepository.getById(productId);
+      if (!product) throw new Error(`Producto no encontrado: ${productId}`);
+      const available = getAvailableQuantity(product);
+      if (available < quantity) {
+        throw new Error(`Stock insuficiente para ${product.name}. Disponible: ${available}, Solicitado: ${quantity}`);
+      }
+    }
+
+    const session = await this.getOpenSession();
+    const layaway = await this.layawayRepository.create({
+      ...request,
+      clientDni: request.clientDni.trim(),
+      clientName: request.clientName.trim(),
+      deposit: { ...deposit, amount: round2(deposit.amount), cashSessionId: session.id }
+    });
+
+    await this.changeReservation(layaway, 1);
+    await this.recordCashIn(deposit.method, deposit.amount, `Adelanto apartado ${formatLayawayNumber(layaway.number)}`);
+    return layaway;
+  }
+
+  /**
+   * Records an installment. The payment that settles the balance turns the layaway into a sale.
+   */
+  async addPayment(
+    layaway: Layaway,
+    payment: LayawayPaymentInput,
+    documentType: ElectronicDocumentType = '03'
+  ): Promise<Layaway> {
+    if (layaway.status !== 'open') throw new Error(`El apartado está ${LAYAWAY_STATUS_LABELS[layaway.status].toLowerCase()}`);
+    if (isLayawayOverdue(layaway)) throw new Error(`El apartado venció el ${layaway.expiresAt}`);
+    this.checkPayment(payment.method, payment.amount);
+    const balance = getLayawayBalance(layaway);
+    if (payment.amount > balance + 0.005) {
+      throw new Error(`El abono supera el saldo pendiente de S/ ${balance.toFixed(2)}`);
+    }
+
+    const session = await this.getOpenSession();
+    const updated = await this.layawayRepository.addPayment(layaway.id, {
+      ...payment,
+      amount: round2(payment.amount),
+      cashSessionId: session.id
+    });
+    await this.recordCashIn(payment.method, payment.amount, `Abono apartado ${formatLayawayNumber(layaway.number)}`);
+
+    if (getLayawayBalance(updated) > 0) return updated;
+    return this.completeLayaway(updated, documentType);
+  }
+
+  /**
+   * Turns a fully paid layaway into a normal sale. The sale is left out of the cash session,
+   * since its money already entered the drawer as deposits.
+   */
+  async completeLayaway(layaway: Layaway, documentType: ElectronicDocumentType = '03'): Promise<Layaway> {
+    if (layaway.status !== 'open') throw new Error(`El apartado está ${LAYAWAY_STATUS_LABELS[layaway.status].toLowerCase()}`);
+    if (getLayawayBalance(layaway) > 0) throw new Error('El apartado aún tiene saldo pendiente');
+
+    // Release the reservation first: the sale checks available stock and takes the units itself
+    await this.changeReservation(layaway, -1);
+    let sale: Sale;
+    try {
+      sale = await this.saleService.makeSale({
+        clientDni: layaway.clientDni,
+        clientName: layaway.clientName,
+        items: layaway.items.map(item => ({
+          ...item,
+          taxAffectation: item.taxAffectation ?? 'taxed',
+          taxBase: item.taxBase ?? 0,
+          igv: item.igv ?? 0
+        })),
+        payments: this.groupPayments(layaway),
+        cashReceived: null,
+        change: 0,
+        cashSessionId: null,
+        discount: layaway.discount ?? 0,
+        discountReason: layaway.discountReason ?? null,
+        discountApprovedBy: layaway.discountApprovedBy ?? null,
+        layawayId: layaway.id
+      }, documentType);
+    } catch (error: any) {
+      await this.changeReservation(layaway, 1);
+      throw new Error(`El apartado está pagado pero no se pudo generar la venta: ${error.message || error}`);
+    }
+    return await this.layawayRepository.updateStatus(layaway.id, 'completed', sale.id);
+  }
+
+  async cancelLayaway(layaway: Layaway): Promise<Layaway> {
+    if (layaway.status !== 'open') throw new Error(`El apartado está ${LAYAWAY_STATUS_LABELS[layaway.status].toLowerCase()}`);
+    await this.changeReservation(layaway, -1);
+    return await this.layawayRepository.updateStatus(layaway.id, 'cancelled');
+  }
+
+  /**
+   * Marks overdue layaways as expired and puts their reserved units back on sale.
+   * Deposits are kept; refunding them is up to the store. Returns how many expired.
+   */
+  async expireOverdue(): Promise<number> {
+    const layaways = await this.layawayRepository.getAll();
+    const overdue = layaways.filter(layaway => isLayawayOverdue(layaway));
+    for (const layaway of overdue) {
+      await this.changeReservation(layaway, -1);
+      await this.layawayRepository.updateStatus(layaway.id, 'expired');
+    }
+    return overdue.length;
+  }
+
+  private checkPayment(method: PaymentMethod, amount: number): void {
+    if (!COUNTER_PAYMENT_METHODS.includes(method)) throw new Error('Medio de pago no admitido para apartados');
+    if (!(amount > 0)) throw new Error('El monto debe ser mayor a 0');
+  }
+
+  private async getOpenSession() {
+    const session = await this.cashSessionService.getCurrentSession();
+    if (!session) throw new Error('No hay un turno de caja abierto. Abra la caja antes de recibir pagos.');
+    return session;
+  }
+
+  // Cash deposits go into the drawer count as cash-in movements
+  private async recordCashIn(method: PaymentMethod, amount: number, reason: string): Promise<void> {
+    if (method !== 'cash') return;
+    try {
+      const session = await this.getOpenSession();
+      await this.cashSessionService.registerMovement(session, { type: 'in', amount, reason });
+    } catch (error) {
+      console.error(`LayawayService: could not record cash-in of S/ ${amount} (${reason}):`, error);
+    }
+  }
+
+  private groupPayments(layaway: Layaway): SalePayment[] {
+    const totals = new Map<PaymentMethod, number>();
+    layaway.payments.forEach(payment => totals.set(payment.method, round2((totals.get(payment.method) || 0) + payment.amount)));
+    return Array.from(totals, ([method, amount]) => ({ method, amount, reference: formatLayawayNumber(layaway.number) }));
+  }
+
+  /**
+   * Adds (direction 1) or releases (direction -1) the layaway's units on each product's reserved quantity.
+   * Failures are logged so the reservation can be fixed by hand from the inventory.
+   */
+  private async changeReservation(layaway: Layaway, direction: 1 | -1): Promise<void> {
+    for (const [productId, quantity] of sumByProduct(layaway.items)) {
+      try {
+        const product = await this.productRepository.getById(productId);
+        if (!product) throw new Error('product not found');
+        const reservedQuantity = Math.max(0, (product.reservedQuantity ?? 0) + direction * quantity);
+        await this.productRepository.update(productId, toUpdateProductRequest(product, { reservedQuantity }));
+      } catch (error) {
+        console.error(`LayawayService: could not update reservation of ${productId} for ${formatLayawayNumber(layaway.number)}:`, error);
+      }
+    }
+  }
+}
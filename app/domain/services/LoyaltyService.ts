@@ -0,0 +1,239 @@
+import type { Customer } from '../entities/Customer';
+import type { LoyaltyMovement, LoyaltyMovementType, LoyaltySettings } from '../entities/Loyalty';
+import type { Sale } from '../entities/Sale';
+import type { StoreConfig } from '../entities/StoreConfig';
+import type { CreateSaleRequest } from '../repositories/SaleRepository';
+import type { CustomerRepository } from '../repositories/CustomerRepository';
+import type { LoyaltyRepository } from '../repositories/LoyaltyRepository';
+import type { StoreConfigRepository } from '../repositories/StoreConfigRepository';
+import { normalizeDocumentNumber } from './CustomerService';
+import { toLocalDateKey } from '../../utils/dateUtils';
+import { round2 } from '../../utils/money';
+
+export const LOYALTY_MOVEMENT_LABELS: Record<LoyaltyMovementType, string> = {
+  earn: 'Compra',
+  redeem: 'Canje',
+  reverse: 'Devolución',
+  restore: 'Anulación',
+  expire: 'Vencimiento'
+};
+
+// 1 point per sol, and each point is worth 2 céntimos when redeemed
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  enabled: false,
+  pointsPerSol: 1,
+  pointValue: 0.02,
+  expiryMonths: 12
+};
+
+/**
+ * Points a registered customer earns, redeems and ends up with in a sale
+ */
+export interface SaleLoyalty {
+  customer: Customer;
+  redeemed: number;
+  earned: number;
+  balanceAfter: number;
+  expiresAt: string | null; // When the earned points lapse
+}
+
+export const getLoyaltySettings = (config: StoreConfig | null): LoyaltySettings => ({
+  ...DEFAULT_LOYALTY_SETTINGS,
+  ...config?.loyalty
+});
+
+export const validateLoyaltySettings = (settings: LoyaltySettings): string | null => {
+  if (!settings.enabled) return null;
+  if (!(settings.pointsPerSol > 0)) return 'Los puntos por sol deben ser mayores a 0';
+  if (!(settings.pointValue > 0)) return 'El valor del punto debe ser mayor a 0';
+  if (settings.expiryMonths != null && !(settings.expiryMonths >= 1)) return 'Los puntos deben durar al menos 1 mes';
+  return null;
+};
+
+// Only whole points are earned; fractions of a sol do not carry over to the next sale
+export const getPointsEarned = (amount: number, settings: LoyaltySettings): number =>
+  settings.enabled && amount > 0 ? Math.floor(round2(amount * settings.pointsPerSol)) : 0;
+
+export const pointsToSoles = (points: number, settings: LoyaltySettings): number =>
+  round2(points * settings.pointValue);
+
+export const solesToPoints = (amount: number, settings: LoyaltySettings): number =>
+  settings.pointValue > 0 ? Math.round(amount / settings.pointValue) : 0;
+
+// Most points that can go towards an amount without exceeding it
+export const getMaxRedeemablePoints = (balance: number, amount: number, settings: LoyaltySettings): number =>
+  settings.pointValue > 0 ? Math.max(0, Math.min(balance, Math.floor(round2(amount / settings.pointValue)))) : 0;
+
+export const getPointsExpiryDate = (settings: LoyaltySettings, date: Date = new Date()): string | null => {
+  if (!settings.expiryMonths) return null;
+  const expiry = new Date(date);
+  expiry.setMonth(expiry.getMonth() + settings.expiryMonths);
+  return toLocalDateKey(expiry);
+};
+
+/**
+ * Points of lapsed purchases that are still in the balance. Points are spent oldest first,
+ * so everything already redeemed, reversed or expired counts against the lots that lapse first.
+ */
+export const getExpiredPoints = (movements: LoyaltyMovement[], date: Date = new Date()): number => {
+  const today = toLocalDateKey(date);
+  const lapsed = movements
+    .filter(m => m.type === 'earn' && m.expiresAt && today > m.expiresAt)
+    .reduce((sum, m) => sum + m.points, 0);
+  const spent = movements
+    .filter(m => m.points < 0)
+    .reduce((sum, m) => sum - m.points, 0);
+  return Math.max(0, lapsed - spent);
+};
+
+export class LoyaltyService {
+  constructor(
+    private loyaltyRepository: LoyaltyRepository,
+    private customerRepository: CustomerRepository,
+    private configRepository: StoreConfigRepository
+  ) {}
+
+  async getMovements(customer: Customer): Promise<LoyaltyMovement[]> {
+    const movements = await this.loyaltyRepository.getMovements(customer.id);
+    return movements.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Current points balance, after writing off any points that have lapsed
+   */
+  async getBalance(customer: Customer): Promise<number> {
+    const movements = await this.getMovements(customer);
+    const balance = movements.length ? movements[movements.length - 1].balanceAfter : customer.loyaltyPoints ?? 0;
+    const expired = Math.min(getExpiredPoints(movements), balance);
+    if (expired <= 0) return balance;
+
+    const movement = await this.loyaltyRepository.addMovement(customer.id, {
+      type: 'expire',
+      points: -expired,
+      reference: 'Puntos vencidos',
+      saleId: null,
+      expiresAt: null
+    });
+    return movement.balanceAfter;
+  }
+
+  /**
+   * Works out the points of a sale before it is stored: the points redeemed as a discount
+   * or as payment must be covered by the customer's balance. Returns null when the buyer is
+   * not a registered customer or the program is off.
+   */
+  async prepareSale(saleData: CreateSaleRequest): Promise<SaleLoyalty | null> {
+    const settings = getLoyaltySettings(await this.configRepository.get());
+    const pointsPaid = saleData.payments
+      .filter(payment => payment.method === 'points')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const redeemed = solesToPoints((saleData.pointsDiscount || 0) + pointsPaid, settings);
+
+    if (!settings.enabled) {
+      if (redeemed > 0) throw new Error('El programa de puntos está desactivado');
+      return null;
+    }
+    const document = normalizeDocumentNumber(saleData.clientDni);
+    const customer = document ? await this.customerRepository.getByDocument(document) : undefined;
+    if (!customer) {
+      if (redeemed > 0) throw new Error('Los puntos solo se pueden canjear con un cliente registrado');
+      return null;
+    }
+
+    const balance = await this.getBalance(customer);
+    if (redeemed > balance) throw new Error(`Puntos insuficientes. Disponibles: ${balance}`);
+
+    // Points are earned on what the customer actually pays, not on what was paid with points
+    const total = saleData.items.reduce((sum, item) => sum + item.subtotal, 0);
+    const earned = getPointsEarned(total - pointsPaid, settings);
+    return { customer, redeemed, earned, balanceAfter: balance - redeemed + earned, expiresAt: getPointsExpiryDate(settings) };
+  }
+
+  /**
+   * Writes the points of a stored sale to the customer's ledger. Failures are logged
+   * so they can be fixed by hand; the sale itself is already recorded at this point.
+   */
+  async recordSale(loyalty: SaleLoyalty, sale: Sale, reference: string): Promise<void> {
+    try {
+      if (loyalty.redeemed > 0) {
+        await this.loyaltyRepository.addMovement(loyalty.customer.id, {
+          type: 'redeem',
+          points: -loyalty.redeemed,
+          reference,
+          saleId: sale.id,
+          expiresAt: null
+        });
+      }
+      if (loyalty.earned > 0) {
+        await this.loyaltyRepository.addMovement(loyalty.customer.id, {
+          type: 'earn',
+          points: loyalty.earned,
+          reference,
+          saleId: sale.id,
+          expiresAt: loyalty.expiresAt
+        });
+      }
+    } catch (error) {
+      console.error(`LoyaltyService: could not record points of ${reference} for ${loyalty.customer.documentNumber}:`, error);
+    }
+  }
+
+  /**
+   * Takes back the points earned on the returned part of a sale, in proportion to the refund.
+   * Points the customer has already spent cannot be taken back, so the balance never goes below 0.
+   */
+  async reverseForReturn(sale: Sale, refundAmount: number, reference: string): Promise<void> {
+    const earned = sale.loyaltyPointsEarned || 0;
+    const document = normalizeDocumentNumber(sale.clientDni);
+    if (earned <= 0 || !document || !(sale.total > 0) || refundAmount <= 0) return;
+
+    try {
+      const customer = await this.customerRepository.getByDocument(document);
+      if (!customer) return;
+      const movements = await this.getMovements(customer);
+      const reversed = movements
+        .filter(m => m.type === 'reverse' && m.saleId === sale.id)
+        .reduce((sum, m) => sum - m.points, 0);
+      const balance = movements.length ? movements[movements.length - 1].balanceAfter : customer.loyaltyPoints ?? 0;
+      const points = Math.min(Math.round(earned * Math.min(refundAmount / sale.total, 1)), earned - reversed, balance);
+      if (points <= 0) return;
+
+      await this.loyaltyRepository.addMovement(customer.id, {
+        type: 'reverse',
+        points: -points,
+        reference,
+        saleId: sale.id,
+        expiresAt: null
+      });
+    } catch (error) {
+      console.error(`LoyaltyService: could not reverse points of ${reference}:`, error);
+    }
+  }
+
+  /**
+   * Gives back the points the customer redeemed on a sale that was voided. They come back
+   * without an expiry date, since the lot they were taken from may have lapsed meanwhile.
+   */
+  async restoreRedeemed(sale: Sale, reference: string): Promise<void> {
+    const redeemed = sale.loyaltyPointsRedeemed || 0;
+    const document = normalizeDocumentNumber(sale.clientDni);
+    if (redeemed <= 0 || !document) return;
+
+    try {
+      const customer = await this.customerRepository.getByDocument(document);
+      if (!customer) throw new Error('customer not found');
+      const movements = await this.getMovements(customer);
+      if (movements.some(m => m.type === 'restore' && m.saleId === sale.id)) return;
+
+      await this.loyaltyRepository.addMovement(customer.id, {
+        type: 'restore',
+        points: redeemed,
+        reference,
+        saleId: sale.id,
+        expiresAt: null
+      });
+    } catch (error) {
+      console.error(`LoyaltyService: could not restore points redeemed in ${reference}:`, error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import type { ParkedCart, CartSnapshot } from '../entities/ParkedCart';
+import type { ParkedCartRepository } from '../repositories/ParkedCartRepository';
+
+// Enough for a busy counter; past this old carts are usually forgotten
+export const MAX_PARKED_CARTS = 10;
+
+export const getCartUnits = (cart: CartSnapshot): number =>
+  cart.items.reduce((sum, item) => sum + item.quantity, 0);
+
+const createCartId = (): string => `cart-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export class ParkedCartService {
+  constructor(private parkedCartRepository: ParkedCartRepository) {}
+
+  async getParkedCarts(): Promise<ParkedCart[]> {
+    const carts = await this.parkedCartRepository.getAll();
+    return carts.sort((a, b) => a.parkedAt.localeCompare(b.parkedAt));
+  }
+
+  /**
+   * Puts the cart on hold. Without a label it is named after the customer, or the time.
+   */
+  async parkCart(cart: CartSnapshot, label: string): Promise<ParkedCart> {
+    if (!cart.items.length) throw new Error('El carrito está vacío');
+    const carts = await this.parkedCartRepository.getAll();
+    if (carts.length >= MAX_PARKED_CARTS) {
+      throw new Error(`Ya hay ${MAX_PARKED_CARTS} carritos en espera. Retome o descarte alguno.`);
+    }
+
+    const now = new Date();
+    const parked: ParkedCart = {
+      id: createCartId(),
+      label: label.trim() || cart.client.name.trim() || `Carrito de las ${now.toLocaleTimeString('es-PE', { hour: '2-digit', minute: '2-digit' })}`,
+      parkedAt: now.toISOString(),
+      cart
+    };
+    await this.parkedCartRepository.save(parked);
+    return parked;
+  }
+
+  // Takes the cart off hold: it becomes the cart being rung up
+  async resumeCart(cart: ParkedCart): Promise<CartSnapshot> {
+    await this.parkedCartRepository.delete(cart.id);
+    return cart.cart;
+  }
+
+  async discardCart(cart: ParkedCart): Promise<void> {
+    await this.parkedCartRepository.delete(cart.id);
+  }
+
+  async getDraft(): Promise<CartSnapshot | null> {
+    const draft = await this.parkedCartRepository.getDraft();
+    return draft && draft.items.length ? draft : null;
+  }
+
+  // An empty cart clears the draft, so a finished sale is not recovered later
+  async saveDraft(cart: CartSnapshot): Promise<void> {
+    await this.parkedCartRepository.saveDraft(cart.items.length ? cart : null);
+  }
+}
@@ -0,0 +1,112 @@
+import type { PaymentMethod, Sale, SalePayment } from '../entities/Sale';
+import { round2 } from '../../utils/money';
+
+/**
+ * A payment line as typed by the cashier in the tender panel.
+ * A blank cash amount means "exact change" and covers whatever is pending.
+ */
+export interface TenderLine {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
+}
+
+export interface TenderSummary {
+  total: number;
+  tendered: number;
+  cashTendered: number;
+  nonCashTendered: number;
+  pending: number;
+  change: number;
+  payments: SalePayment[];
+}
+
+const parseAmount = (amount: string): number | null => {
+  if (amount === undefined || amount === null || amount.toString().trim() === '') return null;
+  const parsed = parseFloat(amount.toString());
+  return isNaN(parsed) ? null : parsed;
+};
+
+export const summarizeTender = (lines: TenderLine[], total: number): TenderSummary => {
+  const nonCashTendered = round2(lines
+    .filter(line => line.method !== 'cash')
+    .reduce((sum, line) => sum + (parseAmount(line.amount) || 0), 0));
+
+  const typedCash = lines
+    .filter(line => line.method === 'cash')
+    .reduce((sum, line) => sum + (parseAmount(line.amount) || 0), 0);
+  const hasExactCashLine = lines.some(line => line.method === 'cash' && parseAmount(line.amount) === null);
+
+  // An empty cash line pays whatever the other lines leave pending
+  const remainingForCash = Math.max(0, total - nonCashTendered - typedCash);
+  const cashTendered = round2(typedCash + (hasExactCashLine ? remainingForCash : 0));
+
+  const tendered = round2(nonCashTendered + cashTendered);
+  const pending = round2(Math.max(0, total - tendered));
+  const change = round2(Math.max(0, Math.min(cashTendered, tendered - total)));
+  const cashApplied = round2(cashTendered - change);
+
+  // Payments are stored with the amount applied to the sale, so cash never includes change
+  const payments: SalePayment[] = [];
+  if (cashApplied > 0) {
+    payments.push({ method: 'cash', amount: cashApplied, reference: null });
+  }
+  lines
+    .filter(line => line.method !== 'cash' && (parseAmount(line.amount) || 0) > 0)
+    .forEach(line => payments.push({
+      method: line.method,
+      amount: round2(parseAmount(line.amount) || 0),
+      reference: line.reference.trim() || null
+    }));
+
+  return { total: round2(total), tendered, cashTendered, nonCashTendered, pending, change, payments };
+};
+
+export const validateTender = (lines: TenderLine[], total: number): string | null => {
+  if (lines.some(line => {
+    const amount = parseAmount(line.amount);
+    return amount !== null && amount < 0;
+  })) {
+    return 'Los montos de pago no pueden ser negativos';
+  }
+
+  const summary = summarizeTender(lines, total);
+
+  if (summary.nonCashTendered - total > 0.005) {
+    return 'Los pagos que no son en efectivo no pueden exceder el total de la venta';
+  }
+  if (summary.pending > 0.005) {
+    return `Falta cobrar S/ ${summary.pending.toFixed(2)}`;
+  }
+  return null;
+};
+
+export const getPaymentsTotalByMethod = (payments: SalePayment[]): Partial<Record<PaymentMethod, number>> => {
+  return payments.reduce<Partial<Record<PaymentMethod, number>>>((acc, payment) => {
+    acc[payment.method] = round2((acc[payment.method] || 0) + payment.amount);
+    return acc;
+  }, {});
+};
+
+// Sales registered before payment methods existed were always paid in cash
+export const getSalePayments = (sale: Sale): SalePayment[] =>
+  sale.payments?.length ? sale.payments : [{ method: 'cash', amount: sale.total, reference: null }];
+
+/**
+ * How much of a sale's refunds went back through each of its payments, in proportion to what each one paid
+ */
+export const getRefundShares = (payments: SalePayment[], refunded: number): SalePayment[] => {
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const ratio = paid > 0 ? Math.min(Math.max(refunded, 0), paid) / paid : 0;
+  return payments.map(payment => ({ ...payment, amount: round2(payment.amount * ratio) }));
+};
+
+/**
+ * What a new refund gives back through each payment, on top of the refunds already made.
+ * Worked out on the running total so rounding never drifts from one return to the next.
+ */
+export const getRefundBreakdown = (payments: SalePayment[], alreadyRefunded: number, amount: number): SalePayment[] => {
+  const before = getRefundShares(payments, alreadyRefunded);
+  return getRefundShares(payments, alreadyRefunded + amount)
+    .map((share, i) => ({ ...share, amount: round2(share.amount - before[i].amount) }));
+};
@@ -0,0 +1,155 @@
+import type { Product } from '../entities/Product';
+import type {
+  ProductStyle,
+  CreateProductStyleRequest,
+  CreateVariantRequest,
+  VariantMatrixCell
+} from '../entities/ProductStyle';
+import type { ProductStyleRepository } from '../repositories/ProductStyleRepository';
+import type { ProductRepository } from '../repositories/ProductRepository';
+
+export const DEFAULT_SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+
+export interface VariantAttributes {
+  size: string;
+  color: string;
+}
+
+/**
+ * Size and color of a product. Products created before variants existed
+ * stored both in the size field as "M - Azul", so that format is still read.
+ */
+export const getVariantAttributes = (product: Pick<Product, 'size' | 'color'>): VariantAttributes => {
+  if (product.color && product.color.trim()) {
+    return { size: (product.size || '').trim(), color: product.color.trim() };
+  }
+
+  const combined = (product.size || '').trim();
+  const parts = combined.split(' - ');
+  if (parts.length === 2) {
+    return { size: parts[0].trim(), color: parts[1].trim() };
+  }
+  return { size: combined, color: '' };
+};
+
+// e.g. "M / Azul"
+export const getVariantLabel = (product: Pick<Product, 'size' | 'color'>): string => {
+  const { size, color } = getVariantAttributes(product);
+  return [size, color].filter(Boolean).join(' / ');
+};
+
+// e.g. "Polo Básico (M / Azul)", used as the sale line name
+export const getProductDisplayName = (product: Pick<Product, 'name' | 'size' | 'color'>): string => {
+  const label = getVariantLabel(product);
+  return label ? `${product.name} (${label})` : product.name;
+};
+
+const skuPart = (value: string, length?: number): string => {
+  const clean = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]/g, '')
+    .toUpperCase();
+  return length ? clean.slice(0, length) : clean;
+};
+
+export class ProductStyleService {
+  constructor(
+    private productStyleRepository: ProductStyleRepository,
+    private productRepository: ProductRepository
+  ) {}
+
+  async getAllStyles(): Promise<ProductStyle[]> {
+    return await this.productStyleRepository.getAll();
+  }
+
+  generateSku(prefix: string, size: string, color: string): string {
+    return [skuPart(prefix), skuPart(size), skuPart(color, 3)].filter(Boolean).join('-');
+  }
+
+  /**
+   * Builds the size × color grid, keeping whatever the user already typed in cells that still exist
+   */
+  buildMatrix(skuPrefix: string, sizes: string[], colors: string[], previous: VariantMatrixCell[] = []): VariantMatrixCell[] {
+    const colorList = colors.length ? colors : [''];
+    const cells: VariantMatrixCell[] = [];
+
+    for (const size of sizes) {
+      for (const color of colorList) {
+        const existing = previous.find(cell => cell.size === size && cell.color === color);
+        cells.push(existing || {
+          size,
+          color,
+          productId: this.generateSku(skuPrefix, size, color),
+          quantity: '0',
+          price: '',
+          enabled: true
+        });
+      }
+    }
+
+    return cells;
+  }
+
+  async createStyleWithVariants(
+    request: CreateProductStyleRequest,
+    cells: VariantMatrixCell[]
+  ): Promise<{ style: ProductStyle; variants: Product[] }> {
+    if (!request.name.trim()) throw new Error('El nombre del estilo es obligatorio');
+    if (!(request.basePrice > 0)) throw new Error('El precio base debe ser mayor a 0');
+
+    const enabled = cells.filter(cell => cell.enabled);
+    if (!enabled.length) throw new Error('Seleccione al menos una variante');
+
+    const variants: CreateVariantRequest[] = enabled.map(cell => {
+      const label = [cell.size, cell.color].filter(Boolean).join(' / ');
+      const productId = cell.productId.trim();
+      if (!productId) throw new Error(`Ingrese el SKU de la variante ${label}`);
+
+      const quantity = parseInt(cell.quantity || '0');
+      if (isNaN(quantity) || quantity < 0) throw new Error(`Stock inválido en la variante ${label}`);
+
+      const price = cell.price.trim() ? parseFloat(cell.price) : null;
+      if (price !== null && (isNaN(price) || price <= 0)) throw new Error(`Precio inválido en la variante ${label}`);
+
+      return {
+        productId,
+        size: cell.size || null,
+        color: cell.color || null,
+        quantity,
+        price
+      };
+    });
+
+    const skus = variants.map(v => v.productId.toUpperCase());
+    const duplicated = skus.find((sku, idx) => skus.indexOf(sku) !== idx);
+    if (duplicated) throw new Error(`El SKU ${duplicated} está repetido`);
+
+    const existingProducts = await this.productRepository.getAll();
+    const taken = existingProducts.find(p => skus.includes(p.productId.toUpperCase()));
+    if (taken) throw new Error(`Ya existe un producto con el SKU ${taken.productId}`);
+
+    const style = await this.productStyleRepository.create({ ...request, name: request.name.trim() });
+    try {
+      const created = await this.productStyleRepository.createVariants(style.styleId, variants);
+      return { style, variants: created };
+    } catch (error) {
+      // A style without products would be left behind, so undo it before reporting the failure
+      try {
+        await this.productStyleRepository.delete(style.styleId);
+      } catch (cleanupError) {
+        console.error(`ProductStyleService: could not remove style ${style.styleId} after its variants failed:`, cleanupError);
+      }
+      throw error;
+    }
+  }
+
+  groupVariants(products: Product[]): Record<string, Product[]> {
+    return products.reduce<Record<string, Product[]>>((groups, product) => {
+      if (product.styleId) {
+        (groups[product.styleId] = groups[product.styleId] || []).push(product);
+      }
+      return groups;
+    }, {});
+  }
+}
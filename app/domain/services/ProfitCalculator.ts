@@ -0,0 +1,72 @@
+import type { Product } from '../entities/Product';
+import type { Sale, SaleItem } from '../entities/Sale';
+import { round2 } from '../../utils/money';
+
+/**
+ * Revenue, cost and gross profit of a group of sale lines (a day, a category, a product)
+ */
+export interface ProfitLine {
+  key: string;
+  label: string;
+  units: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+  margin: number | null; // % of revenue
+}
+
+/**
+ * New average cost after receiving goods: existing units keep their cost, new ones bring theirs
+ */
+export const calculateWeightedAverageCost = (
+  currentQuantity: number,
+  currentCost: number | null | undefined,
+  receivedQuantity: number,
+  unitCost: number
+): number => {
+  if (currentCost == null || currentQuantity <= 0) return round2(unitCost);
+  const totalQuantity = currentQuantity + receivedQuantity;
+  if (totalQuantity <= 0) return round2(unitCost);
+  return round2((currentQuantity * currentCost + receivedQuantity * unitCost) / totalQuantity);
+};
+
+export const getMarginPercent = (price: number, cost: number | null | undefined): number | null => {
+  if (cost == null || !price) return null;
+  return ((price - cost) / price) * 100;
+};
+
+/**
+ * Unit cost of a sold item: the snapshot taken at sale time, or the product's current
+ * cost for sales made before costs were recorded
+ */
+export const getItemUnitCost = (item: SaleItem, product?: Product): number | null =>
+  item.unitCost ?? product?.cost ?? null;
+
+export const createProfitLine = (key: string, label: string): ProfitLine => ({
+  key,
+  label,
+  units: 0,
+  revenue: 0,
+  cost: 0,
+  profit: 0,
+  margin: null
+});
+
+export const addToProfitLine = (line: ProfitLine, units: number, revenue: number, cost: number): void => {
+  line.units += units;
+  line.revenue = round2(line.revenue + revenue);
+  line.cost = round2(line.cost + cost);
+  line.profit = round2(line.revenue - line.cost);
+  line.margin = line.revenue ? (line.profit / line.revenue) * 100 : null;
+};
+
+/**
+ * Gross profit of a set of sales, e.g. today's. Items with no known cost are left out.
+ */
+export const calculateSalesProfit = (sales: Sale[], products: Product[]): number => {
+  const productMap = new Map(products.map(p => [p.productId, p]));
+  return round2(sales.reduce((total, sale) => total + sale.items.reduce((sum, item) => {
+    const unitCost = getItemUnitCost(item, productMap.get(item.productId));
+    return unitCost == null ? sum : sum + item.subtotal - unitCost * item.quantity;
+  }, 0), 0));
+};
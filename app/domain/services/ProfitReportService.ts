@@ -0,0 +1,107 @@
+import type { SaleRepository } from '../repositories/SaleRepository';
+import type { ProductRepository } from '../repositories/ProductRepository';
+import type { CategoryRepository } from '../repositories/CategoryRepository';
+import type { SaleReturnRepository } from '../repositories/SaleReturnRepository';
+import { addToProfitLine, createProfitLine, getItemUnitCost } from './ProfitCalculator';
+import type { ProfitLine } from './ProfitCalculator';
+
+export interface ProfitReport {
+  totals: ProfitLine;
+  byDay: ProfitLine[];
+  byCategory: ProfitLine[];
+  byProduct: ProfitLine[];
+  // Revenue of items whose cost is unknown; left out of the profit figures
+  uncostedRevenue: number;
+}
+
+const toDayKey = (date: string): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const getLine = (lines: Map<string, ProfitLine>, key: string, label: string): ProfitLine => {
+  if (!lines.has(key)) lines.set(key, createProfitLine(key, label));
+  return lines.get(key)!;
+};
+
+export class ProfitReportService {
+  constructor(
+    private saleRepository: SaleRepository,
+    private productRepository: ProductRepository,
+    private categoryRepository: CategoryRepository,
+    private saleReturnRepository: SaleReturnRepository
+  ) {}
+
+  /**
+   * Gross profit between two dates (YYYY-MM-DD, inclusive), net of returned units
+   */
+  async getReport(startDate: string, endDate: string): Promise<ProfitReport> {
+    const [sales, products, categories, returns] = await Promise.all([
+      this.saleRepository.getAll(),
+      this.productRepository.getAll(),
+      this.categoryRepository.getAll(),
+      this.saleReturnRepository.getAll()
+    ]);
+
+    const productMap = new Map(products.map(p => [p.productId, p]));
+    const categoryNames = new Map(categories.map(c => [c.categoryNumber, c.name]));
+
+    // Returned units per sale and product
+    const returned = new Map<string, number>();
+    returns.forEach(saleReturn => saleReturn.items.forEach(item => {
+      const key = `${saleReturn.saleId}:${item.productId}`;
+      returned.set(key, (returned.get(key) || 0) + item.quantity);
+    }));
+
+    const totals = createProfitLine('total', 'Total');
+    const byDay = new Map<string, ProfitLine>();
+    const byCategory = new Map<string, ProfitLine>();
+    const byProduct = new Map<string, ProfitLine>();
+    let uncostedRevenue = 0;
+
+    sales
+      .filter(sale => {
+        if (sale.voided) return false;
+        const day = toDayKey(sale.date);
+        return day >= startDate && day <= endDate;
+      })
+      .forEach(sale => {
+        const day = toDayKey(sale.date);
+        sale.items.forEach(item => {
+          const units = item.quantity - Math.min(item.quantity, returned.get(`${sale.id}:${item.productId}`) || 0);
+          if (units <= 0) return;
+
+          const product = productMap.get(item.productId);
+          const revenue = (item.subtotal / item.quantity) * units;
+          const unitCost = getItemUnitCost(item, product);
+          if (unitCost == null) {
+            uncostedRevenue += revenue;
+            return;
+          }
+          const cost = unitCost * units;
+
+          const categoryNumber = product?.categoryNumber ?? null;
+          const categoryKey = categoryNumber != null ? String(categoryNumber) : 'none';
+          const categoryLabel = categoryNumber != null
+            ? `${categoryNumber} - ${categoryNames.get(categoryNumber) || 'Categoría'}`
+            : 'Sin categoría';
+
+          [
+            totals,
+            getLine(byDay, day, day),
+            getLine(byCategory, categoryKey, categoryLabel),
+            getLine(byProduct, item.productId, item.name)
+          ].forEach(line => addToProfitLine(line, units, revenue, cost));
+        });
+      });
+
+    const byProfit = (a: ProfitLine, b: ProfitLine) => b.profit - a.profit;
+    return {
+      totals,
+      byDay: Array.from(byDay.values()).sort((a, b) => a.key.localeCompare(b.key)),
+      byCategory: Array.from(byCategory.values()).sort(byProfit),
+      byProduct: Array.from(byProduct.values()).sort(byProfit),
+      uncostedRevenue: Math.round(uncostedRevenue * 100) / 100
+    };
+  }
+}
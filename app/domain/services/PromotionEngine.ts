@@ -0,0 +1,137 @@
+import type { Promotion } from '../entities/Promotion';
+import { toLocalDateKey } from '../../utils/dateUtils';
+import { round2 } from '../../utils/money';
+
+/**
+ * What the evaluator needs to know about a cart line
+ */
+export interface PromotionCartLine {
+  productId: string;
+  styleId?: string | null;
+  categoryNumber: number | null;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  promotionName: string;
+  discount: number;
+}
+
+interface PromotionOutcome {
+  discounts: number[];
+  // Lines the promotion discounted; they cannot take another promotion
+  used: Set<number>;
+  total: number;
+}
+
+export const isPromotionActive = (promotion: Promotion, date: Date = new Date()): boolean => {
+  if (!promotion.active) return false;
+  // Local calendar day, so a promotion ending "today" still applies until midnight in the store
+  const today = toLocalDateKey(date);
+  if (promotion.startDate && today < promotion.startDate) return false;
+  if (promotion.endDate && today > promotion.endDate) return false;
+  return true;
+};
+
+export const appliesToLine = (promotion: Promotion, line: PromotionCartLine): boolean => {
+  if (!promotion.categoryNumbers.length && !promotion.productIds.length) return true;
+  if (line.categoryNumber != null && promotion.categoryNumbers.includes(line.categoryNumber)) return true;
+  return promotion.productIds.includes(line.productId) || (!!line.styleId && promotion.productIds.includes(line.styleId));
+};
+
+/**
+ * Units of the eligible lines, most expensive first, split into groups of `size`.
+ * Leftover units that do not complete a group are left out.
+ */
+const groupUnits = (lines: PromotionCartLine[], indexes: number[], size: number): number[][] => {
+  const units = indexes
+    .flatMap(i => Array<number>(lines[i].quantity).fill(i))
+    .sort((a, b) => lines[b].unitPrice - lines[a].unitPrice);
+  const groups: number[][] = [];
+  for (let start = 0; start + size <= units.length; start += size) {
+    groups.push(units.slice(start, start + size));
+  }
+  return groups;
+};
+
+const evaluatePromotion = (promotion: Promotion, lines: PromotionCartLine[], indexes: number[]): PromotionOutcome => {
+  const discounts = lines.map(() => 0);
+  const used = new Set<number>();
+
+  if (promotion.type === 'category_percent') {
+    const percent = Math.min(promotion.percentOff || 0, 100);
+    indexes.forEach(i => {
+      discounts[i] = (lines[i].unitPrice * lines[i].quantity * percent) / 100;
+      if (discounts[i] > 0) used.add(i);
+    });
+  } else if (promotion.type === 'buy_x_get_y') {
+    // In each group the cheapest `freeQuantity` units are free; only their lines are claimed,
+    // so a line that only paid for the group is left for other promotions
+    const buy = promotion.buyQuantity || 0;
+    const free = promotion.freeQuantity || 0;
+    if (buy > 0 && free > 0) {
+      groupUnits(lines, indexes, buy + free).forEach(group => {
+        group.slice(buy).forEach(i => {
+          used.add(i);
+          discounts[i] += lines[i].unitPrice;
+        });
+      });
+    }
+  } else if (promotion.type === 'bundle_price') {
+    // Each full group is charged the bundle price, spread over its units by their price
+    const size = promotion.bundleQuantity || 0;
+    const price = promotion.bundlePrice ?? 0;
+    if (size > 0) {
+      groupUnits(lines, indexes, size).forEach(group => {
+        const groupTotal = group.reduce((sum, i) => sum + lines[i].unitPrice, 0);
+        if (groupTotal <= price) return;
+        group.forEach(i => {
+          used.add(i);
+          discounts[i] += lines[i].unitPrice * (1 - price / groupTotal);
+        });
+      });
+    }
+  }
+
+  const rounded = discounts.map((discount, i) => round2(Math.min(discount, lines[i].unitPrice * lines[i].quantity)));
+  return { discounts: rounded, used, total: round2(rounded.reduce((sum, discount) => sum + discount, 0)) };
+};
+
+/**
+ * Applies the promotions that save the customer the most. The best promotion over the
+ * whole cart is applied first and the lines it used are taken out, then the next best
+ * is looked for among the remaining lines; promotions never stack on the same line.
+ */
+export const evaluatePromotions = (
+  lines: PromotionCartLine[],
+  promotions: Promotion[],
+  date: Date = new Date()
+): Array<AppliedPromotion | null> => {
+  const result: Array<AppliedPromotion | null> = lines.map(() => null);
+  const cartTotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const claimed = new Set<number>();
+  let candidates = promotions.filter(p => isPromotionActive(p, date) && cartTotal >= (p.minTicket || 0));
+
+  while (candidates.length) {
+    let best: { promotion: Promotion; outcome: PromotionOutcome } | null = null;
+    for (const promotion of candidates) {
+      const indexes = lines
+        .map((line, i) => i)
+        .filter(i => !claimed.has(i) && lines[i].quantity > 0 && appliesToLine(promotion, lines[i]));
+      const outcome = evaluatePromotion(promotion, lines, indexes);
+      if (outcome.total > 0 && (!best || outcome.total > best.outcome.total)) best = { promotion, outcome };
+    }
+    if (!best) break;
+
+    const { promotion, outcome } = best;
+    outcome.used.forEach(i => {
+      claimed.add(i);
+      result[i] = { promotionId: promotion.id, promotionName: promotion.name, discount: outcome.discounts[i] };
+    });
+    candidates = candidates.filter(p => p.id !== promotion.id);
+  }
+
+  return result;
+};
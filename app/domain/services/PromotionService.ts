@@ -0,0 +1,114 @@
+import type { Promotion, PromotionType, CreatePromotionRequest } from '../entities/Promotion';
+import type { Sale } from '../entities/Sale';
+import type { PromotionRepository } from '../repositories/PromotionRepository';
+import { isPromotionActive } from './PromotionEngine';
+import { round2 } from '../../utils/money';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: 'Lleva X, paga Y (2x1, 3x2)',
+  category_percent: '% de descuento',
+  bundle_price: 'Pack a precio fijo'
+};
+
+/**
+ * How much each promotion was used in a set of sales
+ */
+export interface PromotionUsage {
+  promotionId: string;
+  promotionName: string;
+  sales: number;
+  units: number;
+  discount: number;
+}
+
+// Short rule text for lists and receipts: "2x1", "20% dscto.", "3 x S/ 50.00"
+export const describePromotion = (promotion: Promotion): string => {
+  if (promotion.type === 'buy_x_get_y') {
+    const buy = promotion.buyQuantity || 0;
+    return `${buy + (promotion.freeQuantity || 0)}x${buy}`;
+  }
+  if (promotion.type === 'category_percent') return `${promotion.percentOff || 0}% dscto.`;
+  return `${promotion.bundleQuantity || 0} x S/ ${(promotion.bundlePrice ?? 0).toFixed(2)}`;
+};
+
+export const validatePromotion = (request: CreatePromotionRequest): string | null => {
+  if (!request.name.trim()) return 'El nombre de la promoción es obligatorio';
+  if (request.startDate && request.endDate && request.endDate < request.startDate) {
+    return 'La fecha de fin no puede ser anterior a la de inicio';
+  }
+  if (request.minTicket != null && request.minTicket < 0) return 'El ticket mínimo no puede ser negativo';
+
+  if (request.type === 'buy_x_get_y') {
+    if (!request.buyQuantity || request.buyQuantity < 1 || !request.freeQuantity || request.freeQuantity < 1) {
+      return 'Indique cuántas prendas se pagan y cuántas se regalan';
+    }
+  } else if (request.type === 'category_percent') {
+    if (!request.percentOff || request.percentOff <= 0 || request.percentOff > 100) {
+      return 'El porcentaje debe estar entre 0 y 100';
+    }
+    if (!request.categoryNumbers.length && !request.productIds.length) {
+      return 'Elija al menos una categoría o producto';
+    }
+  } else if (request.type === 'bundle_price') {
+    if (!request.bundleQuantity || request.bundleQuantity < 2) return 'El pack debe tener al menos 2 prendas';
+    if (request.bundlePrice == null || request.bundlePrice < 0) return 'Indique el precio del pack';
+  }
+  return null;
+};
+
+export const summarizePromotionUsage = (sales: Sale[]): PromotionUsage[] => {
+  const usage = new Map<string, PromotionUsage>();
+  sales.forEach(sale => {
+    const counted = new Set<string>();
+    sale.items.forEach(item => {
+      if (!item.promotionId) return;
+      const entry = usage.get(item.promotionId) || {
+        promotionId: item.promotionId,
+        promotionName: item.promotionName || item.promotionId,
+        sales: 0,
+        units: 0,
+        discount: 0
+      };
+      if (!counted.has(item.promotionId)) {
+        entry.sales++;
+        counted.add(item.promotionId);
+      }
+      entry.units += item.quantity;
+      entry.discount = round2(entry.discount + (item.promotionDiscount || 0));
+      usage.set(item.promotionId, entry);
+    });
+  });
+  return [...usage.values()].sort((a, b) => b.discount - a.discount);
+};
+
+export class PromotionService {
+  constructor(private promotionRepository: PromotionRepository) {}
+
+  async getAllPromotions(): Promise<Promotion[]> {
+    const promotions = await this.promotionRepository.getAll();
+    return promotions.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getActivePromotions(date: Date = new Date()): Promise<Promotion[]> {
+    const promotions = await this.promotionRepository.getAll();
+    return promotions.filter(promotion => isPromotionActive(promotion, date));
+  }
+
+  async savePromotion(request: CreatePromotionRequest, promotionId?: string): Promise<Promotion> {
+    const data: CreatePromotionRequest = { ...request, name: request.name.trim() };
+    const error = validatePromotion(data);
+    if (error) throw new Error(error);
+    return promotionId
+      ? this.promotionRepository.update(promotionId, data)
+      : this.promotionRepository.create(data);
+  }
+
+  async setActive(promotion: Promotion, active: boolean): Promise<Promotion> {
+    const { id, createdAt, ...data } = promotion;
+    return this.promotionRepository.update(id, { ...data, active });
+  }
+
+  async deletePromotion(promotionId: string): Promise<void> {
+    return this.promotionRepository.delete(promotionId);
+  }
+}
@@ -0,0 +1,167 @@
+import type { Supplier, CreateSupplierRequest } from '../entities/Supplier';
+import type {
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  CreatePurchaseOrderRequest,
+  GoodsReceiptItem
+} from '../entities/PurchaseOrder';
+import type { SupplierRepository } from '../repositories/SupplierRepository';
+import type { PurchaseOrderRepository } from '../repositories/PurchaseOrderRepository';
+import type { ProductRepository } from '../repositories/ProductRepository';
+import type { StockMovementService } from './StockMovementService';
+import { toUpdateProductRequest } from './InventoryService';
+import { calculateWeightedAverageCost } from './ProfitCalculator';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Borrador',
+  ordered: 'Pedida',
+  partial: 'Recibida parcial',
+  received: 'Recibida',
+  cancelled: 'Anulada'
+};
+
+export const formatPurchaseOrderNumber = (order: PurchaseOrder): string =>
+  `OC-${String(order.number).padStart(6, '0')}`;
+
+export const getPendingQuantity = (item: PurchaseOrderItem): number =>
+  Math.max(0, item.orderedQuantity - item.receivedQuantity);
+
+export const getOrderTotal = (items: Array<{ orderedQuantity: number; unitCost: number }>): number =>
+  items.reduce((sum, item) => sum + item.orderedQuantity * item.unitCost, 0);
+
+const cleanSupplier = (request: CreateSupplierRequest): CreateSupplierRequest => ({
+  name: request.name.trim(),
+  ruc: request.ruc?.trim() || null,
+  contactName: request.contactName?.trim() || null,
+  phone: request.phone?.trim() || null,
+  address: request.address?.trim() || null,
+  notes: request.notes?.trim() || null
+});
+
+export class PurchaseOrderService {
+  constructor(
+    private purchaseOrderRepository: PurchaseOrderRepository,
+    private supplierRepository: SupplierRepository,
+    private productRepository: ProductRepository,
+    private stockMovementService: StockMovementService
+  ) {}
+
+  // ===== Suppliers =====
+
+  async getAllSuppliers(): Promise<Supplier[]> {
+    const suppliers = await this.supplierRepository.getAll();
+    return suppliers.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveSupplier(request: CreateSupplierRequest, supplierId?: string): Promise<Supplier> {
+    const data = cleanSupplier(request);
+    if (!data.name) throw new Error('El nombre del proveedor es obligatorio');
+    if (data.ruc && !/^\d{11}$/.test(data.ruc)) throw new Error('El RUC debe tener 11 dígitos');
+
+    return supplierId
+      ? await this.supplierRepository.update(supplierId, data)
+      : await this.supplierRepository.create(data);
+  }
+
+  async deleteSupplier(supplier: Supplier): Promise<void> {
+    const orders = await this.purchaseOrderRepository.getAll();
+    const open = orders.some(o => o.supplierId === supplier.id && ['draft', 'ordered', 'partial'].includes(o.status));
+    if (open) throw new Error(`${supplier.name} tiene órdenes pendientes. Recíbalas o anúlelas antes de eliminarlo.`);
+    return await this.supplierRepository.delete(supplier.id);
+  }
+
+  // ===== Purchase orders =====
+
+  async getAllOrders(): Promise<PurchaseOrder[]> {
+    const orders = await this.purchaseOrderRepository.getAll();
+    return orders.sort((a, b) => b.number - a.number);
+  }
+
+  async createOrder(request: CreatePurchaseOrderRequest): Promise<PurchaseOrder> {
+    if (!request.supplierId) throw new Error('Seleccione un proveedor');
+    if (!request.items.length) throw new Error('Agregue al menos un producto a la orden');
+
+    for (const item of request.items) {
+      if (!Number.isInteger(item.orderedQuantity) || item.orderedQuantity <= 0) {
+        throw new Error(`Ingrese una cantidad válida para ${item.name}`);
+      }
+      if (isNaN(item.unitCost) || item.unitCost < 0) {
+        throw new Error(`Ingrese un costo válido para ${item.name}`);
+      }
+    }
+
+    return await this.purchaseOrderRepository.create({
+      ...request,
+      notes: request.notes?.trim() || null
+    });
+  }
+
+  async markAsOrdered(order: PurchaseOrder): Promise<PurchaseOrder> {
+    if (order.status !== 'draft') throw new Error('Solo se pueden enviar órdenes en borrador');
+    return await this.purchaseOrderRepository.updateStatus(order.id, 'ordered');
+  }
+
+  async cancelOrder(order: PurchaseOrder): Promise<PurchaseOrder> {
+    if (order.status === 'received' || order.status === 'cancelled') {
+      throw new Error('La orden ya está cerrada');
+    }
+    // A partially received order is closed as received: what arrived stays in stock
+    const status: PurchaseOrderStatus = order.status === 'partial' ? 'received' : 'cancelled';
+    return await this.purchaseOrderRepository.updateStatus(order.id, status);
+  }
+
+  /**
+   * Registers a full or partial delivery: stores the receipt, adds the units to stock
+   * with a 'purchase' movement and folds the paid cost into the product's average cost.
+   */
+  async receive(order: PurchaseOrder, items: GoodsReceiptItem[], notes: string | null = null): Promise<PurchaseOrder> {
+    if (order.status !== 'ordered' && order.status !== 'partial') {
+      throw new Error('Solo se pueden recibir órdenes pedidas o recibidas parcialmente');
+    }
+
+    const delivered = items.filter(item => item.quantity > 0);
+    if (!delivered.length) throw new Error('Ingrese la cantidad recibida de al menos un producto');
+
+    for (const item of delivered) {
+      const orderItem = order.items.find(i => i.productId === item.productId);
+      if (!orderItem) throw new Error(`El producto ${item.productId} no está en la orden`);
+      if (!Number.isInteger(item.quantity)) throw new Error(`Ingrese una cantidad entera para ${orderItem.name}`);
+      const pending = getPendingQuantity(orderItem);
+      if (item.quantity > pending) {
+        throw new Error(`No se pueden recibir ${item.quantity} unidades de ${orderItem.name}. Pendiente: ${pending}`);
+      }
+      if (isNaN(item.unitCost) || item.unitCost < 0) throw new Error(`Ingrese un costo válido para ${orderItem.name}`);
+    }
+
+    const complete = order.items.every(orderItem => {
+      const received = delivered.find(i => i.productId === orderItem.productId)?.quantity || 0;
+      return orderItem.receivedQuantity + received >= orderItem.orderedQuantity;
+    });
+
+    const updated = await this.purchaseOrderRepository.receive(order.id, {
+      items: delivered,
+      notes: notes?.trim() || null,
+      status: complete ? 'received' : 'partial'
+    });
+
+    const reference = `${formatPurchaseOrderNumber(order)} · ${order.supplierName}`;
+    for (const item of delivered) {
+      const product = await this.productRepository.getById(item.productId);
+      if (!product) {
+        console.warn(`PurchaseOrderService: product ${item.productId} no longer exists, skipping stock entry`);
+        continue;
+      }
+      await this.productRepository.update(
+        item.productId,
+        toUpdateProductRequest(product, {
+          quantity: product.quantity + item.quantity,
+          cost: calculateWeightedAverageCost(product.quantity, product.cost, item.quantity, item.unitCost)
+        })
+      );
+      await this.stockMovementService.record(item.productId, 'purchase', item.quantity, reference);
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,154 @@
+import type { Sale, SalePayment } from '../entities/Sale';
+import type {
+  AgingBucket,
+  CustomerReceivable,
+  ReceivablePayment,
+  CreateReceivablePaymentRequest,
+  SalePaymentStatus
+} from '../entities/Receivable';
+import type { ReceivableRepository } from '../repositories/ReceivableRepository';
+import type { CashSessionService } from './CashSessionService';
+import { COUNTER_PAYMENT_METHODS } from '../constants/PaymentMethods';
+import { getSaleDocumentNumber } from './DocumentSeriesService';
+import { round2 } from '../../utils/money';
+
+export const SALE_PAYMENT_STATUS_LABELS: Record<SalePaymentStatus, string> = {
+  paid: 'Pagada',
+  partial: 'Pago parcial',
+  credit: 'Al crédito'
+};
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: '0-30 días',
+  days31to60: '31-60 días',
+  over60: 'Más de 60 días'
+};
+
+// The cash session is filled in by the service
+export type ReceivablePaymentInput = Omit<CreateReceivablePaymentRequest, 'cashSessionId'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amount put on the customer's account by the credit payment lines of a sale
+export const getCreditAmount = (payments: SalePayment[]): number =>
+  round2(payments.filter(payment => payment.method === 'credit').reduce((sum, payment) => sum + payment.amount, 0));
+
+export const getSaleBalanceDue = (sale: Sale): number => Math.max(0, round2(sale.balanceDue ?? 0));
+
+/**
+ * Paid: nothing owed. Credit: the whole total is still owed. Partial: part of it was paid,
+ * at the counter or later.
+ */
+export const getSalePaymentStatus = (sale: Sale): SalePaymentStatus => {
+  const due = getSaleBalanceDue(sale);
+  if (due <= 0) return 'paid';
+  return due >= sale.total - 0.005 ? 'credit' : 'partial';
+};
+
+export const getDaysOutstanding = (sale: Sale, date: Date = new Date()): number =>
+  Math.max(0, Math.floor((date.getTime() - new Date(sale.date).getTime()) / DAY_MS));
+
+export const getAgingBucket = (sale: Sale, date: Date = new Date()): AgingBucket => {
+  const days = getDaysOutstanding(sale, date);
+  if (days <= 30) return 'current';
+  return days <= 60 ? 'days31to60' : 'over60';
+};
+
+/**
+ * Groups the open sales by customer with their balance split by age, largest debt first
+ */
+export const buildAgingReport = (sales: Sale[], date: Date = new Date()): CustomerReceivable[] => {
+  const byCustomer = new Map<string, CustomerReceivable>();
+  sales
+    .filter(sale => !sale.voided && getSaleBalanceDue(sale) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(sale => {
+      const key = sale.clientDni || '';
+      const entry = byCustomer.get(key) || {
+        clientDni: key,
+        clientName: sale.clientName || 'Sin nombre',
+        sales: [],
+        balance: 0,
+        buckets: { current: 0, days31to60: 0, over60: 0 },
+        oldestDate: sale.date
+      };
+      const due = getSaleBalanceDue(sale);
+      entry.sales.push(sale);
+      entry.balance = round2(entry.balance + due);
+      entry.buckets[getAgingBucket(sale, date)] = round2(entry.buckets[getAgingBucket(sale, date)] + due);
+      byCustomer.set(key, entry);
+    });
+  return Array.from(byCustomer.values()).sort((a, b) => b.balance - a.balance);
+};
+
+/**
+ * Splits a payment over the customer's open sales, oldest first
+ */
+export const allocatePayment = (sales: Sale[], amount: number): Array<{ sale: Sale; amount: number }> => {
+  let remaining = round2(amount);
+  const allocations: Array<{ sale: Sale; amount: number }> = [];
+  for (const sale of [...sales].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (remaining <= 0) break;
+    const applied = Math.min(remaining, getSaleBalanceDue(sale));
+    if (applied <= 0) continue;
+    allocations.push({ sale, amount: round2(applied) });
+    remaining = round2(remaining - applied);
+  }
+  return allocations;
+};
+
+export class ReceivableService {
+  constructor(
+    private receivableRepository: ReceivableRepository,
+    private cashSessionService: CashSessionService
+  ) {}
+
+  async getAgingReport(date: Date = new Date()): Promise<CustomerReceivable[]> {
+    return buildAgingReport(await this.receivableRepository.getOpenSales(), date);
+  }
+
+  async getPayments(sale: Sale): Promise<ReceivablePayment[]> {
+    const payments = await this.receivableRepository.getPayments(sale.id);
+    return payments.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Registers a payment against the customer's balance, settling the oldest sales first.
+   * Returns the sales that received part of the payment, updated.
+   */
+  async registerPayment(receivable: CustomerReceivable, payment: ReceivablePaymentInput): Promise<Sale[]> {
+    if (!COUNTER_PAYMENT_METHODS.includes(payment.method)) throw new Error('Medio de pago no admitido para cobranzas');
+    if (!(payment.amount > 0)) throw new Error('El monto debe ser mayor a 0');
+    if (payment.amount > receivable.balance + 0.005) {
+      throw new Error(`El pago supera la deuda de S/ ${receivable.balance.toFixed(2)}`);
+    }
+
+    const session = await this.cashSessionService.getCurrentSession();
+    if (!session) throw new Error('No hay un turno de caja abierto. Abra la caja antes de recibir pagos.');
+
+    const updated: Sale[] = [];
+    for (const allocation of allocatePayment(receivable.sales, payment.amount)) {
+      updated.push(await this.receivableRepository.addPayment(allocation.sale.id, {
+        ...payment,
+        amount: allocation.amount,
+        reference: payment.reference?.trim() || null,
+        cashSessionId: session.id
+      }));
+    }
+
+    // Cash collections go into the drawer count as a cash-in movement
+    if (payment.method === 'cash') {
+      const documents = updated.map(sale => getSaleDocumentNumber(sale) || sale.id).join(', ');
+      try {
+        await this.cashSessionService.registerMovement(session, {
+          type: 'in',
+          amount: payment.amount,
+          reason: `Cobranza a ${receivable.clientName} (${documents})`
+        });
+      } catch (error) {
+        console.error(`ReceivableService: could not record cash-in of S/ ${payment.amount} from ${receivable.clientDni}:`, error);
+      }
+    }
+    return updated;
+  }
+}
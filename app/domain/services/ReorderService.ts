@@ -0,0 +1,90 @@
+import type { Product } from '../entities/Product';
+import type { Category } from '../entities/Category';
+import type { ProductRepository } from '../repositories/ProductRepository';
+import type { CategoryRepository } from '../repositories/CategoryRepository';
+import { getProductDisplayName } from './ProductStyleService';
+
+// Used when neither the product nor its category define a reorder point
+export const DEFAULT_MIN_STOCK = 5;
+
+export interface StockLimits {
+  min: number;
+  max: number;
+  source: 'product' | 'category' | 'default';
+}
+
+export interface ReorderSuggestion {
+  product: Product;
+  limits: StockLimits;
+  suggestedQuantity: number; // Units needed to get back to the maximum
+}
+
+/**
+ * Product limits win over the category ones; without a maximum the target is twice the minimum
+ */
+export const getStockLimits = (product: Product, categories: Category[]): StockLimits => {
+  const category = categories.find(c => c.categoryNumber === product.categoryNumber);
+  const min = product.minStock ?? category?.minStock ?? DEFAULT_MIN_STOCK;
+  const max = product.maxStock ?? category?.maxStock ?? Math.max(min * 2, min + 1);
+  const source = product.minStock != null ? 'product' : category?.minStock != null ? 'category' : 'default';
+  return { min, max: Math.max(max, min), source };
+};
+
+export const validateStockLimits = (minStock: number | null, maxStock: number | null): string | null => {
+  const invalid = [minStock, maxStock].some(value => value !== null && (!Number.isInteger(value) || value < 0));
+  if (invalid) return 'El stock mínimo y máximo deben ser números enteros no negativos';
+  if (minStock !== null && maxStock !== null && maxStock < minStock) {
+    return 'El stock máximo no puede ser menor que el mínimo';
+  }
+  return null;
+};
+
+export const isLowStock = (product: Product, limits: StockLimits): boolean => product.quantity <= limits.min;
+
+export const getSuggestedQuantity = (product: Product, limits: StockLimits): number =>
+  Math.max(0, limits.max - product.quantity);
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildReorderCsv = (suggestions: ReorderSuggestion[]): string => {
+  const header = ['Código', 'Producto', 'Marca', 'Stock', 'Mínimo', 'Máximo', 'Sugerido', 'Costo unit.'];
+  const rows = suggestions.map(({ product, limits, suggestedQuantity }) => [
+    product.productId,
+    getProductDisplayName(product),
+    product.brand || '',
+    product.quantity,
+    limits.min,
+    limits.max,
+    suggestedQuantity,
+    product.cost != null ? product.cost.toFixed(2) : ''
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
+
+export class ReorderService {
+  constructor(
+    private productRepository: ProductRepository,
+    private categoryRepository: CategoryRepository
+  ) {}
+
+  /**
+   * Products at or below their reorder point, emptiest first
+   */
+  async getReorderSuggestions(): Promise<ReorderSuggestion[]> {
+    const [products, categories] = await Promise.all([
+      this.productRepository.getAll(),
+      this.categoryRepository.getAll()
+    ]);
+
+    return products
+      .map(product => {
+        const limits = getStockLimits(product, categories);
+        return { product, limits, suggestedQuantity: getSuggestedQuantity(product, limits) };
+      })
+      .filter(suggestion => isLowStock(suggestion.product, suggestion.limits))
+      .sort((a, b) => a.product.quantity - b.product.quantity);
+  }
+}
@@ -0,0 +1,127 @@
+import type { Sale, SaleItem } from '../entities/Sale';
+import type { SaleReturn, CreateSaleReturnRequest, SaleReturnStatus } from '../entities/SaleReturn';
+import type { SaleReturnRepository } from '../repositories/SaleReturnRepository';
+import type { ProductRepository } from '../repositories/ProductRepository';
+import type { StockMovementService } from './StockMovementService';
+import type { LoyaltyService } from './LoyaltyService';
+import type { CashSessionService } from './CashSessionService';
+import type { GiftCardService } from './GiftCardService';
+import { getSaleDocumentNumber } from './DocumentSeriesService';
+import { getPaymentsTotalByMethod, getRefundBreakdown, getSalePayments } from './PaymentCalculator';
+
+// Price actually charged per unit, IGV included
+const getPaidUnitPrice = (item: SaleItem): number => item.quantity ? item.subtotal / item.quantity : item.price;
+
+export class SaleReturnService {
+  constructor(
+    private saleReturnRepository: SaleReturnRepository,
+    private productRepository: ProductRepository,
+    private stockMovementService: StockMovementService,
+    private loyaltyService: LoyaltyService,
+    private cashSessionService: CashSessionService,
+    private giftCardService: GiftCardService
+  ) {}
+
+  async getReturnsForSale(saleId: string): Promise<SaleReturn[]> {
+    return await this.saleReturnRepository.getBySaleId(saleId);
+  }
+
+  async registerReturn(sale: Sale, request: CreateSaleReturnRequest): Promise<SaleReturn> {
+    const previousReturns = await this.saleReturnRepository.getBySaleId(sale.id);
+    const returnable = this.getReturnableQuantities(sale, previousReturns);
+
+    const items = request.items.filter(item => item.quantity > 0);
+    if (!items.length) throw new Error('Seleccione al menos un producto a devolver');
+    if (!request.reason.trim()) throw new Error('Indique el motivo de la devolución');
+
+    for (const item of items) {
+      const available = returnable[item.productId] ?? 0;
+      if (item.quantity > available) {
+        throw new Error(`No se pueden devolver ${item.quantity} unidades de ${item.name}. Máximo: ${available}`);
+      }
+    }
+
+    // The cap comes from what the sale charged, not from the prices sent with the request
+    const maxRefund = items.reduce((sum, item) => {
+      const saleItem = sale.items.find(line => line.productId === item.productId);
+      return sum + (saleItem ? getPaidUnitPrice(saleItem) : 0) * item.quantity;
+    }, 0);
+    if (request.refundAmount < 0 || request.refundAmount > maxRefund + 0.001) {
+      throw new Error(`El monto a reembolsar debe estar entre S/ 0.00 y S/ ${maxRefund.toFixed(2)}`);
+    }
+
+    // Only the cash share of the refund leaves the drawer and the gift card share goes back to the cards;
+    // card, Yape and other payments are given back outside the till
+    const alreadyRefunded = previousReturns.reduce((sum, saleReturn) => sum + saleReturn.refundAmount, 0);
+    const refundShares = getRefundBreakdown(getSalePayments(sale), alreadyRefunded, request.refundAmount);
+    const cashRefund = getPaymentsTotalByMethod(refundShares).cash || 0;
+    const session = cashRefund > 0 ? await this.cashSessionService.getCurrentSession() : null;
+    if (cashRefund > 0) {
+      if (!session) throw new Error('No hay un turno de caja abierto. Abra la caja antes de entregar el reembolso.');
+      const { expectedCash } = await this.cashSessionService.getSummary(session);
+      if (cashRefund > expectedCash + 0.005) {
+        throw new Error(`No hay suficiente efectivo en caja para reembolsar S/ ${cashRefund.toFixed(2)}. Disponible: S/ ${expectedCash.toFixed(2)}`);
+      }
+    }
+
+    const saleReturn = await this.saleReturnRepository.create(sale.id, {
+      ...request,
+      reason: request.reason.trim(),
+      items: items.map(item => ({ ...item, subtotal: item.price * item.quantity }))
+    });
+
+    const reference = `Devolución de ${getSaleDocumentNumber(sale) || `venta ${sale.id}`}`;
+    if (session) {
+      await this.cashSessionService.registerMovement(session, {
+        type: 'out',
+        amount: cashRefund,
+        reason: `Reembolso: ${reference}`
+      });
+    }
+    await this.giftCardService.refundPayments(refundShares, reference);
+
+    // Put returned units back into stock
+    for (const item of items) {
+      const product = await this.productRepository.getById(item.productId);
+      if (!product) {
+        console.warn(`SaleReturnService: product ${item.productId} no longer exists, skipping restock`);
+        continue;
+      }
+
+      await this.stockMovementService.applyStockChange(product, item.quantity, 'return', reference);
+    }
+    await this.loyaltyService.reverseForReturn(sale, saleReturn.refundAmount, reference);
+
+    return saleReturn;
+  }
+
+  getReturnedQuantities(returns: SaleReturn[]): Record<string, number> {
+    return returns.reduce<Record<string, number>>((acc, saleReturn) => {
+      saleReturn.items.forEach(item => {
+        acc[item.productId] = (acc[item.productId] || 0) + item.quantity;
+      });
+      return acc;
+    }, {});
+  }
+
+  getReturnableQuantities(sale: Sale, returns: SaleReturn[]): Record<string, number> {
+    const returned = this.getReturnedQuantities(returns);
+    const returnable: Record<string, number> = {};
+    sale.items.forEach(item => {
+      returnable[item.productId] = (returnable[item.productId] || 0) + item.quantity;
+    });
+    Object.keys(returnable).forEach(productId => {
+      returnable[productId] = Math.max(0, returnable[productId] - (returned[productId] || 0));
+    });
+    return returnable;
+  }
+
+  getReturnStatus(sale: Sale, returns: SaleReturn[]): SaleReturnStatus {
+    const saleReturns = returns.filter(r => r.saleId === sale.id);
+    if (!saleReturns.length) return 'none';
+
+    const returnable = this.getReturnableQuantities(sale, saleReturns);
+    const pending = Object.values(returnable).some(quantity => quantity > 0);
+    return pending ? 'partial' : 'returned';
+  }
+}
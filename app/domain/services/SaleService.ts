@@ -1,35 +1,127 @@
 import type { Sale } from '../entities/Sale';
+import type { Product } from '../entities/Product';
+import type { ElectronicDocumentType } from '../entities/ElectronicDocument';
 import type { SaleRepository, CreateSaleRequest } from '../repositories/SaleRepository';
 import type { ProductRepository } from '../repositories/ProductRepository';
-import type { UpdateProductRequest } from '../entities/Product';
+import type { DocumentSeriesRepository } from '../repositories/DocumentSeriesRepository';
+import type { StockMovementService } from './StockMovementService';
+import type { CouponService } from './CouponService';
+import type { GiftCardService } from './GiftCardService';
+import type { CustomerService } from './CustomerService';
+import type { LoyaltyService } from './LoyaltyService';
+import { findDefaultSeries, getSaleDocumentNumber } from './DocumentSeriesService';
+import { getAvailableQuantity } from './InventoryService';
+import { getCreditAmount } from './ReceivableService';
+
+const NUMBERING_ATTEMPTS = 3;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export class SaleService {
   constructor(
     private saleRepository: SaleRepository,
-    private productRepository: ProductRepository
+    private productRepository: ProductRepository,
+    private documentSeriesRepository: DocumentSeriesRepository,
+    private stockMovementService: StockMovementService,
+    private couponService: CouponService,
+    private giftCardService: GiftCardService,
+    private customerService: CustomerService,
+    private loyaltyService: LoyaltyService
   ) {}
 
-  async makeSale(saleData: CreateSaleRequest): Promise<Sale> {
-    // Decrement stock for each product
+  async makeSale(saleData: CreateSaleRequest, documentType: ElectronicDocumentType = '03'): Promise<Sale> {
+    // Check stock up front; it is taken off once the sale is stored.
+    // Units reserved for layaways are not available.
+    const items = [];
+    const products = new Map<string, Product>();
     for (const item of saleData.items) {
       const product = await this.productRepository.getById(item.productId);
-      if (!product) throw new Error('Producto no encontrado');
-      if (product.quantity < item.quantity) throw new Error('Stock insuficiente');
-      
-      const updatedProductData: UpdateProductRequest = {
-        name: product.name,
-        category: product.category,
-        price: product.price,
-        quantity: product.quantity - item.quantity,
-        brand: product.brand
-      };
-      
-      await this.productRepository.update(item.productId, updatedProductData);
+      if (!product) throw new Error(`Producto no encontrado: ${item.name}`);
+      products.set(item.productId, product);
+      const available = getAvailableQuantity(product);
+      if (available < item.quantity) {
+        throw new Error(`Stock insuficiente para ${item.name}. Disponible: ${available}, Solicitado: ${item.quantity}`);
+      }
+      // Snapshot the cost so later purchases do not change this sale's profit
+      items.push({ ...item, unitCost: product.cost ?? null });
+    }
+    // Coupon and gift card balances are checked up front too; they are used once the sale is stored
+    const coupon = saleData.couponCode ? await this.couponService.getValidCoupon(saleData.couponCode) : null;
+    const payments = await this.giftCardService.checkPayments(saleData.payments);
+    const loyalty = await this.loyaltyService.prepareSale(saleData);
+    // Credit (fiado) is only given to customers in the directory, so every debt has an owner
+    const creditAmount = getCreditAmount(saleData.payments);
+    if (creditAmount > 0 && !(await this.customerService.findByDocument(saleData.clientDni))) {
+      throw new Error('Las ventas al crédito requieren un cliente registrado en el directorio');
+    }
+
+    const series = await this.getDefaultSeries(documentType);
+    const sale = await this.saleRepository.create({
+      ...saleData,
+      items,
+      payments,
+      loyaltyPointsRedeemed: loyalty?.redeemed ?? 0,
+      loyaltyPointsEarned: loyalty?.earned ?? 0,
+      loyaltyPointsBalance: loyalty ? loyalty.balanceAfter : null,
+      creditAmount,
+      balanceDue: creditAmount
+    });
+    const numbered = await this.assignDocumentNumber(sale, series.id);
+
+    const reference = getSaleDocumentNumber(numbered) || `Venta ${numbered.id}`;
+    for (const item of saleData.items) {
+      try {
+        // Keep the updated product, in case the same product comes up again in another line
+        const updated = await this.stockMovementService.applyStockChange(products.get(item.productId)!, -item.quantity, 'sale', reference);
+        products.set(item.productId, updated);
+      } catch (error) {
+        console.error(`SaleService: could not take ${item.quantity} units of ${item.productId} off stock for ${reference}:`, error);
+      }
     }
-    return await this.saleRepository.create(saleData);
+    if (coupon) await this.couponService.redeem(coupon, reference);
+    await this.giftCardService.redeemPayments(payments, reference);
+    await this.customerService.registerFromSale(numbered);
+    if (loyalty) await this.loyaltyService.recordSale(loyalty, numbered, reference);
+    return numbered;
+  }
+
+  /**
+   * Assigns the next correlative of the series to the sale.
+   * The backend increments the series atomically and the call is idempotent per sale,
+   * so retrying after a timeout or conflict never skips nor duplicates a number.
+   * If every attempt fails the sale is returned unnumbered and can be numbered later.
+   */
+  async assignDocumentNumber(sale: Sale, seriesId: string): Promise<Sale> {
+    for (let attempt = 1; attempt <= NUMBERING_ATTEMPTS; attempt++) {
+      try {
+        return await this.saleRepository.assignDocumentNumber(sale.id, seriesId);
+      } catch (error) {
+        console.error(`SaleService: numbering attempt ${attempt} failed for sale ${sale.id}:`, error);
+        if (attempt < NUMBERING_ATTEMPTS) await wait(attempt * 300);
+      }
+    }
+    return sale;
+  }
+
+  async numberPendingSale(sale: Sale, documentType: ElectronicDocumentType = '03'): Promise<Sale> {
+    if (sale.series) return sale;
+    const series = await this.getDefaultSeries(documentType);
+    const numbered = await this.assignDocumentNumber(sale, series.id);
+    if (!numbered.series) throw new Error('No se pudo asignar el número de comprobante. Intente nuevamente.');
+    return numbered;
   }
 
   async markAsInvoiced(saleId: string): Promise<void> {
     return await this.saleRepository.markAsInvoiced(saleId);
   }
-} 
\ No newline at end of file
+
+  private async getDefaultSeries(documentType: ElectronicDocumentType) {
+    const series = findDefaultSeries(await this.documentSeriesRepository.getAll(), documentType);
+    if (!series) {
+      throw new Error(documentType === '01'
+        ? 'No hay una serie de facturas configurada (ej. F001). Agréguela en Configuración.'
+        : 'No hay una serie de boletas configurada (ej. B001). Agréguela en Configuración.');
+    }
+    return series;
+  }
+}
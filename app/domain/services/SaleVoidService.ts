@@ -0,0 +1,117 @@
+import type { Sale } from '../entities/Sale';
+import type { AuthUser } from '../entities/User';
+import type { ElectronicVoidData } from '../entities/ElectronicDocument';
+import type { SaleRepository } from '../repositories/SaleRepository';
+import type { SaleReturnRepository } from '../repositories/SaleReturnRepository';
+import type { ProductRepository } from '../repositories/ProductRepository';
+import type { StockMovementService } from './StockMovementService';
+import type { LoyaltyService } from './LoyaltyService';
+import type { CouponService } from './CouponService';
+import type { GiftCardService } from './GiftCardService';
+import type { CashSessionService } from './CashSessionService';
+import type { ElectronicReceiptService } from './ElectronicReceiptService';
+import type { CreditNoteService } from './CreditNoteService';
+import { getSaleDocumentNumber } from './DocumentSeriesService';
+import { getPaymentsTotalByMethod, getRefundShares, getSalePayments } from './PaymentCalculator';
+import { round2 } from '../../utils/money';
+
+export interface SaleVoidResult {
+  sale: Sale;
+  // Present when the sale had an electronic receipt that SUNAT has to be told about
+  voidData: ElectronicVoidData | null;
+}
+
+export class SaleVoidService {
+  constructor(
+    private saleRepository: SaleRepository,
+    private saleReturnRepository: SaleReturnRepository,
+    private productRepository: ProductRepository,
+    private stockMovementService: StockMovementService,
+    private loyaltyService: LoyaltyService,
+    private couponService: CouponService,
+    private giftCardService: GiftCardService,
+    private cashSessionService: CashSessionService,
+    private electronicReceiptService: ElectronicReceiptService,
+    private creditNoteService: CreditNoteService
+  ) {}
+
+  /**
+   * Voids a sale registered by mistake. The sale is kept, marked as voided, and its units go back
+   * into stock, except those already restocked by a return. Earned points are taken back, while redeemed
+   * points, gift card payments and the coupon use are given back. Cash is refunded from the open drawer;
+   * what earlier returns already refunded is not given back twice.
+   */
+  async voidSale(sale: Sale, reason: string, authorizedBy: AuthUser): Promise<SaleVoidResult> {
+    if (sale.voided) throw new Error('La venta ya está anulada');
+    if (!reason.trim()) throw new Error('Indique el motivo de la anulación');
+    if (authorizedBy.role !== 'owner') throw new Error('Solo el dueño puede autorizar la anulación de una venta');
+
+    const returns = await this.saleReturnRepository.getBySaleId(sale.id);
+    const payments = getSalePayments(sale);
+    const refunded = getRefundShares(payments, returns.reduce((sum, saleReturn) => sum + saleReturn.refundAmount, 0));
+    const pending = payments.map((payment, i) => ({ ...payment, amount: round2(payment.amount - refunded[i].amount) }));
+    const cashRefund = getPaymentsTotalByMethod(pending).cash || 0;
+
+    // The cash goes back from the drawer of the shift that is open now, not from the sale's own shift
+    const session = cashRefund > 0 ? await this.cashSessionService.getCurrentSession() : null;
+    if (cashRefund > 0) {
+      if (!session) throw new Error('No hay un turno de caja abierto. Abra la caja antes de anular la venta.');
+      const { expectedCash } = await this.cashSessionService.getSummary(session);
+      if (cashRefund > expectedCash + 0.005) {
+        throw new Error(`No hay suficiente efectivo en caja para devolver S/ ${cashRefund.toFixed(2)}. Disponible: S/ ${expectedCash.toFixed(2)}`);
+      }
+    }
+
+    const voided = await this.saleRepository.voidSale(sale.id, {
+      reason: reason.trim(),
+      authorizedBy: authorizedBy.username
+    });
+
+    const returned = new Map<string, number>();
+    returns.forEach(saleReturn => saleReturn.items.forEach(item => {
+      returned.set(item.productId, (returned.get(item.productId) || 0) + item.quantity);
+    }));
+
+    const reference = `Anulación de ${getSaleDocumentNumber(sale) || `venta ${sale.id}`}`;
+    if (session) {
+      await this.cashSessionService.registerMovement(session, { type: 'out', amount: cashRefund, reason: reference });
+    }
+
+    for (const item of sale.items) {
+      const alreadyReturned = Math.min(item.quantity, returned.get(item.productId) || 0);
+      returned.set(item.productId, (returned.get(item.productId) || 0) - alreadyReturned);
+      const quantity = item.quantity - alreadyReturned;
+      if (quantity <= 0) continue;
+
+      try {
+        const product = await this.productRepository.getById(item.productId);
+        if (!product) throw new Error('product not found');
+        await this.stockMovementService.applyStockChange(product, quantity, 'void', reference);
+      } catch (error) {
+        console.error(`SaleVoidService: could not restock ${item.productId} for ${reference}:`, error);
+      }
+    }
+
+    await this.loyaltyService.reverseForReturn(sale, sale.total, reference);
+    await this.loyaltyService.restoreRedeemed(sale, reference);
+    await this.giftCardService.refundPayments(pending, reference);
+    if (sale.couponCode) await this.couponService.release(sale.couponCode, reference);
+
+    let voidData: ElectronicVoidData | null = null;
+    try {
+      voidData = await this.electronicReceiptService.registerVoid(sale, reason);
+    } catch (error) {
+      console.error(`SaleVoidService: could not prepare the SUNAT void notice for ${reference}:`, error);
+    }
+
+    // Past the baja deadline the receipt can only be cancelled with a credit note
+    if (voidData?.procedure === 'credit_note') {
+      try {
+        await this.creditNoteService.issueCreditNote(sale, { reason: '01', description: reason, lines: [] });
+      } catch (error) {
+        console.error(`SaleVoidService: could not issue the credit note for ${reference}:`, error);
+      }
+    }
+    return { sale: voided, voidData };
+  }
+}
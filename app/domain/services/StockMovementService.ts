@@ -0,0 +1,135 @@
+import type { Product } from '../entities/Product';
+import type {
+  AdjustmentReason,
+  Kardex,
+  ShrinkageMonth,
+  ShrinkageReport,
+  StockAdjustmentRequest,
+  StockMovementType
+} from '../entities/StockMovement';
+import type { StockMovementRepository } from '../repositories/StockMovementRepository';
+import type { ProductRepository } from '../repositories/ProductRepository';
+import { toUpdateProductRequest } from './InventoryService';
+import { ADJUSTMENT_REASONS } from '../constants/StockMovementTypes';
+
+const getMonthKey = (date: string): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export class StockMovementService {
+  constructor(
+    private stockMovementRepository: StockMovementRepository,
+    private productRepository: ProductRepository
+  ) {}
+
+  /**
+   * Records a movement for a stock change that already happened.
+   * The change itself is never rolled back, so a failure here is only logged.
+   */
+  async record(
+    productId: string,
+    type: StockMovementType,
+    quantity: number,
+    reference: string | null = null,
+    reason: AdjustmentReason | null = null
+  ): Promise<void> {
+    if (quantity === 0) return;
+    try {
+      await this.stockMovementRepository.create({ productId, type, quantity, reason, reference });
+    } catch (error) {
+      console.error(`StockMovementService: could not record ${type} movement for ${productId}:`, error);
+    }
+  }
+
+  /**
+   * Applies a signed quantity delta to the product and records it in the kardex
+   */
+  async applyStockChange(
+    product: Product,
+    quantity: number,
+    type: StockMovementType,
+    reference: string | null = null,
+    reason: AdjustmentReason | null = null
+  ): Promise<Product> {
+    const updated = await this.productRepository.update(
+      product.productId,
+      toUpdateProductRequest(product, { quantity: product.quantity + quantity })
+    );
+    await this.record(product.productId, type, quantity, reference, reason);
+    return updated;
+  }
+
+  /**
+   * Manual stock correction. This is the only way to change stock by hand:
+   * the product edit form no longer accepts a new quantity.
+   */
+  async adjustStock(productId: string, request: StockAdjustmentRequest): Promise<Product> {
+    const reason = ADJUSTMENT_REASONS.find(r => r.value === request.reason);
+    if (!reason) throw new Error('Seleccione el motivo del ajuste');
+    if (!Number.isInteger(request.quantity) || request.quantity === 0) {
+      throw new Error('Ingrese una cantidad entera distinta de cero');
+    }
+    if (reason.direction === 'out' && request.quantity > 0) {
+      throw new Error(`El motivo "${reason.label}" solo puede restar stock`);
+    }
+    if (reason.direction === 'in' && request.quantity < 0) {
+      throw new Error(`El motivo "${reason.label}" solo puede sumar stock`);
+    }
+
+    // Read the current stock right before writing so concurrent sales are not overwritten
+    const product = await this.productRepository.getById(productId);
+    if (!product) throw new Error('Producto no encontrado');
+    if (product.quantity + request.quantity < 0) {
+      throw new Error(`No se pueden retirar ${-request.quantity} unidades. Stock actual: ${product.quantity}`);
+    }
+
+    return await this.applyStockChange(product, request.quantity, 'adjustment', request.notes.trim() || null, request.reason);
+  }
+
+  /**
+   * Adjustments grouped by month and reason, e.g. how many garments were written off as damaged each month
+   */
+  async getShrinkageReport(startDate: string, endDate: string): Promise<ShrinkageReport> {
+    const movements = await this.stockMovementRepository.getAll({ type: 'adjustment', startDate, endDate });
+    const months = new Map<string, ShrinkageMonth>();
+    const totals: Partial<Record<AdjustmentReason, number>> = {};
+    let total = 0;
+
+    movements.forEach(movement => {
+      if (!movement.reason) return;
+      const units = -movement.quantity;
+      const key = getMonthKey(movement.date);
+      const month = months.get(key) || { month: key, units: {}, total: 0 };
+      month.units[movement.reason] = (month.units[movement.reason] || 0) + units;
+      month.total += units;
+      months.set(key, month);
+      totals[movement.reason] = (totals[movement.reason] || 0) + units;
+      total += units;
+    });
+
+    return {
+      months: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+      totals,
+      total
+    };
+  }
+
+  /**
+   * Builds the kardex with a running balance.
+   * Stock that predates the ledger (initial stock, older products) shows up as the opening balance.
+   */
+  async getKardex(product: Product): Promise<Kardex> {
+    const movements = await this.stockMovementRepository.getByProduct(product.productId);
+    const sorted = [...movements].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const openingBalance = product.quantity - sorted.reduce((sum, m) => sum + m.quantity, 0);
+
+    let balance = openingBalance;
+    const entries = sorted.map(movement => {
+      balance += movement.quantity;
+      return { ...movement, balance };
+    });
+
+    return { openingBalance, entries, closingBalance: balance };
+  }
+}
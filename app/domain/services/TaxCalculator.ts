@@ -0,0 +1,91 @@
+import type { Sale, SaleItem } from '../entities/Sale';
+import type { StoreConfig } from '../entities/StoreConfig';
+import type { TaxAffectation } from '../entities/Product';
+import { round2 } from '../../utils/money';
+
+export const DEFAULT_IGV_RATE = 0.18;
+
+export interface TaxSettings {
+  pricesIncludeTax: boolean;
+  igvRate: number;
+}
+
+/**
+ * Tax split of a single line: valor venta (base), IGV and the amount charged
+ */
+export interface LineTax {
+  taxAffectation: TaxAffectation;
+  base: number;
+  igv: number;
+  total: number;
+}
+
+/**
+ * Tax split of a whole sale, grouped the way SUNAT reports it
+ */
+export interface TaxBreakdown {
+  taxed: number;
+  exonerated: number;
+  unaffected: number;
+  igv: number;
+  total: number;
+  igvRate: number;
+}
+
+// Stores without tax settings keep the historical behaviour: prices include 18% IGV
+export const getTaxSettings = (config: StoreConfig | null): TaxSettings => ({
+  pricesIncludeTax: config?.pricesIncludeTax ?? true,
+  igvRate: config?.igvRate ?? DEFAULT_IGV_RATE
+});
+
+export const calculateLineTax = (
+  unitPrice: number,
+  quantity: number,
+  taxAffectation: TaxAffectation = 'taxed',
+  settings: TaxSettings
+): LineTax => {
+  const amount = round2(unitPrice * quantity);
+
+  if (taxAffectation !== 'taxed') {
+    return { taxAffectation, base: amount, igv: 0, total: amount };
+  }
+
+  if (settings.pricesIncludeTax) {
+    const base = round2(amount / (1 + settings.igvRate));
+    return { taxAffectation, base, igv: round2(amount - base), total: amount };
+  }
+
+  const igv = round2(amount * settings.igvRate);
+  return { taxAffectation, base: amount, igv, total: round2(amount + igv) };
+};
+
+/**
+ * Tax split of a stored sale item. Items recorded before the tax module have no
+ * base/IGV, so their subtotal is treated as a tax-included amount.
+ */
+export const getItemTax = (item: SaleItem, igvRate: number = DEFAULT_IGV_RATE): LineTax => {
+  const taxAffectation = item.taxAffectation || 'taxed';
+  if (item.taxBase != null && item.igv != null) {
+    return { taxAffectation, base: item.taxBase, igv: item.igv, total: item.subtotal };
+  }
+  return calculateLineTax(item.subtotal, 1, taxAffectation, { pricesIncludeTax: true, igvRate });
+};
+
+export const summarizeTax = (lines: LineTax[], igvRate: number = DEFAULT_IGV_RATE): TaxBreakdown => {
+  const sumBase = (affectation: TaxAffectation) => round2(lines
+    .filter(line => line.taxAffectation === affectation)
+    .reduce((sum, line) => sum + line.base, 0));
+
+  return {
+    taxed: sumBase('taxed'),
+    exonerated: sumBase('exonerated'),
+    unaffected: sumBase('unaffected'),
+    igv: round2(lines.reduce((sum, line) => sum + line.igv, 0)),
+    total: round2(lines.reduce((sum, line) => sum + line.total, 0)),
+    igvRate
+  };
+};
+
+export const getSaleTaxBreakdown = (sale: Sale, igvRate: number = DEFAULT_IGV_RATE): TaxBreakdown => {
+  return summarizeTax(sale.items.map(item => getItemTax(item, igvRate)), igvRate);
+};
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+
+interface BarcodeScannerOptions {
+  onScan: (code: string) => void;
+  // Inputs marked with this attribute take part in scanning; other fields are left alone
+  inputAttribute?: string;
+  minLength?: number;
+  // Scanners send a keystroke every few ms; people rarely type faster than one every 50 ms
+  maxKeyInterval?: number;
+}
+
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Detects USB/Bluetooth barcode scanners, which behave like a keyboard that types the
+ * code in a fast burst followed by Enter. Keystrokes are collected while the focus is on
+ * a marked input or on no field at all; an Enter closing a fast enough burst is reported
+ * through onScan and does not reach the page (so it cannot submit a form).
+ */
+export const useBarcodeScanner = ({
+  onScan,
+  inputAttribute = 'data-scanner-input',
+  minLength = 4,
+  maxKeyInterval = 35
+}: BarcodeScannerOptions) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let buffer = '';
+    let lastKeyTime = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (isEditable(target) && !target?.hasAttribute(inputAttribute)) return;
+
+      const now = event.timeStamp;
+      const elapsed = now - lastKeyTime;
+      lastKeyTime = now;
+
+      if (event.key === 'Enter') {
+        const code = buffer;
+        buffer = '';
+        if (code.length >= minLength && elapsed <= maxKeyInterval * 3) {
+          event.preventDefault();
+          event.stopPropagation();
+          onScanRef.current(code);
+        }
+        return;
+      }
+
+      if (event.key.length !== 1 || event.ctrlKey || event.altKey || event.metaKey) return;
+      // A slow keystroke means a person is typing: start over from this character
+      buffer = elapsed > maxKeyInterval ? event.key : buffer + event.key;
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [inputAttribute, minLength, maxKeyInterval]);
+};
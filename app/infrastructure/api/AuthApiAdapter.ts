@@ -0,0 +1,17 @@
+import { httpClient } from '../http/HttpClient';
+import type { AuthUser } from '../../domain/entities/User';
+import type { AuthRepository } from '../../domain/repositories/AuthRepository';
+
+export class AuthApiAdapter implements AuthRepository {
+  async getCurrentUser(): Promise<AuthUser | null> {
+    try {
+      return await httpClient.get<AuthUser>('/auth/me');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async verifyCredentials(username: string, password: string): Promise<AuthUser> {
+    return httpClient.post<AuthUser>('/auth/verify', { username, password });
+  }
+}
@@ -0,0 +1,41 @@
+import { httpClient } from '../http/HttpClient';
+import type {
+  CashSession,
+  CashMovement,
+  OpenCashSessionRequest,
+  CreateCashMovementRequest,
+  CloseCashSessionRequest
+} from '../../domain/entities/CashSession';
+import type { CashSessionRepository } from '../../domain/repositories/CashSessionRepository';
+
+export class CashSessionApiAdapter implements CashSessionRepository {
+  async getCurrent(): Promise<CashSession | null> {
+    // The backend answers 204 (empty body) when no shift is open
+    const session = await httpClient.get<CashSession | string>('/cash-sessions/current');
+    return session && typeof session === 'object' ? session : null;
+  }
+
+  async getAll(): Promise<CashSession[]> {
+    return httpClient.get<CashSession[]>('/cash-sessions');
+  }
+
+  async getById(sessionId: string): Promise<CashSession | undefined> {
+    try {
+      return await httpClient.get<CashSession>(`/cash-sessions/${sessionId}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async open(request: OpenCashSessionRequest): Promise<CashSession> {
+    return httpClient.post<CashSession>('/cash-sessions', request);
+  }
+
+  async addMovement(sessionId: string, request: CreateCashMovementRequest): Promise<CashMovement> {
+    return httpClient.post<CashMovement>(`/cash-sessions/${sessionId}/movements`, request);
+  }
+
+  async close(sessionId: string, request: CloseCashSessionRequest): Promise<CashSession> {
+    return httpClient.put<CashSession>(`/cash-sessions/${sessionId}/close`, request);
+  }
+}
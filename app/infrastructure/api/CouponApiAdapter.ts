@@ -0,0 +1,37 @@
+import { httpClient } from '../http/HttpClient';
+import type { Coupon, CreateCouponRequest, UpdateCouponRequest } from '../../domain/entities/Coupon';
+import type { CouponRepository } from '../../domain/repositories/CouponRepository';
+
+export class CouponApiAdapter implements CouponRepository {
+  async getAll(): Promise<Coupon[]> {
+    return httpClient.get<Coupon[]>('/coupons');
+  }
+
+  async getByCode(code: string): Promise<Coupon | undefined> {
+    try {
+      return await httpClient.get<Coupon>(`/coupons/code/${encodeURIComponent(code)}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async create(request: CreateCouponRequest): Promise<Coupon> {
+    return httpClient.post<Coupon>('/coupons', request);
+  }
+
+  async update(couponId: string, request: UpdateCouponRequest): Promise<Coupon> {
+    return httpClient.put<Coupon>(`/coupons/${couponId}`, request);
+  }
+
+  async delete(couponId: string): Promise<void> {
+    return httpClient.delete<void>(`/coupons/${couponId}`);
+  }
+
+  async redeem(couponId: string, reference: string): Promise<Coupon> {
+    return httpClient.post<Coupon>(`/coupons/${couponId}/redeem`, { reference });
+  }
+
+  async release(couponId: string, reference: string): Promise<Coupon> {
+    return httpClient.post<Coupon>(`/coupons/${couponId}/release`, { reference });
+  }
+}
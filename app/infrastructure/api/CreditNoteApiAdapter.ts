@@ -0,0 +1,17 @@
+import { httpClient } from '../http/HttpClient';
+import type { CreditNote, CreateCreditNoteRequest } from '../../domain/entities/CreditNote';
+import type { CreditNoteRepository } from '../../domain/repositories/CreditNoteRepository';
+
+export class CreditNoteApiAdapter implements CreditNoteRepository {
+  async getAll(): Promise<CreditNote[]> {
+    return httpClient.get<CreditNote[]>('/credit-notes');
+  }
+
+  async getBySaleId(saleId: string): Promise<CreditNote[]> {
+    return httpClient.get<CreditNote[]>(`/sales/${saleId}/credit-notes`);
+  }
+
+  async create(saleId: string, request: CreateCreditNoteRequest): Promise<CreditNote> {
+    return httpClient.post<CreditNote>(`/sales/${saleId}/credit-notes`, request);
+  }
+}
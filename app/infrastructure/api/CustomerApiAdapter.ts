@@ -0,0 +1,37 @@
+import { httpClient } from '../http/HttpClient';
+import type { Customer, CreateCustomerRequest, UpdateCustomerRequest } from '../../domain/entities/Customer';
+import type { CustomerRepository } from '../../domain/repositories/CustomerRepository';
+
+export class CustomerApiAdapter implements CustomerRepository {
+  async getAll(): Promise<Customer[]> {
+    return httpClient.get<Customer[]>('/customers');
+  }
+
+  async getById(customerId: string): Promise<Customer | undefined> {
+    try {
+      return await httpClient.get<Customer>(`/customers/${customerId}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async getByDocument(documentNumber: string): Promise<Customer | undefined> {
+    try {
+      return await httpClient.get<Customer>(`/customers/document/${documentNumber}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async create(request: CreateCustomerRequest): Promise<Customer> {
+    return httpClient.post<Customer>('/customers', request);
+  }
+
+  async update(customerId: string, request: UpdateCustomerRequest): Promise<Customer> {
+    return httpClient.put<Customer>(`/customers/${customerId}`, request);
+  }
+
+  async delete(customerId: string): Promise<void> {
+    return httpClient.delete<void>(`/customers/${customerId}`);
+  }
+}
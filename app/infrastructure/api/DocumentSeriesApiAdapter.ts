@@ -0,0 +1,21 @@
+import { httpClient } from '../http/HttpClient';
+import type {
+  DocumentSeries,
+  CreateDocumentSeriesRequest,
+  UpdateDocumentSeriesRequest
+} from '../../domain/entities/DocumentSeries';
+import type { DocumentSeriesRepository } from '../../domain/repositories/DocumentSeriesRepository';
+
+export class DocumentSeriesApiAdapter implements DocumentSeriesRepository {
+  async getAll(): Promise<DocumentSeries[]> {
+    return httpClient.get<DocumentSeries[]>('/document-series');
+  }
+
+  async create(request: CreateDocumentSeriesRequest): Promise<DocumentSeries> {
+    return httpClient.post<DocumentSeries>('/document-series', request);
+  }
+
+  async update(seriesId: string, request: UpdateDocumentSeriesRequest): Promise<DocumentSeries> {
+    return httpClient.put<DocumentSeries>(`/document-series/${seriesId}`, request);
+  }
+}
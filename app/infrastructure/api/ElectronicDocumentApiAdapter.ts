@@ -0,0 +1,29 @@
+import { httpClient } from '../http/HttpClient';
+import type {
+  ElectronicDocument,
+  CreateElectronicDocumentRequest,
+  ElectronicVoidData
+} from '../../domain/entities/ElectronicDocument';
+import type { ElectronicDocumentRepository } from '../../domain/repositories/ElectronicDocumentRepository';
+
+export class ElectronicDocumentApiAdapter implements ElectronicDocumentRepository {
+  async getAll(): Promise<ElectronicDocument[]> {
+    return httpClient.get<ElectronicDocument[]>('/electronic-documents');
+  }
+
+  async getBySaleId(saleId: string): Promise<ElectronicDocument | null> {
+    try {
+      return await httpClient.get<ElectronicDocument>(`/sales/${saleId}/electronic-document`);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async create(saleId: string, request: CreateElectronicDocumentRequest): Promise<ElectronicDocument> {
+    return httpClient.post<ElectronicDocument>(`/sales/${saleId}/electronic-document`, request);
+  }
+
+  async registerVoid(documentId: string, data: ElectronicVoidData): Promise<ElectronicDocument> {
+    return httpClient.put<ElectronicDocument>(`/electronic-documents/${documentId}/void`, data);
+  }
+}
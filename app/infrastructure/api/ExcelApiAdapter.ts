@@ -1,5 +1,6 @@
 import { HttpClient } from '../http/HttpClient';
 import type { ExcelService, ExcelImportResponse, SalesExportRequest } from '../../domain/services/ExcelService';
+import { DEFAULT_IGV_RATE } from '../../domain/services/TaxCalculator';
 
 export class ExcelApiAdapter implements ExcelService {
   private httpClient: HttpClient;
@@ -53,6 +54,17 @@ export class ExcelApiAdapter implements ExcelService {
       if (filters.selectedMonth) {
         queryParams.append('selectedMonth', filters.selectedMonth);
       }
+      if (filters.includeTaxBreakdown) {
+        queryParams.append('includeTaxBreakdown', 'true');
+        queryParams.append('pricesIncludeTax', String(filters.pricesIncludeTax ?? true));
+        queryParams.append('igvRate', String(filters.igvRate ?? DEFAULT_IGV_RATE));
+      }
+      if (filters.excludeVoided) {
+        queryParams.append('excludeVoided', 'true');
+      }
+      if (filters.netCreditNotes) {
+        queryParams.append('netCreditNotes', 'true');
+      }
 
       const url = `/sales/excel/export?${queryParams.toString()}`;
       const response = await this.httpClient.getBlobWithHeaders(url);
@@ -0,0 +1,33 @@
+import { httpClient } from '../http/HttpClient';
+import type { GiftCard, GiftCardMovement, IssueGiftCardRequest } from '../../domain/entities/GiftCard';
+import type { GiftCardRepository } from '../../domain/repositories/GiftCardRepository';
+
+export class GiftCardApiAdapter implements GiftCardRepository {
+  async getAll(): Promise<GiftCard[]> {
+    return httpClient.get<GiftCard[]>('/gift-cards');
+  }
+
+  async getByCode(code: string): Promise<GiftCard | undefined> {
+    try {
+      return await httpClient.get<GiftCard>(`/gift-cards/code/${encodeURIComponent(code)}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async getMovements(giftCardId: string): Promise<GiftCardMovement[]> {
+    return httpClient.get<GiftCardMovement[]>(`/gift-cards/${giftCardId}/movements`);
+  }
+
+  async issue(request: IssueGiftCardRequest): Promise<GiftCard> {
+    return httpClient.post<GiftCard>('/gift-cards', request);
+  }
+
+  async redeem(giftCardId: string, amount: number, reference: string): Promise<GiftCard> {
+    return httpClient.post<GiftCard>(`/gift-cards/${giftCardId}/redeem`, { amount, reference });
+  }
+
+  async refund(giftCardId: string, amount: number, reference: string): Promise<GiftCard> {
+    return httpClient.post<GiftCard>(`/gift-cards/${giftCardId}/refund`, { amount, reference });
+  }
+}
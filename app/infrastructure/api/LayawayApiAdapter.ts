@@ -0,0 +1,29 @@
+import { httpClient } from '../http/HttpClient';
+import type { Layaway, LayawayStatus, CreateLayawayRequest, CreateLayawayPaymentRequest } from '../../domain/entities/Layaway';
+import type { LayawayRepository } from '../../domain/repositories/LayawayRepository';
+
+export class LayawayApiAdapter implements LayawayRepository {
+  async getAll(): Promise<Layaway[]> {
+    return httpClient.get<Layaway[]>('/layaways');
+  }
+
+  async getById(layawayId: string): Promise<Layaway | undefined> {
+    try {
+      return await httpClient.get<Layaway>(`/layaways/${layawayId}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async create(request: CreateLayawayRequest): Promise<Layaway> {
+    return httpClient.post<Layaway>('/layaways', request);
+  }
+
+  async addPayment(layawayId: string, payment: CreateLayawayPaymentRequest): Promise<Layaway> {
+    return httpClient.post<Layaway>(`/layaways/${layawayId}/payments`, payment);
+  }
+
+  async updateStatus(layawayId: string, status: LayawayStatus, saleId: string | null = null): Promise<Layaway> {
+    return httpClient.put<Layaway>(`/layaways/${layawayId}/status`, { status, saleId });
+  }
+}
@@ -0,0 +1,13 @@
+import { httpClient } from '../http/HttpClient';
+import type { LoyaltyMovement, CreateLoyaltyMovementRequest } from '../../domain/entities/Loyalty';
+import type { LoyaltyRepository } from '../../domain/repositories/LoyaltyRepository';
+
+export class LoyaltyApiAdapter implements LoyaltyRepository {
+  async getMovements(customerId: string): Promise<LoyaltyMovement[]> {
+    return httpClient.get<LoyaltyMovement[]>(`/customers/${customerId}/loyalty-movements`);
+  }
+
+  async addMovement(customerId: string, request: CreateLoyaltyMovementRequest): Promise<LoyaltyMovement> {
+    return httpClient.post<LoyaltyMovement>(`/customers/${customerId}/loyalty-movements`, request);
+  }
+}
@@ -0,0 +1,39 @@
+import { httpClient } from '../http/HttpClient';
+import type { Product } from '../../domain/entities/Product';
+import type {
+  ProductStyle,
+  CreateProductStyleRequest,
+  UpdateProductStyleRequest,
+  CreateVariantRequest
+} from '../../domain/entities/ProductStyle';
+import type { ProductStyleRepository } from '../../domain/repositories/ProductStyleRepository';
+
+export class ProductStyleApiAdapter implements ProductStyleRepository {
+  async getAll(): Promise<ProductStyle[]> {
+    return httpClient.get<ProductStyle[]>('/product-styles');
+  }
+
+  async getById(styleId: string): Promise<ProductStyle | undefined> {
+    try {
+      return await httpClient.get<ProductStyle>(`/product-styles/${styleId}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async create(request: CreateProductStyleRequest): Promise<ProductStyle> {
+    return httpClient.post<ProductStyle>('/product-styles', request);
+  }
+
+  async update(styleId: string, request: UpdateProductStyleRequest): Promise<ProductStyle> {
+    return httpClient.put<ProductStyle>(`/product-styles/${styleId}`, request);
+  }
+
+  async delete(styleId: string): Promise<void> {
+    return httpClient.delete<void>(`/product-styles/${styleId}`);
+  }
+
+  async createVariants(styleId: string, variants: CreateVariantRequest[]): Promise<Product[]> {
+    return httpClient.post<Product[]>(`/product-styles/${styleId}/variants`, { variants });
+  }
+}
@@ -0,0 +1,29 @@
+import { httpClient } from '../http/HttpClient';
+import type { Promotion, CreatePromotionRequest, UpdatePromotionRequest } from '../../domain/entities/Promotion';
+import type { PromotionRepository } from '../../domain/repositories/PromotionRepository';
+
+export class PromotionApiAdapter implements PromotionRepository {
+  async getAll(): Promise<Promotion[]> {
+    return httpClient.get<Promotion[]>('/promotions');
+  }
+
+  async getById(promotionId: string): Promise<Promotion | undefined> {
+    try {
+      return await httpClient.get<Promotion>(`/promotions/${promotionId}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async create(request: CreatePromotionRequest): Promise<Promotion> {
+    return httpClient.post<Promotion>('/promotions', request);
+  }
+
+  async update(promotionId: string, request: UpdatePromotionRequest): Promise<Promotion> {
+    return httpClient.put<Promotion>(`/promotions/${promotionId}`, request);
+  }
+
+  async delete(promotionId: string): Promise<void> {
+    return httpClient.delete<void>(`/promotions/${promotionId}`);
+  }
+}
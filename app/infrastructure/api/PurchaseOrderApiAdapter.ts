@@ -0,0 +1,34 @@
+import { httpClient } from '../http/HttpClient';
+import type {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  CreatePurchaseOrderRequest,
+  ReceivePurchaseOrderRequest
+} from '../../domain/entities/PurchaseOrder';
+import type { PurchaseOrderRepository } from '../../domain/repositories/PurchaseOrderRepository';
+
+export class PurchaseOrderApiAdapter implements PurchaseOrderRepository {
+  async getAll(): Promise<PurchaseOrder[]> {
+    return httpClient.get<PurchaseOrder[]>('/purchase-orders');
+  }
+
+  async getById(orderId: string): Promise<PurchaseOrder | undefined> {
+    try {
+      return await httpClient.get<PurchaseOrder>(`/purchase-orders/${orderId}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async create(request: CreatePurchaseOrderRequest): Promise<PurchaseOrder> {
+    return httpClient.post<PurchaseOrder>('/purchase-orders', request);
+  }
+
+  async updateStatus(orderId: string, status: PurchaseOrderStatus): Promise<PurchaseOrder> {
+    return httpClient.put<PurchaseOrder>(`/purchase-orders/${orderId}/status`, { status });
+  }
+
+  async receive(orderId: string, request: ReceivePurchaseOrderRequest): Promise<PurchaseOrder> {
+    return httpClient.post<PurchaseOrder>(`/purchase-orders/${orderId}/receipts`, request);
+  }
+}
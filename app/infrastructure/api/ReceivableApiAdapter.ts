@@ -0,0 +1,18 @@
+import { httpClient } from '../http/HttpClient';
+import type { Sale } from '../../domain/entities/Sale';
+import type { ReceivablePayment, CreateReceivablePaymentRequest } from '../../domain/entities/Receivable';
+import type { ReceivableRepository } from '../../domain/repositories/ReceivableRepository';
+
+export class ReceivableApiAdapter implements ReceivableRepository {
+  async getOpenSales(): Promise<Sale[]> {
+    return httpClient.get<Sale[]>('/receivables');
+  }
+
+  async getPayments(saleId: string): Promise<ReceivablePayment[]> {
+    return httpClient.get<ReceivablePayment[]>(`/receivables/${saleId}/payments`);
+  }
+
+  async addPayment(saleId: string, payment: CreateReceivablePaymentRequest): Promise<Sale> {
+    return httpClient.post<Sale>(`/receivables/${saleId}/payments`, payment);
+  }
+}
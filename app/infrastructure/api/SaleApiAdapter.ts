@@ -1,6 +1,6 @@
 import { httpClient } from '../http/HttpClient';
 import type { Sale } from '../../domain/entities/Sale';
-import type { SaleRepository, CreateSaleRequest } from '../../domain/repositories/SaleRepository';
+import type { SaleRepository, CreateSaleRequest, VoidSaleRequest } from '../../domain/repositories/SaleRepository';
 
 export class SaleApiAdapter implements SaleRepository {
   async getAll(): Promise<Sale[]> {
@@ -19,10 +19,27 @@ export class SaleApiAdapter implements SaleRepository {
     }
   }
 
+  async getByCashSession(sessionId: string): Promise<Sale[]> {
+    return httpClient.get<Sale[]>(`/cash-sessions/${sessionId}/sales`);
+  }
+
+  async getByClientDocument(documentNumber: string): Promise<Sale[]> {
+    return httpClient.get<Sale[]>(`/sales/client/${documentNumber}`);
+  }
+
   async markAsInvoiced(saleId: string): Promise<void> {
     return httpClient.put<void>(`/sales/${saleId}/invoice`, {});
   }
 
+  async assignDocumentNumber(saleId: string, seriesId: string): Promise<Sale> {
+    // Idempotent on the backend: a sale that already has a number keeps it
+    return httpClient.put<Sale>(`/sales/${saleId}/document-number`, { seriesId });
+  }
+
+  async voidSale(saleId: string, request: VoidSaleRequest): Promise<Sale> {
+    return httpClient.post<Sale>(`/sales/${saleId}/void`, request);
+  }
+
   async getByDateRange(startDate: string, endDate: string): Promise<Sale[]> {
     const allSales = await this.getAll();
     return allSales.filter(sale => {
@@ -0,0 +1,17 @@
+import { httpClient } from '../http/HttpClient';
+import type { SaleReturn, CreateSaleReturnRequest } from '../../domain/entities/SaleReturn';
+import type { SaleReturnRepository } from '../../domain/repositories/SaleReturnRepository';
+
+export class SaleReturnApiAdapter implements SaleReturnRepository {
+  async getAll(): Promise<SaleReturn[]> {
+    return httpClient.get<SaleReturn[]>('/sale-returns');
+  }
+
+  async getBySaleId(saleId: string): Promise<SaleReturn[]> {
+    return httpClient.get<SaleReturn[]>(`/sales/${saleId}/returns`);
+  }
+
+  async create(saleId: string, request: CreateSaleReturnRequest): Promise<SaleReturn> {
+    return httpClient.post<SaleReturn>(`/sales/${saleId}/returns`, request);
+  }
+}
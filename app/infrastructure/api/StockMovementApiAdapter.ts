@@ -0,0 +1,22 @@
+import { httpClient } from '../http/HttpClient';
+import type { StockMovement, CreateStockMovementRequest, StockMovementFilters } from '../../domain/entities/StockMovement';
+import type { StockMovementRepository } from '../../domain/repositories/StockMovementRepository';
+
+export class StockMovementApiAdapter implements StockMovementRepository {
+  async getAll(filters: StockMovementFilters = {}): Promise<StockMovement[]> {
+    const params = new URLSearchParams();
+    if (filters.type) params.append('type', filters.type);
+    if (filters.startDate) params.append('startDate', filters.startDate);
+    if (filters.endDate) params.append('endDate', filters.endDate);
+    const query = params.toString();
+    return httpClient.get<StockMovement[]>(`/stock-movements${query ? `?${query}` : ''}`);
+  }
+
+  async getByProduct(productId: string): Promise<StockMovement[]> {
+    return httpClient.get<StockMovement[]>(`/products/${productId}/stock-movements`);
+  }
+
+  async create(request: CreateStockMovementRequest): Promise<StockMovement> {
+    return httpClient.post<StockMovement>('/stock-movements', request);
+  }
+}
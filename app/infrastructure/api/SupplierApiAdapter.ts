@@ -0,0 +1,29 @@
+import { httpClient } from '../http/HttpClient';
+import type { Supplier, CreateSupplierRequest, UpdateSupplierRequest } from '../../domain/entities/Supplier';
+import type { SupplierRepository } from '../../domain/repositories/SupplierRepository';
+
+export class SupplierApiAdapter implements SupplierRepository {
+  async getAll(): Promise<Supplier[]> {
+    return httpClient.get<Supplier[]>('/suppliers');
+  }
+
+  async getById(supplierId: string): Promise<Supplier | undefined> {
+    try {
+      return await httpClient.get<Supplier>(`/suppliers/${supplierId}`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async create(request: CreateSupplierRequest): Promise<Supplier> {
+    return httpClient.post<Supplier>('/suppliers', request);
+  }
+
+  async update(supplierId: string, request: UpdateSupplierRequest): Promise<Supplier> {
+    return httpClient.put<Supplier>(`/suppliers/${supplierId}`, request);
+  }
+
+  async delete(supplierId: string): Promise<void> {
+    return httpClient.delete<void>(`/suppliers/${supplierId}`);
+  }
+}
@@ -0,0 +1,29 @@
+let audioContext: AudioContext | null = null;
+
+const playTone = (frequency: number, duration: number, type: OscillatorType, delay = 0) => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const start = audioContext.currentTime + delay;
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.15, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+  } catch (error) {
+    // Sound is only feedback; a browser without Web Audio just stays silent
+    console.warn('Could not play scan sound:', error);
+  }
+};
+
+// Short high beep, like a supermarket till
+export const playScanSuccess = () => playTone(1760, 0.08, 'sine');
+
+// Two low buzzes, clearly different from the success beep
+export const playScanError = () => {
+  playTone(220, 0.15, 'square');
+  playTone(220, 0.15, 'square', 0.2);
+};
@@ -0,0 +1,91 @@
+import { readFileSync } from 'node:fs';
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { decodeBarcodeFromImage } from './BarcodeDecoder';
+import type { RgbaImage } from './BarcodeDecoder';
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+};
+
+/**
+ * Minimal reader for 8-bit RGB/RGBA non-interlaced PNGs, enough for the fixtures
+ */
+const readPng = (path: string): RgbaImage => {
+  const file = readFileSync(path);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+  while (offset < file.length) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString('ascii', offset + 4, offset + 8);
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      if (data[8] !== 8 || data[12] !== 0) throw new Error('Unsupported PNG');
+      channels = data[9] === 6 ? 4 : data[9] === 2 ? 3 : 0;
+      if (!channels) throw new Error('Unsupported PNG color type');
+    }
+    if (type === 'IDAT') idat.push(data);
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    for (let x = 0; x < stride; x++) {
+      const value = raw[y * (stride + 1) + 1 + x];
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[(y - 1) * stride + x - channels] : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+      pixels[y * stride + x] = (value + predictor) & 0xff;
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(pixels.subarray(i * channels, i * channels + 3), i * 4);
+    data[i * 4 + 3] = channels === 4 ? pixels[i * channels + 3] : 255;
+  }
+  return { data, width, height };
+};
+
+// Flips the image both ways, like a label held upside down
+const rotate180 = (image: RgbaImage): RgbaImage => {
+  const data = new Uint8ClampedArray(image.data.length);
+  const pixelCount = image.width * image.height;
+  for (let i = 0; i < pixelCount; i++) {
+    data.set(image.data.subarray(i * 4, i * 4 + 4), (pixelCount - 1 - i) * 4);
+  }
+  return { ...image, data };
+};
+
+const fixture = (name: string): RgbaImage => readPng(new URL(`./__fixtures__/${name}`, import.meta.url).pathname);
+
+describe('decodeBarcodeFromImage', () => {
+  it('reads an EAN-13 label from a still image', () => {
+    expect(decodeBarcodeFromImage(fixture('ean13-7751234567892.png'))).toEqual({
+      text: '7751234567892',
+      symbology: 'ean13'
+    });
+  });
+
+  it('reads the label upside down', () => {
+    expect(decodeBarcodeFromImage(rotate180(fixture('ean13-7751234567892.png')))?.text).toBe('7751234567892');
+  });
+
+  it('returns null when there is no barcode', () => {
+    const blank = { data: new Uint8ClampedArray(40 * 20 * 4).fill(255), width: 40, height: 20 };
+    expect(decodeBarcodeFromImage(blank)).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  CODE128_PATTERNS,
+  CODE128_STOP,
+  EAN_G,
+  EAN_L,
+  EAN_PARITY
+} from './BarcodeEncoder';
+import type { BarcodeSymbology } from './BarcodeEncoder';
+import { getEan13CheckDigit } from '../../utils/ean13';
+
+export interface DecodedBarcode {
+  text: string;
+  symbology: BarcodeSymbology;
+}
+
+// Same shape as the browser's ImageData (RGBA bytes), so still images can be decoded without a canvas
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+interface Run {
+  dark: boolean;
+  width: number;
+}
+
+// Rows tried from the middle outwards, as a fraction of the image height
+const SCAN_ROWS = [0.5, 0.4, 0.6, 0.3, 0.7, 0.2, 0.8];
+const MIN_CONTRAST = 40;
+// Accepted difference, in modules, between a measured symbol and the closest pattern
+const MAX_PATTERN_ERROR = 1.5;
+
+const toRuns = (modules: string): number[] => (modules.match(/0+|1+/g) || []).map(run => run.length);
+
+// Code 128 symbols as 6 bar/space widths; the stop symbol is matched without its final bar
+const CODE128_RUNS = CODE128_PATTERNS.map(pattern => pattern.slice(0, 6).split('').map(Number));
+// L and R codes share their widths (R is L with colors swapped). Left-half digits are
+// matched against L (indexes 0-9) and G (10-19) together so the closest one wins.
+const EAN_L_RUNS = EAN_L.map(toRuns);
+const EAN_LEFT_RUNS = [...EAN_L_RUNS, ...EAN_G.map(toRuns)];
+
+const getLuminanceRow = (image: RgbaImage, y: number): number[] => {
+  const row: number[] = [];
+  const offset = y * image.width * 4;
+  for (let x = 0; x < image.width; x++) {
+    const i = offset + x * 4;
+    row.push(0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]);
+  }
+  return row;
+};
+
+const toRunList = (row: number[]): Run[] => {
+  const min = Math.min(...row);
+  const max = Math.max(...row);
+  if (max - min < MIN_CONTRAST) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: Run[] = [];
+  row.forEach(value => {
+    const dark = value < threshold;
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) last.width++;
+    else runs.push({ dark, width: 1 });
+  });
+  return runs;
+};
+
+/**
+ * Index of the pattern closest to the measured widths once scaled to the symbol's module count
+ */
+const matchPattern = (runs: Run[], start: number, patterns: number[][], modules: number): number => {
+  const length = patterns[0].length;
+  if (start + length > runs.length) return -1;
+  const widths = runs.slice(start, start + length).map(run => run.width);
+  const total = widths.reduce((sum, width) => sum + width, 0);
+
+  let best = -1;
+  let bestError = MAX_PATTERN_ERROR;
+  patterns.forEach((pattern, index) => {
+    const error = widths.reduce((sum, width, i) => sum + Math.abs((width * modules) / total - pattern[i]), 0);
+    if (error < bestError) {
+      best = index;
+      bestError = error;
+    }
+  });
+  return best;
+};
+
+// Guard bars and spaces are one module wide each
+const isGuard = (runs: Run[], start: number, count: number, moduleWidth: number): boolean =>
+  runs.slice(start, start + count).every(run => run.width > moduleWidth * 0.5 && run.width < moduleWidth * 1.5);
+
+const decodeEan13At = (runs: Run[], start: number): string | null => {
+  // 3 guard + 6 x 4 left + 5 middle + 6 x 4 right + 3 guard = 95 modules
+  if (start + 59 > runs.length) return null;
+  const moduleWidth = runs.slice(start, start + 59).reduce((sum, run) => sum + run.width, 0) / 95;
+  if (!isGuard(runs, start, 3, moduleWidth) || !isGuard(runs, start + 27, 5, moduleWidth) || !isGuard(runs, start + 56, 3, moduleWidth)) {
+    return null;
+  }
+
+  let parity = '';
+  const digits: number[] = [];
+  for (let d = 0; d < 6; d++) {
+    const match = matchPattern(runs, start + 3 + d * 4, EAN_LEFT_RUNS, 7);
+    if (match < 0) return null;
+    parity += match < 10 ? 'L' : 'G';
+    digits.push(match % 10);
+  }
+  for (let d = 0; d < 6; d++) {
+    const r = matchPattern(runs, start + 32 + d * 4, EAN_L_RUNS, 7);
+    if (r < 0) return null;
+    digits.push(r);
+  }
+
+  const first = EAN_PARITY.indexOf(parity);
+  if (first < 0) return null;
+  const code = [first, ...digits].join('');
+  return getEan13CheckDigit(code.slice(0, 12)) === Number(code[12]) ? code : null;
+};
+
+const decodeCode128Values = (values: number[]): string => {
+  let set: 'A' | 'B' | 'C' = values[0] === 103 ? 'A' : values[0] === 104 ? 'B' : 'C';
+  let text = '';
+  values.slice(1).forEach(value => {
+    if (set === 'C' && value < 100) text += String(value).padStart(2, '0');
+    else if (set === 'B' && value < 96) text += String.fromCharCode(value + 32);
+    else if (set === 'A' && value < 64) text += String.fromCharCode(value + 32);
+    else if (set === 'A' && value < 96) text += String.fromCharCode(value - 64);
+    else if (value === 99) set = 'C';
+    else if (value === 100 && set !== 'B') set = 'B';
+    else if (value === 101 && set !== 'A') set = 'A';
+    // FNC and shift symbols are not used in product codes and are skipped
+  });
+  return text;
+};
+
+const decodeCode128At = (runs: Run[], start: number): string | null => {
+  const startValue = matchPattern(runs, start, CODE128_RUNS, 11);
+  if (startValue < 103 || startValue > 105) return null;
+
+  const values = [startValue];
+  for (let at = start + 6; ; at += 6) {
+    const value = matchPattern(runs, at, CODE128_RUNS, 11);
+    if (value < 0) return null;
+    if (value === CODE128_STOP) break;
+    values.push(value);
+  }
+  if (values.length < 3) return null;
+
+  const checksum = values.pop()!;
+  const expected = values.reduce((sum, value, i) => sum + value * (i === 0 ? 1 : i), 0) % 103;
+  return checksum === expected ? decodeCode128Values(values) : null;
+};
+
+const decodeRuns = (runs: Run[]): DecodedBarcode | null => {
+  for (let i = 0; i < runs.length; i++) {
+    if (!runs[i].dark) continue;
+    const ean = decodeEan13At(runs, i);
+    if (ean) return { text: ean, symbology: 'ean13' };
+    const code128 = decodeCode128At(runs, i);
+    if (code128) return { text: code128, symbology: 'code128' };
+  }
+  return null;
+};
+
+/**
+ * Reads a Code 128 or EAN-13 barcode from an image by sampling a few horizontal lines,
+ * in both directions so an upside-down label also works. Used when the browser has no
+ * native BarcodeDetector; it expects the barcode roughly horizontal and in focus.
+ */
+export const decodeBarcodeFromImage = (image: RgbaImage): DecodedBarcode | null => {
+  for (const fraction of SCAN_ROWS) {
+    const row = getLuminanceRow(image, Math.floor(image.height * fraction));
+    const result = decodeRuns(toRunList(row)) || decodeRuns(toRunList(row.reverse()));
+    if (result) return result;
+  }
+  return null;
+};
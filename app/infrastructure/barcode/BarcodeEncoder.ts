@@ -0,0 +1,62 @@
+import { getEan13CheckDigit, isValidEan13 } from '../../utils/ean13';
+
+export type BarcodeSymbology = 'code128' | 'ean13';
+
+// Bar/space widths of every Code 128 symbol, indexed by symbol value (103-105 start codes, 106 stop)
+export const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+export const CODE128_START_B = 104;
+export const CODE128_START_C = 105;
+export const CODE128_STOP = 106;
+
+export const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+export const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+export const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+// Left-half L/G parity, chosen by the first digit (which is not drawn as bars)
+export const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const widthsToModules = (widths: string): string =>
+  widths.split('').map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(width))).join('');
+
+export const canEncodeCode128 = (code: string): boolean => /^[\x20-\x7E]+$/.test(code);
+
+/**
+ * Code 128 as a string of modules ('1' bar, '0' space). All-digit codes of even length
+ * use set C, which packs two digits per symbol; anything else uses set B.
+ */
+export const encodeCode128 = (code: string): string => {
+  if (!canEncodeCode128(code)) throw new Error(`El código "${code}" tiene caracteres no válidos para Code 128`);
+
+  const useSetC = /^\d+$/.test(code) && code.length % 2 === 0;
+  const values = useSetC
+    ? [CODE128_START_C, ...(code.match(/\d{2}/g) || []).map(Number)]
+    : [CODE128_START_B, ...code.split('').map(char => char.charCodeAt(0) - 32)];
+
+  const checksum = values.reduce((sum, value, i) => sum + value * (i === 0 ? 1 : i), 0) % 103;
+  return [...values, checksum, CODE128_STOP].map(value => widthsToModules(CODE128_PATTERNS[value])).join('');
+};
+
+/**
+ * EAN-13 as a string of modules. Returns the full 13-digit code too, since a 12-digit input gets its check digit added.
+ */
+export const encodeEan13 = (code: string): { modules: string; text: string } => {
+  if (!isValidEan13(code)) throw new Error(`El código "${code}" no es un EAN-13 válido`);
+
+  const text = code.length === 12 ? code + getEan13CheckDigit(code) : code;
+  const digits = text.split('').map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, i) => (parity[i] === 'L' ? EAN_L : EAN_G)[digit]).join('');
+  const right = digits.slice(7).map(digit => EAN_R[digit]).join('');
+  return { modules: `101${left}01010${right}101`, text };
+};
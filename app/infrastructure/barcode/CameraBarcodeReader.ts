@@ -0,0 +1,53 @@
+import { decodeBarcodeFromImage } from './BarcodeDecoder';
+
+// BarcodeDetector is not in TypeScript's DOM lib yet (Chrome on Android, Safari 17+)
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<Array<{ rawValue: string }>>;
+}
+
+type NativeBarcodeDetectorConstructor = new (options: { formats: string[] }) => NativeBarcodeDetector;
+
+// Frames are scaled down before the JS decoder walks them pixel by pixel
+const MAX_FALLBACK_WIDTH = 800;
+
+/**
+ * Reads barcodes from video frames with the browser's BarcodeDetector when there is one,
+ * falling back to the JS decoder otherwise.
+ */
+export class CameraBarcodeReader {
+  private detector: NativeBarcodeDetector | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+
+  constructor() {
+    const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) return;
+    try {
+      this.detector = new Detector({ formats: ['code_128', 'ean_13'] });
+    } catch (error) {
+      console.warn('BarcodeDetector unavailable, using JS decoder:', error);
+    }
+  }
+
+  async read(video: HTMLVideoElement): Promise<string | null> {
+    if (!video.videoWidth || !video.videoHeight) return null;
+
+    if (this.detector) {
+      try {
+        const [barcode] = await this.detector.detect(video);
+        return barcode?.rawValue || null;
+      } catch (error) {
+        console.warn('BarcodeDetector failed, using JS decoder:', error);
+        this.detector = null;
+      }
+    }
+
+    this.canvas = this.canvas || document.createElement('canvas');
+    const scale = Math.min(1, MAX_FALLBACK_WIDTH / video.videoWidth);
+    this.canvas.width = Math.round(video.videoWidth * scale);
+    this.canvas.height = Math.round(video.videoHeight * scale);
+    const context = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(video, 0, 0, this.canvas.width, this.canvas.height);
+    return decodeBarcodeFromImage(context.getImageData(0, 0, this.canvas.width, this.canvas.height))?.text || null;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Saves CSV text as a file. The BOM makes Excel read the accents as UTF-8.
+ */
+export function downloadCsv(content: string, filename: string): void {
+  const blob = new Blob(['﻿' + content], { type: 'text/csv;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  window.document.body.appendChild(link);
+  link.click();
+  window.document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,125 @@
+import jsPDF from 'jspdf';
+import type { Product } from '../../domain/entities/Product';
+import { getVariantLabel } from '../../domain/services/ProductStyleService';
+import { encodeCode128, encodeEan13 } from '../barcode/BarcodeEncoder';
+import type { BarcodeSymbology } from '../barcode/BarcodeEncoder';
+
+export type LabelPreset = 'a4' | 'thermal';
+
+interface LabelLayout {
+  label: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginX: number;
+  marginY: number;
+}
+
+// All sizes in mm
+export const LABEL_PRESETS: Record<LabelPreset, LabelLayout> = {
+  a4: {
+    label: 'Hoja A4 (3 x 8 etiquetas de 70 x 37 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 8,
+    labelWidth: 70,
+    labelHeight: 37,
+    marginX: 0,
+    marginY: 0.5
+  },
+  thermal: {
+    label: 'Rollo térmico 50 x 25 mm',
+    pageWidth: 50,
+    pageHeight: 25,
+    columns: 1,
+    rows: 1,
+    labelWidth: 50,
+    labelHeight: 25,
+    marginX: 0,
+    marginY: 0
+  }
+};
+
+export interface LabelRequest {
+  product: Product;
+  copies: number;
+}
+
+const encodeProductId = (productId: string, symbology: BarcodeSymbology): { modules: string; text: string } =>
+  symbology === 'ean13' ? encodeEan13(productId) : { modules: encodeCode128(productId), text: productId };
+
+const drawLabel = (pdf: jsPDF, product: Product, symbology: BarcodeSymbology, x: number, y: number, layout: LabelLayout) => {
+  const { labelWidth: width, labelHeight: height } = layout;
+  // Offsets are designed for the 25 mm thermal label and scaled for taller ones
+  const scale = height / 25;
+  const padding = 2 * scale;
+  const innerWidth = width - padding * 2;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(7 * scale);
+  pdf.text(pdf.splitTextToSize(product.name, innerWidth)[0], x + padding, y + 4 * scale);
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(getVariantLabel(product), x + padding, y + 7.5 * scale);
+  pdf.setFont('helvetica', 'bold');
+  const price = `S/ ${product.price.toFixed(2)}`;
+  pdf.text(price, x + width - padding - pdf.getTextWidth(price), y + 7.5 * scale);
+
+  // Bars, centered and capped in width so short codes do not stretch too much
+  const { modules, text } = encodeProductId(product.productId, symbology);
+  const barTop = y + 9 * scale;
+  const barHeight = height - 9 * scale - 4.5 * scale;
+  const moduleWidth = Math.min(innerWidth / modules.length, 0.5);
+  let barX = x + (width - modules.length * moduleWidth) / 2;
+
+  pdf.setFillColor(0, 0, 0);
+  modules.match(/1+|0+/g)?.forEach(run => {
+    const runWidth = run.length * moduleWidth;
+    if (run[0] === '1') pdf.rect(barX, barTop, runWidth, barHeight, 'F');
+    barX += runWidth;
+  });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(6 * scale);
+  pdf.text(text, x + (width - pdf.getTextWidth(text)) / 2, y + height - 1.5 * scale);
+};
+
+/**
+ * One PDF with the requested copies of each product label, laid out for the chosen sheet or roll
+ */
+export const generateBarcodeLabelsPDF = (
+  labels: LabelRequest[],
+  preset: LabelPreset,
+  symbology: BarcodeSymbology
+): boolean => {
+  try {
+    const layout = LABEL_PRESETS[preset];
+    const pdf = new jsPDF({
+      orientation: layout.pageWidth > layout.pageHeight ? 'landscape' : 'portrait',
+      unit: 'mm',
+      format: [layout.pageWidth, layout.pageHeight]
+    });
+
+    const perPage = layout.columns * layout.rows;
+    const copies = labels.flatMap(({ product, copies }) => Array<Product>(copies).fill(product));
+
+    copies.forEach((product, index) => {
+      const slot = index % perPage;
+      if (index > 0 && slot === 0) pdf.addPage([layout.pageWidth, layout.pageHeight]);
+      const x = layout.marginX + (slot % layout.columns) * layout.labelWidth;
+      const y = layout.marginY + Math.floor(slot / layout.columns) * layout.labelHeight;
+      drawLabel(pdf, product, symbology, x, y, layout);
+    });
+
+    pdf.save(`etiquetas_${new Date().toISOString().slice(0, 10)}.pdf`);
+    return true;
+  } catch (error) {
+    console.error('Error generating labels PDF:', error);
+    alert('Error al generar las etiquetas');
+    return false;
+  }
+};
@@ -1,6 +1,14 @@
 import jsPDF from 'jspdf';
-import type { Sale } from '../../domain/entities/Sale';
+import type { Sale, PaymentMethod } from '../../domain/entities/Sale';
+import type { CreditNote } from '../../domain/entities/CreditNote';
+import type { CashSession, CashSessionSummary } from '../../domain/entities/CashSession';
 import type { StoreConfig } from '../../domain/entities/StoreConfig';
+import { getPaymentMethodLabel } from '../../domain/constants/PaymentMethods';
+import { getSaleTaxBreakdown, getTaxSettings, summarizeTax } from '../../domain/services/TaxCalculator';
+import { getSaleDiscountTotal } from '../../domain/services/DiscountCalculator';
+import { maskGiftCardCode } from '../../domain/services/GiftCardService';
+import { DOCUMENT_TYPE_LABELS, formatDocumentId, getSaleDocumentNumber } from '../../domain/services/DocumentSeriesService';
+import { getCreditNoteReasonLabel } from '../../domain/constants/CreditNoteReasons';
 
 // Función para formatear fecha de manera consistente y simple
 const formatSaleDate = (dateString: string): string => {
@@ -59,6 +67,20 @@ export const generateReceiptPDF = (sale: Sale, config: StoreConfig | null): bool
       yPosition += 6;
     }
 
+    // Receipt type and number
+    const documentNumber = getSaleDocumentNumber(sale);
+    const documentLabel = DOCUMENT_TYPE_LABELS[sale.documentType || '03'].toUpperCase();
+    if (documentNumber) {
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      const labelWidth = pdf.getTextWidth(documentLabel);
+      pdf.text(documentLabel, centerX - (labelWidth / 2), yPosition);
+      yPosition += 4;
+      const numberWidth = pdf.getTextWidth(documentNumber);
+      pdf.text(documentNumber, centerX - (numberWidth / 2), yPosition);
+      yPosition += 6;
+    }
+
     // Separator line
     pdf.setDrawColor(0, 0, 0);
     pdf.setLineWidth(0.2);
@@ -101,9 +123,34 @@ export const generateReceiptPDF = (sale: Sale, config: StoreConfig | null): bool
       
       pdf.text(productName, leftMargin, yPosition);
       pdf.text(item.quantity.toString(), leftMargin + 32, yPosition);
-      pdf.text(`${item.price.toFixed(2)}`, leftMargin + 42, yPosition);
+      pdf.text(`${(item.listPrice ?? item.price).toFixed(2)}`, leftMargin + 42, yPosition);
       pdf.text(`${item.subtotal.toFixed(2)}`, leftMargin + 57, yPosition);
       yPosition += 4;
+
+      if (item.promotionDiscount) {
+        pdf.text(pdf.splitTextToSize(`  Promo: ${item.promotionName || ''}`, 50)[0], leftMargin, yPosition);
+        pdf.text(`-${item.promotionDiscount.toFixed(2)}`, leftMargin + 57, yPosition);
+        yPosition += 4;
+      }
+
+      if (item.couponDiscount) {
+        pdf.text(`  Cupón ${sale.couponCode || ''}`, leftMargin, yPosition);
+        pdf.text(`-${item.couponDiscount.toFixed(2)}`, leftMargin + 57, yPosition);
+        yPosition += 4;
+      }
+
+      if (item.pointsDiscount) {
+        pdf.text('  Canje de puntos', leftMargin, yPosition);
+        pdf.text(`-${item.pointsDiscount.toFixed(2)}`, leftMargin + 57, yPosition);
+        yPosition += 4;
+      }
+
+      if (item.discount) {
+        const discountLabel = item.discountReason ? `  Desc. (${item.discountReason})` : '  Desc.';
+        pdf.text(pdf.splitTextToSize(discountLabel, 50)[0], leftMargin, yPosition);
+        pdf.text(`-${item.discount.toFixed(2)}`, leftMargin + 57, yPosition);
+        yPosition += 4;
+      }
     });
 
     yPosition += 2;
@@ -112,13 +159,83 @@ export const generateReceiptPDF = (sale: Sale, config: StoreConfig | null): bool
     pdf.line(leftMargin, yPosition, rightMargin, yPosition);
     yPosition += 5;
 
+    // Tax breakdown
+    const tax = getSaleTaxBreakdown(sale, getTaxSettings(config).igvRate);
+    const taxRows: Array<[string, number]> = [];
+    const discountTotal = getSaleDiscountTotal(sale);
+    if (discountTotal > 0) taxRows.push(['Descuentos', -discountTotal]);
+    taxRows.push(['Op. Gravada', tax.taxed]);
+    if (tax.exonerated > 0) taxRows.push(['Op. Exonerada', tax.exonerated]);
+    if (tax.unaffected > 0) taxRows.push(['Op. Inafecta', tax.unaffected]);
+    taxRows.push([`IGV (${Math.round(tax.igvRate * 100)}%)`, tax.igv]);
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    taxRows.forEach(([label, value]) => {
+      pdf.text(label, leftMargin, yPosition);
+      pdf.text(`S/ ${value.toFixed(2)}`, leftMargin + 55, yPosition);
+      yPosition += 4;
+    });
+    yPosition += 1;
+
     // Total
     pdf.setFont('helvetica', 'bold');
     pdf.setFontSize(10);
     const totalText = `TOTAL: S/ ${sale.total.toFixed(2)}`;
     const totalWidth = pdf.getTextWidth(totalText);
     pdf.text(totalText, centerX - (totalWidth / 2), yPosition);
-    yPosition += 8;
+    yPosition += 6;
+
+    // Payment breakdown
+    if (sale.payments && sale.payments.length > 0) {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(7);
+
+      sale.payments.forEach(payment => {
+        const reference = payment.method === 'gift_card' && payment.reference
+          ? maskGiftCardCode(payment.reference)
+          : payment.reference;
+        const label = reference
+          ? `${getPaymentMethodLabel(payment.method)} (${reference})`
+          : getPaymentMethodLabel(payment.method);
+        pdf.text(label, leftMargin, yPosition);
+        pdf.text(`S/ ${payment.amount.toFixed(2)}`, leftMargin + 55, yPosition);
+        yPosition += 4;
+
+        if (payment.balanceAfter != null) {
+          pdf.text('  Saldo restante de la tarjeta', leftMargin, yPosition);
+          pdf.text(`S/ ${payment.balanceAfter.toFixed(2)}`, leftMargin + 55, yPosition);
+          yPosition += 4;
+        }
+      });
+
+      if (sale.cashReceived) {
+        pdf.text('Efectivo recibido', leftMargin, yPosition);
+        pdf.text(`S/ ${sale.cashReceived.toFixed(2)}`, leftMargin + 55, yPosition);
+        yPosition += 4;
+      }
+      if (sale.change) {
+        pdf.text('Vuelto', leftMargin, yPosition);
+        pdf.text(`S/ ${sale.change.toFixed(2)}`, leftMargin + 55, yPosition);
+        yPosition += 4;
+      }
+    }
+
+    // Loyalty points of registered customers
+    if (sale.loyaltyPointsBalance != null) {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(7);
+      const pointRows: Array<[string, string]> = [];
+      if (sale.loyaltyPointsRedeemed) pointRows.push(['Puntos canjeados', `-${sale.loyaltyPointsRedeemed}`]);
+      if (sale.loyaltyPointsEarned) pointRows.push(['Puntos ganados', `+${sale.loyaltyPointsEarned}`]);
+      pointRows.push(['Saldo de puntos', String(sale.loyaltyPointsBalance)]);
+      pointRows.forEach(([label, value]) => {
+        pdf.text(label, leftMargin, yPosition);
+        pdf.text(value, leftMargin + 55, yPosition);
+        yPosition += 4;
+      });
+    }
+    yPosition += 2;
 
     // Thank you message
     pdf.setFontSize(7);
@@ -127,9 +244,10 @@ export const generateReceiptPDF = (sale: Sale, config: StoreConfig | null): bool
     const thanksWidth = pdf.getTextWidth(thanksText);
     pdf.text(thanksText, centerX - (thanksWidth / 2), yPosition);
 
-    // Generate filename and save
-    const now = new Date();
-    const fileName = `boleta_${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}_${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}.pdf`;
+    // Name the file after the receipt number so it is unique; unnumbered sales fall back to their id
+    const fileName = documentNumber
+      ? `${sale.documentType === '01' ? 'factura' : 'boleta'}_${documentNumber}.pdf`
+      : `venta_${sale.id}.pdf`;
     
     pdf.save(fileName);
     return true;
@@ -139,3 +257,259 @@ export const generateReceiptPDF = (sale: Sale, config: StoreConfig | null): bool
     return false;
   }
 };
+
+export const generateCreditNotePDF = (note: CreditNote, config: StoreConfig | null): boolean => {
+  try {
+    const pdf = new jsPDF({
+      orientation: 'portrait',
+      unit: 'mm',
+      format: [80, 297]
+    });
+
+    pdf.setFont('helvetica');
+    let yPosition = 8;
+    const leftMargin = 4;
+    const rightMargin = 76;
+    const centerX = 40;
+    const amountX = leftMargin + 55;
+
+    const centered = (text: string) => {
+      pdf.text(text, centerX - (pdf.getTextWidth(text) / 2), yPosition);
+    };
+
+    // Store header
+    if (config) {
+      pdf.setFontSize(12);
+      pdf.setFont('helvetica', 'bold');
+      centered(config.name);
+      yPosition += 6;
+
+      pdf.setFontSize(8);
+      pdf.setFont('helvetica', 'normal');
+      if (config.ruc) {
+        centered(`RUC: ${config.ruc}`);
+        yPosition += 4;
+      }
+      centered(config.address);
+      yPosition += 6;
+    }
+
+    // Note number and the receipt it corrects
+    const noteNumber = formatDocumentId(note.series, note.correlative);
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'bold');
+    centered('NOTA DE CRÉDITO ELECTRÓNICA');
+    yPosition += 4;
+    centered(noteNumber);
+    yPosition += 6;
+
+    pdf.setDrawColor(0, 0, 0);
+    pdf.setLineWidth(0.2);
+    pdf.line(leftMargin, yPosition, rightMargin, yPosition);
+    yPosition += 5;
+
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`Fecha: ${formatSaleDate(note.date)}`, leftMargin, yPosition);
+    yPosition += 4;
+    pdf.text(`Cliente: ${note.clientName || 'Cliente anónimo'}`, leftMargin, yPosition);
+    yPosition += 4;
+    pdf.text(`${note.referenceDocumentType === '01' ? 'RUC' : 'DNI'}: ${note.clientDni || 'No registrado'}`, leftMargin, yPosition);
+    yPosition += 4;
+    const referenceLabel = DOCUMENT_TYPE_LABELS[note.referenceDocumentType];
+    pdf.text(`Doc. que modifica: ${referenceLabel} ${formatDocumentId(note.referenceSeries, note.referenceCorrelative)}`, leftMargin, yPosition);
+    yPosition += 4;
+    pdf.text(`Motivo: ${note.reason} - ${getCreditNoteReasonLabel(note.reason)}`, leftMargin, yPosition);
+    yPosition += 4;
+    const descriptionLines = pdf.splitTextToSize(note.description, rightMargin - leftMargin);
+    pdf.text(descriptionLines, leftMargin, yPosition);
+    yPosition += descriptionLines.length * 3.5 + 2;
+
+    pdf.line(leftMargin, yPosition, rightMargin, yPosition);
+    yPosition += 5;
+
+    // Lines
+    pdf.setFontSize(7);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Producto', leftMargin, yPosition);
+    pdf.text('Cant', leftMargin + 40, yPosition);
+    pdf.text('Importe', amountX, yPosition);
+    yPosition += 4;
+
+    pdf.line(leftMargin, yPosition, rightMargin, yPosition);
+    yPosition += 4;
+
+    pdf.setFont('helvetica', 'normal');
+    note.lines.forEach(line => {
+      const productName = line.description.length > 24 ?
+        line.description.substring(0, 24) + '...' : line.description;
+      pdf.text(productName, leftMargin, yPosition);
+      pdf.text(line.quantity.toString(), leftMargin + 42, yPosition);
+      pdf.text(`${line.amount.toFixed(2)}`, amountX, yPosition);
+      yPosition += 4;
+    });
+    yPosition += 2;
+
+    pdf.line(leftMargin, yPosition, rightMargin, yPosition);
+    yPosition += 5;
+
+    // Tax breakdown
+    const tax = summarizeTax(note.lines.map(line => ({
+      taxAffectation: line.taxAffectation,
+      base: line.taxBase,
+      igv: line.igv,
+      total: line.amount
+    })), getTaxSettings(config).igvRate);
+    const taxRows: Array<[string, number]> = [['Op. Gravada', tax.taxed]];
+    if (tax.exonerated > 0) taxRows.push(['Op. Exonerada', tax.exonerated]);
+    if (tax.unaffected > 0) taxRows.push(['Op. Inafecta', tax.unaffected]);
+    taxRows.push([`IGV (${Math.round(tax.igvRate * 100)}%)`, tax.igv]);
+
+    taxRows.forEach(([label, value]) => {
+      pdf.text(label, leftMargin, yPosition);
+      pdf.text(`S/ ${value.toFixed(2)}`, amountX, yPosition);
+      yPosition += 4;
+    });
+    yPosition += 1;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10);
+    centered(`TOTAL: S/ ${note.total.toFixed(2)}`);
+
+    pdf.save(`nota_credito_${noteNumber}.pdf`);
+    return true;
+  } catch (error) {
+    console.error('Error generating credit note PDF:', error);
+    alert('Error al generar el PDF de la nota de crédito');
+    return false;
+  }
+};
+
+export const generateCashSessionReportPDF = (
+  session: CashSession,
+  summary: CashSessionSummary,
+  config: StoreConfig | null
+): boolean => {
+  try {
+    const pdf = new jsPDF({
+      orientation: 'portrait',
+      unit: 'mm',
+      format: [80, 297]
+    });
+
+    pdf.setFont('helvetica');
+    let yPosition = 8;
+    const leftMargin = 4;
+    const rightMargin = 76;
+    const centerX = 40;
+    const amountX = leftMargin + 52;
+
+    const centered = (text: string) => {
+      pdf.text(text, centerX - (pdf.getTextWidth(text) / 2), yPosition);
+    };
+
+    const row = (label: string, amount: number) => {
+      pdf.text(label, leftMargin, yPosition);
+      pdf.text(`S/ ${amount.toFixed(2)}`, amountX, yPosition);
+      yPosition += 4;
+    };
+
+    // Header
+    pdf.setFontSize(12);
+    pdf.setFont('helvetica', 'bold');
+    if (config) {
+      centered(config.name);
+      yPosition += 6;
+    }
+    pdf.setFontSize(10);
+    centered('CIERRE DE CAJA');
+    yPosition += 6;
+
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`Apertura: ${formatSaleDate(session.openedAt)}`, leftMargin, yPosition);
+    yPosition += 4;
+    pdf.text(`Cierre: ${session.closedAt ? formatSaleDate(session.closedAt) : 'En curso'}`, leftMargin, yPosition);
+    yPosition += 5;
+
+    pdf.setDrawColor(0, 0, 0);
+    pdf.setLineWidth(0.2);
+    pdf.line(leftMargin, yPosition, rightMargin, yPosition);
+    yPosition += 5;
+
+    // Sales by payment method
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`Ventas (${summary.salesCount})`, leftMargin, yPosition);
+    yPosition += 4;
+    pdf.setFont('helvetica', 'normal');
+    Object.entries(summary.totalsByMethod).forEach(([method, amount]) => {
+      row(getPaymentMethodLabel(method as PaymentMethod), amount || 0);
+    });
+    pdf.setFont('helvetica', 'bold');
+    row('Total ventas', summary.totalSales);
+    yPosition += 1;
+
+    pdf.line(leftMargin, yPosition, rightMargin, yPosition);
+    yPosition += 5;
+
+    // Cash movements
+    pdf.text('Movimientos de efectivo', leftMargin, yPosition);
+    yPosition += 4;
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    if (session.movements.length === 0) {
+      pdf.text('Sin movimientos', leftMargin, yPosition);
+      yPosition += 4;
+    }
+    session.movements.forEach(movement => {
+      const reason = movement.reason.length > 28 ? movement.reason.substring(0, 28) + '...' : movement.reason;
+      pdf.text(`${movement.type === 'in' ? '+' : '-'} ${reason}`, leftMargin, yPosition);
+      pdf.text(`S/ ${movement.amount.toFixed(2)}`, amountX, yPosition);
+      yPosition += 4;
+    });
+    yPosition += 1;
+    pdf.setFontSize(8);
+
+    pdf.line(leftMargin, yPosition, rightMargin, yPosition);
+    yPosition += 5;
+
+    // Cash reconciliation
+    row('Fondo inicial', summary.openingFloat);
+    row('(+) Ventas en efectivo', summary.cashSales);
+    row('(+) Ingresos', summary.cashIn);
+    row('(-) Egresos', summary.cashOut);
+    pdf.setFont('helvetica', 'bold');
+    row('Efectivo esperado', summary.expectedCash);
+    if (session.countedCash !== null) {
+      row('Efectivo contado', session.countedCash);
+      const difference = session.difference ?? session.countedCash - summary.expectedCash;
+      const label = difference > 0 ? 'Sobrante' : difference < 0 ? 'Faltante' : 'Diferencia';
+      row(label, Math.abs(difference));
+    }
+    pdf.setFont('helvetica', 'normal');
+
+    if (session.notes) {
+      yPosition += 2;
+      pdf.setFontSize(7);
+      const noteLines = pdf.splitTextToSize(`Notas: ${session.notes}`, rightMargin - leftMargin);
+      pdf.text(noteLines, leftMargin, yPosition);
+      yPosition += noteLines.length * 3.5;
+    }
+
+    yPosition += 12;
+    pdf.setFontSize(7);
+    pdf.line(leftMargin + 14, yPosition, rightMargin - 14, yPosition);
+    yPosition += 4;
+    centered('Firma del cajero');
+
+    const opened = new Date(session.openedAt);
+    const fileName = `cierre_caja_${opened.getFullYear()}${String(opened.getMonth() + 1).padStart(2, '0')}${String(opened.getDate()).padStart(2, '0')}_${String(opened.getHours()).padStart(2, '0')}${String(opened.getMinutes()).padStart(2, '0')}.pdf`;
+
+    pdf.save(fileName);
+    return true;
+  } catch (error) {
+    console.error('Error generating cash session PDF:', error);
+    alert('Error al generar el reporte de cierre');
+    return false;
+  }
+};
@@ -0,0 +1,48 @@
+import type { ParkedCart, CartSnapshot } from '../../domain/entities/ParkedCart';
+import type { ParkedCartRepository } from '../../domain/repositories/ParkedCartRepository';
+
+const PARKED_KEY = 'sicua.parkedCarts';
+const DRAFT_KEY = 'sicua.currentCart';
+
+// Carts are kept in the browser: they belong to this till, not to the store's records
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (error) {
+    console.warn(`ParkedCartStorageAdapter: could not read ${key}, ignoring it:`, error);
+    return fallback;
+  }
+};
+
+const write = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    throw new Error('No se pudo guardar el carrito en este navegador');
+  }
+};
+
+export class ParkedCartStorageAdapter implements ParkedCartRepository {
+  async getAll(): Promise<ParkedCart[]> {
+    return read<ParkedCart[]>(PARKED_KEY, []);
+  }
+
+  async save(cart: ParkedCart): Promise<void> {
+    const carts = read<ParkedCart[]>(PARKED_KEY, []).filter(c => c.id !== cart.id);
+    write(PARKED_KEY, [...carts, cart]);
+  }
+
+  async delete(cartId: string): Promise<void> {
+    write(PARKED_KEY, read<ParkedCart[]>(PARKED_KEY, []).filter(c => c.id !== cartId));
+  }
+
+  async getDraft(): Promise<CartSnapshot | null> {
+    return read<CartSnapshot | null>(DRAFT_KEY, null);
+  }
+
+  async saveDraft(cart: CartSnapshot | null): Promise<void> {
+    if (cart) write(DRAFT_KEY, cart);
+    else localStorage.removeItem(DRAFT_KEY);
+  }
+}
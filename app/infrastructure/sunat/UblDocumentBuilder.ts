@@ -0,0 +1,205 @@
+import type {
+  ElectronicInvoiceData,
+  ElectronicDocumentLine,
+  TaxAffectationCode
+} from '../../domain/entities/ElectronicDocument';
+import type { ElectronicDocumentBuilder } from '../../domain/services/ElectronicDocumentBuilder';
+import { formatDocumentId } from '../../domain/services/DocumentSeriesService';
+
+/**
+ * UBL 2.1 XML builder for SUNAT electronic receipts
+ *
+ * Produces unsigned documents following the SUNAT UBL 2.1 guides
+ * (CustomizationID 2.0). The empty ext:ExtensionContent is where the
+ * OSE/PSE places the XML digital signature.
+ *
+ * @see https://cpe.sunat.gob.pe/node/88 for the published XSDs and catalogs
+ */
+
+const NAMESPACES = [
+  'xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+  'xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"',
+  'xmlns:ds="http://www.w3.org/2000/09/xmldsig#"',
+  'xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"'
+].join(' ');
+
+// SUNAT catálogo 05: tax scheme per affectation type
+const TAX_SCHEMES: Record<TaxAffectationCode, { id: string; name: string; typeCode: string }> = {
+  '10': { id: '1000', name: 'IGV', typeCode: 'VAT' },
+  '20': { id: '9997', name: 'EXO', typeCode: 'VAT' },
+  '30': { id: '9998', name: 'INA', typeCode: 'FRE' }
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Free text goes in CDATA; a "]]>" inside it is split across two sections so it cannot close the first one early
+const cdata = (value: string): string =>
+  `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const amount = (value: number): string => value.toFixed(2);
+
+// Unit values keep more precision so that quantity * value matches the line amount
+const unitAmount = (value: number): string => Number(value.toFixed(10)).toString();
+
+export class UblDocumentBuilder implements ElectronicDocumentBuilder {
+  buildInvoice(data: ElectronicInvoiceData): string {
+    const currency = data.currency;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" ${NAMESPACES}>`,
+      this.extensions(),
+      '<cbc:UBLVersionID>2.1</cbc:UBLVersionID>',
+      '<cbc:CustomizationID schemeAgencyName="PE:SUNAT">2.0</cbc:CustomizationID>',
+      `<cbc:ID>${formatDocumentId(data.series, data.correlative)}</cbc:ID>`,
+      `<cbc:IssueDate>${data.issueDate}</cbc:IssueDate>`,
+      `<cbc:IssueTime>${data.issueTime}</cbc:IssueTime>`,
+      `<cbc:InvoiceTypeCode listID="0101" listAgencyName="PE:SUNAT" listName="Tipo de Documento" listURI="urn:pe:gob:sunat:cpe:see:gem:catalogos:catalogo01" name="Tipo de Operacion" listSchemeURI="urn:pe:gob:sunat:cpe:see:gem:catalogos:catalogo51">${data.documentType}</cbc:InvoiceTypeCode>`,
+      `<cbc:Note languageLocaleID="1000">${cdata(data.amountInWords)}</cbc:Note>`,
+      `<cbc:DocumentCurrencyCode listID="ISO 4217 Alpha" listName="Currency" listAgencyName="United Nations Economic Commission for Europe">${currency}</cbc:DocumentCurrencyCode>`,
+      `<cbc:LineCountNumeric>${data.lines.length}</cbc:LineCountNumeric>`,
+      this.signature(data),
+      this.supplierParty(data),
+      this.customerParty(data),
+      data.documentType === '01' ? this.paymentTerms() : '',
+      this.taxTotal(data.totals, currency),
+      this.monetaryTotal(data, currency),
+      ...data.lines.map((line, idx) => this.invoiceLine(line, idx + 1, data.igvRate, currency)),
+      '</Invoice>'
+    ].filter(Boolean).join('\n');
+  }
+
+  protected extensions(): string {
+    return '<ext:UBLExtensions><ext:UBLExtension><ext:ExtensionContent/></ext:UBLExtension></ext:UBLExtensions>';
+  }
+
+  protected signature(data: ElectronicInvoiceData): string {
+    return [
+      '<cac:Signature>',
+      `<cbc:ID>${data.issuer.ruc}</cbc:ID>`,
+      '<cac:SignatoryParty>',
+      `<cac:PartyIdentification><cbc:ID>${data.issuer.ruc}</cbc:ID></cac:PartyIdentification>`,
+      `<cac:PartyName><cbc:Name>${cdata(data.issuer.legalName)}</cbc:Name></cac:PartyName>`,
+      '</cac:SignatoryParty>',
+      '<cac:DigitalSignatureAttachment><cac:ExternalReference><cbc:URI>#SignatureSP</cbc:URI></cac:ExternalReference></cac:DigitalSignatureAttachment>',
+      '</cac:Signature>'
+    ].join('');
+  }
+
+  protected supplierParty(data: ElectronicInvoiceData): string {
+    const { issuer } = data;
+    return [
+      '<cac:AccountingSupplierParty><cac:Party>',
+      `<cac:PartyIdentification><cbc:ID schemeID="6" schemeName="Documento de Identidad" schemeAgencyName="PE:SUNAT" schemeURI="urn:pe:gob:sunat:cpe:see:gem:catalogos:catalogo06">${issuer.ruc}</cbc:ID></cac:PartyIdentification>`,
+      `<cac:PartyName><cbc:Name>${cdata(issuer.tradeName)}</cbc:Name></cac:PartyName>`,
+      '<cac:PartyLegalEntity>',
+      `<cbc:RegistrationName>${cdata(issuer.legalName)}</cbc:RegistrationName>`,
+      '<cac:RegistrationAddress>',
+      `<cbc:ID schemeName="Ubigeos" schemeAgencyName="PE:INEI">${issuer.ubigeo}</cbc:ID>`,
+      '<cbc:AddressTypeCode listAgencyName="PE:SUNAT" listName="Establecimientos anexos">0000</cbc:AddressTypeCode>',
+      `<cac:AddressLine><cbc:Line>${cdata(issuer.address)}</cbc:Line></cac:AddressLine>`,
+      '<cac:Country><cbc:IdentificationCode listID="ISO 3166-1" listAgencyName="United Nations Economic Commission for Europe" listName="Country">PE</cbc:IdentificationCode></cac:Country>',
+      '</cac:RegistrationAddress>',
+      '</cac:PartyLegalEntity>',
+      '</cac:Party></cac:AccountingSupplierParty>'
+    ].join('');
+  }
+
+  protected customerParty(data: ElectronicInvoiceData): string {
+    const { customer } = data;
+    return [
+      '<cac:AccountingCustomerParty><cac:Party>',
+      `<cac:PartyIdentification><cbc:ID schemeID="${customer.documentType}" schemeName="Documento de Identidad" schemeAgencyName="PE:SUNAT" schemeURI="urn:pe:gob:sunat:cpe:see:gem:catalogos:catalogo06">${escapeXml(customer.documentNumber)}</cbc:ID></cac:PartyIdentification>`,
+      `<cac:PartyLegalEntity><cbc:RegistrationName>${cdata(customer.name)}</cbc:RegistrationName></cac:PartyLegalEntity>`,
+      '</cac:Party></cac:AccountingCustomerParty>'
+    ].join('');
+  }
+
+  protected paymentTerms(): string {
+    return '<cac:PaymentTerms><cbc:ID>FormaPago</cbc:ID><cbc:PaymentMeansID>Contado</cbc:PaymentMeansID></cac:PaymentTerms>';
+  }
+
+  protected taxScheme(code: TaxAffectationCode): string {
+    const scheme = TAX_SCHEMES[code];
+    return `<cac:TaxScheme><cbc:ID schemeName="Codigo de tributos" schemeAgencyName="PE:SUNAT" schemeURI="urn:pe:gob:sunat:cpe:see:gem:catalogos:catalogo05">${scheme.id}</cbc:ID><cbc:Name>${scheme.name}</cbc:Name><cbc:TaxTypeCode>${scheme.typeCode}</cbc:TaxTypeCode></cac:TaxScheme>`;
+  }
+
+  protected taxSubtotal(code: TaxAffectationCode, taxable: number, tax: number, currency: string): string {
+    return [
+      '<cac:TaxSubtotal>',
+      `<cbc:TaxableAmount currencyID="${currency}">${amount(taxable)}</cbc:TaxableAmount>`,
+      `<cbc:TaxAmount currencyID="${currency}">${amount(tax)}</cbc:TaxAmount>`,
+      `<cac:TaxCategory>${this.taxScheme(code)}</cac:TaxCategory>`,
+      '</cac:TaxSubtotal>'
+    ].join('');
+  }
+
+  protected taxTotal(totals: ElectronicInvoiceData['totals'], currency: string): string {
+    const subtotals = [
+      totals.taxed > 0 || (totals.exonerated === 0 && totals.unaffected === 0)
+        ? this.taxSubtotal('10', totals.taxed, totals.igv, currency)
+        : '',
+      totals.exonerated > 0 ? this.taxSubtotal('20', totals.exonerated, 0, currency) : '',
+      totals.unaffected > 0 ? this.taxSubtotal('30', totals.unaffected, 0, currency) : ''
+    ];
+
+    return [
+      '<cac:TaxTotal>',
+      `<cbc:TaxAmount currencyID="${currency}">${amount(totals.igv)}</cbc:TaxAmount>`,
+      ...subtotals,
+      '</cac:TaxTotal>'
+    ].join('');
+  }
+
+  protected monetaryTotal(data: ElectronicInvoiceData, currency: string, tag: string = 'LegalMonetaryTotal'): string {
+    const lineExtension = data.totals.taxed + data.totals.exonerated + data.totals.unaffected;
+    return [
+      `<cac:${tag}>`,
+      `<cbc:LineExtensionAmount currencyID="${currency}">${amount(lineExtension)}</cbc:LineExtensionAmount>`,
+      `<cbc:TaxInclusiveAmount currencyID="${currency}">${amount(data.totals.total)}</cbc:TaxInclusiveAmount>`,
+      `<cbc:PayableAmount currencyID="${currency}">${amount(data.totals.total)}</cbc:PayableAmount>`,
+      `</cac:${tag}>`
+    ].join('');
+  }
+
+  protected lineBody(line: ElectronicDocumentLine, igvRate: number, currency: string): string {
+    const percent = line.taxAffectation === '10' ? igvRate * 100 : 0;
+    return [
+      `<cbc:LineExtensionAmount currencyID="${currency}">${amount(line.taxableAmount)}</cbc:LineExtensionAmount>`,
+      '<cac:PricingReference><cac:AlternativeConditionPrice>',
+      `<cbc:PriceAmount currencyID="${currency}">${unitAmount(line.unitPrice)}</cbc:PriceAmount>`,
+      '<cbc:PriceTypeCode listName="Tipo de Precio" listAgencyName="PE:SUNAT" listURI="urn:pe:gob:sunat:cpe:see:gem:catalogos:catalogo16">01</cbc:PriceTypeCode>',
+      '</cac:AlternativeConditionPrice></cac:PricingReference>',
+      '<cac:TaxTotal>',
+      `<cbc:TaxAmount currencyID="${currency}">${amount(line.igv)}</cbc:TaxAmount>`,
+      '<cac:TaxSubtotal>',
+      `<cbc:TaxableAmount currencyID="${currency}">${amount(line.taxableAmount)}</cbc:TaxableAmount>`,
+      `<cbc:TaxAmount currencyID="${currency}">${amount(line.igv)}</cbc:TaxAmount>`,
+      '<cac:TaxCategory>',
+      `<cbc:Percent>${percent}</cbc:Percent>`,
+      `<cbc:TaxExemptionReasonCode listAgencyName="PE:SUNAT" listName="Afectacion del IGV" listURI="urn:pe:gob:sunat:cpe:see:gem:catalogos:catalogo07">${line.taxAffectation}</cbc:TaxExemptionReasonCode>`,
+      this.taxScheme(line.taxAffectation),
+      '</cac:TaxCategory>',
+      '</cac:TaxSubtotal>',
+      '</cac:TaxTotal>',
+      `<cac:Item><cbc:Description>${cdata(line.description)}</cbc:Description><cac:SellersItemIdentification><cbc:ID>${escapeXml(line.code)}</cbc:ID></cac:SellersItemIdentification></cac:Item>`,
+      `<cac:Price><cbc:PriceAmount currencyID="${currency}">${unitAmount(line.unitValue)}</cbc:PriceAmount></cac:Price>`
+    ].join('');
+  }
+
+  protected invoiceLine(line: ElectronicDocumentLine, index: number, igvRate: number, currency: string): string {
+    return [
+      '<cac:InvoiceLine>',
+      `<cbc:ID>${index}</cbc:ID>`,
+      `<cbc:InvoicedQuantity unitCode="NIU" unitCodeListID="UN/ECE rec 20" unitCodeListAgencyName="United Nations Economic Commission for Europe">${line.quantity}</cbc:InvoicedQuantity>`,
+      this.lineBody(line, igvRate, currency),
+      '</cac:InvoiceLine>'
+    ].join('');
+  }
+}
@@ -0,0 +1,21 @@
+import type { ElectronicDocument } from '../../domain/entities/ElectronicDocument';
+import { formatDocumentId } from '../../domain/services/DocumentSeriesService';
+
+/**
+ * Filename expected by SUNAT and most OSE/PSE: {RUC}-{type}-{series}-{correlative}.xml
+ */
+export function getElectronicDocumentFilename(document: ElectronicDocument, ruc: string): string {
+  return `${ruc}-${document.documentType}-${formatDocumentId(document.series, document.correlative)}.xml`;
+}
+
+export function downloadElectronicDocumentXml(document: ElectronicDocument, ruc: string): void {
+  const blob = new Blob([document.xml], { type: 'application/xml;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = getElectronicDocumentFilename(document, ruc);
+  window.document.body.appendChild(link);
+  link.click();
+  window.document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
@@ -3,7 +3,13 @@ import { useAppContext } from '../context/AppContext';
 import { Button } from '../components/UI/Button';
 import { Input } from '../components/UI/Input';
 import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { DocumentSeriesManagement } from '../components/DocumentSeries/DocumentSeriesManagement';
+import { DEFAULT_IGV_RATE } from '../domain/services/TaxCalculator';
+import { DEFAULT_MAX_DISCOUNT_PERCENT } from '../domain/services/DiscountCalculator';
+import { DEFAULT_LOYALTY_SETTINGS, getLoyaltySettings, validateLoyaltySettings } from '../domain/services/LoyaltyService';
+import { USER_ROLES } from '../domain/constants/UserRoles';
 import type { StoreConfig } from '../domain/entities/StoreConfig';
+import type { UserRole } from '../domain/entities/User';
 
 interface ConfigPageProps {
   onConfigured?: () => void;
@@ -14,7 +20,23 @@ export function ConfigPage({ onConfigured }: ConfigPageProps) {
     name: '',
     address: '',
     email: '',
-    phone: ''
+    phone: '',
+    ruc: '',
+    legalName: '',
+    ubigeo: '',
+    pricesIncludeTax: true,
+    igvRate: DEFAULT_IGV_RATE
+  });
+  const [igvPercent, setIgvPercent] = useState('18');
+  const [discountLimits, setDiscountLimits] = useState<Record<UserRole, string>>({
+    owner: String(DEFAULT_MAX_DISCOUNT_PERCENT.owner),
+    cashier: String(DEFAULT_MAX_DISCOUNT_PERCENT.cashier)
+  });
+  const [loyaltyEnabled, setLoyaltyEnabled] = useState(DEFAULT_LOYALTY_SETTINGS.enabled);
+  const [loyaltyFields, setLoyaltyFields] = useState({
+    pointsPerSol: String(DEFAULT_LOYALTY_SETTINGS.pointsPerSol),
+    pointValue: String(DEFAULT_LOYALTY_SETTINGS.pointValue),
+    expiryMonths: String(DEFAULT_LOYALTY_SETTINGS.expiryMonths ?? '')
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -30,7 +52,26 @@ export function ConfigPage({ onConfigured }: ConfigPageProps) {
     try {
       const existingConfig = await configRepo.get();
       if (existingConfig) {
-        setFormData(existingConfig);
+        setFormData({
+          ...existingConfig,
+          ruc: existingConfig.ruc || '',
+          legalName: existingConfig.legalName || '',
+          ubigeo: existingConfig.ubigeo || '',
+          pricesIncludeTax: existingConfig.pricesIncludeTax ?? true,
+          igvRate: existingConfig.igvRate ?? DEFAULT_IGV_RATE
+        });
+        setIgvPercent(String(Math.round((existingConfig.igvRate ?? DEFAULT_IGV_RATE) * 10000) / 100));
+        setDiscountLimits({
+          owner: String(existingConfig.maxDiscountPercent?.owner ?? DEFAULT_MAX_DISCOUNT_PERCENT.owner),
+          cashier: String(existingConfig.maxDiscountPercent?.cashier ?? DEFAULT_MAX_DISCOUNT_PERCENT.cashier)
+        });
+        const loyalty = getLoyaltySettings(existingConfig);
+        setLoyaltyEnabled(loyalty.enabled);
+        setLoyaltyFields({
+          pointsPerSol: String(loyalty.pointsPerSol),
+          pointValue: String(loyalty.pointValue),
+          expiryMonths: loyalty.expiryMonths != null ? String(loyalty.expiryMonths) : ''
+        });
       }
     } catch (error) {
       console.error('Error cargando configuración:', error);
@@ -74,7 +115,38 @@ export function ConfigPage({ onConfigured }: ConfigPageProps) {
         throw new Error('El correo electrónico no es válido');
       }
 
-      await configRepo.update(formData);
+      // Tax data is optional, but must be well formed to issue electronic receipts
+      if (formData.ruc && !/^\d{11}$/.test(formData.ruc)) {
+        throw new Error('El RUC debe tener 11 dígitos');
+      }
+      if (formData.ubigeo && !/^\d{6}$/.test(formData.ubigeo)) {
+        throw new Error('El ubigeo debe tener 6 dígitos');
+      }
+
+      const igvRate = parseFloat(igvPercent);
+      if (isNaN(igvRate) || igvRate < 0 || igvRate >= 100) {
+        throw new Error('La tasa de IGV no es válida');
+      }
+
+      const maxDiscountPercent = {} as Record<UserRole, number>;
+      for (const role of USER_ROLES) {
+        const limit = parseFloat(discountLimits[role.value]);
+        if (isNaN(limit) || limit < 0 || limit > 100) {
+          throw new Error(`El descuento máximo para ${role.label} debe estar entre 0 y 100%`);
+        }
+        maxDiscountPercent[role.value] = limit;
+      }
+
+      const loyalty = {
+        enabled: loyaltyEnabled,
+        pointsPerSol: parseFloat(loyaltyFields.pointsPerSol),
+        pointValue: parseFloat(loyaltyFields.pointValue),
+        expiryMonths: loyaltyFields.expiryMonths.trim() ? parseInt(loyaltyFields.expiryMonths) : null
+      };
+      const loyaltyError = validateLoyaltySettings(loyalty);
+      if (loyaltyError) throw new Error(loyaltyError);
+
+      await configRepo.update({ ...formData, igvRate: igvRate / 100, maxDiscountPercent, loyalty });
       
       // If there's a configuration callback, execute it
       if (onConfigured) {
@@ -162,6 +234,135 @@ export function ConfigPage({ onConfigured }: ConfigPageProps) {
               />
             </div>
 
+            {/* Tax Data (SUNAT) */}
+            <div className="border-t border-gray-700 pt-4 md:pt-6">
+              <h3 className="text-base md:text-lg font-semibold text-white mb-1">
+                Datos tributarios (SUNAT)
+              </h3>
+              <p className="text-sm text-gray-400 mb-4">
+                Necesarios para emitir boletas y facturas electrónicas.
+              </p>
+              <div className="space-y-4 md:space-y-6">
+                <Input
+                  label="RUC"
+                  value={formData.ruc || ''}
+                  onChange={(e) => handleInputChange('ruc', e.target.value.replace(/\D/g, ''))}
+                  placeholder="Ej: 20123456789"
+                  maxLength={11}
+                  helperText="RUC de 11 dígitos del emisor"
+                />
+                <Input
+                  label="Razón Social"
+                  value={formData.legalName || ''}
+                  onChange={(e) => handleInputChange('legalName', e.target.value)}
+                  placeholder="Ej: MI TIENDA DE ROPA S.A.C."
+                  helperText="Tal como figura en la ficha RUC"
+                />
+                <Input
+                  label="Ubigeo"
+                  value={formData.ubigeo || ''}
+                  onChange={(e) => handleInputChange('ubigeo', e.target.value.replace(/\D/g, ''))}
+                  placeholder="Ej: 150101"
+                  maxLength={6}
+                  helperText="Código INEI del distrito del domicilio fiscal"
+                />
+                <Input
+                  label="Tasa de IGV (%)"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={igvPercent}
+                  onChange={(e) => setIgvPercent(e.target.value)}
+                  helperText="Tasa vigente del IGV (incluye IPM)"
+                />
+                <label className="flex items-start gap-3 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.pricesIncludeTax ?? true}
+                    onChange={(e) => setFormData(prev => ({ ...prev, pricesIncludeTax: e.target.checked }))}
+                    className="mt-1 h-4 w-4 rounded border-gray-600 bg-gray-700"
+                  />
+                  <span>
+                    Los precios de venta incluyen IGV
+                    <span className="block text-xs text-gray-400">
+                      Desmarque si sus precios son valor venta y el IGV debe sumarse al cobrar
+                    </span>
+                  </span>
+                </label>
+              </div>
+            </div>
+
+            {/* Discount limits */}
+            <div className="border-t border-gray-700 pt-4 md:pt-6">
+              <h3 className="text-base md:text-lg font-semibold text-white mb-1">
+                Descuentos máximos
+              </h3>
+              <p className="text-sm text-gray-400 mb-4">
+                Descuento que cada rol puede dar sin autorización. Por encima de este límite la venta requiere las credenciales de un usuario con límite suficiente.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+                {USER_ROLES.map(role => (
+                  <Input
+                    key={role.value}
+                    label={`${role.label} (%)`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={discountLimits[role.value]}
+                    onChange={(e) => setDiscountLimits(prev => ({ ...prev, [role.value]: e.target.value }))}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {/* Loyalty program */}
+            <div className="border-t border-gray-700 pt-4 md:pt-6">
+              <h3 className="text-base md:text-lg font-semibold text-white mb-1">
+                Programa de puntos
+              </h3>
+              <p className="text-sm text-gray-400 mb-4">
+                Los clientes registrados acumulan puntos por cada compra y los canjean como descuento o como pago. Las devoluciones descuentan los puntos ganados.
+              </p>
+              <label className="flex items-center gap-3 text-sm text-gray-300 mb-4">
+                <input
+                  type="checkbox"
+                  checked={loyaltyEnabled}
+                  onChange={(e) => setLoyaltyEnabled(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-600"
+                />
+                Activar programa de puntos
+              </label>
+              {loyaltyEnabled && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 md:gap-6">
+                  <Input
+                    label="Puntos por cada S/ 1"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={loyaltyFields.pointsPerSol}
+                    onChange={(e) => setLoyaltyFields(prev => ({ ...prev, pointsPerSol: e.target.value }))}
+                  />
+                  <Input
+                    label="Valor de cada punto (S/)"
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={loyaltyFields.pointValue}
+                    onChange={(e) => setLoyaltyFields(prev => ({ ...prev, pointValue: e.target.value }))}
+                  />
+                  <Input
+                    label="Vencimiento (meses)"
+                    type="number"
+                    min="1"
+                    value={loyaltyFields.expiryMonths}
+                    onChange={(e) => setLoyaltyFields(prev => ({ ...prev, expiryMonths: e.target.value }))}
+                    helperText="Vacío: los puntos no vencen"
+                  />
+                </div>
+              )}
+            </div>
+
             {/* Error Message */}
             {error && (
               <div className="rounded-lg bg-red-50 border border-red-200 p-4">
@@ -212,6 +413,11 @@ export function ConfigPage({ onConfigured }: ConfigPageProps) {
           </form>
         </div>
 
+        {/* Receipt Series */}
+        <div className="mt-6 md:mt-8">
+          <DocumentSeriesManagement />
+        </div>
+
         {/* Preview Section */}
         {formData.name && (
           <div className="mt-6 md:mt-8 bg-gray-700 rounded-lg p-4 md:p-6">
@@ -225,6 +431,7 @@ export function ConfigPage({ onConfigured }: ConfigPageProps) {
                 </h4>
                 <div className="text-xs md:text-sm text-gray-400 space-y-1">
                   <div className="font-semibold truncate">{formData.name}</div>
+                  {formData.ruc && <div className="truncate">RUC: {formData.ruc}</div>}
                   <div className="truncate">{formData.address}</div>
                   <div className="truncate">{formData.email} | {formData.phone}</div>
                 </div>
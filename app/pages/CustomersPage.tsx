@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Button } from '../components/UI/Button';
+import { Input } from '../components/UI/Input';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { CustomerForm } from '../components/Customer/CustomerForm';
+import { CustomerDetail } from '../components/Customer/CustomerDetail';
+import type { Customer, CreateCustomerRequest } from '../domain/entities/Customer';
+
+export function CustomersPage() {
+  const { customerService } = useAppContext();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setCustomers(await customerService.getAllCustomers());
+    } catch (err) {
+      console.error('Error loading customers:', err);
+      setError('Error al cargar los clientes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerService]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const openForm = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    setShowForm(true);
+  };
+
+  const handleSave = async (request: CreateCustomerRequest) => {
+    const saved = await customerService.saveCustomer(request, editingCustomer?.id);
+    setShowForm(false);
+    if (selectedCustomer?.id === saved.id) setSelectedCustomer(saved);
+    await loadData();
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (!window.confirm(`¿Eliminar a ${customer.name} del directorio? Sus ventas se conservan.`)) return;
+    try {
+      await customerService.deleteCustomer(customer.id);
+      await loadData();
+    } catch (err: any) {
+      alert(err.message || 'Error al eliminar el cliente');
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredCustomers = term
+    ? customers.filter(c =>
+        c.name.toLowerCase().includes(term) ||
+        c.documentNumber.includes(term) ||
+        (c.phone || '').includes(term))
+    : customers;
+
+  if (isLoading && !customers.length) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <LoadingSpinner size="lg" text="Cargando clientes..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {selectedCustomer ? (
+        <CustomerDetail
+          customer={selectedCustomer}
+          onBack={() => setSelectedCustomer(null)}
+          onEdit={openForm}
+        />
+      ) : (
+        <>
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Clientes</h1>
+              <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+                Directorio de clientes e historial de compras
+              </p>
+            </div>
+            <Button onClick={() => openForm(null)}>
+              Nuevo Cliente
+            </Button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <Input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Buscar por nombre, DNI/RUC o teléfono..."
+          />
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+            {filteredCustomers.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                {customers.length ? 'Ningún cliente coincide con la búsqueda.' : 'Aún no hay clientes registrados.'}
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {filteredCustomers.map(customer => (
+                  <div key={customer.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+                    <button onClick={() => setSelectedCustomer(customer)} className="text-left text-sm">
+                      <div className="font-semibold text-gray-900 dark:text-white hover:underline">{customer.name}</div>
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {customer.documentNumber}
+                        {customer.phone && ` · Tel. ${customer.phone}`}
+                        {customer.email && ` · ${customer.email}`}
+                      </div>
+                    </button>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="secondary" onClick={() => setSelectedCustomer(customer)}>
+                        Ver compras
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openForm(customer)}>
+                        Editar
+                      </Button>
+                      <Button size="sm" variant="danger" onClick={() => handleDelete(customer)}>
+                        Eliminar
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <CustomerForm
+        isOpen={showForm}
+        customer={editingCustomer}
+        onClose={() => setShowForm(false)}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { GiftCardManagement } from '../components/GiftCard/GiftCardManagement';
+import { CouponManagement } from '../components/GiftCard/CouponManagement';
+import type { GiftCard } from '../domain/entities/GiftCard';
+import type { Coupon } from '../domain/entities/Coupon';
+
+export function GiftCardsPage() {
+  const { giftCardService, couponService } = useAppContext();
+  const [activeTab, setActiveTab] = useState<'giftcards' | 'coupons'>('giftcards');
+  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadCards = useCallback(async () => {
+    setCards(await giftCardService.getAllCards());
+  }, [giftCardService]);
+
+  const loadCoupons = useCallback(async () => {
+    setCoupons(await couponService.getAllCoupons());
+  }, [couponService]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      await Promise.all([loadCards(), loadCoupons()]);
+    } catch (err) {
+      console.error('Error loading gift cards and coupons:', err);
+      setError('Error al cargar las tarjetas y cupones');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadCards, loadCoupons]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <LoadingSpinner size="lg" text="Cargando tarjetas y cupones..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Cupones y Tarjetas de Regalo</h1>
+        <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+          Los cupones se aplican en la venta y las tarjetas se aceptan como medio de pago
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        {([['giftcards', 'Tarjetas de regalo'], ['coupons', 'Cupones']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setActiveTab(key)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              activeTab === key
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 hover:text-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {activeTab === 'coupons' ? (
+        <CouponManagement coupons={coupons} onChange={loadCoupons} />
+      ) : (
+        <GiftCardManagement cards={cards} onChange={loadCards} />
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,78 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { generateReceiptPDF } from '../infrastructure/printing/PrintAdapter';
+import { generateCreditNotePDF, generateReceiptPDF } from '../infrastructure/printing/PrintAdapter';
 import { Button } from '../components/UI/Button';
 import { Modal } from '../components/UI/Modal';
 import { LoadingSpinner } from '../components/UI/LoadingSpinner';
 import { Input } from '../components/UI/Input';
 import { Select } from '../components/UI/Select';
 import { WhatsAppModal } from '../components/UI/WhatsAppModal';
+import { SaleReturnModal } from '../components/Sale/SaleReturnModal';
+import { SaleVoidModal } from '../components/Sale/SaleVoidModal';
+import { CreditNoteModal } from '../components/Sale/CreditNoteModal';
+import { PaymentBreakdown } from '../components/Sale/PaymentBreakdown';
+import { LoyaltySummary } from '../components/Sale/LoyaltySummary';
+import { TaxSummary } from '../components/Sale/TaxSummary';
+import { ReceiptItems } from '../components/Sale/ReceiptItems';
+import { getSaleTaxBreakdown, getTaxSettings } from '../domain/services/TaxCalculator';
+import { getSaleDiscountTotal } from '../domain/services/DiscountCalculator';
+import { summarizePromotionUsage } from '../domain/services/PromotionService';
+import { SALE_PAYMENT_STATUS_LABELS, getSaleBalanceDue, getSalePaymentStatus } from '../domain/services/ReceivableService';
 import { formatUTCDateToLocal } from '../utils/dateUtils';
+import { VOID_PROCEDURE_LABELS } from '../domain/services/ElectronicReceiptService';
+import { getCreditNotesTotal } from '../domain/services/CreditNoteService';
+import { getCreditNoteReasonLabel } from '../domain/constants/CreditNoteReasons';
+import { downloadElectronicDocumentXml } from '../infrastructure/sunat/XmlDownloadAdapter';
+import { DOCUMENT_TYPE_LABELS, formatDocumentId, getSaleDocumentNumber } from '../domain/services/DocumentSeriesService';
 import type { Sale } from '../domain/entities/Sale';
+import type { SaleReturn, SaleReturnStatus } from '../domain/entities/SaleReturn';
+import type { SalePaymentStatus } from '../domain/entities/Receivable';
 import type { StoreConfig } from '../domain/entities/StoreConfig';
+import type { ElectronicDocument } from '../domain/entities/ElectronicDocument';
+import type { CreditNote } from '../domain/entities/CreditNote';
+import type { SaleVoidResult } from '../domain/services/SaleVoidService';
+
+const PAYMENT_STATUS_BADGES: Record<SalePaymentStatus, string> = {
+  paid: 'bg-green-100 text-green-800',
+  partial: 'bg-orange-100 text-orange-800',
+  credit: 'bg-red-100 text-red-800'
+};
 
 export function HistoryPage() {
-  const { saleRepo, markSaleAsInvoiced, configRepo, excelService } = useAppContext();
+  const {
+    saleRepo,
+    markSaleAsInvoiced,
+    configRepo,
+    excelService,
+    saleReturnRepo,
+    saleReturnService,
+    electronicDocumentRepo,
+    electronicReceiptService,
+    saleService,
+    customerService,
+    creditNoteService
+  } = useAppContext();
   const [ventas, setVentas] = useState<Sale[]>([]);
+  const [devoluciones, setDevoluciones] = useState<SaleReturn[]>([]);
+  const [comprobantes, setComprobantes] = useState<ElectronicDocument[]>([]);
+  const [notasCredito, setNotasCredito] = useState<CreditNote[]>([]);
+  const [returnSale, setReturnSale] = useState<Sale | null>(null);
+  const [voidingSale, setVoidingSale] = useState<Sale | null>(null);
+  const [creditNoteTarget, setCreditNoteTarget] = useState<{ sale: Sale; saleReturn: SaleReturn | null } | null>(null);
+  const [message, setMessage] = useState('');
   const [filtro, setFiltro] = useState('todas');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [promotionFilter, setPromotionFilter] = useState('');
+  const [paymentFilter, setPaymentFilter] = useState<SalePaymentStatus | 'todas'>('todas');
   const [config, setConfig] = useState<StoreConfig | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [ventaSel, setVentaSel] = useState<Sale | null>(null);
   const [showWhatsAppModal, setShowWhatsAppModal] = useState(false);
-  const [whatsAppSale, setWhatsAppSale] = useState<Sale | null>(null);
+  const [whatsAppPhone, setWhatsAppPhone] = useState('');
   const [confirmingInvoice, setConfirmingInvoice] = useState<string | null>(null);
+  const [issuingInvoice, setIssuingInvoice] = useState<string | null>(null);
+  const [numberingSale, setNumberingSale] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
 
   // Date filtering states
@@ -38,19 +89,25 @@ export function HistoryPage() {
   const cargar = useCallback(async () => {
     try {
       setLoading(true);
-      const [allSales, storeConfig] = await Promise.all([
+      const [allSales, storeConfig, allReturns, allDocuments, allCreditNotes] = await Promise.all([
         saleRepo.getAll(),
-        configRepo.get()
+        configRepo.get(),
+        saleReturnRepo.getAll(),
+        electronicDocumentRepo.getAll(),
+        creditNoteService.getAllCreditNotes()
       ]);
       setVentas(allSales);
       setConfig(storeConfig);
+      setDevoluciones(allReturns);
+      setComprobantes(allDocuments);
+      setNotasCredito(allCreditNotes);
     } catch (error) {
       console.error('Error loading data:', error);
       setError('Error al cargar el historial de ventas');
     } finally {
       setLoading(false);
     }
-  }, [saleRepo, configRepo]);
+  }, [saleRepo, configRepo, saleReturnRepo, electronicDocumentRepo, creditNoteService]);
 
   useEffect(() => {
     cargar();
@@ -59,7 +116,7 @@ export function HistoryPage() {
   const ventasFiltradas = ventas.filter(venta => {
     // Status filter
     let passesStatusFilter = true;
-    if (filtro === 'porFacturar') passesStatusFilter = !venta.invoiced;
+    if (filtro === 'porFacturar') passesStatusFilter = !venta.invoiced && !venta.voided;
     else if (filtro === 'facturadas') passesStatusFilter = venta.invoiced;
 
     // Date filter
@@ -96,20 +153,64 @@ export function HistoryPage() {
       }
     }
 
-    return passesStatusFilter && passesDateFilter;
+    // Search by receipt number (B001-00000023 or B001-23), client name or document
+    let passesSearch = true;
+    const term = searchTerm.trim().toLowerCase();
+    if (term) {
+      const documentNumber = getSaleDocumentNumber(venta)?.toLowerCase() || '';
+      const shortNumber = venta.series && venta.correlative ? `${venta.series}-${venta.correlative}`.toLowerCase() : '';
+      passesSearch = documentNumber.includes(term)
+        || shortNumber.includes(term)
+        || (venta.clientName || '').toLowerCase().includes(term)
+        || (venta.clientDni || '').toLowerCase().includes(term);
+    }
+
+    const passesPromotion = !promotionFilter || venta.items.some(item => item.promotionId === promotionFilter);
+    const passesPayment = paymentFilter === 'todas' || getSalePaymentStatus(venta) === paymentFilter;
+
+    return passesStatusFilter && passesDateFilter && passesSearch && passesPromotion && passesPayment;
   });
 
-  const handleMarkAsInvoiced = async (saleId: string) => {
+  const notasFiltradas = notasCredito.filter(nota => ventasFiltradas.some(venta => venta.id === nota.saleId));
+  // Voided sales are already left out of the total, so the notes that cancel them are not subtracted again
+  const creditNotesTotal = getCreditNotesTotal(notasFiltradas.filter(nota =>
+    !ventasFiltradas.some(venta => venta.id === nota.saleId && venta.voided)));
+
+  const promotionOptions = summarizePromotionUsage(ventas);
+  const promotionUsage = summarizePromotionUsage(ventasFiltradas);
+
+  const handleMarkAsInvoiced = async (sale: Sale) => {
     try {
-      await markSaleAsInvoiced(saleId);
+      setIssuingInvoice(sale.id);
+      await markSaleAsInvoiced(sale);
       setConfirmingInvoice(null);
       await cargar();
-    } catch (error) {
-      console.error('Error marking as invoiced:', error);
+    } catch (error: any) {
+      console.error('Error issuing electronic receipt:', error);
       setConfirmingInvoice(null);
+      alert(error.message || 'Error al emitir el comprobante electrónico');
+    } finally {
+      setIssuingInvoice(null);
     }
   };
 
+  const handleAssignNumber = async (sale: Sale) => {
+    try {
+      setNumberingSale(sale.id);
+      await saleService.numberPendingSale(sale, electronicReceiptService.suggestDocumentType(sale));
+      await cargar();
+    } catch (error: any) {
+      console.error('Error assigning receipt number:', error);
+      alert(error.message || 'Error al asignar el número de comprobante');
+    } finally {
+      setNumberingSale(null);
+    }
+  };
+
+  const handleDownloadXml = (document: ElectronicDocument) => {
+    downloadElectronicDocumentXml(document, config?.ruc || '');
+  };
+
   const confirmMarkAsInvoiced = (saleId: string) => {
     setConfirmingInvoice(saleId);
   };
@@ -118,14 +219,55 @@ export function HistoryPage() {
     setConfirmingInvoice(null);
   };
 
-  const openWhatsAppModal = (sale: Sale) => {
-    setWhatsAppSale(sale);
+  const openWhatsAppModal = async (sale: Sale) => {
+    // Pre-fill the phone saved in the customer directory, if the buyer is registered
+    try {
+      const customer = await customerService.findByDocument(sale.clientDni);
+      setWhatsAppPhone(customer?.phone || '');
+    } catch (err) {
+      console.error('Error loading customer phone:', err);
+      setWhatsAppPhone('');
+    }
     setShowWhatsAppModal(true);
   };
 
   const closeWhatsAppModal = () => {
     setShowWhatsAppModal(false);
-    setWhatsAppSale(null);
+    setWhatsAppPhone('');
+  };
+
+  const handleReturnRegistered = async (saleReturn: SaleReturn) => {
+    // Returns on invoiced sales need a credit note backing them
+    if (returnSale?.invoiced && !returnSale.voided) {
+      setCreditNoteTarget({ sale: returnSale, saleReturn });
+    }
+    setReturnSale(null);
+    await cargar();
+  };
+
+  const handleCreditNoteIssued = async (creditNote: CreditNote) => {
+    setCreditNoteTarget(null);
+    setMessage(`Nota de crédito ${formatDocumentId(creditNote.series, creditNote.correlative)} emitida por S/ ${creditNote.total.toFixed(2)}.`);
+    await cargar();
+  };
+
+  const handleSaleVoided = async ({ sale, voidData }: SaleVoidResult) => {
+    setVoidingSale(null);
+    const document = getSaleDocumentNumber(sale) || 'La venta';
+    setMessage(voidData
+      ? `${document} fue anulada. ${VOID_PROCEDURE_LABELS[voidData.procedure]} preparada para ${formatDocumentId(voidData.series, voidData.correlative)}.`
+      : `${document} fue anulada y sus productos volvieron al stock.`);
+    await cargar();
+  };
+
+  const getReturnBadge = (status: SaleReturnStatus) => {
+    if (status === 'returned') {
+      return { label: 'Devuelta', className: 'bg-red-100 text-red-800' };
+    }
+    if (status === 'partial') {
+      return { label: 'Dev. parcial', className: 'bg-orange-100 text-orange-800' };
+    }
+    return null;
   };
 
   const handleExportExcel = async () => {
@@ -137,12 +279,18 @@ export function HistoryPage() {
     try {
       setIsExporting(true);
       
+      const taxSettings = getTaxSettings(config);
       const filters = {
         dateFilterType,
         startDate: startDate || undefined,
         endDate: endDate || undefined,
         selectedMonth: selectedMonth || undefined,
-        statusFilter: filtro as 'todas' | 'porFacturar' | 'facturadas'
+        statusFilter: filtro as 'todas' | 'porFacturar' | 'facturadas',
+        excludeVoided: true,
+        netCreditNotes: true,
+        includeTaxBreakdown: true,
+        pricesIncludeTax: taxSettings.pricesIncludeTax,
+        igvRate: taxSettings.igvRate
       };
 
       console.log('Exporting with filters:', filters);
@@ -239,6 +387,7 @@ export function HistoryPage() {
   const renderBoleta = (sale: Sale) => {
     // Usar la fecha formateada directamente
     const displayDate = formatSaleDate(sale.date);
+    const discountTotal = getSaleDiscountTotal(sale);
     
     return (
       <div className="bg-white p-6 max-w-md mx-auto text-gray-900">
@@ -247,6 +396,11 @@ export function HistoryPage() {
           <p className="text-sm">{config?.address || 'Dirección'}</p>
           <p className="text-sm">Tel: {config?.phone || 'Teléfono'}</p>
           <p className="text-sm">Email: {config?.email || 'Email'}</p>
+          {getSaleDocumentNumber(sale) && (
+            <p className="text-sm font-semibold mt-2">
+              {DOCUMENT_TYPE_LABELS[sale.documentType || '03'].toUpperCase()} {getSaleDocumentNumber(sale)}
+            </p>
+          )}
         </div>
         
         <div className="border-t border-b py-2 mb-4">
@@ -256,33 +410,27 @@ export function HistoryPage() {
         </div>
 
         <div className="mb-4">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b">
-                <th className="text-left">Producto</th>
-                <th className="text-right">Cant.</th>
-                <th className="text-right">Precio</th>
-                <th className="text-right">Total</th>
-              </tr>
-            </thead>
-            <tbody>
-              {sale.items.map((item, idx) => (
-                <tr key={idx}>
-                  <td className="text-left py-1">{item.name}</td>
-                  <td className="text-right">{item.quantity}</td>
-                  <td className="text-right">S/ {item.price.toFixed(2)}</td>
-                  <td className="text-right">S/ {item.subtotal.toFixed(2)}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+          <ReceiptItems items={sale.items} />
         </div>
 
         <div className="border-t pt-2">
+          {discountTotal > 0 && (
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>Descuentos{sale.discountApprovedBy ? ` (aut. ${sale.discountApprovedBy})` : ''}</span>
+              <span>-S/ {discountTotal.toFixed(2)}</span>
+            </div>
+          )}
+          <TaxSummary breakdown={getSaleTaxBreakdown(sale, getTaxSettings(config).igvRate)} />
           <div className="flex justify-between font-bold">
             <span>TOTAL:</span>
             <span>S/ {sale.total.toFixed(2)}</span>
           </div>
+          <PaymentBreakdown
+            payments={sale.payments}
+            cashReceived={sale.cashReceived}
+            change={sale.change}
+          />
+          <LoyaltySummary sale={sale} />
         </div>
 
         <div className="text-center mt-4 text-xs text-gray-500">
@@ -331,8 +479,13 @@ export function HistoryPage() {
               Total mostrado: {ventasFiltradas.length} venta{ventasFiltradas.length !== 1 ? 's' : ''}
             </p>
             <p className="text-lg font-semibold text-gray-900 dark:text-white">
-              S/ {ventasFiltradas.reduce((sum, venta) => sum + venta.total, 0).toFixed(2)}
+              S/ {ventasFiltradas.reduce((sum, venta) => sum + (venta.voided ? 0 : venta.total), 0).toFixed(2)}
             </p>
+            {creditNotesTotal > 0 && (
+              <p className="text-sm text-red-400">
+                Notas de crédito: -S/ {creditNotesTotal.toFixed(2)}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -343,8 +496,22 @@ export function HistoryPage() {
         </div>
       )}
 
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
+          {message}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-gray-800 rounded-lg shadow-sm p-6 space-y-4">
+        {/* Search */}
+        <Input
+          label="Buscar"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="N° de comprobante (B001-00000023), cliente o DNI/RUC"
+        />
+
         {/* Status Filters */}
         <div>
           <h3 className="text-sm font-medium text-gray-300 mb-3">Filtrar por Estado</h3>
@@ -370,6 +537,28 @@ export function HistoryPage() {
           </div>
         </div>
 
+        {/* Payment Filters: credit (fiado) sales still owed */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-300 mb-3">Filtrar por Pago</h3>
+          <div className="flex flex-wrap gap-3">
+            <Button
+              variant={paymentFilter === 'todas' ? 'primary' : 'outline'}
+              onClick={() => setPaymentFilter('todas')}
+            >
+              Todas ({ventas.length})
+            </Button>
+            {(['paid', 'partial', 'credit'] as const).map(status => (
+              <Button
+                key={status}
+                variant={paymentFilter === status ? 'primary' : 'outline'}
+                onClick={() => setPaymentFilter(status)}
+              >
+                {SALE_PAYMENT_STATUS_LABELS[status]} ({ventas.filter(v => getSalePaymentStatus(v) === status).length})
+              </Button>
+            ))}
+          </div>
+        </div>
+
         {/* Date Filters */}
         <div>
           <h3 className="text-sm font-medium text-gray-300 mb-3">Filtrar por Fecha</h3>
@@ -464,6 +653,20 @@ export function HistoryPage() {
             )}
           </div>
 
+          {promotionOptions.length > 0 && (
+            <div className="mt-4 md:w-1/4">
+              <Select
+                label="Promoción"
+                value={promotionFilter}
+                onChange={setPromotionFilter}
+                options={[
+                  { value: '', label: 'Todas las ventas' },
+                  ...promotionOptions.map(p => ({ value: p.promotionId, label: p.promotionName }))
+                ]}
+              />
+            </div>
+          )}
+
           {/* Filter Summary */}
           {dateFilterType !== 'all' && (
             <div className="mt-3 text-sm text-gray-400">
@@ -484,6 +687,33 @@ export function HistoryPage() {
         </div>
       </div>
 
+      {/* Promotions used in the filtered sales */}
+      {promotionUsage.length > 0 && (
+        <div className="bg-gray-800 rounded-lg shadow-sm p-6">
+          <h3 className="text-sm font-medium text-gray-300 mb-3">Promociones aplicadas</h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400 uppercase">
+                <th className="py-1 pr-2">Promoción</th>
+                <th className="py-1 px-2 text-right">Ventas</th>
+                <th className="py-1 px-2 text-right">Prendas</th>
+                <th className="py-1 pl-2 text-right">Descuento otorgado</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-100">
+              {promotionUsage.map(usage => (
+                <tr key={usage.promotionId}>
+                  <td className="py-1 pr-2">{usage.promotionName}</td>
+                  <td className="py-1 px-2 text-right">{usage.sales}</td>
+                  <td className="py-1 px-2 text-right">{usage.units}</td>
+                  <td className="py-1 pl-2 text-right">S/ {usage.discount.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Sales Table */}
       <div className="bg-gray-800 rounded-lg shadow-sm overflow-hidden">
         <div className="overflow-x-auto">
@@ -514,9 +744,15 @@ export function HistoryPage() {
               {ventasFiltradas.map((venta) => {
                 // Usar la fecha formateada directamente
                 const displayDate = formatSaleDate(venta.date);
+                const returnStatus: SaleReturnStatus = saleReturnService.getReturnStatus(venta, devoluciones);
+                const returnBadge = getReturnBadge(returnStatus);
+                const comprobante = comprobantes.find(doc => doc.saleId === venta.id);
+                const creditedTotal = getCreditNotesTotal(notasCredito.filter(nota => nota.saleId === venta.id));
+                const documentNumber = getSaleDocumentNumber(venta)
+                  || (comprobante ? formatDocumentId(comprobante.series, comprobante.correlative) : null);
                 
                 return (
-                  <tr key={venta.id}>
+                  <tr key={venta.id} className={venta.voided ? 'opacity-60' : ''}>
                     <td className="px-2 md:px-4 py-2 md:py-3 whitespace-nowrap">
                       <div className="text-xs md:text-sm font-medium text-gray-100 truncate max-w-[120px] md:max-w-[180px]" title={venta.clientName || 'Cliente anónimo'}>
                         {venta.clientName || 'Anónimo'}
@@ -539,9 +775,12 @@ export function HistoryPage() {
                       </div>
                     </td>
                     <td className="px-2 md:px-4 py-2 md:py-3 whitespace-nowrap">
-                      <div className="text-xs md:text-sm font-medium text-gray-100">
+                      <div className={`text-xs md:text-sm font-medium text-gray-100 ${venta.voided ? 'line-through' : ''}`}>
                         S/ {venta.total.toFixed(2)}
                       </div>
+                      {venta.items.some(item => item.promotionId) && (
+                        <div className="text-xs text-purple-300">🏷️ Promoción</div>
+                      )}
                     </td>
                     <td className="px-2 md:px-4 py-2 md:py-3 whitespace-nowrap">
                       <span className={`inline-flex px-1 md:px-2 py-1 text-xs font-semibold rounded-full ${
@@ -551,6 +790,44 @@ export function HistoryPage() {
                       }`}>
                         {venta.invoiced ? 'Facturada' : 'Pendiente'}
                       </span>
+                      {venta.voided && (
+                        <span
+                          className="ml-1 inline-flex px-1 md:px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800"
+                          title={`${venta.voidReason || ''}${venta.voidedBy ? ` · Autorizó: ${venta.voidedBy}` : ''}`}
+                        >
+                          Anulada
+                        </span>
+                      )}
+                      {documentNumber ? (
+                        <div className="text-xs text-gray-400 mt-1 font-mono">
+                          {documentNumber}
+                        </div>
+                      ) : !venta.voided && (
+                        <button
+                          type="button"
+                          onClick={() => handleAssignNumber(venta)}
+                          disabled={numberingSale === venta.id}
+                          className="block text-xs text-blue-400 hover:text-blue-300 mt-1 disabled:opacity-50"
+                        >
+                          {numberingSale === venta.id ? 'Numerando...' : 'Sin número · Numerar'}
+                        </button>
+                      )}
+                      {!!venta.creditAmount && !venta.voided && (
+                        <span className={`ml-1 inline-flex px-1 md:px-2 py-1 text-xs font-semibold rounded-full ${PAYMENT_STATUS_BADGES[getSalePaymentStatus(venta)]}`}>
+                          {SALE_PAYMENT_STATUS_LABELS[getSalePaymentStatus(venta)]}
+                          {getSaleBalanceDue(venta) > 0 && ` · S/ ${getSaleBalanceDue(venta).toFixed(2)}`}
+                        </span>
+                      )}
+                      {returnBadge && (
+                        <span className={`ml-1 inline-flex px-1 md:px-2 py-1 text-xs font-semibold rounded-full ${returnBadge.className}`}>
+                          {returnBadge.label}
+                        </span>
+                      )}
+                      {creditedTotal > 0 && (
+                        <span className="ml-1 inline-flex px-1 md:px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                          NC -S/ {creditedTotal.toFixed(2)}
+                        </span>
+                      )}
                     </td>
                     <td className="px-2 md:px-4 py-2 md:py-3 whitespace-nowrap">
                       <div className="flex flex-wrap gap-1 items-center">
@@ -571,18 +848,70 @@ export function HistoryPage() {
                           <span className="hidden md:inline">WhatsApp</span>
                           <span className="md:hidden">WhatsApp</span>
                         </Button>
-                        {!venta.invoiced && (
+                        {!venta.voided && returnStatus !== 'returned' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReturnSale(venta)}
+                            className="text-xs px-1 md:px-2 py-1"
+                          >
+                            <span className="hidden md:inline">Devolución</span>
+                            <span className="md:hidden">Devol.</span>
+                          </Button>
+                        )}
+                        {comprobante && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDownloadXml(comprobante)}
+                            className="text-xs px-1 md:px-2 py-1"
+                          >
+                            XML
+                          </Button>
+                        )}
+                        {venta.invoiced && !venta.voided && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setMessage('');
+                              setCreditNoteTarget({ sale: venta, saleReturn: null });
+                            }}
+                            className="text-xs px-1 md:px-2 py-1"
+                          >
+                            <span className="hidden md:inline">Nota de crédito</span>
+                            <span className="md:hidden">N. crédito</span>
+                          </Button>
+                        )}
+                        {!venta.voided && (
+                          <Button
+                            size="sm"
+                            variant="danger"
+                            onClick={() => {
+                              setMessage('');
+                              setVoidingSale(venta);
+                            }}
+                            className="text-xs px-1 md:px-2 py-1"
+                          >
+                            Anular
+                          </Button>
+                        )}
+                        {!venta.invoiced && !venta.voided && (
                           <div className="flex items-center gap-1">
                             {confirmingInvoice === venta.id ? (
                               <>
                                 <div className="text-xs text-gray-300 whitespace-nowrap mr-1">
-                                  <span className="hidden md:inline">¿Confirmar?</span>
+                                  <span className="hidden md:inline">
+                                    ¿Emitir {electronicReceiptService.suggestDocumentType(venta) === '01' ? 'factura' : 'boleta'}?
+                                  </span>
                                   <span className="md:hidden">¿OK?</span>
                                 </div>
                                 <Button
                                   size="sm"
                                   variant="danger"
-                                  onClick={() => handleMarkAsInvoiced(venta.id)}
+                                  loading={issuingInvoice === venta.id}
+                                  disabled={issuingInvoice === venta.id}
+                                  onClick={() => handleMarkAsInvoiced(venta)}
                                   className="bg-red-600 hover:bg-red-700 text-white text-xs px-1 md:px-2 py-1"
                                 >
                                   Sí
@@ -632,6 +961,50 @@ export function HistoryPage() {
         )}
       </div>
 
+      {/* Credit notes of the filtered sales */}
+      {notasFiltradas.length > 0 && (
+        <div className="bg-gray-800 rounded-lg shadow-sm p-6">
+          <h3 className="text-sm font-medium text-gray-300 mb-3">Notas de crédito</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 uppercase">
+                  <th className="py-1 pr-2">Número</th>
+                  <th className="py-1 px-2">Fecha</th>
+                  <th className="py-1 px-2">Comprobante</th>
+                  <th className="py-1 px-2">Motivo</th>
+                  <th className="py-1 px-2 text-right">Total</th>
+                  <th className="py-1 pl-2"></th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-100">
+                {notasFiltradas.map(nota => (
+                  <tr key={nota.id}>
+                    <td className="py-1 pr-2 font-mono">{formatDocumentId(nota.series, nota.correlative)}</td>
+                    <td className="py-1 px-2 whitespace-nowrap">{formatSaleDate(nota.date)}</td>
+                    <td className="py-1 px-2 font-mono">{formatDocumentId(nota.referenceSeries, nota.referenceCorrelative)}</td>
+                    <td className="py-1 px-2" title={nota.description}>
+                      {nota.reason} - {getCreditNoteReasonLabel(nota.reason)}
+                    </td>
+                    <td className="py-1 px-2 text-right whitespace-nowrap">-S/ {nota.total.toFixed(2)}</td>
+                    <td className="py-1 pl-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => generateCreditNotePDF(nota, config)}
+                        className="text-xs px-1 md:px-2 py-1"
+                      >
+                        PDF
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Receipt Modal */}
       {ventaSel && (
         <Modal
@@ -640,6 +1013,13 @@ export function HistoryPage() {
           title="Vista Previa de Boleta"
           size="lg"
         >
+          {ventaSel.voided && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-4 text-sm">
+              Venta anulada{ventaSel.voidedAt ? ` el ${formatSaleDate(ventaSel.voidedAt)}` : ''}
+              {ventaSel.voidedBy ? ` · Autorizó: ${ventaSel.voidedBy}` : ''}
+              {ventaSel.voidReason ? ` · Motivo: ${ventaSel.voidReason}` : ''}
+            </div>
+          )}
           <div className="flex justify-center">
             <div className="bg-white p-4 border rounded-lg" style={{ width: '80mm', maxWidth: '100%' }}>
               {renderBoleta(ventaSel)}
@@ -656,12 +1036,35 @@ export function HistoryPage() {
         </Modal>
       )}
 
+      {/* Return Modal */}
+      <SaleReturnModal
+        sale={returnSale}
+        onClose={() => setReturnSale(null)}
+        onReturned={handleReturnRegistered}
+      />
+
+      {/* Credit Note Modal */}
+      <CreditNoteModal
+        sale={creditNoteTarget?.sale ?? null}
+        saleReturn={creditNoteTarget?.saleReturn ?? null}
+        onClose={() => setCreditNoteTarget(null)}
+        onIssued={handleCreditNoteIssued}
+      />
+
+      {/* Void Modal */}
+      <SaleVoidModal
+        sale={voidingSale}
+        document={voidingSale ? comprobantes.find(doc => doc.saleId === voidingSale.id) || null : null}
+        onClose={() => setVoidingSale(null)}
+        onVoided={handleSaleVoided}
+      />
+
       {/* WhatsApp Modal */}
       <WhatsAppModal
         isOpen={showWhatsAppModal}
         onClose={closeWhatsAppModal}
         storeName={config?.name}
-        defaultPhone={whatsAppSale?.clientDni || ''}
+        defaultPhone={whatsAppPhone}
         title="Contactar Cliente por WhatsApp"
       />
     </div>
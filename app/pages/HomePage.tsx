@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useAppContext } from '../context/AppContext';
+import { calculateSalesProfit } from '../domain/services/ProfitCalculator';
 import type { Product } from '../domain/entities/Product';
 import type { Sale } from '../domain/entities/Sale';
 
@@ -12,6 +13,7 @@ interface Stats {
   totalProducts: number;
   todaySales: number;
   todayRevenue: number;
+  todayProfit: number;
 }
 
 const NAVIGATION_CARDS = [
@@ -39,6 +41,62 @@ const NAVIGATION_CARDS = [
     color: 'from-purple-500 to-purple-600',
     hoverColor: 'from-purple-600 to-purple-700'
   },
+  {
+    key: 'apartados',
+    title: 'Apartados',
+    description: 'Mercadería separada con adelanto y abonos',
+    icon: '🧺',
+    color: 'from-cyan-500 to-cyan-600',
+    hoverColor: 'from-cyan-600 to-cyan-700'
+  },
+  {
+    key: 'clientes',
+    title: 'Clientes',
+    description: 'Directorio de clientes y sus compras',
+    icon: '👥',
+    color: 'from-indigo-500 to-indigo-600',
+    hoverColor: 'from-indigo-600 to-indigo-700'
+  },
+  {
+    key: 'cobranzas',
+    title: 'Cuentas por Cobrar',
+    description: 'Ventas al crédito, cobranzas y antigüedad de deuda',
+    icon: '📒',
+    color: 'from-amber-500 to-amber-600',
+    hoverColor: 'from-amber-600 to-amber-700'
+  },
+  {
+    key: 'compras',
+    title: 'Compras',
+    description: 'Órdenes a proveedores y recepción de mercadería',
+    icon: '🚚',
+    color: 'from-orange-500 to-orange-600',
+    hoverColor: 'from-orange-600 to-orange-700'
+  },
+  {
+    key: 'promociones',
+    title: 'Promociones',
+    description: '2x1, descuentos por categoría y packs',
+    icon: '🏷️',
+    color: 'from-pink-500 to-pink-600',
+    hoverColor: 'from-pink-600 to-pink-700'
+  },
+  {
+    key: 'tarjetas',
+    title: 'Cupones y Tarjetas',
+    description: 'Cupones de descuento y tarjetas de regalo',
+    icon: '🎁',
+    color: 'from-rose-500 to-rose-600',
+    hoverColor: 'from-rose-600 to-rose-700'
+  },
+  {
+    key: 'reportes',
+    title: 'Reportes',
+    description: 'Ganancia bruta por día, categoría y producto',
+    icon: '📊',
+    color: 'from-teal-500 to-teal-600',
+    hoverColor: 'from-teal-600 to-teal-700'
+  },
   {
     key: 'config',
     title: 'Configuración',
@@ -54,7 +112,8 @@ export function HomePage({ onNavigate, refreshKey }: HomePageProps) {
   const [stats, setStats] = useState<Stats>({
     totalProducts: 0,
     todaySales: 0,
-    todayRevenue: 0
+    todayRevenue: 0,
+    todayProfit: 0
   });
   const [isLoading, setIsLoading] = useState(true);
 
@@ -70,9 +129,10 @@ export function HomePage({ onNavigate, refreshKey }: HomePageProps) {
         // Get all sales
         const sales = await saleRepo.getAll();
         
-        // Filter today's sales
+        // Filter today's sales; voided ones are not revenue
         const today = new Date().toDateString();
         const todaySales = sales.filter((sale: Sale) => {
+          if (sale.voided) return false;
           const saleDate = new Date(sale.date).toDateString();
           return saleDate === today;
         });
@@ -83,7 +143,8 @@ export function HomePage({ onNavigate, refreshKey }: HomePageProps) {
         setStats({
           totalProducts,
           todaySales: todaySales.length,
-          todayRevenue
+          todayRevenue,
+          todayProfit: calculateSalesProfit(todaySales, products)
         });
       } catch (error) {
         console.error('Error loading stats:', error);
@@ -142,7 +203,7 @@ export function HomePage({ onNavigate, refreshKey }: HomePageProps) {
         </div>
 
         {/* Quick Stats */}
-        <div className="mt-8 md:mt-12 grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
+        <div className="mt-8 md:mt-12 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
           <div className="bg-gray-800 rounded-lg p-4 md:p-6 shadow-sm">
             <div className="flex items-center">
               <div className="p-2 bg-blue-100 dark:bg-blue-900 rounded-lg">
@@ -190,6 +251,22 @@ export function HomePage({ onNavigate, refreshKey }: HomePageProps) {
               </div>
             </div>
           </div>
+
+          <div className="bg-gray-800 rounded-lg p-4 md:p-6 shadow-sm">
+            <div className="flex items-center">
+              <div className="p-2 bg-yellow-100 dark:bg-yellow-900 rounded-lg">
+                <svg className="w-5 h-5 md:w-6 md:h-6 text-yellow-600 dark:text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                </svg>
+              </div>
+              <div className="ml-3 md:ml-4">
+                <p className="text-xs md:text-sm font-medium text-gray-400">Ganancia Hoy</p>
+                <p className="text-xl md:text-2xl font-semibold text-white">
+                  {isLoading ? '...' : `S/ ${stats.todayProfit.toFixed(2)}`}
+                </p>
+              </div>
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -8,7 +8,19 @@ import { LoadingSpinner } from '../components/UI/LoadingSpinner';
 import { CategorySelectWithCreate } from '../components/Category/CategorySelectWithCreate';
 import { CategoryManagement } from '../components/Category/CategoryManagement';
 import { ExcelImportModal } from '../components/Excel/ExcelImportModal';
-import type { Product, CreateProductRequest, UpdateProductRequest } from '../domain/entities/Product';
+import { ProductStyleModal } from '../components/Product/ProductStyleModal';
+import { KardexModal } from '../components/Product/KardexModal';
+import { StockAdjustmentModal } from '../components/Product/StockAdjustmentModal';
+import { ShrinkageReportModal } from '../components/Product/ShrinkageReportModal';
+import { BarcodeLabelModal } from '../components/Product/BarcodeLabelModal';
+import { CameraScannerModal } from '../components/UI/CameraScannerModal';
+import { findProductByCode } from '../utils/productLookup';
+import { getVariantAttributes, getVariantLabel } from '../domain/services/ProductStyleService';
+import { TAX_AFFECTATIONS } from '../domain/constants/TaxAffectations';
+import { getMarginPercent } from '../domain/services/ProfitCalculator';
+import { getAvailableQuantity } from '../domain/services/InventoryService';
+import { DEFAULT_MIN_STOCK, getStockLimits, isLowStock, validateStockLimits } from '../domain/services/ReorderService';
+import type { Product, CreateProductRequest, UpdateProductRequest, TaxAffectation } from '../domain/entities/Product';
 import type { Category, CategoryOption } from '../domain/entities/Category';
 import type { ExcelImportResponse } from '../domain/services/ExcelService';
 
@@ -20,9 +32,18 @@ interface ProductFormData {
   size: string;
   color: string;
   price: string;
+  cost: string;
   quantity: string;
+  minStock: string;
+  maxStock: string;
+  taxAffectation: TaxAffectation;
 }
 
+const formatMargin = (product: Product): string => {
+  const margin = getMarginPercent(product.price, product.cost);
+  return margin === null ? '-' : `${margin.toFixed(1)}%`;
+};
+
 function ProductForm({ 
   product, 
   onSave, 
@@ -40,33 +61,6 @@ function ProductForm({
   categories: CategoryOption[];
   onCategoryCreated: () => void;
 }) {
-  // Helper function to parse combined size field (e.g., "M - Azul" -> {size: "M", color: "Azul"})
-  const parseSizeField = (combinedSize: string | null | undefined): {size: string, color: string} => {
-    if (!combinedSize || combinedSize.trim() === '') {
-      return {size: '', color: ''};
-    }
-    
-    const parts = combinedSize.split(' - ');
-    if (parts.length === 2) {
-      return {size: parts[0].trim(), color: parts[1].trim()};
-    } else {
-      return {size: combinedSize.trim(), color: ''};
-    }
-  };
-
-  // Helper function to combine size and color (e.g., "M" + "Azul" -> "M - Azul")
-  const combineSizeAndColor = (size: string, color: string): string => {
-    const trimmedSize = size.trim();
-    const trimmedColor = color.trim();
-    
-    if (trimmedSize && trimmedColor) {
-      return `${trimmedSize} - ${trimmedColor}`;
-    } else if (trimmedSize) {
-      return trimmedSize;
-    } else {
-      return '';
-    }
-  };
   const [formData, setFormData] = useState<ProductFormData>({
     productId: '',
     name: '',
@@ -75,14 +69,19 @@ function ProductForm({
     size: '',
     color: '',
     price: '',
-    quantity: ''
+    cost: '',
+    quantity: '',
+    minStock: '',
+    maxStock: '',
+    taxAffectation: 'taxed'
   });
 
   const isEditing = !!product;
+  const margin = getMarginPercent(parseFloat(formData.price), formData.cost ? parseFloat(formData.cost) : null);
 
   useEffect(() => {
     if (product) {
-      const parsedSizeColor = parseSizeField(product.size);
+      const parsedSizeColor = getVariantAttributes(product);
       setFormData({
         productId: product.productId,
         name: product.name,
@@ -91,7 +90,11 @@ function ProductForm({
         size: parsedSizeColor.size,
         color: parsedSizeColor.color,
         price: product.price.toString(),
-        quantity: product.quantity.toString()
+        cost: product.cost != null ? product.cost.toString() : '',
+        quantity: product.quantity.toString(),
+        minStock: product.minStock != null ? product.minStock.toString() : '',
+        maxStock: product.maxStock != null ? product.maxStock.toString() : '',
+        taxAffectation: product.taxAffectation || 'taxed'
       });
     } else {
       setFormData({
@@ -102,20 +105,18 @@ function ProductForm({
         size: '',
         color: '',
         price: '',
-        quantity: ''
+        cost: '',
+        quantity: '',
+        minStock: '',
+        maxStock: '',
+        taxAffectation: 'taxed'
       });
     }
   }, [product]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Combine size and color for storage
-    const combinedSize = combineSizeAndColor(formData.size, formData.color);
-    const dataToSave = {
-      ...formData,
-      size: combinedSize
-    };
-    onSave(dataToSave);
+    onSave(formData);
   };
 
   const handleInputChange = (field: keyof ProductFormData, value: string) => {
@@ -200,13 +201,56 @@ function ProductForm({
         />
 
         <Input
-          label="Cantidad *"
+          label="Costo"
+          type="number"
+          step="0.01"
+          min="0"
+          value={formData.cost}
+          onChange={(e) => handleInputChange('cost', e.target.value)}
+          placeholder="0.00"
+          helperText={margin !== null
+            ? `Margen: ${margin.toFixed(1)}%`
+            : 'Costo unitario promedio; se actualiza al recibir compras'}
+        />
+
+        <Input
+          label={isEditing ? 'Stock actual' : 'Cantidad *'}
           type="number"
           min="0"
           value={formData.quantity}
           onChange={(e) => handleInputChange('quantity', e.target.value)}
           placeholder="0"
           required
+          disabled={isEditing}
+          helperText={isEditing ? 'Para cambiar el stock use "Ajustar stock" en la tabla' : undefined}
+        />
+
+        <Input
+          label="Stock mínimo"
+          type="number"
+          min="0"
+          value={formData.minStock}
+          onChange={(e) => handleInputChange('minStock', e.target.value)}
+          placeholder={DEFAULT_MIN_STOCK.toString()}
+          helperText="Vacío: usa el de la categoría. En o por debajo se genera una alerta"
+        />
+
+        <Input
+          label="Stock máximo"
+          type="number"
+          min="0"
+          value={formData.maxStock}
+          onChange={(e) => handleInputChange('maxStock', e.target.value)}
+          placeholder="Ej: 60"
+          helperText="Cantidad a la que se repone al sugerir compras"
+        />
+
+        <Select
+          label="Afectación IGV"
+          value={formData.taxAffectation}
+          onChange={(value) => handleInputChange('taxAffectation', value)}
+          options={TAX_AFFECTATIONS.map(a => ({ value: a.value, label: a.label }))}
+          helperText="Los productos exonerados o inafectos no llevan IGV"
         />
       </div>
 
@@ -230,7 +274,7 @@ function ProductForm({
 }
 
 export function InventoryPage() {
-  const { productRepo, categoryService, excelService } = useAppContext();
+  const { productRepo, categoryService, excelService, editProduct, adjustStock } = useAppContext();
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [categoryOptions, setCategoryOptions] = useState<CategoryOption[]>([]);
@@ -238,7 +282,14 @@ export function InventoryPage() {
   const [showModal, setShowModal] = useState(false);
   const [showCategoryManagement, setShowCategoryManagement] = useState(false);
   const [showExcelImportModal, setShowExcelImportModal] = useState(false);
+  const [showStyleModal, setShowStyleModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [kardexProduct, setKardexProduct] = useState<Product | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [showShrinkageReport, setShowShrinkageReport] = useState(false);
+  const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
+  const [showLabelModal, setShowLabelModal] = useState(false);
+  const [showCameraScanner, setShowCameraScanner] = useState(false);
   const [error, setError] = useState('');
   const [isFormLoading, setIsFormLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
@@ -332,11 +383,19 @@ export function InventoryPage() {
         name: formData.name,
         brand: formData.brand,
         categoryNumber: formData.categoryNumber,
-        size: formData.size,
+        size: formData.size.trim() || null,
+        color: formData.color.trim() || null,
         price: parseFloat(formData.price),
-        quantity: parseInt(formData.quantity)
+        cost: formData.cost ? parseFloat(formData.cost) : null,
+        quantity: parseInt(formData.quantity),
+        minStock: formData.minStock ? Number(formData.minStock) : null,
+        maxStock: formData.maxStock ? Number(formData.maxStock) : null,
+        taxAffectation: formData.taxAffectation
       };
 
+      const stockLimitsError = validateStockLimits(productData.minStock, productData.maxStock);
+      if (stockLimitsError) throw new Error(stockLimitsError);
+
       if (editingProduct) {
         // Update existing product
         const updateData: UpdateProductRequest = {
@@ -344,10 +403,16 @@ export function InventoryPage() {
           brand: productData.brand,
           categoryNumber: productData.categoryNumber,
           size: productData.size,
+          color: productData.color,
+          styleId: editingProduct.styleId ?? null,
           price: productData.price,
-          quantity: productData.quantity
+          quantity: productData.quantity,
+          taxAffectation: productData.taxAffectation,
+          cost: productData.cost,
+          minStock: productData.minStock,
+          maxStock: productData.maxStock
         };
-        await productRepo.update(editingProduct.productId, updateData);
+        await editProduct(editingProduct.productId, updateData);
       } else {
         // Create new product
         const createData: CreateProductRequest = {
@@ -356,8 +421,13 @@ export function InventoryPage() {
           brand: productData.brand,
           categoryNumber: productData.categoryNumber,
           size: productData.size,
+          color: productData.color,
           price: productData.price,
-          quantity: productData.quantity
+          quantity: productData.quantity,
+          taxAffectation: productData.taxAffectation,
+          cost: productData.cost,
+          minStock: productData.minStock,
+          maxStock: productData.maxStock
         };
         await productRepo.create(createData);
       }
@@ -404,7 +474,7 @@ export function InventoryPage() {
       const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            (product.brand || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                            product.productId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           (product.size || '').toLowerCase().includes(searchTerm.toLowerCase());
+                           getVariantLabel(product).toLowerCase().includes(searchTerm.toLowerCase());
       
       const matchesCategory = categoryFilter === 'all' || product.categoryNumber === categoryFilter;
       
@@ -434,7 +504,21 @@ export function InventoryPage() {
     });
 
   const uniqueCategoryNumbers = Array.from(new Set(products.map(p => p.categoryNumber).filter(Boolean))).sort((a, b) => a! - b!);
-  const lowStockProducts = products.filter(p => p.quantity <= 5);
+  const getLimits = (product: Product) => getStockLimits(product, categories);
+  const lowStockProducts = products.filter(p => isLowStock(p, getLimits(p)));
+
+  const allFilteredSelected = filteredProducts.length > 0 && filteredProducts.every(p => selectedProductIds.includes(p.productId));
+
+  const toggleProductSelection = (productId: string) => {
+    setSelectedProductIds(prev => prev.includes(productId) ? prev.filter(id => id !== productId) : [...prev, productId]);
+  };
+
+  const toggleAllFiltered = () => {
+    const filteredIds = filteredProducts.map(p => p.productId);
+    setSelectedProductIds(prev => allFilteredSelected
+      ? prev.filter(id => !filteredIds.includes(id))
+      : Array.from(new Set([...prev, ...filteredIds])));
+  };
 
   const getCategoryDisplayText = (categoryNumber: number | null): string => {
     return categoryService.getCategoryDisplayText(categoryNumber, categories);
@@ -487,7 +571,32 @@ export function InventoryPage() {
               <span className="hidden sm:inline">Exportar Inventario</span>
               <span className="sm:hidden">Exportar</span>
             </Button>
+            <Button
+              variant="secondary"
+              onClick={() => setShowShrinkageReport(true)}
+              className="text-xs md:text-sm"
+            >
+              <span className="hidden sm:inline">Reporte de Mermas</span>
+              <span className="sm:hidden">Mermas</span>
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => setShowLabelModal(true)}
+              disabled={!selectedProductIds.length}
+              className="text-xs md:text-sm"
+            >
+              <span className="hidden sm:inline">Imprimir Etiquetas ({selectedProductIds.length})</span>
+              <span className="sm:hidden">Etiquetas</span>
+            </Button>
           </div>
+          <Button
+            variant="secondary"
+            onClick={() => setShowStyleModal(true)}
+            className="text-xs md:text-sm"
+          >
+            <span className="hidden sm:inline">Nuevo Estilo (Tallas/Colores)</span>
+            <span className="sm:hidden">Estilo</span>
+          </Button>
           {/* New Product Button */}
           <Button onClick={handleCreateProduct} className="text-xs md:text-sm">
             <span className="hidden sm:inline">Nuevo Producto</span>
@@ -522,7 +631,7 @@ export function InventoryPage() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600 dark:text-gray-400">En Stock</p>
               <p className="text-2xl font-semibold text-gray-900 dark:text-white">
-                {products.filter(p => p.quantity > 5).length}
+                {products.length - lowStockProducts.length}
               </p>
             </div>
           </div>
@@ -560,12 +669,17 @@ export function InventoryPage() {
       {/* Filters */}
       <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          <Input
-            label="Buscar productos"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            placeholder="Buscar por nombre, marca, ID o talla..."
-          />
+          <div className="flex items-end gap-2">
+            <Input
+              label="Buscar productos"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar por nombre, marca, ID, talla o color..."
+            />
+            <Button type="button" variant="secondary" onClick={() => setShowCameraScanner(true)} title="Escanear con cámara">
+              📷
+            </Button>
+          </div>
           <Select
             label="Filtrar por categoría"
             value={categoryFilter.toString()}
@@ -613,6 +727,15 @@ export function InventoryPage() {
           <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
             <thead className="bg-gray-50 dark:bg-gray-700">
               <tr>
+                <th className="pl-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allFilteredSelected}
+                    onChange={toggleAllFiltered}
+                    title="Seleccionar para imprimir etiquetas"
+                    className="rounded"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                   ID
                 </th>
@@ -631,6 +754,9 @@ export function InventoryPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                   Precio
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Margen
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                   Stock
                 </th>
@@ -642,6 +768,14 @@ export function InventoryPage() {
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
               {filteredProducts.map((product) => (
                 <tr key={product.productId} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td className="pl-6 py-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedProductIds.includes(product.productId)}
+                      onChange={() => toggleProductSelection(product.productId)}
+                      className="rounded"
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
                     {product.productId}
                   </td>
@@ -655,21 +789,29 @@ export function InventoryPage() {
                     {getCategoryDisplayText(product.categoryNumber)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                    {product.size || '-'}
+                    {getVariantLabel(product) || '-'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                     S/ {product.price.toFixed(2)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {formatMargin(product)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      product.quantity <= 5 
+                    <span title={`Mín ${getLimits(product).min} · Máx ${getLimits(product).max}`} className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      isLowStock(product, getLimits(product))
                         ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' 
-                        : product.quantity <= 10
+                        : product.quantity < getLimits(product).max
                         ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
                         : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                     }`}>
                       {product.quantity}
                     </span>
+                    {!!product.reservedQuantity && (
+                      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {product.reservedQuantity} apartados · {getAvailableQuantity(product)} disponibles
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex justify-end space-x-2">
@@ -680,6 +822,20 @@ export function InventoryPage() {
                       >
                         Editar
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAdjustingProduct(product)}
+                      >
+                        Ajustar stock
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setKardexProduct(product)}
+                      >
+                        Kardex
+                      </Button>
                       <Button
                         variant="danger"
                         size="sm"
@@ -750,6 +906,52 @@ export function InventoryPage() {
         onCategoriesChange={loadCategories}
       />
 
+      <ProductStyleModal
+        isOpen={showStyleModal}
+        onClose={() => setShowStyleModal(false)}
+        onCreated={() => {
+          setShowStyleModal(false);
+          loadProducts();
+        }}
+        categories={categoryOptions}
+        onCategoryCreated={handleCategoryCreatedInForm}
+      />
+
+      <KardexModal
+        product={kardexProduct}
+        onClose={() => setKardexProduct(null)}
+      />
+
+      <StockAdjustmentModal
+        product={adjustingProduct}
+        onClose={() => setAdjustingProduct(null)}
+        onAdjust={async (request) => {
+          await adjustStock(adjustingProduct!.productId, request);
+          setAdjustingProduct(null);
+          await loadProducts();
+        }}
+      />
+
+      <ShrinkageReportModal
+        isOpen={showShrinkageReport}
+        onClose={() => setShowShrinkageReport(false)}
+      />
+
+      <CameraScannerModal
+        isOpen={showCameraScanner}
+        onClose={() => setShowCameraScanner(false)}
+        onDetected={(code) => {
+          setShowCameraScanner(false);
+          setSearchTerm(findProductByCode(products, code)?.productId || code);
+        }}
+      />
+
+      <BarcodeLabelModal
+        isOpen={showLabelModal}
+        products={products.filter(p => selectedProductIds.includes(p.productId))}
+        onClose={() => setShowLabelModal(false)}
+      />
+
       <ExcelImportModal
         isOpen={showExcelImportModal}
         onClose={() => setShowExcelImportModal(false)}
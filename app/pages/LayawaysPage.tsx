@@ -0,0 +1,223 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Button } from '../components/UI/Button';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { LayawayPaymentModal } from '../components/Layaway/LayawayPaymentModal';
+import {
+  LAYAWAY_STATUS_LABELS,
+  formatLayawayNumber,
+  getLayawayBalance
+} from '../domain/services/LayawayService';
+import type { LayawayPaymentInput } from '../domain/services/LayawayService';
+import { getPaymentMethodLabel } from '../domain/constants/PaymentMethods';
+import { formatUTCDateToLocal } from '../utils/dateUtils';
+import type { Layaway, LayawayStatus } from '../domain/entities/Layaway';
+
+const STATUS_STYLES: Record<LayawayStatus, string> = {
+  open: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  expired: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+};
+
+export function LayawaysPage() {
+  const { layawayService, electronicReceiptService } = useAppContext();
+  const [layaways, setLayaways] = useState<Layaway[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LayawayStatus | 'all'>('open');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [payingLayaway, setPayingLayaway] = useState<Layaway | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const expired = await layawayService.expireOverdue();
+      if (expired) setSuccess(`${expired} apartado(s) vencieron y sus unidades volvieron al stock.`);
+      setLayaways(await layawayService.getAllLayaways());
+    } catch (err) {
+      console.error('Error loading layaways:', err);
+      setError('Error al cargar los apartados');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [layawayService]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // RUC buyers get a factura, everyone else a boleta
+  const getDocumentType = (layaway: Layaway) =>
+    electronicReceiptService.getCustomerDocumentType(layaway.clientDni) === '6' ? '01' : '03';
+
+  const handlePayment = async (layaway: Layaway, payment: LayawayPaymentInput) => {
+    const updated = await layawayService.addPayment(layaway, payment, getDocumentType(layaway));
+    setPayingLayaway(null);
+    setSuccess(updated.status === 'completed'
+      ? `${formatLayawayNumber(updated.number)} pagado. La venta fue registrada; puede verla en el Historial.`
+      : `Abono registrado. Saldo pendiente de ${formatLayawayNumber(updated.number)}: S/ ${getLayawayBalance(updated).toFixed(2)}`);
+    await loadData();
+  };
+
+  // A layaway can end up paid but open if the sale failed; this retries it
+  const handleComplete = async (layaway: Layaway) => {
+    setError('');
+    try {
+      await layawayService.completeLayaway(layaway, getDocumentType(layaway));
+      setSuccess(`${formatLayawayNumber(layaway.number)} convertido en venta.`);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message || 'Error al generar la venta');
+    }
+  };
+
+  const handleCancel = async (layaway: Layaway) => {
+    if (!window.confirm(`¿Anular el apartado ${formatLayawayNumber(layaway.number)}? Las unidades vuelven al stock; los abonos no se devuelven automáticamente.`)) return;
+    setError('');
+    try {
+      await layawayService.cancelLayaway(layaway);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message || 'Error al anular el apartado');
+    }
+  };
+
+  const filteredLayaways = statusFilter === 'all' ? layaways : layaways.filter(l => l.status === statusFilter);
+
+  if (isLoading && !layaways.length) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <LoadingSpinner size="lg" text="Cargando apartados..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Apartados</h1>
+        <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+          Mercadería separada con adelanto. Se registran desde Nueva Venta.
+        </p>
+      </div>
+
+      {/* Status filter */}
+      <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        {([['open', 'Vigentes'], ['completed', 'Completados'], ['expired', 'Vencidos'], ['cancelled', 'Anulados'], ['all', 'Todos']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setStatusFilter(key)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              statusFilter === key
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 hover:text-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {success}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        {filteredLayaways.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            No hay apartados en esta lista.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {filteredLayaways.map(layaway => {
+              const balance = getLayawayBalance(layaway);
+              return (
+                <div key={layaway.id} className="p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <button
+                      onClick={() => setExpandedId(expandedId === layaway.id ? null : layaway.id)}
+                      className="text-left text-sm"
+                    >
+                      <div className="font-semibold text-gray-900 dark:text-white hover:underline">
+                        {formatLayawayNumber(layaway.number)} · {layaway.clientName}
+                        <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[layaway.status]}`}>
+                          {LAYAWAY_STATUS_LABELS[layaway.status]}
+                        </span>
+                      </div>
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {layaway.clientDni} · Total S/ {layaway.total.toFixed(2)} · Pagado S/ {layaway.paid.toFixed(2)}
+                        {layaway.status === 'open' && ` · Saldo S/ ${balance.toFixed(2)} · Vence ${layaway.expiresAt}`}
+                      </div>
+                    </button>
+                    {layaway.status === 'open' && (
+                      <div className="flex flex-wrap gap-2">
+                        {balance > 0 ? (
+                          <Button size="sm" onClick={() => setPayingLayaway(layaway)}>
+                            Abonar
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="success" onClick={() => handleComplete(layaway)}>
+                            Generar venta
+                          </Button>
+                        )}
+                        <Button size="sm" variant="danger" onClick={() => handleCancel(layaway)}>
+                          Anular
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {expandedId === layaway.id && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <h4 className="font-medium text-gray-900 dark:text-white mb-1">Productos</h4>
+                        <ul className="text-gray-600 dark:text-gray-300 space-y-1">
+                          {layaway.items.map((item, idx) => (
+                            <li key={idx} className="flex justify-between">
+                              <span>{item.quantity} × {item.name}</span>
+                              <span>S/ {item.subtotal.toFixed(2)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                      <div>
+                        <h4 className="font-medium text-gray-900 dark:text-white mb-1">Pagos</h4>
+                        <ul className="text-gray-600 dark:text-gray-300 space-y-1">
+                          {layaway.payments.map(payment => (
+                            <li key={payment.id} className="flex justify-between">
+                              <span>
+                                {formatUTCDateToLocal(payment.date)} · {getPaymentMethodLabel(payment.method)}
+                                {payment.reference && <span className="text-xs text-gray-500"> · {payment.reference}</span>}
+                              </span>
+                              <span>S/ {payment.amount.toFixed(2)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <LayawayPaymentModal
+        layaway={payingLayaway}
+        onClose={() => setPayingLayaway(null)}
+        onSave={handlePayment}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Button } from '../components/UI/Button';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { PromotionForm } from '../components/Promotion/PromotionForm';
+import { PROMOTION_TYPE_LABELS, describePromotion } from '../domain/services/PromotionService';
+import { isPromotionActive } from '../domain/services/PromotionEngine';
+import type { Category } from '../domain/entities/Category';
+import type { Promotion, CreatePromotionRequest } from '../domain/entities/Promotion';
+
+export function PromotionsPage() {
+  const { promotionService, categoryRepo } = useAppContext();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [allPromotions, allCategories] = await Promise.all([
+        promotionService.getAllPromotions(),
+        categoryRepo.getAll()
+      ]);
+      setPromotions(allPromotions);
+      setCategories(allCategories);
+    } catch (err) {
+      console.error('Error loading promotions:', err);
+      setError('Error al cargar las promociones');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [promotionService, categoryRepo]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const openForm = (promotion: Promotion | null) => {
+    setEditingPromotion(promotion);
+    setShowForm(true);
+  };
+
+  const handleSave = async (request: CreatePromotionRequest) => {
+    await promotionService.savePromotion(request, editingPromotion?.id);
+    setShowForm(false);
+    await loadData();
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await loadData();
+    } catch (err: any) {
+      alert(err.message || 'Error al actualizar la promoción');
+    }
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    if (window.confirm(`¿Eliminar la promoción "${promotion.name}"? Las ventas ya registradas la conservan.`)) {
+      runAction(() => promotionService.deletePromotion(promotion.id));
+    }
+  };
+
+  const getScopeLabel = (promotion: Promotion): string => {
+    const scope = [
+      ...promotion.categoryNumbers.map(number => categories.find(c => c.categoryNumber === number)?.name || `Categoría ${number}`),
+      ...promotion.productIds
+    ];
+    return scope.length ? scope.join(', ') : 'Toda la tienda';
+  };
+
+  const getStatus = (promotion: Promotion): { label: string; className: string } => {
+    if (!promotion.active) return { label: 'Pausada', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200' };
+    if (isPromotionActive(promotion)) return { label: 'Vigente', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' };
+    return { label: 'Fuera de fecha', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' };
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <LoadingSpinner size="lg" text="Cargando promociones..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Promociones</h1>
+          <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+            Se aplican solas en la venta; cada prenda recibe la promoción que más ahorra
+          </p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          Nueva Promoción
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        {promotions.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            No hay promociones registradas.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {promotions.map(promotion => {
+              const status = getStatus(promotion);
+              return (
+                <div key={promotion.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-gray-900 dark:text-white">{promotion.name}</span>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    <div className="text-gray-600 dark:text-gray-300">
+                      {PROMOTION_TYPE_LABELS[promotion.type]}: {describePromotion(promotion)} · {getScopeLabel(promotion)}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {promotion.startDate || promotion.endDate
+                        ? `Del ${promotion.startDate || '...'} al ${promotion.endDate || '...'}`
+                        : 'Sin fecha límite'}
+                      {promotion.minTicket ? ` · Ticket mínimo S/ ${promotion.minTicket.toFixed(2)}` : ''}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openForm(promotion)}>
+                      Editar
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => runAction(() => promotionService.setActive(promotion, !promotion.active))}
+                    >
+                      {promotion.active ? 'Pausar' : 'Activar'}
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(promotion)}>
+                      Eliminar
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <PromotionForm
+        isOpen={showForm}
+        promotion={editingPromotion}
+        categories={categories}
+        onClose={() => setShowForm(false)}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
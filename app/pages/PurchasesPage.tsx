@@ -0,0 +1,291 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Button } from '../components/UI/Button';
+import { Modal } from '../components/UI/Modal';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { PurchaseOrderForm } from '../components/Purchase/PurchaseOrderForm';
+import { ReceiveOrderModal } from '../components/Purchase/ReceiveOrderModal';
+import { SupplierManagement } from '../components/Purchase/SupplierManagement';
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  formatPurchaseOrderNumber,
+  getOrderTotal
+} from '../domain/services/PurchaseOrderService';
+import { formatUTCDateToLocal } from '../utils/dateUtils';
+import type { Product } from '../domain/entities/Product';
+import type { Supplier } from '../domain/entities/Supplier';
+import type { PurchaseOrder, PurchaseOrderStatus, CreatePurchaseOrderRequest, GoodsReceiptItem } from '../domain/entities/PurchaseOrder';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  ordered: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  partial: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  received: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+export function PurchasesPage() {
+  const { productRepo, purchaseOrderService, receivePurchaseOrder } = useAppContext();
+  const [activeTab, setActiveTab] = useState<'orders' | 'suppliers'>('orders');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all'>('open');
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [showOrderForm, setShowOrderForm] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadSuppliers = useCallback(async () => {
+    setSuppliers(await purchaseOrderService.getAllSuppliers());
+  }, [purchaseOrderService]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [allOrders, allSuppliers, allProducts] = await Promise.all([
+        purchaseOrderService.getAllOrders(),
+        purchaseOrderService.getAllSuppliers(),
+        productRepo.getAll()
+      ]);
+      setOrders(allOrders);
+      setSuppliers(allSuppliers);
+      setProducts(allProducts);
+    } catch (err) {
+      console.error('Error loading purchases:', err);
+      setError('Error al cargar las compras');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [purchaseOrderService, productRepo]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await loadData();
+    } catch (err: any) {
+      alert(err.message || 'Error al actualizar la orden');
+    }
+  };
+
+  const handleCreateOrder = async (request: CreatePurchaseOrderRequest) => {
+    await purchaseOrderService.createOrder(request);
+    setShowOrderForm(false);
+    await loadData();
+  };
+
+  const handleReceive = async (items: GoodsReceiptItem[], notes: string | null) => {
+    if (!receivingOrder) return;
+    await receivePurchaseOrder(receivingOrder, items, notes);
+    setReceivingOrder(null);
+    await loadData();
+  };
+
+  const handleCancel = (order: PurchaseOrder) => {
+    const message = order.status === 'partial'
+      ? `¿Cerrar ${formatPurchaseOrderNumber(order)}? Lo pendiente ya no se recibirá.`
+      : `¿Anular ${formatPurchaseOrderNumber(order)}?`;
+    if (window.confirm(message)) {
+      runAction(() => purchaseOrderService.cancelOrder(order));
+    }
+  };
+
+  const visibleOrders = statusFilter === 'open'
+    ? orders.filter(o => o.status === 'draft' || o.status === 'ordered' || o.status === 'partial')
+    : orders;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <LoadingSpinner size="lg" text="Cargando compras..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Compras</h1>
+          <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+            Órdenes a proveedores y recepción de mercadería
+          </p>
+        </div>
+        {activeTab === 'orders' && (
+          <Button onClick={() => setShowOrderForm(true)} disabled={!suppliers.length}>
+            Nueva Orden de Compra
+          </Button>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        {([['orders', 'Órdenes de compra'], ['suppliers', 'Proveedores']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setActiveTab(key)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              activeTab === key
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 hover:text-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {activeTab === 'suppliers' ? (
+        <SupplierManagement suppliers={suppliers} onChange={loadSuppliers} />
+      ) : (
+        <div className="space-y-4">
+          {!suppliers.length && (
+            <p className="text-sm text-yellow-600 dark:text-yellow-400">
+              Registre al menos un proveedor para crear órdenes de compra.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <Button size="sm" variant={statusFilter === 'open' ? 'primary' : 'secondary'} onClick={() => setStatusFilter('open')}>
+              Pendientes
+            </Button>
+            <Button size="sm" variant={statusFilter === 'all' ? 'primary' : 'secondary'} onClick={() => setStatusFilter('all')}>
+              Todas
+            </Button>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+            {visibleOrders.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                No hay órdenes de compra {statusFilter === 'open' ? 'pendientes' : ''}.
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleOrders.map(order => {
+                  const ordered = order.items.reduce((sum, i) => sum + i.orderedQuantity, 0);
+                  const received = order.items.reduce((sum, i) => sum + i.receivedQuantity, 0);
+                  const isExpanded = expandedOrderId === order.id;
+                  return (
+                    <div key={order.id} className="p-4">
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono font-semibold text-gray-900 dark:text-white">
+                              {formatPurchaseOrderNumber(order)}
+                            </span>
+                            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[order.status]}`}>
+                              {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                            </span>
+                          </div>
+                          <div className="text-gray-600 dark:text-gray-300">{order.supplierName}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatUTCDateToLocal(order.createdAt)}
+                            {order.expectedDate && ` · Entrega: ${order.expectedDate}`}
+                            {` · Recibido ${received} de ${ordered} und.`}
+                            {` · S/ ${getOrderTotal(order.items).toFixed(2)}`}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" variant="outline" onClick={() => setExpandedOrderId(isExpanded ? null : order.id)}>
+                            {isExpanded ? 'Ocultar' : 'Detalle'}
+                          </Button>
+                          {order.status === 'draft' && (
+                            <Button size="sm" variant="secondary" onClick={() => runAction(() => purchaseOrderService.markAsOrdered(order))}>
+                              Marcar como pedida
+                            </Button>
+                          )}
+                          {(order.status === 'ordered' || order.status === 'partial') && (
+                            <Button size="sm" variant="success" onClick={() => setReceivingOrder(order)}>
+                              Recibir
+                            </Button>
+                          )}
+                          {order.status !== 'received' && order.status !== 'cancelled' && (
+                            <Button size="sm" variant="danger" onClick={() => handleCancel(order)}>
+                              {order.status === 'partial' ? 'Cerrar' : 'Anular'}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+
+                      {isExpanded && (
+                        <div className="mt-3 space-y-3">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                                <th className="py-1 pr-2">Producto</th>
+                                <th className="py-1 px-2 text-right">Pedido</th>
+                                <th className="py-1 px-2 text-right">Recibido</th>
+                                <th className="py-1 px-2 text-right">Faltante</th>
+                                <th className="py-1 pl-2 text-right">Costo unit.</th>
+                              </tr>
+                            </thead>
+                            <tbody className="text-gray-900 dark:text-white">
+                              {order.items.map(item => (
+                                <tr key={item.productId}>
+                                  <td className="py-1 pr-2">{item.name}</td>
+                                  <td className="py-1 px-2 text-right">{item.orderedQuantity}</td>
+                                  <td className="py-1 px-2 text-right">{item.receivedQuantity}</td>
+                                  <td className={`py-1 px-2 text-right ${item.receivedQuantity < item.orderedQuantity ? 'text-yellow-500' : ''}`}>
+                                    {Math.max(0, item.orderedQuantity - item.receivedQuantity)}
+                                  </td>
+                                  <td className="py-1 pl-2 text-right">S/ {item.unitCost.toFixed(2)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+
+                          {order.receipts.length > 0 && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                              <div className="font-medium">Entregas:</div>
+                              {order.receipts.map(receipt => (
+                                <div key={receipt.id}>
+                                  {formatUTCDateToLocal(receipt.date)}: {receipt.items.reduce((sum, i) => sum + i.quantity, 0)} und.
+                                  {receipt.notes && ` · ${receipt.notes}`}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+
+                          {order.notes && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Notas: {order.notes}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Modal isOpen={showOrderForm} onClose={() => setShowOrderForm(false)} title="Nueva Orden de Compra" size="xl">
+        <PurchaseOrderForm
+          suppliers={suppliers}
+          products={products}
+          onSave={handleCreateOrder}
+          onCancel={() => setShowOrderForm(false)}
+        />
+      </Modal>
+
+      <ReceiveOrderModal
+        order={receivingOrder}
+        onClose={() => setReceivingOrder(null)}
+        onReceive={handleReceive}
+      />
+    </div>
+  );
+}
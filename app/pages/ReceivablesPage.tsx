@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Button } from '../components/UI/Button';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { ReceivablePaymentModal } from '../components/Receivable/ReceivablePaymentModal';
+import {
+  AGING_BUCKET_LABELS,
+  SALE_PAYMENT_STATUS_LABELS,
+  getDaysOutstanding,
+  getSaleBalanceDue,
+  getSalePaymentStatus
+} from '../domain/services/ReceivableService';
+import type { ReceivablePaymentInput } from '../domain/services/ReceivableService';
+import { getSaleDocumentNumber } from '../domain/services/DocumentSeriesService';
+import { getPaymentMethodLabel } from '../domain/constants/PaymentMethods';
+import { formatUTCDateToLocal } from '../utils/dateUtils';
+import type { AgingBucket, CustomerReceivable, ReceivablePayment } from '../domain/entities/Receivable';
+import type { Sale } from '../domain/entities/Sale';
+
+const BUCKETS: AgingBucket[] = ['current', 'days31to60', 'over60'];
+
+const BUCKET_STYLES: Record<AgingBucket, string> = {
+  current: 'text-gray-900 dark:text-white',
+  days31to60: 'text-yellow-600 dark:text-yellow-400',
+  over60: 'text-red-600 dark:text-red-400'
+};
+
+export function ReceivablesPage() {
+  const { receivableService } = useAppContext();
+  const [report, setReport] = useState<CustomerReceivable[]>([]);
+  const [expandedDni, setExpandedDni] = useState<string | null>(null);
+  const [paymentsSale, setPaymentsSale] = useState<Sale | null>(null);
+  const [payments, setPayments] = useState<ReceivablePayment[]>([]);
+  const [payingReceivable, setPayingReceivable] = useState<CustomerReceivable | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setReport(await receivableService.getAgingReport());
+    } catch (err) {
+      console.error('Error loading receivables:', err);
+      setError('Error al cargar las cuentas por cobrar');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [receivableService]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const showPayments = async (sale: Sale) => {
+    if (paymentsSale?.id === sale.id) {
+      setPaymentsSale(null);
+      return;
+    }
+    try {
+      setPaymentsSale(sale);
+      setPayments(await receivableService.getPayments(sale));
+    } catch (err) {
+      console.error('Error loading receivable payments:', err);
+      setPayments([]);
+    }
+  };
+
+  const handlePayment = async (receivable: CustomerReceivable, payment: ReceivablePaymentInput) => {
+    const updated: Sale[] = await receivableService.registerPayment(receivable, payment);
+    setPayingReceivable(null);
+    setPaymentsSale(null);
+    setSuccess(`Pago de S/ ${payment.amount.toFixed(2)} de ${receivable.clientName} aplicado a ${updated.length} venta${updated.length !== 1 ? 's' : ''}.`);
+    await loadData();
+  };
+
+  const totals = BUCKETS.reduce<Record<AgingBucket, number>>((acc, bucket) => {
+    acc[bucket] = report.reduce((sum, entry) => sum + entry.buckets[bucket], 0);
+    return acc;
+  }, { current: 0, days31to60: 0, over60: 0 });
+  const totalDebt = report.reduce((sum, entry) => sum + entry.balance, 0);
+
+  if (isLoading && !report.length) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <LoadingSpinner size="lg" text="Cargando cuentas por cobrar..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Cuentas por Cobrar</h1>
+        <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+          Ventas al crédito (fiado) pendientes de pago, por antigüedad
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {success}
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+          <div className="text-xs text-gray-500 dark:text-gray-400">Total por cobrar</div>
+          <div className="text-xl font-bold text-gray-900 dark:text-white">S/ {totalDebt.toFixed(2)}</div>
+        </div>
+        {BUCKETS.map(bucket => (
+          <div key={bucket} className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+            <div className="text-xs text-gray-500 dark:text-gray-400">{AGING_BUCKET_LABELS[bucket]}</div>
+            <div className={`text-xl font-bold ${BUCKET_STYLES[bucket]}`}>S/ {totals[bucket].toFixed(2)}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Aging by customer */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        {report.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            No hay ventas al crédito pendientes de pago.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="px-4 py-2">Cliente</th>
+                  {BUCKETS.map(bucket => (
+                    <th key={bucket} className="px-4 py-2 text-right">{AGING_BUCKET_LABELS[bucket]}</th>
+                  ))}
+                  <th className="px-4 py-2 text-right">Total</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                {report.map(entry => (
+                  <React.Fragment key={entry.clientDni}>
+                    <tr>
+                      <td className="px-4 py-2">
+                        <button
+                          onClick={() => setExpandedDni(expandedDni === entry.clientDni ? null : entry.clientDni)}
+                          className="text-left hover:underline"
+                        >
+                          <div className="font-medium">{entry.clientName}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {entry.clientDni} · {entry.sales.length} venta{entry.sales.length !== 1 ? 's' : ''}
+                          </div>
+                        </button>
+                      </td>
+                      {BUCKETS.map(bucket => (
+                        <td key={bucket} className={`px-4 py-2 text-right ${entry.buckets[bucket] > 0 ? BUCKET_STYLES[bucket] : 'text-gray-400'}`}>
+                          {entry.buckets[bucket] > 0 ? `S/ ${entry.buckets[bucket].toFixed(2)}` : '-'}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-right font-semibold">S/ {entry.balance.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-right">
+                        <Button size="sm" onClick={() => setPayingReceivable(entry)}>
+                          Registrar pago
+                        </Button>
+                      </td>
+                    </tr>
+
+                    {expandedDni === entry.clientDni && (
+                      <tr>
+                        <td colSpan={BUCKETS.length + 3} className="px-4 py-3 bg-gray-50 dark:bg-gray-900">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                                <th className="py-1 pr-2">Comprobante</th>
+                                <th className="py-1 px-2">Fecha</th>
+                                <th className="py-1 px-2 text-right">Días</th>
+                                <th className="py-1 px-2">Estado</th>
+                                <th className="py-1 px-2 text-right">Total</th>
+                                <th className="py-1 px-2 text-right">Saldo</th>
+                                <th className="py-1 pl-2"></th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {entry.sales.map(sale => (
+                                <React.Fragment key={sale.id}>
+                                  <tr>
+                                    <td className="py-1 pr-2 font-mono">{getSaleDocumentNumber(sale) || '-'}</td>
+                                    <td className="py-1 px-2">{formatUTCDateToLocal(sale.date).split(' ')[0]}</td>
+                                    <td className="py-1 px-2 text-right">{getDaysOutstanding(sale)}</td>
+                                    <td className="py-1 px-2">{SALE_PAYMENT_STATUS_LABELS[getSalePaymentStatus(sale)]}</td>
+                                    <td className="py-1 px-2 text-right">S/ {sale.total.toFixed(2)}</td>
+                                    <td className="py-1 px-2 text-right font-semibold">S/ {getSaleBalanceDue(sale).toFixed(2)}</td>
+                                    <td className="py-1 pl-2 text-right">
+                                      <Button size="sm" variant="outline" onClick={() => showPayments(sale)}>
+                                        Pagos
+                                      </Button>
+                                    </td>
+                                  </tr>
+                                  {paymentsSale?.id === sale.id && (
+                                    <tr>
+                                      <td colSpan={7} className="py-2 pl-4 text-xs text-gray-600 dark:text-gray-300">
+                                        {payments.length === 0 ? (
+                                          'Aún no hay pagos posteriores a la venta.'
+                                        ) : (
+                                          payments.map(payment => (
+                                            <div key={payment.id}>
+                                              {formatUTCDateToLocal(payment.date)} · {getPaymentMethodLabel(payment.method)}
+                                              {payment.reference && ` · ${payment.reference}`}
+                                              {' · '}S/ {payment.amount.toFixed(2)} · Saldo S/ {payment.balanceAfter.toFixed(2)}
+                                            </div>
+                                          ))
+                                        )}
+                                      </td>
+                                    </tr>
+                                  )}
+                                </React.Fragment>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <ReceivablePaymentModal
+        receivable={payingReceivable}
+        onClose={() => setPayingReceivable(null)}
+        onSave={handlePayment}
+      />
+    </div>
+  );
+}
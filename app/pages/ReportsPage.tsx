@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Button } from '../components/UI/Button';
+import { Input } from '../components/UI/Input';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import type { ProfitReport } from '../domain/services/ProfitReportService';
+import type { ProfitLine } from '../domain/services/ProfitCalculator';
+
+type ReportView = 'byDay' | 'byCategory' | 'byProduct';
+
+const VIEWS: Array<{ key: ReportView; label: string; column: string }> = [
+  { key: 'byDay', label: 'Por día', column: 'Fecha' },
+  { key: 'byCategory', label: 'Por categoría', column: 'Categoría' },
+  { key: 'byProduct', label: 'Por producto', column: 'Producto' }
+];
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatMargin = (margin: number | null) => margin === null ? '-' : `${margin.toFixed(1)}%`;
+
+export function ReportsPage() {
+  const { profitReportService } = useAppContext();
+  const today = new Date();
+  const [startDate, setStartDate] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [endDate, setEndDate] = useState(toDateInput(today));
+  const [view, setView] = useState<ReportView>('byDay');
+  const [report, setReport] = useState<ProfitReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadReport = useCallback(async () => {
+    if (startDate > endDate) {
+      setError('La fecha inicial debe ser anterior a la final');
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setError('');
+      setReport(await profitReportService.getReport(startDate, endDate));
+    } catch (err) {
+      console.error('Error loading profit report:', err);
+      setError('Error al cargar el reporte de ganancias');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profitReportService, startDate, endDate]);
+
+  useEffect(() => {
+    loadReport();
+  }, [profitReportService]);
+
+  const renderRow = (line: ProfitLine) => (
+    <tr key={line.key} className="text-gray-900 dark:text-white">
+      <td className="px-4 py-2">{line.label}</td>
+      <td className="px-4 py-2 text-right">{line.units}</td>
+      <td className="px-4 py-2 text-right">S/ {line.revenue.toFixed(2)}</td>
+      <td className="px-4 py-2 text-right">S/ {line.cost.toFixed(2)}</td>
+      <td className={`px-4 py-2 text-right font-semibold ${line.profit < 0 ? 'text-red-500' : ''}`}>
+        S/ {line.profit.toFixed(2)}
+      </td>
+      <td className="px-4 py-2 text-right">{formatMargin(line.margin)}</td>
+    </tr>
+  );
+
+  const currentView = VIEWS.find(v => v.key === view)!;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Reportes</h1>
+        <p className="text-sm md:text-base text-gray-600 dark:text-gray-400">
+          Ganancia bruta: ventas menos el costo de lo vendido, descontando devoluciones
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-sm">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <Input label="Desde" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          <Input label="Hasta" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          <Button onClick={loadReport} loading={isLoading} disabled={isLoading}>
+            Generar Reporte
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-48">
+          <LoadingSpinner size="lg" text="Calculando ganancias..." />
+        </div>
+      ) : report && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Ventas', value: `S/ ${report.totals.revenue.toFixed(2)}` },
+              { label: 'Costo de ventas', value: `S/ ${report.totals.cost.toFixed(2)}` },
+              { label: 'Ganancia bruta', value: `S/ ${report.totals.profit.toFixed(2)}` },
+              { label: 'Margen', value: formatMargin(report.totals.margin) }
+            ].map(card => (
+              <div key={card.label} className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{card.label}</p>
+                <p className="text-xl md:text-2xl font-semibold text-gray-900 dark:text-white">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {report.uncostedRevenue > 0 && (
+            <p className="text-sm text-yellow-600 dark:text-yellow-400">
+              S/ {report.uncostedRevenue.toFixed(2)} en ventas de productos sin costo registrado no se incluyen en la ganancia.
+            </p>
+          )}
+
+          {/* Breakdown */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+            <div className="flex gap-2 p-4 border-b border-gray-200 dark:border-gray-700">
+              {VIEWS.map(v => (
+                <Button key={v.key} size="sm" variant={view === v.key ? 'primary' : 'secondary'} onClick={() => setView(v.key)}>
+                  {v.label}
+                </Button>
+              ))}
+            </div>
+            {report[view].length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                No hay ventas en el periodo seleccionado.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">{currentView.column}</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Unidades</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Ventas</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Costo</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Ganancia</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Margen</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {report[view].map(renderRow)}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,120 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { generateReceiptPDF } from '../infrastructure/printing/PrintAdapter';
 import { Button } from '../components/UI/Button';
 import { Input } from '../components/UI/Input';
+import { Select } from '../components/UI/Select';
 import { Modal } from '../components/UI/Modal';
 import { LoadingSpinner } from '../components/UI/LoadingSpinner';
 import { WhatsAppModal } from '../components/UI/WhatsAppModal';
-import { formatUTCDateToLocal } from '../utils/dateUtils';
+import { CameraScannerModal } from '../components/UI/CameraScannerModal';
+import { TenderPanel, createTenderLine } from '../components/Sale/TenderPanel';
+import { PaymentBreakdown } from '../components/Sale/PaymentBreakdown';
+import { LoyaltySummary } from '../components/Sale/LoyaltySummary';
+import { ParkedCartsPanel } from '../components/Sale/ParkedCartsPanel';
+import { VariantPicker } from '../components/Product/VariantPicker';
+import { TaxSummary } from '../components/Sale/TaxSummary';
+import { ReceiptItems } from '../components/Sale/ReceiptItems';
+import { DiscountApprovalModal } from '../components/Sale/DiscountApprovalModal';
+import { summarizeTender, validateTender } from '../domain/services/PaymentCalculator';
+import type { TenderLine, TenderSummary } from '../domain/services/PaymentCalculator';
+import { calculateLineTax, getSaleTaxBreakdown, getTaxSettings, summarizeTax } from '../domain/services/TaxCalculator';
+import {
+  DISCOUNT_TYPE_LABELS,
+  NO_DISCOUNT,
+  applyDiscounts,
+  getLargestDiscountPercent,
+  getMaxDiscountPercent,
+  getSaleDiscountTotal,
+  validateDiscount
+} from '../domain/services/DiscountCalculator';
+import type { Discount, DiscountType } from '../domain/services/DiscountCalculator';
+import { evaluatePromotions } from '../domain/services/PromotionEngine';
+import { describeCoupon } from '../domain/services/CouponService';
+import { normalizeDocumentNumber, searchCustomers } from '../domain/services/CustomerService';
+import { getLoyaltySettings, getMaxRedeemablePoints, pointsToSoles } from '../domain/services/LoyaltyService';
+import { formatLayawayNumber, getLayawayBalance } from '../domain/services/LayawayService';
+import { getAvailableQuantity } from '../domain/services/InventoryService';
+import { COUNTER_PAYMENT_METHODS, PAYMENT_METHODS } from '../domain/constants/PaymentMethods';
+import { formatUTCDateToLocal, toLocalDateKey } from '../utils/dateUtils';
+import { getProductDisplayName } from '../domain/services/ProductStyleService';
+import { findProductByCode } from '../utils/productLookup';
+import { playScanError, playScanSuccess } from '../infrastructure/audio/ScanSoundAdapter';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { DOCUMENT_TYPE_LABELS, getSaleDocumentNumber } from '../domain/services/DocumentSeriesService';
 import type { Product } from '../domain/entities/Product';
-import type { Sale, SaleItem } from '../domain/entities/Sale';
+import type { Promotion } from '../domain/entities/Promotion';
+import type { Coupon } from '../domain/entities/Coupon';
+import type { Customer } from '../domain/entities/Customer';
+import type { Sale, SaleItem, SalePayment, PaymentMethod } from '../domain/entities/Sale';
 import type { StoreConfig } from '../domain/entities/StoreConfig';
+import type { AuthUser } from '../domain/entities/User';
+import type { CartSnapshot, ParkedCart } from '../domain/entities/ParkedCart';
 import type { CreateSaleRequest } from '../domain/repositories/SaleRepository';
+import { round2 } from '../utils/money';
 
 interface SaleItemWithVenta extends Product {
-  ventaPrice: number;
   ventaQty: number;
+  descuento: Discount;
 }
 
+const NO_POINTS = { points: 0, mode: 'discount' as const };
+
+// Layaways are held for 30 days unless the cashier picks another date
+const LAYAWAY_DAYS = 30;
+
+const createLayawayForm = () => {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + LAYAWAY_DAYS);
+  return { deposit: '', method: 'cash' as PaymentMethod, reference: '', expiresAt: toLocalDateKey(expiresAt) };
+};
+
 export function SalesPage() {
-  const { productRepo, saleRepo, configRepo } = useAppContext();
+  const {
+    productRepo,
+    configRepo,
+    authRepo,
+    promotionService,
+    couponService,
+    customerService,
+    loyaltyService,
+    layawayService,
+    parkedCartService,
+    cashSessionService,
+    makeSale,
+    electronicReceiptService
+  } = useAppContext();
   const [productos, setProductos] = useState<Product[]>([]);
   const [busqueda, setBusqueda] = useState('');
   const [showDropdown, setShowDropdown] = useState(false);
   const [items, setItems] = useState<SaleItemWithVenta[]>([]);
+  // Scans can arrive faster than renders, so adding a unit reads the latest cart from here
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
   const [cliente, setCliente] = useState({ dni: '', name: '' });
+  const [clientes, setClientes] = useState<Customer[]>([]);
+  const [showClienteDropdown, setShowClienteDropdown] = useState(false);
+  const [tenderLines, setTenderLines] = useState<TenderLine[]>([createTenderLine()]);
   const [config, setConfig] = useState<StoreConfig | null>(null);
+  const [usuario, setUsuario] = useState<AuthUser | null>(null);
+  const [promociones, setPromociones] = useState<Promotion[]>([]);
+  const [descuentoTicket, setDescuentoTicket] = useState<Discount>(NO_DISCOUNT);
+  const [showApprovalModal, setShowApprovalModal] = useState(false);
+  const [codigoCupon, setCodigoCupon] = useState('');
+  const [cupon, setCupon] = useState<Coupon | null>(null);
+  const [cuponError, setCuponError] = useState('');
+  const [puntosDisponibles, setPuntosDisponibles] = useState<number | null>(null);
+  const [canjePuntos, setCanjePuntos] = useState<{ points: number; mode: 'discount' | 'payment' }>(NO_POINTS);
+  const [modoApartado, setModoApartado] = useState(false);
+  const [apartado, setApartado] = useState(createLayawayForm);
+  const [carritosEnEspera, setCarritosEnEspera] = useState<ParkedCart[]>([]);
+  // The in-progress cart is only autosaved once any saved one has been recovered
+  const [borradorListo, setBorradorListo] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [busquedaError, setBusquedaError] = useState('');
+  const [variantStyleId, setVariantStyleId] = useState<string | null>(null);
+  const [showCameraScanner, setShowCameraScanner] = useState(false);
   const [lastSale, setLastSale] = useState<Sale | null>(null);
   const [showPrintModal, setShowPrintModal] = useState(false);
   const [showWhatsAppModal, setShowWhatsAppModal] = useState(false);
@@ -41,30 +128,77 @@ export function SalesPage() {
   const cargar = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [allProducts, storeConfig] = await Promise.all([
+      // Lapsed layaways give their units back before the catalog is read
+      await layawayService.expireOverdue().catch((error: unknown) => {
+        console.error('Error venciendo apartados:', error);
+      });
+      const [allProducts, storeConfig, currentUser, activePromotions, allCustomers] = await Promise.all([
         productRepo.getAll(),
-        configRepo.get()
+        configRepo.get(),
+        authRepo.getCurrentUser(),
+        // Selling must keep working even if promotions or customers cannot be loaded
+        promotionService.getActivePromotions().catch((error: unknown) => {
+          console.error('Error cargando promociones:', error);
+          return [];
+        }),
+        customerService.getAllCustomers().catch((error: unknown) => {
+          console.error('Error cargando clientes:', error);
+          return [];
+        })
       ]);
       setProductos(allProducts);
       setConfig(storeConfig);
+      setUsuario(currentUser);
+      setPromociones(activePromotions);
+      setClientes(allCustomers);
     } catch (error) {
       console.error('Error cargando datos:', error);
       setError('Error al cargar los datos');
     } finally {
       setIsLoading(false);
     }
-  }, [productRepo, configRepo]);
+  }, [productRepo, configRepo, authRepo, promotionService, customerService, layawayService]);
 
   useEffect(() => {
     cargar();
   }, [cargar]);
 
+  // After a reload or coming back from another screen, pick up the cart that was being rung up
+  useEffect(() => {
+    if (isLoading || borradorListo) return;
+    const recuperar = async () => {
+      try {
+        const [borrador, enEspera] = await Promise.all([parkedCartService.getDraft(), parkedCartService.getParkedCarts()]);
+        setCarritosEnEspera(enEspera);
+        if (borrador) {
+          await restaurarCarrito(borrador);
+          setSuccess('Se recuperó el carrito que estaba en curso.');
+        }
+      } catch (error) {
+        console.error('Error recuperando el carrito:', error);
+      } finally {
+        setBorradorListo(true);
+      }
+    };
+    recuperar();
+  }, [isLoading, borradorListo]);
+
+  useEffect(() => {
+    if (!borradorListo) return;
+    parkedCartService.saveDraft(snapshotCarrito()).catch((error: unknown) => {
+      console.error('Error guardando el carrito en curso:', error);
+    });
+  }, [borradorListo, items, cliente, descuentoTicket, cupon]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       const target = event.target as Element;
       if (!target.closest('.dropdown-container')) {
         setShowDropdown(false);
       }
+      if (!target.closest('.cliente-dropdown-container')) {
+        setShowClienteDropdown(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
@@ -74,7 +208,7 @@ export function SalesPage() {
   // Filtrar productos: priorizar búsqueda por ID, luego por nombre
   const productosVistas = productos.filter(p => {
     if (!busqueda.trim()) return false;
-    if (p.quantity <= 0) return false;
+    if (getAvailableQuantity(p) <= 0) return false;
     
     const searchTerm = busqueda.toLowerCase().trim();
     
@@ -106,22 +240,131 @@ export function SalesPage() {
     return a.name.localeCompare(b.name);
   });
 
-  const agregarItem = (producto: Product) => {
-    const existe = items.find(it => it.productId === producto.productId);
-    if (existe) {
-      setBusquedaError('Este producto ya fue agregado');
-      setTimeout(() => setBusquedaError(''), 3000);
+  // Variants of the same style are listed once; an exact SKU still lists the variant itself
+  const resultadosBusqueda = productosVistas.filter((p, idx) => {
+    if (!p.styleId || p.productId.toLowerCase() === busqueda.toLowerCase().trim()) return true;
+    return productosVistas.findIndex(other => other.styleId === p.styleId) === idx;
+  });
+
+  // Customers from the directory matching the typed DNI/RUC or name
+  const sugerenciasCliente = searchCustomers(clientes, cliente.dni);
+  const findCliente = (dni: string | null) => {
+    const documento = normalizeDocumentNumber(dni);
+    return documento ? clientes.find(c => c.documentNumber === documento) : undefined;
+  };
+  const clienteRegistrado = findCliente(cliente.dni);
+  // Once the sale is stored the form is cleared, so WhatsApp goes to the buyer of the last sale
+  const telefonoCliente = (lastSale ? findCliente(lastSale.clientDni) : clienteRegistrado)?.phone || '';
+  const loyaltySettings = getLoyaltySettings(config);
+
+  // Points balance of the recognized customer, after writing off lapsed points
+  useEffect(() => {
+    setPuntosDisponibles(null);
+    setCanjePuntos(NO_POINTS);
+    if (!clienteRegistrado || !loyaltySettings.enabled) return;
+    let cancelado = false;
+    const cargarPuntos = async () => {
+      try {
+        const balance = await loyaltyService.getBalance(clienteRegistrado);
+        if (!cancelado) setPuntosDisponibles(balance);
+      } catch (error) {
+        console.error('Error cargando puntos del cliente:', error);
+      }
+    };
+    cargarPuntos();
+    return () => { cancelado = true; };
+  }, [clienteRegistrado?.id, loyaltySettings.enabled, loyaltyService]);
+
+  const cambiarDniCliente = (dni: string) => {
+    const registrado = findCliente(dni);
+    // A known DNI fills in the saved name, so the same customer is not typed differently each visit
+    setCliente(registrado ? { dni, name: registrado.name } : { ...cliente, dni });
+    setShowClienteDropdown(true);
+  };
+
+  const seleccionarCliente = (customer: Customer) => {
+    setCliente({ dni: customer.documentNumber, name: customer.name });
+    setShowClienteDropdown(false);
+  };
+
+  const getVariantesDisponibles = (styleId: string) =>
+    productos.filter(p => p.styleId === styleId && getAvailableQuantity(p) > 0);
+
+  const seleccionarProducto = (producto: Product) => {
+    const esSkuExacto = producto.productId.toLowerCase() === busqueda.toLowerCase().trim();
+    if (producto.styleId && !esSkuExacto && getVariantesDisponibles(producto.styleId).length > 1) {
+      setVariantStyleId(producto.styleId);
+      setShowDropdown(false);
       return;
     }
-    
-    setItems([...items, { 
-      ...producto, 
-      ventaPrice: producto.price, 
-      ventaQty: 1 
-    }]);
+    agregarItem(producto);
+  };
+
+  const mostrarErrorBusqueda = (mensaje: string) => {
+    setBusquedaError(mensaje);
+    setTimeout(() => setBusquedaError(''), 3000);
+  };
+
+  // Adding a product that is already in the cart adds one more unit, up to the stock
+  const agregarItem = (producto: Product): boolean => {
+    const disponible = getAvailableQuantity(producto);
+    const actuales = itemsRef.current;
+    const existe = actuales.find(it => it.productId === producto.productId);
+    const cantidad = existe ? parseInt(existe.ventaQty.toString()) + 1 : 1;
+    if (existe && cantidad > disponible) {
+      mostrarErrorBusqueda(`Stock insuficiente para ${existe.name}. Disponible: ${disponible}`);
+      return false;
+    }
+    const siguientes = existe
+      ? actuales.map(it => it.productId === producto.productId ? { ...it, ventaQty: cantidad } : it)
+      : [...actuales, {
+          ...producto,
+          name: getProductDisplayName(producto),
+          ventaQty: 1,
+          descuento: NO_DISCOUNT
+        }];
+    itemsRef.current = siguientes;
+    setItems(siguientes);
     setBusqueda('');
     setShowDropdown(false);
     setBusquedaError('');
+    setVariantStyleId(null);
+    return true;
+  };
+
+  const handleScan = (codigo: string) => {
+    const producto = findProductByCode(productos, codigo);
+    setBusqueda('');
+    setShowDropdown(false);
+    if (!producto) {
+      playScanError();
+      mostrarErrorBusqueda(`Código no encontrado: ${codigo}`);
+      return;
+    }
+    if (getAvailableQuantity(producto) <= 0) {
+      playScanError();
+      mostrarErrorBusqueda(`${getProductDisplayName(producto)} no tiene stock`);
+      return;
+    }
+    if (agregarItem(producto)) {
+      playScanSuccess();
+    } else {
+      playScanError();
+    }
+  };
+
+  useBarcodeScanner({ onScan: handleScan });
+
+  // Enter typed by hand: add the exact code or the only result, and never submit the sale form
+  const handleBusquedaKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const producto = findProductByCode(productos, busqueda);
+    if (producto && getAvailableQuantity(producto) > 0) {
+      agregarItem(producto);
+    } else if (resultadosBusqueda.length === 1) {
+      seleccionarProducto(resultadosBusqueda[0]);
+    }
   };
 
   const quitarItem = (idx: number) => setItems(items => items.filter((_, i) => i !== idx));
@@ -130,7 +373,93 @@ export function SalesPage() {
     setItems(items => items.map((it, i) => i === idx ? { ...it, [campo]: valor } : it));
   };
 
-  const subtotal = items.reduce((sum, it) => sum + (parseFloat(it.ventaPrice.toString()) * parseInt(it.ventaQty.toString())), 0);
+  const handleDescuentoChange = (idx: number, cambios: Partial<Discount>) => {
+    setItems(items => items.map((it, i) => i === idx ? { ...it, descuento: { ...it.descuento, ...cambios } } : it));
+  };
+
+  const aplicarCupon = async () => {
+    if (!codigoCupon.trim()) return;
+    setCuponError('');
+    try {
+      setCupon(await couponService.getValidCoupon(codigoCupon));
+      setCodigoCupon('');
+    } catch (err: any) {
+      setCuponError(err.message || 'Cupón no válido');
+    }
+  };
+
+  // Prices come from the catalog; any reduction is a promotion, a coupon or an explicit, recorded
+  // discount, applied in that order. Only manual discounts count against the role limit.
+  const lineaPromociones = evaluatePromotions(items.map(it => ({
+    productId: it.productId,
+    styleId: it.styleId,
+    categoryNumber: it.categoryNumber,
+    unitPrice: it.price,
+    quantity: parseInt(it.ventaQty.toString()) || 0
+  })), promociones);
+  const lineaCupon = applyDiscounts(
+    items.map((it, idx) => round2(it.price * parseInt(it.ventaQty.toString()) - (lineaPromociones[idx]?.discount || 0))),
+    [],
+    cupon ? { type: cupon.discountType, value: cupon.value, reason: cupon.code } : NO_DISCOUNT
+  );
+  const lineDiscounts = applyDiscounts(
+    lineaCupon.map(line => line.net),
+    items.map(it => it.descuento),
+    descuentoTicket
+  );
+  // Points come off last, as a discount or as part of the payment; like coupons they need no approval
+  const netoSinPuntos = round2(lineDiscounts.reduce((sum, line) => sum + line.net, 0));
+  const maxPuntos = getMaxRedeemablePoints(clienteRegistrado ? puntosDisponibles ?? 0 : 0, netoSinPuntos, loyaltySettings);
+  const puntosCanje = Math.min(canjePuntos.points, maxPuntos);
+  const valorPuntos = pointsToSoles(puntosCanje, loyaltySettings);
+  const lineaPuntos = applyDiscounts(
+    lineDiscounts.map(line => line.net),
+    [],
+    canjePuntos.mode === 'discount' && valorPuntos > 0 ? { type: 'amount', value: valorPuntos, reason: 'Puntos' } : NO_DISCOUNT
+  );
+  const taxSettings = getTaxSettings(config);
+  const lineTaxes = items.map((it, idx) => calculateLineTax(lineaPuntos[idx].net, 1, it.taxAffectation, taxSettings));
+  const taxBreakdown = summarizeTax(lineTaxes, taxSettings.igvRate);
+  const subtotal = taxBreakdown.total;
+  const pagoPuntos = canjePuntos.mode === 'payment' ? Math.min(valorPuntos, subtotal) : 0;
+  const totalACobrar = round2(subtotal - pagoPuntos);
+  const descuentoCupon = round2(lineaCupon.reduce((sum, line) => sum + line.ticketDiscount, 0));
+  const descuentoPuntos = round2(lineaPuntos.reduce((sum, line) => sum + line.ticketDiscount, 0));
+  const descuentoTotal = round2(lineDiscounts.reduce((sum, line, idx) =>
+    sum + line.lineDiscount + line.ticketDiscount + (lineaPromociones[idx]?.discount || 0), descuentoCupon + descuentoPuntos));
+  const descuentoMaximo = getLargestDiscountPercent(lineDiscounts);
+  // Without a known user the cashier limit applies
+  const limiteDescuento = getMaxDiscountPercent(config, usuario?.role || 'cashier');
+
+  const buildSaleItems = (): CreateSaleRequest['items'] => items.map((it, idx) => {
+    const quantity = parseInt(it.ventaQty.toString());
+    const line = lineDiscounts[idx];
+    const discount = round2(line.lineDiscount + line.ticketDiscount);
+    const discountReason = line.lineDiscount > 0 ? it.descuento.reason.trim() : line.ticketDiscount > 0 ? descuentoTicket.reason.trim() : null;
+    return {
+      productId: it.productId,
+      name: it.name,
+      price: quantity ? round2(lineaPuntos[idx].net / quantity) : it.price,
+      quantity,
+      subtotal: lineTaxes[idx].total,
+      taxAffectation: lineTaxes[idx].taxAffectation,
+      taxBase: lineTaxes[idx].base,
+      igv: lineTaxes[idx].igv,
+      listPrice: it.price,
+      discount,
+      discountReason: discount > 0 ? discountReason : null,
+      promotionId: lineaPromociones[idx]?.promotionId || null,
+      promotionName: lineaPromociones[idx]?.promotionName || null,
+      promotionDiscount: lineaPromociones[idx]?.discount || 0,
+      couponDiscount: lineaCupon[idx].ticketDiscount,
+      pointsDiscount: lineaPuntos[idx].ticketDiscount
+    };
+  });
+
+  // Points paid with are one more payment line next to what the cashier tendered
+  const buildPayments = (tender: TenderSummary): SalePayment[] => pagoPuntos > 0
+    ? [...tender.payments, { method: 'points', amount: pagoPuntos, reference: `${puntosCanje} pts` }]
+    : tender.payments;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -143,37 +472,189 @@ export function SalesPage() {
       // Client name is now optional - removed validation
       
       for (const it of items) {
-        if (parseInt(it.ventaQty.toString()) > it.quantity) {
-          throw new Error(`Stock insuficiente para ${it.name}. Disponible: ${it.quantity}, Solicitado: ${it.ventaQty}`);
+        if (parseInt(it.ventaQty.toString()) > getAvailableQuantity(it)) {
+          throw new Error(`Stock insuficiente para ${it.name}. Disponible: ${getAvailableQuantity(it)}, Solicitado: ${it.ventaQty}`);
         }
+        const discountError = validateDiscount(it.descuento);
+        if (discountError) throw new Error(`${it.name}: ${discountError}`);
+      }
+      const ticketDiscountError = validateDiscount(descuentoTicket);
+      if (ticketDiscountError) throw new Error(`Descuento global: ${ticketDiscountError}`);
+
+      if (!modoApartado) {
+        const tenderError = validateTender(tenderLines, totalACobrar);
+        if (tenderError) throw new Error(tenderError);
+      }
+
+      if (descuentoMaximo > limiteDescuento) {
+        setShowApprovalModal(true);
+        return;
+      }
+      await (modoApartado ? registrarApartado(null) : registrarVenta(null));
+    } catch (err: any) {
+      setError(err.message || 'Error al registrar la venta');
+    }
+  };
+
+  const handleDiscountApproved = async (aprobador: AuthUser) => {
+    setShowApprovalModal(false);
+    try {
+      await (modoApartado ? registrarApartado(aprobador.username) : registrarVenta(aprobador.username));
+    } catch (err: any) {
+      setError(err.message || 'Error al registrar la venta');
+    }
+  };
+
+  // Coupons and points are spent on sales only, so layaway mode drops them
+  const cambiarModoApartado = (activo: boolean) => {
+    setModoApartado(activo);
+    setApartado(createLayawayForm());
+    if (activo) {
+      setCupon(null);
+      setCanjePuntos(NO_POINTS);
+    }
+  };
+
+  const limpiarCarrito = () => {
+    setItems([]);
+    setCliente({ dni: '', name: '' });
+    setTenderLines([createTenderLine()]);
+    setDescuentoTicket(NO_DISCOUNT);
+    setCupon(null);
+    setCanjePuntos(NO_POINTS);
+    cambiarModoApartado(false);
+  };
+
+  // Parked and recovered carts keep what the cashier chose, not prices: those come from the catalog
+  const snapshotCarrito = (): CartSnapshot => ({
+    items: items.map(it => ({
+      productId: it.productId,
+      name: it.name,
+      quantity: parseInt(it.ventaQty.toString()) || 0,
+      discount: it.descuento
+    })),
+    client: cliente,
+    ticketDiscount: descuentoTicket,
+    couponCode: cupon?.code || null
+  });
+
+  const restaurarCarrito = async (cart: CartSnapshot) => {
+    const faltantes: string[] = [];
+    const restaurados: SaleItemWithVenta[] = [];
+    cart.items.forEach(line => {
+      const producto = productos.find(p => p.productId === line.productId);
+      if (!producto) {
+        faltantes.push(line.name);
+        return;
       }
+      restaurados.push({ ...producto, name: getProductDisplayName(producto), ventaQty: line.quantity, descuento: line.discount });
+    });
+    limpiarCarrito();
+    setItems(restaurados);
+    setCliente(cart.client);
+    setDescuentoTicket(cart.ticketDiscount);
+    if (faltantes.length) setError(`Ya no están en el catálogo: ${faltantes.join(', ')}`);
+    if (cart.couponCode) {
+      try {
+        setCupon(await couponService.getValidCoupon(cart.couponCode));
+      } catch (err: any) {
+        setCuponError(err.message || 'Cupón no válido');
+      }
+    }
+  };
+
+  const ponerEnEspera = async (label: string) => {
+    const parked = await parkedCartService.parkCart(snapshotCarrito(), label);
+    setCarritosEnEspera(await parkedCartService.getParkedCarts());
+    limpiarCarrito();
+    setError('');
+    setSuccess(`Carrito "${parked.label}" en espera.`);
+  };
+
+  // The cart on screen is parked first, so resuming never loses a sale in progress
+  const retomarCarrito = async (cart: ParkedCart) => {
+    setError('');
+    setSuccess('');
+    try {
+      if (items.length) await parkedCartService.parkCart(snapshotCarrito(), '');
+      await restaurarCarrito(await parkedCartService.resumeCart(cart));
+      setCarritosEnEspera(await parkedCartService.getParkedCarts());
+    } catch (err: any) {
+      setError(err.message || 'Error al retomar el carrito');
+    }
+  };
+
+  const descartarCarrito = async (cart: ParkedCart) => {
+    if (!window.confirm(`¿Descartar el carrito "${cart.label}"?`)) return;
+    await parkedCartService.discardCart(cart);
+    setCarritosEnEspera(await parkedCartService.getParkedCarts());
+  };
+
+  const registrarApartado = async (aprobadoPor: string | null) => {
+    const ticketDiscount = round2(lineDiscounts.reduce((sum, line) => sum + line.ticketDiscount, 0));
+    const layaway = await layawayService.createLayaway({
+      clientDni: cliente.dni,
+      clientName: cliente.name,
+      items: buildSaleItems(),
+      total: subtotal,
+      discount: ticketDiscount,
+      discountReason: ticketDiscount > 0 ? descuentoTicket.reason.trim() : null,
+      discountApprovedBy: aprobadoPor,
+      expiresAt: apartado.expiresAt,
+      deposit: {
+        method: apartado.method,
+        amount: parseFloat(apartado.deposit) || 0,
+        reference: apartado.reference.trim() || null
+      }
+    });
+
+    setLastSale(null);
+    setSuccess(`Apartado ${formatLayawayNumber(layaway.number)} registrado. Saldo pendiente: S/ ${getLayawayBalance(layaway).toFixed(2)}, vence el ${layaway.expiresAt}.`);
+    limpiarCarrito();
+    cargar(); // Reload products to update available stock
+  };
+
+  const registrarVenta = async (aprobadoPor: string | null) => {
+    try {
+      const cashSession = await cashSessionService.getCurrentSession();
+      if (!cashSession) throw new Error('No hay un turno de caja abierto. Abra la caja antes de registrar ventas.');
+
+      const tender = summarizeTender(tenderLines, totalACobrar);
+      const ticketDiscount = round2(lineDiscounts.reduce((sum, line) => sum + line.ticketDiscount, 0));
 
       const saleData: CreateSaleRequest = {
         clientDni: cliente.dni.trim() || null,
         clientName: cliente.name.trim() || null,
-        items: items.map(it => ({
-          productId: it.productId,
-          name: it.name,
-          price: parseFloat(it.ventaPrice.toString()),
-          quantity: parseInt(it.ventaQty.toString()),
-          subtotal: parseFloat(it.ventaPrice.toString()) * parseInt(it.ventaQty.toString())
-        }))
+        items: buildSaleItems(),
+        payments: buildPayments(tender),
+        cashReceived: tender.cashTendered > 0 ? tender.cashTendered : null,
+        change: tender.change,
+        cashSessionId: cashSession.id,
+        discount: ticketDiscount,
+        discountReason: ticketDiscount > 0 ? descuentoTicket.reason.trim() : null,
+        discountApprovedBy: aprobadoPor,
+        couponCode: cupon && descuentoCupon > 0 ? cupon.code : null,
+        couponDiscount: descuentoCupon,
+        pointsDiscount: descuentoPuntos
       };
 
       console.log('Creating sale with data:', saleData);
 
-      // Usar el repositorio directamente
-      const newSale = await saleRepo.create(saleData);
+      // RUC buyers are numbered in the factura series, everyone else in the boleta series
+      const documentType = electronicReceiptService.getCustomerDocumentType(cliente.dni) === '6' ? '01' : '03';
+      const newSale = await makeSale(saleData, documentType);
       console.log('Sale created:', newSale);
       
       setLastSale(newSale);
-      setSuccess('Venta registrada exitosamente.');
-      setItems([]);
-      setCliente({ dni: '', name: '' });
+      const documentNumber = getSaleDocumentNumber(newSale);
+      setSuccess(documentNumber
+        ? `Venta registrada exitosamente. Comprobante ${documentNumber}.`
+        : 'Venta registrada, pero no se pudo asignar el número de comprobante. Asígnelo desde el Historial.');
+      limpiarCarrito();
       cargar(); // Reload products to update stock
     } catch (err: any) {
       console.error('Error creating sale:', err);
-      setError(err.message || 'Error al registrar la venta');
+      throw err;
     }
   };
 
@@ -185,22 +666,23 @@ export function SalesPage() {
 
   const renderBoleta = (saleData: Sale | null) => {
     // Si no hay datos de venta, usar los items actuales para la vista previa
-    const displayItems = saleData ? saleData.items : items.map(item => ({
-      productId: item.productId,
-      name: item.name,
-      price: item.ventaPrice,
-      quantity: item.ventaQty,
-      subtotal: item.ventaPrice * item.ventaQty
-    }));
+    const displayItems = saleData ? saleData.items : buildSaleItems();
     
     const displayTotal = saleData ? saleData.total : subtotal;
+    const displayDiscount = saleData ? getSaleDiscountTotal(saleData) : descuentoTotal;
+    const displayTax = saleData ? getSaleTaxBreakdown(saleData, taxSettings.igvRate) : taxBreakdown;
     const displayClient = saleData ? saleData.clientName : cliente.name;
     const displayDni = saleData ? saleData.clientDni : cliente.dni;
+    const previewTender = saleData ? null : summarizeTender(tenderLines, totalACobrar);
+    const displayPayments = saleData ? saleData.payments : previewTender ? buildPayments(previewTender) : undefined;
+    const displayCashReceived = saleData ? saleData.cashReceived : (previewTender && previewTender.cashTendered > 0 ? previewTender.cashTendered : null);
+    const displayChange = saleData ? saleData.change : previewTender?.change;
     
     // Para la fecha: usar la fecha formateada directamente si hay saleData, sino fecha actual para vista previa
     const displayDate = saleData 
       ? formatSaleDate(saleData.date)
       : new Date().toLocaleString();
+    const displayNumber = saleData ? getSaleDocumentNumber(saleData) : null;
     
     return (
       <div className="bg-white p-6 max-w-md mx-auto text-gray-900">
@@ -209,6 +691,11 @@ export function SalesPage() {
           <p className="text-sm">{config?.address || 'Dirección'}</p>
           <p className="text-sm">Tel: {config?.phone || 'Teléfono'}</p>
           <p className="text-sm">Email: {config?.email || 'Email'}</p>
+          {saleData && displayNumber && (
+            <p className="text-sm font-semibold mt-2">
+              {DOCUMENT_TYPE_LABELS[saleData.documentType || '03'].toUpperCase()} {displayNumber}
+            </p>
+          )}
         </div>
         
         <div className="border-t border-b py-2 mb-4">
@@ -218,33 +705,27 @@ export function SalesPage() {
         </div>
 
         <div className="mb-4">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b">
-                <th className="text-left">Producto</th>
-                <th className="text-right">Cant.</th>
-                <th className="text-right">Precio</th>
-                <th className="text-right">Total</th>
-              </tr>
-            </thead>
-            <tbody>
-              {displayItems.map((item, idx) => (
-                <tr key={idx}>
-                  <td className="text-left py-1">{item.name}</td>
-                  <td className="text-right">{item.quantity}</td>
-                  <td className="text-right">S/ {item.price.toFixed(2)}</td>
-                  <td className="text-right">S/ {item.subtotal.toFixed(2)}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+          <ReceiptItems items={displayItems} />
         </div>
 
         <div className="border-t pt-2">
+          {displayDiscount > 0 && (
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>Descuentos</span>
+              <span>-S/ {displayDiscount.toFixed(2)}</span>
+            </div>
+          )}
+          <TaxSummary breakdown={displayTax} />
           <div className="flex justify-between font-bold">
             <span>TOTAL:</span>
             <span>S/ {displayTotal.toFixed(2)}</span>
           </div>
+          <PaymentBreakdown
+            payments={displayPayments}
+            cashReceived={displayCashReceived}
+            change={displayChange}
+          />
+          {saleData && <LoyaltySummary sale={saleData} />}
         </div>
 
         <div className="text-center mt-4 text-xs text-gray-500">
@@ -275,17 +756,47 @@ export function SalesPage() {
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 md:gap-8">
         {/* Left Column - Sale Form */}
         <div className="space-y-4 md:space-y-6">
+          <ParkedCartsPanel
+            carts={carritosEnEspera}
+            canPark={items.length > 0}
+            onPark={ponerEnEspera}
+            onResume={retomarCarrito}
+            onDiscard={descartarCarrito}
+          />
+
           <form onSubmit={handleSubmit} className="space-y-4 md:space-y-6">
             {/* Customer Info */}
             <div className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-md">
               <h3 className="text-base md:text-lg font-semibold mb-3 md:mb-4">Información del Cliente</h3>
               <div className="grid grid-cols-1 gap-4">
-                <Input
-                  label="DNI/RUC"
-                  value={cliente.dni}
-                  onChange={(e) => setCliente({...cliente, dni: e.target.value})}
-                  placeholder="Ingrese DNI o RUC (opcional)"
-                />
+                <div className="relative cliente-dropdown-container">
+                  <Input
+                    label="DNI/RUC"
+                    value={cliente.dni}
+                    onChange={(e) => cambiarDniCliente(e.target.value)}
+                    onFocus={() => setShowClienteDropdown(true)}
+                    placeholder="Ingrese DNI o RUC (opcional)"
+                    helperText={clienteRegistrado
+                      ? `Cliente registrado${clienteRegistrado.phone ? ` · Tel. ${clienteRegistrado.phone}` : ''}`
+                      : undefined}
+                  />
+                  {showClienteDropdown && !clienteRegistrado && sugerenciasCliente.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-48 overflow-y-auto">
+                      {sugerenciasCliente.map(c => (
+                        <div
+                          key={c.id}
+                          onClick={() => seleccionarCliente(c)}
+                          className="p-3 hover:bg-gray-50 dark:hover:bg-gray-600 cursor-pointer border-b border-gray-100 dark:border-gray-600 last:border-b-0"
+                        >
+                          <div className="font-medium text-gray-900 dark:text-white text-sm truncate">{c.name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {c.documentNumber}{c.phone ? ` | Tel. ${c.phone}` : ''}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
                 <Input
                   label="Nombre"
                   value={cliente.name}
@@ -299,42 +810,47 @@ export function SalesPage() {
             <div className="bg-white dark:bg-gray-800 rounded-lg p-4 md:p-6 shadow-md">
               <h3 className="text-base md:text-lg font-semibold mb-3 md:mb-4">Buscar Productos</h3>
               <div className="relative dropdown-container">
-                <Input
-                  label="Buscar por ID o Nombre"
-                  value={busqueda}
-                  onChange={(e) => setBusqueda(e.target.value)}
-                  placeholder="Escribe para buscar productos..."
-                  onFocus={() => setShowDropdown(true)}
-                />
+                <div className="flex items-end gap-2">
+                  <Input
+                    label="Buscar por ID o Nombre"
+                    value={busqueda}
+                    onChange={(e) => setBusqueda(e.target.value)}
+                    onKeyDown={handleBusquedaKeyDown}
+                    placeholder="Escribe o escanea el código de barras..."
+                    onFocus={() => setShowDropdown(true)}
+                    data-scanner-input
+                  />
+                  <Button type="button" variant="secondary" onClick={() => setShowCameraScanner(true)} title="Escanear con cámara">
+                    📷
+                  </Button>
+                </div>
                 
                 {showDropdown && busqueda.trim() && (
                   <div className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-48 overflow-y-auto">
-                    {productosVistas.slice(0, 5).map(p => (
+                    {resultadosBusqueda.slice(0, 5).map(p => {
+                      const variantes = p.styleId ? getVariantesDisponibles(p.styleId) : [];
+                      const agrupado = variantes.length > 1 && p.productId.toLowerCase() !== busqueda.toLowerCase().trim();
+                      return (
                       <div
                         key={p.productId}
-                        onClick={() => {
-                          setItems(items => [...items, {
-                            ...p,
-                            ventaPrice: p.price,
-                            ventaQty: 1
-                          }]);
-                          setBusqueda('');
-                          setShowDropdown(false);
-                        }}
+                        onClick={() => seleccionarProducto(p)}
                         className="p-3 hover:bg-gray-50 dark:hover:bg-gray-600 cursor-pointer border-b border-gray-100 dark:border-gray-600 last:border-b-0"
                       >
                         <div className="flex flex-col sm:flex-row sm:justify-between">
                           <div className="flex-1 min-w-0">
                             <div className="font-medium text-gray-900 dark:text-white text-sm truncate">
-                              {p.name}
+                              {agrupado ? p.name : getProductDisplayName(p)}
                             </div>
                             <div className="text-xs text-gray-500 dark:text-gray-400">
-                              ID: {p.productId} | Stock: {p.quantity} | S/ {p.price.toFixed(2)}
+                              {agrupado
+                                ? `${variantes.length} variantes | Stock: ${variantes.reduce((sum, v) => sum + getAvailableQuantity(v), 0)} | desde S/ ${Math.min(...variantes.map(v => v.price)).toFixed(2)}`
+                                : `ID: ${p.productId} | Stock: ${getAvailableQuantity(p)} | S/ ${p.price.toFixed(2)}`}
                             </div>
                           </div>
                         </div>
                       </div>
-                    ))}
+                      );
+                    })}
                     
                     {productosVistas.length === 0 && (
                       <div className="p-3 text-gray-500 dark:text-gray-400 text-center text-sm">
@@ -344,6 +860,28 @@ export function SalesPage() {
                   </div>
                 )}
               </div>
+
+              {variantStyleId && (
+                <VariantPicker
+                  styleName={getVariantesDisponibles(variantStyleId)[0]?.name || ''}
+                  variants={productos.filter(p => p.styleId === variantStyleId)}
+                  onSelect={agregarItem}
+                  onClose={() => setVariantStyleId(null)}
+                />
+              )}
+
+              {busquedaError && (
+                <p className="mt-2 text-sm text-red-500">{busquedaError}</p>
+              )}
+
+              <CameraScannerModal
+                isOpen={showCameraScanner}
+                onClose={() => setShowCameraScanner(false)}
+                onDetected={(codigo) => {
+                  setShowCameraScanner(false);
+                  handleScan(codigo);
+                }}
+              />
             </div>
 
             {/* Cart/Items Section */}
@@ -364,7 +902,7 @@ export function SalesPage() {
                             {item.name}
                           </h4>
                           <p className="text-xs text-gray-500 dark:text-gray-400">
-                            ID: {item.productId} | Stock: {item.quantity}
+                            ID: {item.productId} | Stock: {getAvailableQuantity(item)}
                           </p>
                         </div>
                         <button
@@ -385,7 +923,7 @@ export function SalesPage() {
                           <input
                             type="number"
                             min="1"
-                            max={item.quantity}
+                            max={getAvailableQuantity(item)}
                             value={item.ventaQty}
                             onChange={(e) => handleItemChange(idx, 'ventaQty', parseInt(e.target.value) || 1)}
                             className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
@@ -395,36 +933,291 @@ export function SalesPage() {
                           <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
                             Precio (S/)
                           </label>
-                          <input
-                            type="number"
-                            min="0"
-                            step="0.01"
-                            value={item.ventaPrice}
-                            onChange={(e) => handleItemChange(idx, 'ventaPrice', parseFloat(e.target.value) || 0)}
-                            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                          />
+                          <p className="px-2 py-1 text-sm text-gray-900 dark:text-white">
+                            {item.price.toFixed(2)}
+                          </p>
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Descuento
+                          </label>
+                          <div className="flex gap-1">
+                            <select
+                              value={item.descuento.type}
+                              onChange={(e) => handleDescuentoChange(idx, { type: e.target.value as DiscountType })}
+                              className="px-1 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                            >
+                              {Object.entries(DISCOUNT_TYPE_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={item.descuento.value || ''}
+                              onChange={(e) => handleDescuentoChange(idx, { value: parseFloat(e.target.value) || 0 })}
+                              placeholder="0"
+                              className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                            />
+                          </div>
                         </div>
+                        {item.descuento.value > 0 && (
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                              Motivo
+                            </label>
+                            <input
+                              type="text"
+                              value={item.descuento.reason}
+                              onChange={(e) => handleDescuentoChange(idx, { reason: e.target.value })}
+                              placeholder="Ej. prenda con falla"
+                              className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                            />
+                          </div>
+                        )}
                       </div>
                       
                       <div className="mt-2 text-right">
+                        {lineaPromociones[idx] && (
+                          <span className="mr-3 inline-flex items-center rounded-full bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                            🏷️ {lineaPromociones[idx]!.promotionName} -S/ {lineaPromociones[idx]!.discount.toFixed(2)}
+                          </span>
+                        )}
+                        {lineDiscounts[idx].lineDiscount > 0 && (
+                          <span className="mr-3 text-xs text-red-600 dark:text-red-400">
+                            -S/ {lineDiscounts[idx].lineDiscount.toFixed(2)}
+                          </span>
+                        )}
                         <span className="text-sm font-medium text-gray-900 dark:text-white">
-                          Subtotal: S/ {(parseFloat(item.ventaPrice.toString()) * parseInt(item.ventaQty.toString())).toFixed(2)}
+                          Subtotal: S/ {lineTaxes[idx].total.toFixed(2)}
                         </span>
                       </div>
                     </div>
                   ))}
                   
                   <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
+                    <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Descuento global
+                    </label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="flex gap-1">
+                        <select
+                          value={descuentoTicket.type}
+                          onChange={(e) => setDescuentoTicket({ ...descuentoTicket, type: e.target.value as DiscountType })}
+                          className="px-1 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        >
+                          {Object.entries(DISCOUNT_TYPE_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={descuentoTicket.value || ''}
+                          onChange={(e) => setDescuentoTicket({ ...descuentoTicket, value: parseFloat(e.target.value) || 0 })}
+                          placeholder="0"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                      </div>
+                      {descuentoTicket.value > 0 && (
+                        <input
+                          type="text"
+                          value={descuentoTicket.reason}
+                          onChange={(e) => setDescuentoTicket({ ...descuentoTicket, reason: e.target.value })}
+                          placeholder="Motivo del descuento"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                      )}
+                    </div>
+                    {descuentoMaximo > limiteDescuento && (
+                      <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+                        El descuento ({descuentoMaximo.toFixed(2)}%) supera su límite de {limiteDescuento}%; se pedirá autorización al registrar.
+                      </p>
+                    )}
+                  </div>
+
+                  {!modoApartado && (
+                    <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Cupón
+                      </label>
+                      {cupon ? (
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-purple-700 dark:text-purple-300">
+                            🎟️ {cupon.code} ({describeCoupon(cupon)}) -S/ {descuentoCupon.toFixed(2)}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => setCupon(null)}
+                            className="text-red-600 hover:text-red-800 text-sm"
+                          >
+                            Quitar
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={codigoCupon}
+                            onChange={(e) => setCodigoCupon(e.target.value)}
+                            onKeyDown={(e) => {
+                              // Enter applies the coupon instead of submitting the sale
+                              if (e.key === 'Enter') {
+                                e.preventDefault();
+                                aplicarCupon();
+                              }
+                            }}
+                            placeholder="Código del cupón"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white uppercase"
+                          />
+                          <Button type="button" size="sm" variant="secondary" onClick={aplicarCupon}>
+                            Aplicar
+                          </Button>
+                        </div>
+                      )}
+                      {cuponError && (
+                        <p className="mt-1 text-xs text-red-500">{cuponError}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {!modoApartado && loyaltySettings.enabled && clienteRegistrado && (
+                    <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Puntos
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                        {puntosDisponibles == null
+                          ? 'Consultando saldo...'
+                          : `Disponibles: ${puntosDisponibles} pts (S/ ${pointsToSoles(puntosDisponibles, loyaltySettings).toFixed(2)})`}
+                      </p>
+                      {!!puntosDisponibles && (
+                        <div className="flex gap-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={canjePuntos.points || ''}
+                            onChange={(e) => setCanjePuntos({ ...canjePuntos, points: Math.max(0, parseInt(e.target.value) || 0) })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') e.preventDefault();
+                            }}
+                            placeholder="Puntos a canjear"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                          />
+                          <select
+                            value={canjePuntos.mode}
+                            onChange={(e) => setCanjePuntos({ ...canjePuntos, mode: e.target.value as 'discount' | 'payment' })}
+                            className="px-1 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                          >
+                            <option value="discount">Como descuento</option>
+                            <option value="payment">Como pago</option>
+                          </select>
+                          <Button type="button" size="sm" variant="secondary" onClick={() => setCanjePuntos({ ...canjePuntos, points: maxPuntos })}>
+                            Máximo
+                          </Button>
+                        </div>
+                      )}
+                      {puntosCanje > 0 && (
+                        <p className="mt-1 text-sm text-purple-700 dark:text-purple-300">
+                          ⭐ {puntosCanje} pts {canjePuntos.mode === 'payment' ? 'pagan' : 'descuentan'} S/ {valorPuntos.toFixed(2)}
+                        </p>
+                      )}
+                      {canjePuntos.points > maxPuntos && (
+                        <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">
+                          Se pueden canjear como máximo {maxPuntos} puntos en esta venta.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
+                    {descuentoTotal > 0 && (
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        Descuentos: -S/ {descuentoTotal.toFixed(2)}
+                      </p>
+                    )}
                     <div className="flex justify-between items-center">
                       <span className="text-lg font-bold text-gray-900 dark:text-white">
                         Total: S/ {subtotal.toFixed(2)}
                       </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        IGV: S/ {taxBreakdown.igv.toFixed(2)}
+                      </span>
                     </div>
+                    {pagoPuntos > 0 && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        Pagado con puntos: S/ {pagoPuntos.toFixed(2)} · A cobrar: S/ {totalACobrar.toFixed(2)}
+                      </p>
+                    )}
                   </div>
                 </div>
               )}
             </div>
 
+            {/* Layaway: the customer leaves a deposit and the units are held until paid off */}
+            {items.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={modoApartado}
+                  onChange={(e) => cambiarModoApartado(e.target.checked)}
+                  className="rounded"
+                />
+                Registrar como apartado (separar con adelanto)
+              </label>
+            )}
+
+            {/* Tender */}
+            {items.length > 0 && !modoApartado && (
+              <TenderPanel total={totalACobrar} lines={tenderLines} onChange={setTenderLines} />
+            )}
+
+            {items.length > 0 && modoApartado && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm space-y-3">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Apartado</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Requiere DNI y nombre del cliente. Las unidades quedan reservadas hasta completar el pago o hasta el vencimiento.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <Input
+                    label="Adelanto (S/) *"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={apartado.deposit}
+                    onChange={(e) => setApartado({ ...apartado, deposit: e.target.value })}
+                  />
+                  <Select
+                    label="Medio de pago"
+                    value={apartado.method}
+                    onChange={(value) => setApartado({ ...apartado, method: value as PaymentMethod })}
+                    options={PAYMENT_METHODS
+                      .filter(method => COUNTER_PAYMENT_METHODS.includes(method.value))
+                      .map(method => ({ value: method.value, label: method.label }))}
+                  />
+                  {apartado.method !== 'cash' && (
+                    <Input
+                      label={PAYMENT_METHODS.find(method => method.value === apartado.method)?.referenceLabel || 'Referencia'}
+                      value={apartado.reference}
+                      onChange={(e) => setApartado({ ...apartado, reference: e.target.value })}
+                    />
+                  )}
+                  <Input
+                    label="Vence el *"
+                    type="date"
+                    value={apartado.expiresAt}
+                    onChange={(e) => setApartado({ ...apartado, expiresAt: e.target.value })}
+                  />
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Saldo pendiente: S/ {Math.max(0, round2(subtotal - (parseFloat(apartado.deposit) || 0))).toFixed(2)}
+                </p>
+              </div>
+            )}
+
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
                 {error}
@@ -434,21 +1227,23 @@ export function SalesPage() {
             {success && (
               <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
                 {success}
-                <div className="mt-2 flex flex-col sm:flex-row gap-2">
-                  <Button type="button" size="sm" onClick={openPrintModal}>
-                    <span className="hidden sm:inline">Ver/Imprimir Boleta</span>
-                    <span className="sm:hidden">Ver Boleta</span>
-                  </Button>
-                  <Button 
-                    type="button" 
-                    size="sm" 
-                    onClick={openWhatsAppModal}
-                    className="bg-green-600 hover:bg-green-700 text-white"
-                  >
-                    <span className="hidden sm:inline">Contactar Cliente</span>
-                    <span className="sm:hidden">Contactar</span>
-                  </Button>
-                </div>
+                {lastSale && (
+                  <div className="mt-2 flex flex-col sm:flex-row gap-2">
+                    <Button type="button" size="sm" onClick={openPrintModal}>
+                      <span className="hidden sm:inline">Ver/Imprimir Boleta</span>
+                      <span className="sm:hidden">Ver Boleta</span>
+                    </Button>
+                    <Button 
+                      type="button" 
+                      size="sm" 
+                      onClick={openWhatsAppModal}
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                    >
+                      <span className="hidden sm:inline">Contactar Cliente</span>
+                      <span className="sm:hidden">Contactar</span>
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
 
@@ -458,7 +1253,7 @@ export function SalesPage() {
                 disabled={items.length === 0}
                 className="flex-1 bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
               >
-                Registrar Venta
+                {modoApartado ? 'Registrar Apartado' : 'Registrar Venta'}
               </Button>
               <Button
                 type="button"
@@ -512,12 +1307,21 @@ export function SalesPage() {
         </Modal>
       )}
 
+      <DiscountApprovalModal
+        isOpen={showApprovalModal}
+        discountPercent={descuentoMaximo}
+        allowedPercent={limiteDescuento}
+        config={config}
+        onClose={() => setShowApprovalModal(false)}
+        onApproved={handleDiscountApproved}
+      />
+
       {/* WhatsApp Modal */}
       <WhatsAppModal
         isOpen={showWhatsAppModal}
         onClose={closeWhatsAppModal}
         storeName={config?.name}
-        defaultPhone={cliente.dni}
+        defaultPhone={telefonoCliente}
         title="Contactar Cliente por WhatsApp"
       />
     </div>
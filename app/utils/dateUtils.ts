@@ -36,3 +36,11 @@ export function formatSaleDate(dateString: string): string {
 
 // Keep the old function name for backward compatibility
 export const formatUTCDateToLocal = formatSaleDate;
+
+/**
+ * Local calendar day as YYYY-MM-DD, for comparing against date-only fields
+ * (validity windows, expiry dates) without the UTC shift of toISOString
+ */
+export function toLocalDateKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
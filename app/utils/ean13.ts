@@ -0,0 +1,16 @@
+/**
+ * EAN-13 check digit rules, shared by code lookups and the barcode encoder/decoder
+ */
+
+export const getEan13CheckDigit = (first12: string): number => {
+  const sum = first12.split('').reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * 12 digits (check digit is appended) or 13 digits with a correct check digit
+ */
+export const isValidEan13 = (code: string): boolean => {
+  if (/^\d{12}$/.test(code)) return true;
+  return /^\d{13}$/.test(code) && getEan13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+};
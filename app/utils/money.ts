@@ -0,0 +1,4 @@
+/**
+ * Rounds an amount in soles to céntimos
+ */
+export const round2 = (value: number): number => Math.round(value * 100) / 100;
@@ -0,0 +1,75 @@
+/**
+ * Spanish number-to-words conversion for legal amounts on receipts
+ */
+
+const UNITS = [
+  '', 'UNO', 'DOS', 'TRES', 'CUATRO', 'CINCO', 'SEIS', 'SIETE', 'OCHO', 'NUEVE',
+  'DIEZ', 'ONCE', 'DOCE', 'TRECE', 'CATORCE', 'QUINCE', 'DIECISEIS', 'DIECISIETE', 'DIECIOCHO', 'DIECINUEVE',
+  'VEINTE', 'VEINTIUNO', 'VEINTIDOS', 'VEINTITRES', 'VEINTICUATRO', 'VEINTICINCO', 'VEINTISEIS', 'VEINTISIETE', 'VEINTIOCHO', 'VEINTINUEVE'
+];
+
+const TENS = ['', '', '', 'TREINTA', 'CUARENTA', 'CINCUENTA', 'SESENTA', 'SETENTA', 'OCHENTA', 'NOVENTA'];
+
+const HUNDREDS = [
+  '', 'CIENTO', 'DOSCIENTOS', 'TRESCIENTOS', 'CUATROCIENTOS', 'QUINIENTOS',
+  'SEISCIENTOS', 'SETECIENTOS', 'OCHOCIENTOS', 'NOVECIENTOS'
+];
+
+function belowThousand(n: number): string {
+  if (n === 0) return '';
+  if (n === 100) return 'CIEN';
+
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+
+  if (hundreds) parts.push(HUNDREDS[hundreds]);
+
+  if (rest < 30) {
+    if (rest) parts.push(UNITS[rest]);
+  } else {
+    const tens = Math.floor(rest / 10);
+    const units = rest % 10;
+    parts.push(units ? `${TENS[tens]} Y ${UNITS[units]}` : TENS[tens]);
+  }
+
+  return parts.join(' ');
+}
+
+// "UNO" is shortened to "UN" before a noun (e.g. "UN MIL", "VEINTIUN MIL")
+function apocope(words: string): string {
+  return words.replace(/VEINTIUNO$/, 'VEINTIUN').replace(/UNO$/, 'UN');
+}
+
+export function integerToWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return 'CERO';
+
+  const millions = Math.floor(n / 1_000_000);
+  const thousands = Math.floor((n % 1_000_000) / 1000);
+  const rest = n % 1000;
+  const parts: string[] = [];
+
+  if (millions) {
+    parts.push(millions === 1 ? 'UN MILLON' : `${apocope(integerToWords(millions))} MILLONES`);
+  }
+  if (thousands) {
+    parts.push(thousands === 1 ? 'MIL' : `${apocope(belowThousand(thousands))} MIL`);
+  }
+  if (rest) {
+    parts.push(belowThousand(rest));
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Formats an amount the way SUNAT expects in the legend (catálogo 52, code 1000)
+ * e.g. 120.5 -> "CIENTO VEINTE CON 50/100 SOLES"
+ */
+export function amountToWords(amount: number, currency: string = 'SOLES'): string {
+  const cents = Math.round(Math.abs(amount) * 100);
+  const integerPart = Math.floor(cents / 100);
+  const decimalPart = cents % 100;
+  return `${integerToWords(integerPart)} CON ${String(decimalPart).padStart(2, '0')}/100 ${currency}`;
+}
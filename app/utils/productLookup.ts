@@ -0,0 +1,13 @@
+import type { Product } from '../domain/entities/Product';
+import { isValidEan13 } from './ean13';
+
+/**
+ * Product whose ID matches a typed or scanned code (case-insensitive). EAN-13 labels printed
+ * for 12-digit IDs carry an extra check digit, so those also match without it.
+ */
+export const findProductByCode = (products: Product[], code: string): Product | undefined => {
+  const normalized = code.trim().toLowerCase();
+  const exact = products.find(p => p.productId.toLowerCase() === normalized);
+  if (exact || normalized.length !== 13 || !isValidEan13(normalized)) return exact;
+  return products.find(p => p.productId === normalized.slice(0, 12));
+};